@@ -1,5 +1,5 @@
-const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const SessionService = require('../services/sessionService');
 
 // Middleware to verify JWT token
 const authenticateToken = async (req, res, next) => {
@@ -16,7 +16,7 @@ const authenticateToken = async (req, res, next) => {
     }
 
     console.log('Auth middleware - JWT_SECRET present:', !!process.env.JWT_SECRET);
-    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    const decoded = SessionService.verifyAccessToken(token);
     console.log('Auth middleware - Token decoded, userId:', decoded.userId);
 
     const user = await User.findById(decoded.userId).select('-password');
@@ -26,6 +26,15 @@ const authenticateToken = async (req, res, next) => {
       return res.status(401).json({ error: 'Invalid token' });
     }
 
+    // Signed out, reused-token and idle (sessionTimeout) sessions lose access straight away
+    if (decoded.sid) {
+      const session = await SessionService.validate(decoded.sid, user._id);
+      if (!session) {
+        return res.status(401).json({ error: 'Session expired' });
+      }
+      req.sessionId = decoded.sid;
+    }
+
     console.log('Auth middleware - User authenticated:', user.name);
     req.user = user;
     next();
@@ -61,8 +70,17 @@ const requireUserType = (allowedTypes) => {
   };
 };
 
+// Middleware to restrict admin tooling to faculty and admin accounts
+const requireFacultyOrAdmin = (req, res, next) => {
+  if (req.user.type !== 'faculty' && req.user.role !== 'admin') {
+    return res.status(403).json({ error: 'Access denied. Faculty or admin privileges required.' });
+  }
+  next();
+};
+
 module.exports = {
   authenticateToken,
   requireVerification,
-  requireUserType
+  requireUserType,
+  requireFacultyOrAdmin
 };
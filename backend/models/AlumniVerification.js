@@ -0,0 +1,59 @@
+const mongoose = require('mongoose');
+
+// Proof and review trail for an alumnus. The current status itself lives on
+// User.alumniInfo.verificationStatus so badges don't need a join; this keeps
+// the proof document out of the public profile projection.
+const reviewSchema = new mongoose.Schema({
+  decision: {
+    type: String,
+    enum: ['verified', 'rejected'],
+    required: true
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: 1000
+  },
+  reviewer: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  at: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const alumniVerificationSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true
+  },
+  proofDocument: {
+    url: String,
+    fileName: String,
+    uploadedAt: Date
+  },
+  // Last time the alumnus (re)submitted for review
+  submittedAt: {
+    type: Date
+  },
+  reviewedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reviewedAt: {
+    type: Date
+  },
+  rejectionReason: {
+    type: String
+  },
+  history: [reviewSchema]
+}, {
+  timestamps: true
+});
+
+module.exports = mongoose.model('AlumniVerification', alumniVerificationSchema);
@@ -0,0 +1,55 @@
+const mongoose = require('mongoose');
+
+const countSchema = new mongoose.Schema({
+  key: { type: String, required: true },
+  count: { type: Number, default: 0 }
+}, { _id: false });
+
+const postEngagementSchema = new mongoose.Schema({
+  postId: { type: mongoose.Schema.Types.ObjectId, ref: 'Post', required: true },
+  authorId: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  title: String,
+  engagement: { type: Number, default: 0 }
+}, { _id: false });
+
+const userEngagementSchema = new mongoose.Schema({
+  userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  engagement: { type: Number, default: 0 }
+}, { _id: false });
+
+// Pre-aggregated platform activity for one UTC day, built by AnalyticsService
+const analyticsDailyRollupSchema = new mongoose.Schema({
+  // UTC midnight of the day this rollup covers
+  date: {
+    type: Date,
+    required: true,
+    unique: true
+  },
+  newUsers: { type: Number, default: 0 },
+  newUsersByType: [countSchema],
+  activeUsers: { type: Number, default: 0 },
+  // Users who posted, commented, shared, messaged, followed or signed in that day
+  activeUserIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  posts: { type: Number, default: 0 },
+  postsByType: [countSchema],
+  likes: { type: Number, default: 0 },
+  comments: { type: Number, default: 0 },
+  shares: { type: Number, default: 0 },
+  messages: { type: Number, default: 0 },
+  follows: { type: Number, default: 0 },
+  followRequests: { type: Number, default: 0 },
+  notifications: { type: Number, default: 0 },
+  engagement: { type: Number, default: 0 },
+  tags: [countSchema],
+  topPosts: [postEngagementSchema],
+  topUsers: [userEngagementSchema],
+  computedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+module.exports = mongoose.model('AnalyticsDailyRollup', analyticsDailyRollupSchema);
@@ -0,0 +1,91 @@
+const mongoose = require('mongoose');
+
+// Replies nest up to this depth (0 = comment on the post); replying deeper
+// attaches to the deepest allowed ancestor instead
+const MAX_DEPTH = 2;
+
+const commentSchema = new mongoose.Schema({
+  post: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Post',
+    required: true
+  },
+  parent: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Comment',
+    default: null
+  },
+  depth: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: MAX_DEPTH
+  },
+  author: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Mentions are stored inline as @[Name](userId); see services/commentService.js
+  content: {
+    type: String,
+    trim: true,
+    maxlength: 2000
+  },
+  mentions: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  likes: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  // Approved direct replies, including deleted placeholders that still have replies
+  replyCount: {
+    type: Number,
+    default: 0
+  },
+  // 'pending' comments are held for moderator review, 'removed' ones are hidden
+  moderationStatus: {
+    type: String,
+    enum: ['approved', 'pending', 'removed'],
+    default: 'approved'
+  },
+  editedAt: {
+    type: Date,
+    default: null
+  },
+  // Deleting a comment that has replies keeps it as a placeholder so the thread stays intact
+  deletedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+commentSchema.index({ post: 1, parent: 1, createdAt: 1 });
+commentSchema.index({ author: 1 });
+commentSchema.index({ createdAt: 1 });
+
+// Whether this comment counts towards Post.commentCount
+commentSchema.methods.isCounted = function() {
+  return this.moderationStatus === 'approved' && !this.deletedAt;
+};
+
+/**
+ * Shift the denormalised counters for a comment: the post's commentCount and,
+ * for replies, the parent's replyCount. A soft-deleted reply still shows in
+ * its thread, so callers pass replyDelta 0 for that case.
+ */
+commentSchema.statics.adjustCounts = async function(comment, delta, { replyDelta = delta } = {}) {
+  const Post = mongoose.model('Post');
+  await Promise.all([
+    delta ? Post.updateOne({ _id: comment.post }, { $inc: { commentCount: delta } }) : null,
+    replyDelta && comment.parent ? this.updateOne({ _id: comment.parent }, { $inc: { replyCount: replyDelta } }) : null
+  ]);
+};
+
+commentSchema.statics.MAX_DEPTH = MAX_DEPTH;
+
+module.exports = mongoose.model('Comment', commentSchema);
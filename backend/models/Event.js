@@ -1,4 +1,31 @@
 const mongoose = require('mongoose');
+const crypto = require('crypto');
+
+const ticketSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Short code shown to the attendee and encoded in their QR ticket
+  code: {
+    type: String,
+    required: true
+  },
+  issuedAt: {
+    type: Date,
+    default: Date.now
+  },
+  checkedInAt: {
+    type: Date,
+    default: null
+  },
+  checkedInBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  }
+}, { _id: false });
 
 const eventSchema = new mongoose.Schema({
   title: {
@@ -45,6 +72,21 @@ const eventSchema = new mongoose.Schema({
     type: Number,
     default: 0
   },
+  // null means unlimited
+  capacity: {
+    type: Number,
+    min: 1,
+    default: null
+  },
+  // Users waiting for a seat, in the order they joined
+  waitlist: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  tickets: {
+    type: [ticketSchema],
+    default: []
+  },
   status: {
     type: String,
     enum: ['upcoming', 'ongoing', 'completed', 'cancelled'],
@@ -54,9 +96,120 @@ const eventSchema = new mongoose.Schema({
     type: String,
     required: true,
     trim: true
+  },
+  // Organizer account; older events only carry the organizer's name in createdBy
+  createdById: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
   }
 }, {
   timestamps: true
 });
 
+eventSchema.index({ date: 1, time: 1 });
+eventSchema.index({ 'tickets.code': 1 });
+eventSchema.index({ type: 1, date: 1 });
+
+eventSchema.methods.isAttending = function (userId) {
+  return this.attendees.some(id => id.toString() === userId.toString());
+};
+
+eventSchema.methods.isWaitlisted = function (userId) {
+  return this.waitlist.some(id => id.toString() === userId.toString());
+};
+
+eventSchema.methods.hasSeatAvailable = function () {
+  return !this.capacity || this.attendees.length < this.capacity;
+};
+
+eventSchema.methods.getTicket = function (userId) {
+  return this.tickets.find(ticket => ticket.userId.toString() === userId.toString());
+};
+
+// Confirm a seat for the user and issue their check-in code
+eventSchema.methods.addAttendee = function (userId) {
+  if (!this.isAttending(userId)) {
+    this.attendees.push(userId);
+  }
+  this.waitlist = this.waitlist.filter(id => id.toString() !== userId.toString());
+  if (!this.getTicket(userId)) {
+    let code;
+    do {
+      code = crypto.randomBytes(4).toString('hex').toUpperCase();
+    } while (this.tickets.some(ticket => ticket.code === code));
+    this.tickets.push({ userId, code });
+  }
+  this.attendeeCount = this.attendees.length;
+};
+
+// Seats are taken and given back with single conditional updates rather than
+// read-check-save, so concurrent RSVPs can't push attendees past capacity.
+const hasFreeSeat = {
+  $or: [
+    { capacity: null },
+    { $expr: { $lt: [{ $size: { $ifNull: ['$attendees', []] } }, '$capacity'] } }
+  ]
+};
+
+// Seat the user if one is free at write time. Returns the updated event, or null when full.
+eventSchema.statics.claimSeat = function (eventId, userId, filter = {}) {
+  return this.findOneAndUpdate(
+    { _id: eventId, attendees: { $ne: userId }, ...hasFreeSeat, ...filter },
+    {
+      $push: { attendees: userId, tickets: { userId, code: crypto.randomBytes(4).toString('hex').toUpperCase() } },
+      $pull: { waitlist: userId },
+      $inc: { attendeeCount: 1 }
+    },
+    { new: true }
+  );
+};
+
+eventSchema.statics.joinWaitlist = function (eventId, userId) {
+  return this.findOneAndUpdate(
+    { _id: eventId, attendees: { $ne: userId }, waitlist: { $ne: userId } },
+    { $push: { waitlist: userId } },
+    { new: true }
+  );
+};
+
+// Drop the user's seat and ticket, or their waitlist spot
+eventSchema.statics.releaseSeat = async function (eventId, userId) {
+  const released = await this.findOneAndUpdate(
+    { _id: eventId, attendees: userId },
+    { $pull: { attendees: userId, waitlist: userId, tickets: { userId } }, $inc: { attendeeCount: -1 } },
+    { new: true }
+  );
+  return released || this.findOneAndUpdate({ _id: eventId }, { $pull: { waitlist: userId } }, { new: true });
+};
+
+/**
+ * Move waitlisted users into free seats in order. Each promotion is conditional
+ * on the user still heading the waitlist and a seat still being free.
+ * Returns the latest event and the promoted user ids.
+ */
+eventSchema.statics.promoteWaitlist = async function (eventId) {
+  const promoted = [];
+  let event = await this.findById(eventId);
+  while (event && event.waitlist.length > 0 && event.hasSeatAvailable()) {
+    const next = event.waitlist[0];
+    if (event.isAttending(next)) {
+      event = await this.findOneAndUpdate({ _id: eventId }, { $pull: { waitlist: next } }, { new: true });
+      continue;
+    }
+    const updated = await this.claimSeat(eventId, next, { 'waitlist.0': next });
+    if (updated) promoted.push(next);
+    // Lost a race with another RSVP; re-read and carry on
+    event = updated || await this.findById(eventId);
+  }
+  return { event, promoted };
+};
+
+// Event data safe to share with anyone: check-in codes stay private
+eventSchema.methods.toPublicJSON = function () {
+  const obj = this.toObject();
+  delete obj.tickets;
+  return obj;
+};
+
 module.exports = mongoose.model('Event', eventSchema);
@@ -0,0 +1,26 @@
+const mongoose = require('mongoose');
+
+// The order a "For you" feed was ranked in when its first page was served, so
+// later pages read from it instead of re-ranking; see services/feedService.js
+const feedSnapshotSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  postIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Post'
+  }],
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// MongoDB drops snapshots nobody is scrolling any more
+feedSnapshotSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+module.exports = mongoose.model('FeedSnapshot', feedSnapshotSchema);
@@ -0,0 +1,146 @@
+const mongoose = require('mongoose');
+
+const auditEntrySchema = new mongoose.Schema({
+  action: {
+    type: String,
+    enum: ['flagged', 'approved', 'removed', 'warned'],
+    required: true
+  },
+  actor: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null // null for automatic moderation
+  },
+  notes: {
+    type: String,
+    trim: true
+  },
+  at: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const reportSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  reason: {
+    type: String,
+    enum: ['spam', 'harassment', 'hate_speech', 'inappropriate', 'misinformation', 'impersonation', 'other'],
+    required: true
+  },
+  details: {
+    type: String,
+    trim: true,
+    maxlength: 1000
+  },
+  at: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const flaggedContentSchema = new mongoose.Schema({
+  contentType: {
+    type: String,
+    enum: ['post', 'comment', 'message', 'profile'],
+    required: true
+  },
+  // Post, message or user id. Comments are addressed by parentId + contentId.
+  contentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true
+  },
+  parentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    default: null
+  },
+  authorId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  excerpt: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  matchedFields: {
+    type: [String],
+    default: []
+  },
+  reason: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  severity: {
+    type: String,
+    enum: ['low', 'medium', 'high'],
+    default: 'medium'
+  },
+  // True when the content is held back from other users until reviewed
+  queued: {
+    type: Boolean,
+    default: false
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'reviewed', 'resolved'],
+    default: 'pending'
+  },
+  source: {
+    type: String,
+    enum: ['auto', 'report'],
+    default: 'auto'
+  },
+  flaggedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  // Member reports merged into this entry (source 'report')
+  reporters: {
+    type: [reportSchema],
+    default: []
+  },
+  reportCount: {
+    type: Number,
+    default: 0
+  },
+  reviewedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reviewedAt: Date,
+  action: {
+    type: String,
+    enum: ['approved', 'removed', 'warned']
+  },
+  notes: {
+    type: String,
+    trim: true
+  },
+  auditTrail: {
+    type: [auditEntrySchema],
+    default: []
+  }
+}, {
+  timestamps: true
+});
+
+flaggedContentSchema.index({ status: 1, createdAt: -1 });
+flaggedContentSchema.index({ contentType: 1, contentId: 1 });
+// At most one pending entry per item; concurrent reports merge into it
+flaggedContentSchema.index(
+  { contentType: 1, contentId: 1, status: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+flaggedContentSchema.index({ 'reporters.userId': 1, 'reporters.at': -1 });
+
+flaggedContentSchema.set('toJSON', { virtuals: true });
+
+module.exports = mongoose.model('FlaggedContent', flaggedContentSchema);
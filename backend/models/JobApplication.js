@@ -0,0 +1,52 @@
+const mongoose = require('mongoose');
+
+const APPLICATION_STATUSES = ['applied', 'shortlisted', 'interviewing', 'offered', 'rejected', 'withdrawn'];
+
+const statusChangeSchema = new mongoose.Schema({
+  status: { type: String, enum: APPLICATION_STATUSES, required: true },
+  changedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  note: { type: String, trim: true, maxlength: 500 },
+  at: { type: Date, default: Date.now }
+}, { _id: false });
+
+const jobApplicationSchema = new mongoose.Schema({
+  job: { type: mongoose.Schema.Types.ObjectId, ref: 'JobPosting', required: true },
+  applicant: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  // Copied from the job so the poster's pipeline can be queried without a join
+  poster: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+
+  // Snapshot of User.resume at the time of applying
+  resume: { type: String, trim: true, default: null },
+  coverLetter: { type: String, trim: true, maxlength: 2000 },
+  // Applied through a coordinator override rather than meeting the job's criteria
+  eligibilityOverridden: { type: Boolean, default: false },
+
+  status: { type: String, enum: APPLICATION_STATUSES, default: 'applied' },
+  history: { type: [statusChangeSchema], default: [] },
+
+  // Private to the poster
+  posterNotes: { type: String, trim: true, maxlength: 1000 }
+}, {
+  timestamps: true
+});
+
+jobApplicationSchema.index({ job: 1, applicant: 1 }, { unique: true });
+jobApplicationSchema.index({ applicant: 1, createdAt: -1 });
+jobApplicationSchema.index({ poster: 1, status: 1 });
+
+jobApplicationSchema.methods.setStatus = function(status, changedBy, note) {
+  this.status = status;
+  this.history.push({ status, changedBy, note });
+};
+
+// What the applicant sees of their own application
+jobApplicationSchema.methods.toApplicantJSON = function() {
+  const obj = this.toJSON();
+  delete obj.posterNotes;
+  return obj;
+};
+
+const JobApplication = mongoose.model('JobApplication', jobApplicationSchema);
+JobApplication.STATUSES = APPLICATION_STATUSES;
+
+module.exports = JobApplication;
@@ -23,12 +23,20 @@ const jobPostingSchema = new mongoose.Schema({
   eligibleBranches: { type: [String], default: [] },
   experienceLevel: { type: String, trim: true },
   eligibilityCriteria: { type: String, trim: true },
+  // Applicants a placement coordinator has cleared despite failing the checks above
+  eligibilityOverrides: [{
+    userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    grantedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    note: { type: String, trim: true, maxlength: 500 },
+    at: { type: Date, default: Date.now }
+  }],
 
   // Application Process
   deadline: { type: Date },
   applicationLink: { type: String, trim: true },
   hiringTimeline: { type: String, trim: true },
-  contactEmail: { type: String, required: true, trim: true, lowercase: true },
+  // Mirrored feed posts fall back to the author's email, which may be missing
+  contactEmail: { type: String, required: function() { return !this.sourcePost; }, trim: true, lowercase: true },
 
   // Interview Process
   interviewRounds: { type: Number, default: 0 },
@@ -41,9 +49,36 @@ const jobPostingSchema = new mongoose.Schema({
 
   // Meta
   postedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
-  isActive: { type: Boolean, default: true }
+  isActive: { type: Boolean, default: true },
+  // Set when the posting mirrors a job post from the feed
+  sourcePost: { type: mongoose.Schema.Types.ObjectId, ref: 'Post' },
+  // Copied from the source post; only 'everyone' postings are listed, the rest are reached through their post
+  audience: {
+    type: String,
+    enum: ['everyone', 'followers', 'mutuals', 'department', 'batch', 'group'],
+    default: 'everyone'
+  }
 }, {
   timestamps: true
 });
 
-module.exports = mongoose.model('JobPosting', jobPostingSchema);
+jobPostingSchema.index({ sourcePost: 1 }, { unique: true, sparse: true });
+
+jobPostingSchema.methods.hasEligibilityOverride = function(userId) {
+  return (this.eligibilityOverrides || []).some(o => o.userId.toString() === userId.toString());
+};
+
+// Applications close at the end of the deadline day
+jobPostingSchema.methods.isPastDeadline = function(now = new Date()) {
+  if (!this.deadline) return false;
+  const closesAt = new Date(this.deadline);
+  closesAt.setHours(23, 59, 59, 999);
+  return now > closesAt;
+};
+
+const JobPosting = mongoose.model('JobPosting', jobPostingSchema);
+
+// Postings anyone may find in listings, recommendations and digests (missing audience predates audiences)
+JobPosting.LISTED = { audience: { $in: [null, 'everyone'] } };
+
+module.exports = JobPosting;
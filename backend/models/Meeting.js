@@ -90,6 +90,12 @@ const participantSessionSchema = new mongoose.Schema({
   duration: { type: Number } // minutes
 }, { _id: false });
 
+const breakoutTimeSchema = new mongoose.Schema({
+  breakoutId: { type: String },
+  name: { type: String },
+  duration: { type: Number } // minutes
+}, { _id: false });
+
 const participantAttendanceSchema = new mongoose.Schema({
   email: { type: String },
   name: { type: String },
@@ -97,6 +103,7 @@ const participantAttendanceSchema = new mongoose.Schema({
   leaveTime: { type: Date },
   duration: { type: Number }, // minutes
   sessions: { type: [participantSessionSchema], default: [] },
+  breakoutRooms: { type: [breakoutTimeSchema], default: [] },
   attendancePercentage: { type: Number },
   attendanceStatus: { type: String, enum: ['Present', 'Partial', 'Absent'] },
   statusColor: { type: String }
@@ -122,6 +129,97 @@ meetingSchema.add({
   }]
 });
 
+// In-app room controls (see services/meetingSocketService.js)
+meetingSchema.add({
+  waiting_room_enabled: { type: Boolean, default: false },
+  locked: { type: Boolean, default: false },
+  co_host_ids: [{ type: String }],
+  // Removed and blocked from this meeting; they can't rejoin or knock
+  blocked_participants: [{
+    user_id: { type: String },
+    email: { type: String },
+    name: { type: String },
+    blocked_at: { type: Date, default: Date.now }
+  }],
+  // Audit trail of host/co-host actions for the attendance report
+  host_actions: [{
+    action: {
+      type: String,
+      enum: ['admit', 'deny', 'promote_cohost', 'demote_cohost', 'remove', 'block', 'lock', 'unlock', 'waiting_room_on', 'waiting_room_off', 'mute_all', 'breakouts_open', 'breakouts_close']
+    },
+    actor_id: { type: String },
+    actor_name: { type: String },
+    target_id: { type: String },
+    target_name: { type: String },
+    target_email: { type: String },
+    timestamp: { type: Date, default: Date.now }
+  }],
+  // One entry per stay in a breakout room
+  breakout_logs: [{
+    email: { type: String },
+    name: { type: String },
+    breakout_id: { type: String },
+    breakout_name: { type: String },
+    joined_at: { type: Date },
+    left_at: { type: Date }
+  }]
+});
+
+// Polls and timed quizzes launched during the in-app meeting
+const meetingPollAnswerSchema = new mongoose.Schema({
+  user_id: { type: String },
+  email: { type: String },
+  name: { type: String },
+  option_id: { type: String },
+  correct: { type: Boolean }, // quizzes only
+  answered_at: { type: Date, default: Date.now }
+}, { _id: false });
+
+const meetingPollSchema = new mongoose.Schema({
+  id: { type: String, required: true },
+  type: { type: String, enum: ['poll', 'quiz'], default: 'poll' },
+  question: { type: String, required: true },
+  options: [{
+    id: { type: String },
+    text: { type: String }
+  }],
+  correct_option_id: { type: String }, // quizzes only
+  created_by: { type: String },
+  created_by_name: { type: String },
+  started_at: { type: Date, default: Date.now },
+  ends_at: { type: Date }, // quizzes close themselves at this time
+  closed_at: { type: Date },
+  answers: { type: [meetingPollAnswerSchema], default: [] }
+}, { _id: false });
+
+meetingSchema.add({
+  polls: { type: [meetingPollSchema], default: [] }
+});
+
+// In-app chat transcript and reactions for the post-meeting summary. Both keep
+// only the most recent entries (see MAX_STORED_* in services/meetingSocketService.js)
+const meetingChatMessageSchema = new mongoose.Schema({
+  message_id: { type: String, required: true },
+  user_id: { type: String },
+  name: { type: String },
+  breakout_id: { type: String }, // null for the main room
+  breakout_name: { type: String },
+  text: { type: String, required: true },
+  links: [{ type: String }], // URLs found in the text
+  liked_by: [{ type: String }],
+  sent_at: { type: Date, default: Date.now }
+}, { _id: false });
+
+meetingSchema.add({
+  chat_messages: { type: [meetingChatMessageSchema], default: [] },
+  reactions: [{
+    user_id: { type: String },
+    name: { type: String },
+    emoji: { type: String },
+    timestamp: { type: Date, default: Date.now }
+  }]
+});
+
 // Indexes for better performance
 meetingSchema.index({ host_id: 1, status: 1 });
 meetingSchema.index({ event_id: 1 }, { unique: true });
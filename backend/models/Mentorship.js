@@ -0,0 +1,79 @@
+const mongoose = require('mongoose');
+
+// pending -> active -> closed, or pending -> declined / cancelled
+const MENTORSHIP_STATUSES = ['pending', 'active', 'declined', 'cancelled', 'closed'];
+const OPEN_STATUSES = ['pending', 'active'];
+const SESSION_STATUSES = ['scheduled', 'completed', 'cancelled'];
+
+const sessionSchema = new mongoose.Schema({
+  scheduledAt: { type: Date, required: true },
+  durationMinutes: { type: Number, default: 30, min: 5, max: 480 },
+  topic: { type: String, trim: true, maxlength: 200 },
+  meetingLink: { type: String, trim: true },
+  // Shared summary written after the session
+  notes: { type: String, trim: true, maxlength: 2000 },
+  status: { type: String, enum: SESSION_STATUSES, default: 'scheduled' },
+  createdBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' }
+}, { timestamps: true });
+
+const noteSchema = new mongoose.Schema({
+  author: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  text: { type: String, trim: true, required: true, maxlength: 2000 }
+}, { timestamps: true });
+
+const goalSchema = new mongoose.Schema({
+  text: { type: String, trim: true, required: true, maxlength: 300 },
+  done: { type: Boolean, default: false },
+  completedAt: { type: Date },
+  createdBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' }
+}, { timestamps: true });
+
+const feedbackSchema = new mongoose.Schema({
+  author: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  rating: { type: Number, min: 1, max: 5 },
+  comment: { type: String, trim: true, maxlength: 1000 },
+  at: { type: Date, default: Date.now }
+}, { _id: false });
+
+const mentorshipSchema = new mongoose.Schema({
+  mentor: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  mentee: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  area: { type: String, trim: true, maxlength: 100 },
+  // What the mentee wrote when asking; the checklist lives in goals
+  requestMessage: { type: String, trim: true, required: true, maxlength: 2000 },
+
+  status: { type: String, enum: MENTORSHIP_STATUSES, default: 'pending' },
+  respondedAt: { type: Date },
+  responseNote: { type: String, trim: true, maxlength: 500 },
+
+  sessions: { type: [sessionSchema], default: [] },
+  notes: { type: [noteSchema], default: [] },
+  goals: { type: [goalSchema], default: [] },
+
+  closedAt: { type: Date },
+  closedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  // One entry per side; whoever closes leaves theirs first, the other can add theirs later
+  feedback: { type: [feedbackSchema], default: [] }
+}, {
+  timestamps: true
+});
+
+// One open request or mentorship per pair
+mentorshipSchema.index(
+  { mentor: 1, mentee: 1 },
+  { unique: true, partialFilterExpression: { status: { $in: OPEN_STATUSES } } }
+);
+mentorshipSchema.index({ mentor: 1, status: 1 });
+mentorshipSchema.index({ mentee: 1, status: 1 });
+
+mentorshipSchema.methods.isParticipant = function(userId) {
+  const id = userId.toString();
+  return (this.mentor._id || this.mentor).toString() === id || (this.mentee._id || this.mentee).toString() === id;
+};
+
+const Mentorship = mongoose.model('Mentorship', mentorshipSchema);
+Mentorship.STATUSES = MENTORSHIP_STATUSES;
+Mentorship.OPEN_STATUSES = OPEN_STATUSES;
+Mentorship.SESSION_STATUSES = SESSION_STATUSES;
+
+module.exports = Mentorship;
@@ -23,16 +23,38 @@ const messageSchema = new mongoose.Schema({
     required: true,
     trim: true
   },
-  // Encrypted content for private messages
+  // End-to-end encrypted payload. The server only stores ciphertext: the body is
+  // sealed with a random message key, which is wrapped once per participant device
+  // under an ECDH + HKDF key that only the two devices involved can derive.
   encryptedContent: {
-    encrypted: String,
+    version: Number,
+    ciphertext: String,
     iv: String,
+    senderDeviceId: String,
+    senderPublicKey: String,
+    keys: [{
+      _id: false,
+      userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User'
+      },
+      deviceId: String,
+      wrappedKey: String,
+      iv: String
+    }],
+    // Retired server-keyed format (hex), kept so migrated messages can be identified
+    encrypted: String,
     authTag: String
   },
   isEncrypted: {
     type: Boolean,
     default: false
   },
+  // Set by the legacy migration on messages flagged encrypted before E2EE existed
+  legacyEncryption: {
+    type: Boolean,
+    default: false
+  },
   messageType: {
     type: String,
     enum: ['text', 'image', 'video', 'pdf', 'file', 'system'],
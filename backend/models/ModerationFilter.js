@@ -0,0 +1,42 @@
+const mongoose = require('mongoose');
+
+const moderationFilterSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: ['keyword', 'regex', 'ai'],
+    required: true
+  },
+  // Comma-separated keywords for keyword filters, a pattern for regex filters
+  pattern: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  action: {
+    type: String,
+    enum: ['block', 'flag', 'review'],
+    default: 'flag'
+  },
+  severity: {
+    type: String,
+    enum: ['low', 'medium', 'high'],
+    default: 'medium'
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+moderationFilterSchema.index({ enabled: 1 });
+
+moderationFilterSchema.set('toJSON', { virtuals: true });
+
+module.exports = mongoose.model('ModerationFilter', moderationFilterSchema);
@@ -0,0 +1,70 @@
+const mongoose = require('mongoose');
+
+const conditionSchema = new mongoose.Schema({
+  field: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  operator: {
+    type: String,
+    enum: ['contains', 'equals', 'regex', 'length'],
+    required: true
+  },
+  value: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  }
+}, { _id: false });
+
+const moderationRuleSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  description: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  type: {
+    type: String,
+    enum: ['post', 'comment', 'message', 'profile'],
+    required: true
+  },
+  // All conditions must match for the rule to apply
+  conditions: {
+    type: [conditionSchema],
+    default: []
+  },
+  action: {
+    type: String,
+    enum: ['block', 'flag', 'review', 'auto-approve'],
+    default: 'flag'
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  priority: {
+    type: Number,
+    min: 1,
+    max: 10,
+    default: 1
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+moderationRuleSchema.index({ type: 1, enabled: 1, priority: -1 });
+
+moderationRuleSchema.set('toJSON', { virtuals: true });
+
+module.exports = mongoose.model('ModerationRule', moderationRuleSchema);
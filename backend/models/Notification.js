@@ -27,6 +27,9 @@ const notificationSchema = new mongoose.Schema({
       'event_invitation',
       'job_application',
       'job_update',
+      'mentorship_request',
+      'mentorship_update',
+      'verification_update',
       'system_announcement',
       'security_alert'
     ],
@@ -1,30 +1,5 @@
 const mongoose = require('mongoose');
 
-const commentSchema = new mongoose.Schema({
-  commentId: {
-    type: mongoose.Schema.Types.ObjectId,
-    default: () => new mongoose.Types.ObjectId()
-  },
-  author: {
-    type: mongoose.Schema.Types.ObjectId,
-    ref: 'User',
-    required: true
-  },
-  content: {
-    type: String,
-    required: true,
-    trim: true
-  },
-  likes: [{
-    type: mongoose.Schema.Types.ObjectId,
-    ref: 'User'
-  }],
-  createdAt: {
-    type: Date,
-    default: Date.now
-  }
-});
-
 const postSchema = new mongoose.Schema({
   author: {
     type: mongoose.Schema.Types.ObjectId,
@@ -88,7 +63,11 @@ const postSchema = new mongoose.Schema({
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User'
   }],
-  comments: [commentSchema],
+  // Approved comments and replies; the comments themselves live in the Comment collection
+  commentCount: {
+    type: Number,
+    default: 0
+  },
   shares: [{
     userId: {
       type: mongoose.Schema.Types.ObjectId,
@@ -104,6 +83,18 @@ const postSchema = new mongoose.Schema({
     type: String,
     trim: true
   }],
+  // Who can read the post; enforced by services/postAudienceService.js.
+  // isPublic mirrors audience === 'everyone' for older queries.
+  audience: {
+    type: String,
+    enum: ['everyone', 'followers', 'mutuals', 'department', 'batch', 'group'],
+    default: 'everyone'
+  },
+  // The batch targeted by a 'batch' audience
+  audienceBatch: {
+    type: String,
+    trim: true
+  },
   isPublic: {
     type: Boolean,
     default: true
@@ -126,6 +117,12 @@ const postSchema = new mongoose.Schema({
     ref: 'Post',
     default: null
   },
+  // 'pending' posts are held for moderator review, 'removed' ones are hidden
+  moderationStatus: {
+    type: String,
+    enum: ['approved', 'pending', 'removed'],
+    default: 'approved'
+  },
   
   // Job Post Specific Fields
   jobDetails: {
@@ -329,11 +326,6 @@ postSchema.virtual('likeCount').get(function() {
   return this.likes.length;
 });
 
-// Virtual for comment count
-postSchema.virtual('commentCount').get(function() {
-  return this.comments.length;
-});
-
 // Virtual for timeAgo
 postSchema.virtual('timeAgo').get(function() {
   const now = new Date();
@@ -350,7 +342,10 @@ postSchema.virtual('timeAgo').get(function() {
 postSchema.index({ author: 1, createdAt: -1 });
 postSchema.index({ tags: 1 });
 postSchema.index({ isPublic: 1, createdAt: -1 });
+postSchema.index({ audience: 1, createdAt: -1 });
+postSchema.index({ moderationStatus: 1 });
 postSchema.index({ postType: 1 });
+postSchema.index({ 'shares.sharedAt': 1 });
 postSchema.index({ 'jobDetails.company': 1 });
 postSchema.index({ 'eventDetails.date': 1 });
 
@@ -0,0 +1,61 @@
+const mongoose = require('mongoose');
+
+// One record per signed-in device; see services/sessionService.js
+const sessionSchema = new mongoose.Schema({
+  sessionId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  // jti of the only refresh token currently valid for this session
+  refreshTokenId: {
+    type: String,
+    required: true
+  },
+  // The token it replaced, briefly tolerated so parallel refreshes from one tab aren't flagged as reuse
+  previousRefreshTokenId: {
+    type: String
+  },
+  rotatedAt: {
+    type: Date
+  },
+  device: {
+    type: String
+  },
+  userAgent: {
+    type: String
+  },
+  ip: {
+    type: String
+  },
+  lastUsedAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'logout_all', 'revoked', 'reuse_detected', 'timeout', 'password_reset']
+  }
+}, {
+  timestamps: true
+});
+
+sessionSchema.index({ userId: 1, revokedAt: 1, lastUsedAt: -1 });
+// MongoDB drops sessions once their refresh token could no longer be used anyway
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+module.exports = mongoose.model('Session', sessionSchema);
@@ -194,7 +194,20 @@ const userSchema = new mongoose.Schema({
       type: Boolean,
       default: false
     },
-    mentorshipAreas: [String]
+    mentorshipAreas: [String],
+    // Most active mentees at once; new requests are refused once reached
+    mentorshipCapacity: {
+      type: Number,
+      default: 3,
+      min: 1,
+      max: 20
+    },
+    // Active mentorships, kept by MentorshipService so accepts can be checked against capacity atomically
+    activeMentees: {
+      type: Number,
+      default: 0,
+      min: 0
+    }
   },
 
   // Faculty-specific fields
@@ -361,6 +374,54 @@ const userSchema = new mongoose.Schema({
     },
     scope: String
   },
+  // Private iCalendar feed; rotating or clearing the token revokes old subscriptions
+  calendarFeed: {
+    token: String,
+    createdAt: Date
+  },
+  // Forgot-password flow: only a SHA-256 hash of the emailed token is stored
+  passwordReset: {
+    tokenHash: String,
+    expiresAt: Date,
+    requestedAt: Date
+  },
+  // TOTP two-factor authentication (see services/totpService.js)
+  twoFactor: {
+    enabled: { type: Boolean, default: false },
+    secret: String, // encrypted
+    pendingSecret: String, // encrypted, set during enrollment until the first code is verified
+    enabledAt: Date,
+    lastUsedStep: Number, // rejects replays of an already used code
+    recoveryCodes: [{
+      hash: String,
+      usedAt: Date
+    }]
+  },
+  // Embedded in refresh tokens; bumping it signs the user out everywhere
+  tokenVersion: {
+    type: Number,
+    default: 0
+  },
+  // Per-device ECDH (P-256) public keys for end-to-end encrypted messages.
+  // Private keys never leave the device; revoked devices stop receiving new messages.
+  encryptionDevices: [{
+    deviceId: { type: String, required: true },
+    publicKey: { type: String, required: true }, // base64 SPKI
+    label: { type: String, maxlength: 100 },
+    createdAt: { type: Date, default: Date.now },
+    lastSeenAt: Date,
+    revokedAt: Date
+  }],
+  // Passphrase-encrypted backup of the user's device private keys. Only ciphertext
+  // and the KDF parameters are stored; the passphrase never reaches the server.
+  keyBackup: {
+    ciphertext: String,
+    iv: String,
+    salt: String,
+    iterations: Number,
+    deviceIds: [String],
+    updatedAt: Date
+  },
   role: {
     type: String,
     enum: ['host', 'guest', 'admin'],
@@ -374,6 +435,8 @@ const userSchema = new mongoose.Schema({
 
 // Add unique index for college email
 userSchema.index({ 'email.college': 1 }, { unique: true, sparse: true });
+userSchema.index({ 'calendarFeed.token': 1 }, { unique: true, sparse: true });
+userSchema.index({ 'passwordReset.tokenHash': 1 }, { sparse: true });
 
 // Add indexes for better query performance
 userSchema.index({ type: 1, department: 1, batch: 1 });
@@ -404,6 +467,11 @@ userSchema.methods.comparePassword = async function(candidatePassword) {
 userSchema.methods.toJSON = function() {
   const user = this.toObject();
   delete user.password;
+  delete user.calendarFeed;
+  delete user.passwordReset;
+  delete user.twoFactor;
+  delete user.encryptionDevices;
+  delete user.keyBackup;
   return user;
 };
 
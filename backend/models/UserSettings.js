@@ -38,6 +38,12 @@ const userSettingsSchema = new mongoose.Schema({
     securityAlerts: { type: Boolean, default: true }
   },
   
+  // Weekly email of recommended jobs (opt-in)
+  jobDigest: {
+    enabled: { type: Boolean, default: false },
+    lastSentAt: { type: Date }
+  },
+
   // Privacy Settings
   privacy: {
     profileVisibility: {
@@ -0,0 +1,106 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const { authenticateToken, requireFacultyOrAdmin } = require('../middleware/auth');
+const AlumniVerificationService = require('../services/alumniVerificationService');
+
+const router = express.Router();
+
+const VERIFICATION_ERRORS = {
+  alumni_only: { status: 403, error: 'Only alumni accounts can be verified' },
+  already_verified: { status: 400, error: 'Your alumni status is already verified' },
+  invalid_decision: { status: 400, error: 'Decision must be verified or rejected' },
+  reason_required: { status: 400, error: 'A reason is required when rejecting' },
+  unchanged: { status: 409, error: 'This alumnus already has that status' },
+  not_found: { status: 404, error: 'Alumnus not found' }
+};
+
+const sendVerificationError = (res, reason) => {
+  const { status, error } = VERIFICATION_ERRORS[reason] || { status: 400, error: 'Unable to update verification' };
+  return res.status(status).json({ error, code: reason });
+};
+
+// The current alumnus's own verification status and proof
+router.get('/me', authenticateToken, async (req, res) => {
+  try {
+    if (req.user.type !== 'alumni') {
+      return sendVerificationError(res, 'alumni_only');
+    }
+    res.json({ verification: await AlumniVerificationService.getStatus(req.user) });
+  } catch (error) {
+    console.error('Error fetching alumni verification:', error);
+    res.status(500).json({ error: 'Failed to fetch verification status' });
+  }
+});
+
+// Upload is done client-side to Cloudinary; this records the resulting URL
+router.put('/me/proof', authenticateToken, async (req, res) => {
+  try {
+    const { url, fileName } = req.body;
+    if (!url || !/^https:\/\//i.test(url)) {
+      return res.status(400).json({ error: 'A valid proof document URL is required' });
+    }
+
+    const result = await AlumniVerificationService.submitProof({
+      user: req.user,
+      url,
+      fileName: fileName ? String(fileName).slice(0, 200) : undefined
+    });
+    if (!result.success) {
+      return sendVerificationError(res, result.reason);
+    }
+
+    res.json({ verification: result.verification });
+  } catch (error) {
+    console.error('Error submitting verification proof:', error);
+    res.status(500).json({ error: 'Failed to submit proof document' });
+  }
+});
+
+// Faculty review queue
+router.get('/queue', authenticateToken, requireFacultyOrAdmin, async (req, res) => {
+  try {
+    const status = AlumniVerificationService.STATUSES.includes(req.query.status) ? req.query.status : 'pending';
+    const page = Math.max(1, parseInt(req.query.page) || 1);
+    const limit = Math.min(50, Math.max(1, parseInt(req.query.limit) || 20));
+
+    res.json(await AlumniVerificationService.listQueue({
+      status,
+      search: req.query.search?.trim(),
+      page,
+      limit
+    }));
+  } catch (error) {
+    console.error('Error fetching verification queue:', error);
+    res.status(500).json({ error: 'Failed to fetch verification queue' });
+  }
+});
+
+router.put('/:userId/review', authenticateToken, requireFacultyOrAdmin, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.userId)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+    const reason = req.body.reason?.trim();
+    if (reason && reason.length > 1000) {
+      return res.status(400).json({ error: 'Reason must be 1000 characters or fewer' });
+    }
+
+    const result = await AlumniVerificationService.review({
+      alumnusId: req.params.userId,
+      reviewer: req.user,
+      decision: req.body.decision,
+      reason,
+      io: req.app.get('io')
+    });
+    if (!result.success) {
+      return sendVerificationError(res, result.reason);
+    }
+
+    res.json({ status: result.status });
+  } catch (error) {
+    console.error('Error reviewing alumni verification:', error);
+    res.status(500).json({ error: 'Failed to review verification' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,25 @@
+const express = require('express');
+const router = express.Router();
+const { authenticateToken, requireFacultyOrAdmin } = require('../middleware/auth');
+const AnalyticsService = require('../services/analyticsService');
+
+// Platform analytics for the AnalyticsDashboard (faculty/admin only)
+router.get('/', authenticateToken, requireFacultyOrAdmin, async (req, res) => {
+  try {
+    const range = req.query.range || '7d';
+    if (!AnalyticsService.isValidRange(range)) {
+      return res.status(400).json({
+        error: `Invalid range. Use one of: ${Object.keys(AnalyticsService.RANGES).join(', ')}`,
+        code: 'invalid_range'
+      });
+    }
+
+    const analytics = await AnalyticsService.getAnalytics(range);
+    res.json({ success: true, analytics });
+  } catch (error) {
+    console.error('Error fetching analytics:', error);
+    res.status(500).json({ error: 'Failed to fetch analytics' });
+  }
+});
+
+module.exports = router;
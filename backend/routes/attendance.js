@@ -7,15 +7,16 @@ const MeetingTracker = require('../services/meetingTracker');
 const PDFGenerator = require('../services/pdfGenerator');
 
 // Reuse auth middleware from meetings route
-const jwt = require('jsonwebtoken');
+const SessionService = require('../services/sessionService');
 const authenticateToken = (req, res, next) => {
   const token = req.headers['authorization']?.split(' ')[1];
   if (!token) return res.status(401).json({ error: 'Access token required' });
-  jwt.verify(token, process.env.JWT_SECRET, (err, user) => {
-    if (err) return res.status(403).json({ error: 'Invalid token' });
-    req.user = user;
-    next();
-  });
+  try {
+    req.user = SessionService.verifyAccessToken(token);
+  } catch (err) {
+    return res.status(403).json({ error: 'Invalid token' });
+  }
+  next();
 };
 
 // Complete meeting and compute attendance
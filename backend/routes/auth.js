@@ -1,11 +1,17 @@
 const express = require('express');
 const bcrypt = require('bcryptjs');
+const crypto = require('crypto');
 const jwt = require('jsonwebtoken');
+const rateLimit = require('express-rate-limit');
 const User = require('../models/User');
 const { authenticateToken } = require('../middleware/auth');
 const EmailExpiryService = require('../services/emailExpiryService');
 const studentConversionService = require('../services/studentConversionService');
 const GoogleCalendarService = require('../services/googleCalendarService');
+const emailService = require('../services/emailService');
+const TotpService = require('../services/totpService');
+const SessionService = require('../services/sessionService');
+const UserSettings = require('../models/UserSettings');
 
 const router = express.Router();
 
@@ -79,8 +85,57 @@ router.get('/check-email', async (req, res) => {
 // Log when routes are loaded
 console.log('✅ Auth routes loaded - /callback route registered');
 
-const generateToken = (userId) => jwt.sign({ userId }, process.env.JWT_SECRET, { expiresIn: '30m' });
-const generateRefreshToken = (userId) => jwt.sign({ userId }, process.env.JWT_SECRET, { expiresIn: '7d' });
+// Access and refresh tokens come from SessionService, which records a session per sign-in
+// The ticket is not an access token: its typ keeps authenticateToken and the sockets from accepting it
+const generateTwoFactorToken = (userId) => jwt.sign({ userId, typ: '2fa' }, process.env.JWT_SECRET, { expiresIn: '5m' });
+
+// Full user payload returned on login (all registration and profile completion fields)
+const buildLoginUserResponse = (user) => ({
+  _id: user._id,
+  name: user.name,
+  email: user.email,
+  type: user.type,
+  avatar: user.avatar,
+  isVerified: user.isVerified,
+  isProfileComplete: !!user.isProfileComplete,
+  // Basic profile fields
+  phone: user.phone,
+  bio: user.bio,
+  location: user.location,
+  city: user.city,
+  state: user.state,
+  country: user.country,
+  timezone: user.timezone,
+  dateOfBirth: user.dateOfBirth,
+  gender: user.gender,
+  // Professional fields
+  department: user.department,
+  batch: user.batch,
+  company: user.company,
+  designation: user.designation,
+  experience: user.experience,
+  // Skills and interests
+  skills: user.skills,
+  languages: user.languages,
+  interests: user.interests,
+  goals: user.goals,
+  extraCurricularActivities: user.extraCurricularActivities,
+  // Links and documents
+  socialLinks: user.socialLinks,
+  resume: user.resume,
+  portfolio: user.portfolio,
+  // Type-specific info
+  studentInfo: user.studentInfo,
+  alumniInfo: user.alumniInfo,
+  facultyInfo: user.facultyInfo,
+  joinYear: user.studentInfo?.joinYear || user.joinYear
+});
+
+const recordLogin = (user) => User.updateOne(
+  { _id: user._id },
+  { $set: { lastLogin: new Date() } },
+  { runValidators: false }
+);
 
 // Register
 router.post('/register', async (req, res) => {
@@ -285,8 +340,7 @@ router.post('/register', async (req, res) => {
       await user.save();
       console.log('✅ User saved to database:', user._id);
 
-      const token = generateToken(user._id);
-      const refreshToken = generateRefreshToken(user._id);
+      const { token, refreshToken } = await SessionService.create(user, req);
       console.log('✅ Tokens generated');
 
       // Return complete user data
@@ -406,8 +460,7 @@ router.post('/register', async (req, res) => {
 
       const user = new User(userData);
       await user.save();
-      const token = generateToken(user._id);
-      const refreshToken = generateRefreshToken(user._id);
+      const { token, refreshToken } = await SessionService.create(user, req);
       // Return complete user data
       const userResponse = {
         _id: user._id,
@@ -460,8 +513,7 @@ router.post('/register', async (req, res) => {
       const hashed = await bcrypt.hash(password, 12);
       const user = new User({ name, password: hashed, type: userType, phone: phone || undefined, email: { personal: personalEmail }, company: company || undefined, designation: designation || undefined });
       await user.save();
-      const token = generateToken(user._id);
-      const refreshToken = generateRefreshToken(user._id);
+      const { token, refreshToken } = await SessionService.create(user, req);
       // Return complete user data
       const userResponse = {
         _id: user._id,
@@ -535,59 +587,196 @@ router.post('/login', async (req, res) => {
       console.log('❌ Login failed - password mismatch for user:', user._id);
       return res.status(401).json({ error: 'Invalid email or password' });
     }
+    // Password is right but the account has 2FA: hand back a short-lived ticket for /login/2fa
+    if (user.twoFactor?.enabled) {
+      return res.json({ twoFactorRequired: true, twoFactorToken: generateTwoFactorToken(user._id) });
+    }
+
+    await recordLogin(user);
+    const { token, refreshToken } = await SessionService.create(user, req);
+    res.json({ message: 'Login successful', token, refreshToken, user: buildLoginUserResponse(user) });
+  } catch (error) {
+    console.error('Login error:', error);
+    if (error.name === 'ValidationError') return res.status(400).json({ error: 'Invalid input data' });
+    res.status(500).json({ error: 'Login failed. Please try again.' });
+  }
+});
+
+// Two-factor authentication
+const twoFactorLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req, res) => {
+    res.status(429).json({ error: 'Too many verification attempts. Please try again later.' });
+  }
+});
+
+// Each TOTP step and each recovery code is accepted once; the conditional updates make that atomic
+const verifySecondFactor = async (user, { code, recoveryCode }) => {
+  if (recoveryCode) {
+    const result = await User.updateOne(
+      { _id: user._id, 'twoFactor.recoveryCodes': { $elemMatch: { hash: TotpService.hashRecoveryCode(recoveryCode), usedAt: null } } },
+      { $set: { 'twoFactor.recoveryCodes.$.usedAt': new Date() } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  const lastUsedStep = user.twoFactor.lastUsedStep ?? -1;
+  const step = TotpService.verifyCode(TotpService.decryptSecret(user.twoFactor.secret), code, lastUsedStep);
+  if (step === null) return false;
+  const result = await User.updateOne(
+    { _id: user._id, $or: [{ 'twoFactor.lastUsedStep': { $lt: step } }, { 'twoFactor.lastUsedStep': null }] },
+    { $set: { 'twoFactor.lastUsedStep': step } }
+  );
+  return result.modifiedCount === 1;
+};
+
+const setTwoFactorSetting = (userId, enabled) => UserSettings.updateOne(
+  { userId },
+  { $set: { 'security.twoFactorEnabled': enabled } },
+  { upsert: true }
+);
+
+// Second login step: a code from the authenticator app or a one-time recovery code
+router.post('/login/2fa', twoFactorLimiter, async (req, res) => {
+  try {
+    const { twoFactorToken, code, recoveryCode } = req.body;
+    if (!twoFactorToken || (!code && !recoveryCode)) return res.status(400).json({ error: 'Verification code is required' });
+
+    let decoded;
+    try {
+      decoded = jwt.verify(twoFactorToken, process.env.JWT_SECRET);
+    } catch {
+      return res.status(401).json({ error: 'Your sign-in attempt expired. Please sign in again.' });
+    }
+    if (decoded.typ !== '2fa') return res.status(401).json({ error: 'Invalid sign-in attempt' });
+
+    const user = await User.findById(decoded.userId);
+    if (!user || !user.twoFactor?.enabled) return res.status(401).json({ error: 'Invalid sign-in attempt' });
+
+    // 400 rather than 401 so the client keeps the ticket and lets the user retry
+    if (!(await verifySecondFactor(user, { code, recoveryCode }))) {
+      return res.status(400).json({ error: recoveryCode ? 'Invalid or already used recovery code' : 'Invalid verification code' });
+    }
+
+    await recordLogin(user);
+    const { token, refreshToken } = await SessionService.create(user, req);
+    res.json({ message: 'Login successful', token, refreshToken, user: buildLoginUserResponse(user) });
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    res.status(500).json({ error: 'Login failed. Please try again.' });
+  }
+});
+
+router.get('/2fa/status', authenticateToken, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select('twoFactor');
+    const twoFactor = user?.twoFactor || {};
+    res.json({
+      enabled: !!twoFactor.enabled,
+      enabledAt: twoFactor.enabledAt || null,
+      recoveryCodesRemaining: (twoFactor.recoveryCodes || []).filter(c => !c.usedAt).length
+    });
+  } catch (error) {
+    console.error('Two-factor status error:', error);
+    res.status(500).json({ error: 'Failed to fetch two-factor status' });
+  }
+});
+
+// Start enrollment: the secret stays pending until /2fa/enable verifies a code from it
+router.post('/2fa/setup', authenticateToken, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select('email twoFactor');
+    if (user.twoFactor?.enabled) return res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+
+    const secret = TotpService.generateSecret();
     await User.updateOne(
       { _id: user._id },
-      { $set: { lastLogin: new Date() } },
+      { $set: { 'twoFactor.pendingSecret': TotpService.encryptSecret(secret) } },
       { runValidators: false }
     );
-    const token = generateToken(user._id);
-    const refreshToken = generateRefreshToken(user._id);
-    // Return complete user data including all registration and profile completion fields
-    const userResponse = {
-      _id: user._id,
-      name: user.name,
-      email: user.email,
-      type: user.type,
-      avatar: user.avatar,
-      isVerified: user.isVerified,
-      isProfileComplete: !!user.isProfileComplete,
-      // Basic profile fields
-      phone: user.phone,
-      bio: user.bio,
-      location: user.location,
-      city: user.city,
-      state: user.state,
-      country: user.country,
-      timezone: user.timezone,
-      dateOfBirth: user.dateOfBirth,
-      gender: user.gender,
-      // Professional fields
-      department: user.department,
-      batch: user.batch,
-      company: user.company,
-      designation: user.designation,
-      experience: user.experience,
-      // Skills and interests
-      skills: user.skills,
-      languages: user.languages,
-      interests: user.interests,
-      goals: user.goals,
-      extraCurricularActivities: user.extraCurricularActivities,
-      // Links and documents
-      socialLinks: user.socialLinks,
-      resume: user.resume,
-      portfolio: user.portfolio,
-      // Type-specific info
-      studentInfo: user.studentInfo,
-      alumniInfo: user.alumniInfo,
-      facultyInfo: user.facultyInfo,
-      joinYear: user.studentInfo?.joinYear || user.joinYear
-    };
-    res.json({ message: 'Login successful', token, refreshToken, user: userResponse });
+
+    const accountName = user.email?.college || user.email?.personal || user.email?.professional || String(user._id);
+    res.json({ secret, otpauthUrl: TotpService.buildOtpauthUrl(secret, accountName) });
   } catch (error) {
-    console.error('Login error:', error);
-    if (error.name === 'ValidationError') return res.status(400).json({ error: 'Invalid input data' });
-    res.status(500).json({ error: 'Login failed. Please try again.' });
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
+
+router.post('/2fa/enable', authenticateToken, async (req, res) => {
+  try {
+    const { code } = req.body;
+    const user = await User.findById(req.user._id).select('twoFactor');
+    if (user.twoFactor?.enabled) return res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+    if (!user.twoFactor?.pendingSecret) return res.status(400).json({ error: 'Start two-factor setup first' });
+
+    const secret = TotpService.decryptSecret(user.twoFactor.pendingSecret);
+    const step = TotpService.verifyCode(secret, code);
+    if (step === null) return res.status(400).json({ error: 'Invalid verification code' });
+
+    const { codes, hashed } = TotpService.generateRecoveryCodes();
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          twoFactor: {
+            enabled: true,
+            secret: user.twoFactor.pendingSecret,
+            enabledAt: new Date(),
+            lastUsedStep: step,
+            recoveryCodes: hashed
+          }
+        }
+      },
+      { runValidators: false }
+    );
+    await setTwoFactorSetting(user._id, true);
+
+    res.json({ message: 'Two-factor authentication enabled', recoveryCodes: codes });
+  } catch (error) {
+    console.error('Two-factor enable error:', error);
+    res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+  }
+});
+
+router.post('/2fa/disable', authenticateToken, twoFactorLimiter, async (req, res) => {
+  try {
+    const { password } = req.body;
+    if (!password) return res.status(400).json({ error: 'Password is required' });
+
+    const user = await User.findById(req.user._id).select('+password twoFactor');
+    if (!(await user.comparePassword(password))) return res.status(400).json({ error: 'Password is incorrect' });
+
+    await User.updateOne({ _id: user._id }, { $unset: { twoFactor: 1 } }, { runValidators: false });
+    await setTwoFactorSetting(user._id, false);
+
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('Two-factor disable error:', error);
+    res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+  }
+});
+
+// Replaces every recovery code, used or not
+router.post('/2fa/recovery-codes', authenticateToken, twoFactorLimiter, async (req, res) => {
+  try {
+    const { password } = req.body;
+    if (!password) return res.status(400).json({ error: 'Password is required' });
+
+    const user = await User.findById(req.user._id).select('+password twoFactor');
+    if (!user.twoFactor?.enabled) return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    if (!(await user.comparePassword(password))) return res.status(400).json({ error: 'Password is incorrect' });
+
+    const { codes, hashed } = TotpService.generateRecoveryCodes();
+    await User.updateOne({ _id: user._id }, { $set: { 'twoFactor.recoveryCodes': hashed } }, { runValidators: false });
+
+    res.json({ recoveryCodes: codes });
+  } catch (error) {
+    console.error('Recovery code regeneration error:', error);
+    res.status(500).json({ error: 'Failed to regenerate recovery codes' });
   }
 });
 
@@ -632,10 +821,10 @@ router.put('/profile', authenticateToken, async (req, res) => {
     }
 
     await user.save();
-    const token = generateToken(user._id);
-    const refreshToken = generateRefreshToken(user._id);
+    // Same session, fresh access token; the refresh token is left alone so clients holding it aren't flagged for reuse
+    const token = SessionService.accessToken(user._id, req.sessionId);
     const userResponse = { _id: user._id, name: user.name, email: user.email, type: user.type, avatar: user.avatar, isVerified: user.isVerified, isProfileComplete: user.isProfileComplete };
-    res.json({ message: 'Profile updated successfully', token, refreshToken, user: userResponse });
+    res.json({ message: 'Profile updated successfully', token, user: userResponse });
   } catch (e) { res.status(500).json({ error: 'Profile update failed' }); }
 });
 
@@ -709,19 +898,184 @@ router.post('/refresh', async (req, res) => {
   try {
     const { refreshToken } = req.body;
     if (!refreshToken) return res.status(400).json({ error: 'Refresh token required' });
-    const decoded = jwt.verify(refreshToken, process.env.JWT_SECRET);
-    const user = await User.findById(decoded.userId).select('-password');
-    if (!user) return res.status(401).json({ error: 'Invalid refresh token' });
-    const token = generateToken(user._id);
-    const newRefreshToken = generateRefreshToken(user._id);
+    // Rotates the refresh token; a revoked, idle, reused or pre-reset token gets null
+    const rotated = await SessionService.rotate(refreshToken, req);
+    if (!rotated) return res.status(401).json({ error: 'Invalid refresh token' });
+    const { user, token, refreshToken: newRefreshToken } = rotated;
     res.json({ token, refreshToken: newRefreshToken, user: { _id: user._id, name: user.name, email: user.email, type: user.type, department: user.department, avatar: user.avatar, isVerified: user.isVerified } });
   } catch (e) {
     if (e.name === 'JsonWebTokenError') return res.status(401).json({ error: 'Invalid refresh token' });
     if (e.name === 'TokenExpiredError') return res.status(401).json({ error: 'Refresh token expired' });
+    console.error('Token refresh error:', e);
     res.status(500).json({ error: 'Token refresh failed' });
   }
 });
 
+// Sign out this device
+router.post('/logout', authenticateToken, async (req, res) => {
+  try {
+    if (req.sessionId) await SessionService.revokeById(req.user._id, req.sessionId, 'logout');
+    res.json({ message: 'Logged out' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Logout failed' });
+  }
+});
+
+// Signed-in devices for the Security settings tab
+router.get('/sessions', authenticateToken, async (req, res) => {
+  try {
+    const sessions = await SessionService.list(req.user._id);
+    res.json({
+      sessions: sessions.map(session => ({
+        id: session.sessionId,
+        device: session.device,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        current: session.sessionId === req.sessionId
+      }))
+    });
+  } catch (error) {
+    console.error('List sessions error:', error);
+    res.status(500).json({ error: 'Failed to fetch sessions' });
+  }
+});
+
+router.delete('/sessions/:sessionId', authenticateToken, async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const reason = sessionId === req.sessionId ? 'logout' : 'revoked';
+    if (!(await SessionService.revokeById(req.user._id, sessionId, reason))) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.json({ message: 'Session signed out' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: 'Failed to sign out session' });
+  }
+});
+
+// Sign out everywhere, this device included
+router.delete('/sessions', authenticateToken, async (req, res) => {
+  try {
+    const revoked = await SessionService.revokeAll(req.user._id, 'logout_all');
+    res.json({ message: 'Signed out of all devices', revoked });
+  } catch (error) {
+    console.error('Revoke all sessions error:', error);
+    res.status(500).json({ error: 'Failed to sign out of all devices' });
+  }
+});
+
+// Password reset
+const RESET_TOKEN_TTL_MINUTES = 30;
+const hashResetToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+const resetLimitHandler = (req, res) => {
+  res.status(429).json({ error: 'Too many password reset requests. Please try again later.' });
+};
+
+// At most 5 reset requests per IP and 3 per email address every hour
+const resetIpLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: resetLimitHandler
+});
+
+const resetEmailLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 3,
+  keyGenerator: (req) => `reset:${normalizeEmail(req.body?.email) || req.ip}`,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: resetLimitHandler
+});
+
+// Guessing tokens is pointless (256 bits), but keep submissions bounded too
+const resetSubmitLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: resetLimitHandler
+});
+
+// Always answers the same way so the endpoint can't be used to find registered emails
+router.post('/forgot-password', resetIpLimiter, resetEmailLimiter, async (req, res) => {
+  try {
+    const { email } = req.body;
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!email || !emailRegex.test(email)) return res.status(400).json({ error: 'A valid email is required' });
+
+    const normalizedEmail = normalizeEmail(email);
+    const user = await User.findOne(buildEmailLookupQuery(normalizedEmail)).select('name email');
+    if (user) {
+      const token = crypto.randomBytes(32).toString('hex');
+      const now = new Date();
+      await User.updateOne(
+        { _id: user._id },
+        {
+          $set: {
+            passwordReset: {
+              tokenHash: hashResetToken(token),
+              expiresAt: new Date(now.getTime() + RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+              requestedAt: now
+            }
+          }
+        },
+        { runValidators: false }
+      );
+
+      const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:8083';
+      await emailService.sendEmail({
+        to: normalizedEmail,
+        subject: 'Reset your KEC Alumni Network password',
+        template: 'password-reset',
+        data: {
+          name: user.name,
+          resetUrl: `${frontendUrl}/reset-password?token=${token}`,
+          expiresInMinutes: RESET_TOKEN_TTL_MINUTES
+        }
+      });
+    }
+
+    res.json({ message: 'If an account exists for that email, a password reset link has been sent.' });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ error: 'Failed to process password reset request' });
+  }
+});
+
+router.post('/reset-password', resetSubmitLimiter, async (req, res) => {
+  try {
+    const { token, password } = req.body;
+    if (!token || typeof token !== 'string') return res.status(400).json({ error: 'Reset token is required' });
+    if (!password || password.length < 6) return res.status(400).json({ error: 'Password must be at least 6 characters long' });
+
+    const hashedPassword = await bcrypt.hash(password, 12);
+    // Matching on the hash and clearing it in one update keeps the token single-use
+    const user = await User.findOneAndUpdate(
+      { 'passwordReset.tokenHash': hashResetToken(token), 'passwordReset.expiresAt': { $gt: new Date() } },
+      {
+        $set: { password: hashedPassword },
+        $unset: { passwordReset: 1 },
+        $inc: { tokenVersion: 1 }
+      },
+      { new: true, runValidators: false }
+    );
+    if (!user) return res.status(400).json({ error: 'This reset link is invalid or has expired' });
+    await SessionService.revokeAll(user._id, 'password_reset');
+
+    res.json({ message: 'Password reset successfully. Please sign in with your new password.' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
 // Student conversion (admin/faculty)
 router.post('/convert-student/:studentId', authenticateToken, async (req, res) => {
   try {
@@ -0,0 +1,94 @@
+const express = require('express');
+const router = express.Router();
+const User = require('../models/User');
+const { authenticateToken } = require('../middleware/auth');
+const CalendarFeedService = require('../services/calendarFeedService');
+
+// Status of the current user's private calendar feed
+router.get('/feed', authenticateToken, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select('calendarFeed timezone');
+    const token = user?.calendarFeed?.token;
+
+    res.json({
+      success: true,
+      active: !!token,
+      url: token ? CalendarFeedService.feedUrl(req, token) : null,
+      createdAt: user?.calendarFeed?.createdAt || null,
+      timezone: CalendarFeedService.resolveTimezone(user?.timezone)
+    });
+  } catch (error) {
+    console.error('Error fetching calendar feed:', error);
+    res.status(500).json({ error: 'Failed to fetch calendar feed' });
+  }
+});
+
+// Create the feed, or rotate its token so existing subscriptions stop working
+router.post('/feed', authenticateToken, async (req, res) => {
+  try {
+    const token = CalendarFeedService.generateToken();
+    const createdAt = new Date();
+    await User.updateOne({ _id: req.user._id }, { $set: { calendarFeed: { token, createdAt } } });
+
+    res.json({
+      success: true,
+      active: true,
+      url: CalendarFeedService.feedUrl(req, token),
+      createdAt
+    });
+  } catch (error) {
+    console.error('Error creating calendar feed:', error);
+    res.status(500).json({ error: 'Failed to create calendar feed' });
+  }
+});
+
+// Revoke the feed
+router.delete('/feed', authenticateToken, async (req, res) => {
+  try {
+    await User.updateOne({ _id: req.user._id }, { $unset: { calendarFeed: '' } });
+    res.json({ success: true, active: false, message: 'Calendar feed revoked' });
+  } catch (error) {
+    console.error('Error revoking calendar feed:', error);
+    res.status(500).json({ error: 'Failed to revoke calendar feed' });
+  }
+});
+
+// Timezone used for the feed and for reading event times the user organises
+router.put('/timezone', authenticateToken, async (req, res) => {
+  try {
+    const { timezone } = req.body;
+    if (!CalendarFeedService.isValidTimezone(timezone)) {
+      return res.status(400).json({ error: 'Invalid timezone' });
+    }
+
+    await User.updateOne({ _id: req.user._id }, { $set: { timezone } });
+    res.json({ success: true, timezone });
+  } catch (error) {
+    console.error('Error updating timezone:', error);
+    res.status(500).json({ error: 'Failed to update timezone' });
+  }
+});
+
+// Public feed endpoint for calendar clients; the token is the only credential
+router.get('/feed/:token.ics', async (req, res) => {
+  try {
+    const { token } = req.params;
+    if (!/^[a-f0-9]{48}$/.test(token)) {
+      return res.status(404).json({ error: 'Calendar feed not found' });
+    }
+
+    const user = await User.findOne({ 'calendarFeed.token': token }).select('name email timezone');
+    if (!user) {
+      return res.status(404).json({ error: 'Calendar feed not found' });
+    }
+
+    const body = await CalendarFeedService.buildUserFeed(user);
+    res.set('Cache-Control', 'private, max-age=900');
+    CalendarFeedService.sendCalendar(res, body, 'inspiranet.ics');
+  } catch (error) {
+    console.error('Error generating calendar feed:', error);
+    res.status(500).json({ error: 'Failed to generate calendar feed' });
+  }
+});
+
+module.exports = router;
@@ -6,6 +6,8 @@ const Conversation = require('../models/Conversation');
 const Message = require('../models/Message');
 const User = require('../models/User');
 const NotificationService = require('../services/notificationService');
+const ModerationService = require('../services/moderationService');
+const MessageEncryptionService = require('../services/messageEncryptionService');
 
 // Get all conversations for the authenticated user (only with mutually followed users)
 router.get('/', authenticateToken, async (req, res) => {
@@ -787,7 +789,9 @@ router.post('/:id/messages', authenticateToken, async (req, res) => {
 
     const conversationId = req.params.id;
     const userId = req.user._id;
-    const { content, mediaUrl, fileName, fileSize, messageType = 'text', replyTo, isEncrypted = false, tempId } = req.body;
+    const { mediaUrl, fileName, fileSize, messageType = 'text', replyTo, isEncrypted = false, encryptedContent, tempId } = req.body;
+    // The server never sees the plaintext of an encrypted message, only a placeholder
+    const content = isEncrypted ? MessageEncryptionService.ENCRYPTED_PLACEHOLDER : req.body.content;
 
     console.log('📋 Extracted values:', {
       content: content,
@@ -829,6 +833,18 @@ router.post('/:id/messages', authenticateToken, async (req, res) => {
 
     console.log('✅ Conversation found, creating message...');
 
+    let encryptedFields;
+    if (isEncrypted) {
+      if (messageType !== 'text' || mediaUrl) {
+        return res.status(400).json({ error: 'Only text messages can be end-to-end encrypted', code: 'invalid_envelope' });
+      }
+      const envelopeCheck = MessageEncryptionService.validateEnvelope(encryptedContent, conversation.participants);
+      if (!envelopeCheck.valid) {
+        return res.status(400).json({ error: 'Invalid encrypted message', code: envelopeCheck.reason });
+      }
+      encryptedFields = envelopeCheck.envelope;
+    }
+
     // Normalize messageType to match enum values
     let normalizedMessageType = messageType;
     // Message model now supports: 'text', 'image', 'video', 'pdf', 'file', 'system'
@@ -944,6 +960,15 @@ router.post('/:id/messages', authenticateToken, async (req, res) => {
       messageContent = finalMessageContent;
     }
 
+    // Encrypted payloads are opaque to the server and cannot be moderated
+    let verdict = null;
+    if (!isEncrypted && hasValidContent) {
+      verdict = await ModerationService.evaluate('message', { content: messageContent });
+      if (verdict.action === 'block') {
+        return res.status(400).json(ModerationService.blockedResponse(verdict));
+      }
+    }
+
     console.log('🔒 Final messageContent before Message creation:', {
       content: messageContent,
       length: messageContent.length,
@@ -961,10 +986,12 @@ router.post('/:id/messages', authenticateToken, async (req, res) => {
       fileName: fileName || null,
       fileSize: fileSize || null,
       isEncrypted: isEncrypted || false,
+      encryptedContent: encryptedFields,
       tempId: tempId || null,
       replyTo: replyTo ? {
         messageId: replyTo.messageId,
-        content: replyTo.content,
+        // Quoting an encrypted message would otherwise leak its text
+        content: isEncrypted ? MessageEncryptionService.ENCRYPTED_PLACEHOLDER : replyTo.content,
         senderName: replyTo.senderName
       } : undefined,
       status: 'sent'
@@ -1023,6 +1050,15 @@ router.post('/:id/messages', authenticateToken, async (req, res) => {
       throw saveError; // Re-throw to be caught by outer catch
     }
 
+    // Messages are delivered in real time, so review verdicts are recorded as flags
+    await ModerationService.recordVerdict(verdict?.action === 'review' ? { ...verdict, action: 'flag' } : verdict, {
+      contentType: 'message',
+      contentId: message._id,
+      parentId: conversation._id,
+      authorId: userId,
+      excerpt: messageContent
+    });
+
     // Update conversation's last message and timestamp
     conversation.lastMessage = message._id;
     conversation.lastMessageContent = messageContent; // Use the processed messageContent
@@ -0,0 +1,155 @@
+const express = require('express');
+const router = express.Router();
+const mongoose = require('mongoose');
+const Conversation = require('../models/Conversation');
+const { authenticateToken } = require('../middleware/auth');
+const MessageEncryptionService = require('../services/messageEncryptionService');
+
+const KEY_ERRORS = {
+  invalid_device: { status: 400, error: 'Invalid device id' },
+  invalid_key: { status: 400, error: 'Public key must be a base64 SPKI P-256 key' },
+  device_exists: { status: 409, error: 'This device already has a different key registered' },
+  device_revoked: { status: 403, error: 'This device has been revoked' },
+  too_many_devices: { status: 400, error: 'Too many devices registered. Revoke one to continue.' },
+  device_not_found: { status: 404, error: 'Device not found or already revoked' },
+  invalid_backup: { status: 400, error: 'Invalid key backup' },
+  not_found: { status: 404, error: 'User not found' }
+};
+
+const sendKeyError = (res, reason) => {
+  const { status, error } = KEY_ERRORS[reason] || { status: 400, error: 'Request failed' };
+  res.status(status).json({ error, code: reason });
+};
+
+// Every device the current user has registered, including revoked ones
+router.get('/devices', authenticateToken, async (req, res) => {
+  try {
+    const devices = await MessageEncryptionService.listDevices(req.user._id);
+    res.json({ success: true, devices });
+  } catch (error) {
+    console.error('Error fetching devices:', error);
+    res.status(500).json({ error: 'Failed to fetch devices' });
+  }
+});
+
+// Publish (or refresh) the current device's public key
+router.put('/devices/:deviceId', authenticateToken, async (req, res) => {
+  try {
+    const result = await MessageEncryptionService.publishDeviceKey(req.user._id, {
+      deviceId: req.params.deviceId,
+      publicKey: req.body.publicKey,
+      label: req.body.label
+    });
+    if (!result.success) return sendKeyError(res, result.reason);
+
+    const { deviceId, publicKey, label, createdAt } = result.device;
+    res.json({ success: true, device: { deviceId, publicKey, label, createdAt } });
+  } catch (error) {
+    console.error('Error publishing device key:', error);
+    res.status(500).json({ error: 'Failed to publish device key' });
+  }
+});
+
+// Revoke one of the current user's devices; it stops receiving new encrypted messages
+router.delete('/devices/:deviceId', authenticateToken, async (req, res) => {
+  try {
+    const result = await MessageEncryptionService.revokeDevice(req.user._id, req.params.deviceId);
+    if (!result.success) return sendKeyError(res, result.reason);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking device:', error);
+    res.status(500).json({ error: 'Failed to revoke device' });
+  }
+});
+
+// Passphrase-encrypted key backup (ciphertext only)
+router.get('/backup', authenticateToken, async (req, res) => {
+  try {
+    const backup = await MessageEncryptionService.getBackup(req.user._id);
+    res.json({ success: true, backup });
+  } catch (error) {
+    console.error('Error fetching key backup:', error);
+    res.status(500).json({ error: 'Failed to fetch key backup' });
+  }
+});
+
+router.put('/backup', authenticateToken, async (req, res) => {
+  try {
+    const result = await MessageEncryptionService.saveBackup(req.user._id, req.body);
+    if (!result.success) return sendKeyError(res, result.reason);
+
+    const { updatedAt, deviceIds } = result.backup;
+    res.json({ success: true, backup: { updatedAt, deviceIds } });
+  } catch (error) {
+    console.error('Error saving key backup:', error);
+    res.status(500).json({ error: 'Failed to save key backup' });
+  }
+});
+
+router.delete('/backup', authenticateToken, async (req, res) => {
+  try {
+    await MessageEncryptionService.deleteBackup(req.user._id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting key backup:', error);
+    res.status(500).json({ error: 'Failed to delete key backup' });
+  }
+});
+
+// Device keys (revoked ones included) for every participant of a conversation the user belongs to
+router.get('/conversations/:id/keys', authenticateToken, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid conversation ID format' });
+    }
+
+    const conversation = await Conversation.findOne({
+      _id: req.params.id,
+      participants: req.user._id,
+      isActive: true
+    }).select('participants');
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    const keys = await MessageEncryptionService.getDeviceKeys(conversation.participants, { includeRevoked: true });
+    res.json({ success: true, keys });
+  } catch (error) {
+    console.error('Error fetching conversation keys:', error);
+    res.status(500).json({ error: 'Failed to fetch encryption keys' });
+  }
+});
+
+// Device keys for a single user; ?includeRevoked=true also lists revoked devices
+router.get('/users/:userId/keys', authenticateToken, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.userId)) {
+      return res.status(400).json({ error: 'Invalid user ID format' });
+    }
+
+    const keys = await MessageEncryptionService.getDeviceKeys([req.params.userId], {
+      includeRevoked: req.query.includeRevoked === 'true'
+    });
+    res.json({ success: true, devices: keys[req.params.userId] });
+  } catch (error) {
+    console.error('Error fetching user keys:', error);
+    res.status(500).json({ error: 'Failed to fetch encryption keys' });
+  }
+});
+
+// Admin: convert messages flagged encrypted under the pre-E2EE scheme
+router.post('/migrate-legacy', authenticateToken, async (req, res) => {
+  try {
+    if (req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    const results = await MessageEncryptionService.migrateLegacyMessages();
+    res.json({ success: true, ...results });
+  } catch (error) {
+    console.error('Error migrating legacy encrypted messages:', error);
+    res.status(500).json({ error: 'Failed to migrate legacy messages' });
+  }
+});
+
+module.exports = router;
@@ -2,23 +2,66 @@ const express = require('express');
 const Event = require('../models/Event');
 const User = require('../models/User');
 const { authenticateToken } = require('../middleware/auth');
+const NotificationService = require('../services/notificationService');
+const CalendarFeedService = require('../services/calendarFeedService');
 
 const router = express.Router();
 
+// Faculty and alumni organise events; admins can manage any event
+const canCreateEvents = (user) => ['faculty', 'alumni'].includes(user.type) || user.role === 'admin';
+
+const canManageEvent = (event, user) => {
+  if (user.role === 'admin') return true;
+  if (event.createdById) return event.createdById.toString() === user._id.toString();
+  return event.createdBy === user.name;
+};
+
+const parseCapacity = (value) => {
+  if (value === undefined) return undefined;
+  if (value === null || value === '' || Number(value) === 0) return null;
+  const capacity = parseInt(value, 10);
+  return Number.isInteger(capacity) && capacity > 0 ? capacity : NaN;
+};
+
+// Tell users who moved off the waitlist that they now have a seat
+const notifyPromoted = async (req, event, userIds) => {
+  const io = req.app.get('io');
+  for (const userId of userIds) {
+    try {
+      const notification = await NotificationService.createNotification({
+        recipientId: userId,
+        senderId: event.createdById || req.user._id,
+        type: 'event_invitation',
+        title: "You're off the waitlist",
+        message: `A seat opened up for "${event.title}" on ${event.date} at ${event.time}. Your spot is confirmed.`,
+        priority: 'high',
+        category: 'engagement',
+        metadata: { eventId: event._id }
+      });
+      if (io && notification) {
+        io.to(`user_${userId}`).emit('new_notification', { notification, timestamp: new Date() });
+      }
+    } catch (error) {
+      console.error('Error notifying promoted attendee:', error);
+    }
+  }
+};
+
 // Get all events with filtering and pagination
 router.get('/', async (req, res) => {
   try {
-    const { page = 1, limit = 10, type, date, search } = req.query;
+    const { page = 1, limit = 10, type, date, from, to, search } = req.query;
     
     let query = {};
     
-    // Add filters
+    // Add filters. Dates are stored as YYYY-MM-DD strings so they compare lexically.
     if (type) query.type = type;
     if (date) {
-      const targetDate = new Date(date);
-      const nextDay = new Date(targetDate);
-      nextDay.setDate(nextDay.getDate() + 1);
-      query.date = { $gte: targetDate, $lt: nextDay };
+      query.date = date;
+    } else if (from || to) {
+      query.date = {};
+      if (from) query.date.$gte = from;
+      if (to) query.date.$lte = to;
     }
     if (search) {
       query.$or = [
@@ -29,6 +72,7 @@ router.get('/', async (req, res) => {
     }
 
     const events = await Event.find(query)
+      .select('-tickets')
       .sort({ date: 1, time: 1 })
       .limit(limit * 1)
       .skip((page - 1) * limit);
@@ -50,7 +94,7 @@ router.get('/', async (req, res) => {
 // Get a specific event
 router.get('/:id', async (req, res) => {
   try {
-    const event = await Event.findById(req.params.id);
+    const event = await Event.findById(req.params.id).select('-tickets');
 
     if (!event) {
       return res.status(404).json({ error: 'Event not found' });
@@ -66,7 +110,20 @@ router.get('/:id', async (req, res) => {
 // Create a new event
 router.post('/', authenticateToken, async (req, res) => {
   try {
-    const { title, date, time, location, type, description, attendees } = req.body;
+    if (!canCreateEvents(req.user)) {
+      return res.status(403).json({ error: 'Only faculty and alumni can create events' });
+    }
+
+    const { title, date, time, location, type, description, meetLink, poster } = req.body;
+
+    if (!title || !date || !time || !location || !type || !description) {
+      return res.status(400).json({ error: 'Title, date, time, location, type and description are required' });
+    }
+
+    const capacity = parseCapacity(req.body.capacity);
+    if (Number.isNaN(capacity)) {
+      return res.status(400).json({ error: 'Capacity must be a positive whole number' });
+    }
     
     const newEvent = new Event({
       title,
@@ -75,8 +132,11 @@ router.post('/', authenticateToken, async (req, res) => {
       location,
       type,
       description,
-      attendees: attendees || 0,
-      createdBy: req.user.name
+      meetLink: meetLink || null,
+      poster: poster || null,
+      capacity: capacity ?? null,
+      createdBy: req.user.name,
+      createdById: req.user._id
     });
     
     const savedEvent = await newEvent.save();
@@ -84,9 +144,9 @@ router.post('/', authenticateToken, async (req, res) => {
     // realtime broadcast
     const io = req.app.get('io');
     if (io) {
-      io.emit('event_update', { event: savedEvent, timestamp: new Date() });
+      io.emit('event_update', { event: savedEvent.toPublicJSON(), timestamp: new Date() });
     }
-    res.status(201).json(savedEvent);
+    res.status(201).json(savedEvent.toPublicJSON());
   } catch (error) {
     console.error('Error creating event:', error);
     res.status(500).json({ error: 'Failed to create event' });
@@ -96,14 +156,14 @@ router.post('/', authenticateToken, async (req, res) => {
 // Update an event (creator only)
 router.put('/:id', authenticateToken, async (req, res) => {
   try {
-    const { title, date, time, location, type, description, attendees } = req.body;
+    const { title, date, time, location, type, description, meetLink, poster, status } = req.body;
     
     const event = await Event.findById(req.params.id);
     if (!event) {
       return res.status(404).json({ error: 'Event not found' });
     }
 
-    if (event.createdBy !== req.user.name) {
+    if (!canManageEvent(event, req.user)) {
       return res.status(403).json({ error: 'Not authorized to update this event' });
     }
 
@@ -113,15 +173,26 @@ router.put('/:id', authenticateToken, async (req, res) => {
     event.location = location || event.location;
     event.type = type || event.type;
     event.description = description || event.description;
-    event.attendees = attendees || event.attendees;
+    if (meetLink !== undefined) event.meetLink = meetLink || null;
+    if (poster !== undefined) event.poster = poster || null;
+    if (status !== undefined) event.status = status;
+
+    const capacity = parseCapacity(req.body.capacity);
+    if (Number.isNaN(capacity)) {
+      return res.status(400).json({ error: 'Capacity must be a positive whole number' });
+    }
+    // Lowering the capacity never removes confirmed attendees; raising it fills seats from the waitlist
+    if (capacity !== undefined) event.capacity = capacity;
     event.updatedAt = new Date();
     
-    const updatedEvent = await event.save();
+    await event.save();
+    const { event: updatedEvent, promoted } = await Event.promoteWaitlist(event._id);
+    await notifyPromoted(req, updatedEvent, promoted);
     const io = req.app.get('io');
     if (io) {
-      io.emit('event_update', { event: updatedEvent, timestamp: new Date() });
+      io.emit('event_update', { event: updatedEvent.toPublicJSON(), timestamp: new Date() });
     }
-    res.json(updatedEvent);
+    res.json(updatedEvent.toPublicJSON());
   } catch (error) {
     console.error('Error updating event:', error);
     res.status(500).json({ error: 'Failed to update event' });
@@ -137,11 +208,15 @@ router.delete('/:id', authenticateToken, async (req, res) => {
       return res.status(404).json({ error: 'Event not found' });
     }
 
-    if (event.createdBy !== req.user.name) {
+    if (!canManageEvent(event, req.user)) {
       return res.status(403).json({ error: 'Not authorized to delete this event' });
     }
 
     await Event.findByIdAndDelete(req.params.id);
+    const io = req.app.get('io');
+    if (io) {
+      io.emit('event_update', { event: event.toPublicJSON(), deleted: true, timestamp: new Date() });
+    }
     res.json({ message: 'Event deleted successfully' });
   } catch (error) {
     console.error('Error deleting event:', error);
@@ -152,38 +227,219 @@ router.delete('/:id', authenticateToken, async (req, res) => {
 // RSVP to an event
 router.post('/:id/rsvp', authenticateToken, async (req, res) => {
   try {
-    const { action } = req.body; // 'join' or 'leave'
+    const { action } = req.body; // 'join', 'leave', or omitted to toggle
     const event = await Event.findById(req.params.id);
     
     if (!event) {
       return res.status(404).json({ error: 'Event not found' });
     }
 
-    if (action === 'join') {
-      if (!event.attendees.includes(req.user._id)) {
-        event.attendees.push(req.user._id);
+    const isSignedUp = event.isAttending(req.user._id) || event.isWaitlisted(req.user._id);
+    const join = action ? action === 'join' : !isSignedUp;
+    let updatedEvent = event;
+    let promoted = [];
+
+    if (join && event.status === 'cancelled') {
+      return res.status(400).json({ error: 'This event has been cancelled' });
+    }
+
+    if (join) {
+      if (!isSignedUp) {
+        // Full events put new RSVPs on the waitlist
+        updatedEvent = await Event.claimSeat(event._id, req.user._id);
+        if (!updatedEvent) {
+          await Event.joinWaitlist(event._id, req.user._id);
+          // A seat may have opened up between the two writes
+          ({ event: updatedEvent, promoted } = await Event.promoteWaitlist(event._id));
+          promoted = promoted.filter(id => id.toString() !== req.user._id.toString());
+        }
       }
-    } else if (action === 'leave') {
-      event.attendees = event.attendees.filter(id => id.toString() !== req.user._id.toString());
+    } else {
+      await Event.releaseSeat(event._id, req.user._id);
+      ({ event: updatedEvent, promoted } = await Event.promoteWaitlist(event._id));
+    }
+
+    if (!updatedEvent) {
+      return res.status(404).json({ error: 'Event not found' });
     }
+    await notifyPromoted(req, updatedEvent, promoted);
 
-    const updatedEvent = await event.save();
-    res.json(updatedEvent);
+    const io = req.app.get('io');
+    if (io) {
+      io.emit('event_update', { event: updatedEvent.toPublicJSON(), timestamp: new Date() });
+    }
+
+    const waitlistIndex = updatedEvent.waitlist.findIndex(id => id.toString() === req.user._id.toString());
+    res.json({
+      ...updatedEvent.toPublicJSON(),
+      rsvpStatus: updatedEvent.isAttending(req.user._id) ? 'going' : waitlistIndex >= 0 ? 'waitlisted' : 'none',
+      waitlistPosition: waitlistIndex >= 0 ? waitlistIndex + 1 : null
+    });
   } catch (error) {
     console.error('Error updating RSVP:', error);
     res.status(500).json({ error: 'Failed to update RSVP' });
   }
 });
 
+// Download an event as an .ics file
+router.get('/:id/ics', async (req, res) => {
+  try {
+    const event = await Event.findById(req.params.id).select('-tickets');
+
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
+    const body = await CalendarFeedService.buildEventCalendar(event);
+    CalendarFeedService.sendCalendar(res, body, `${event.title}.ics`);
+  } catch (error) {
+    console.error('Error exporting event:', error);
+    res.status(500).json({ error: 'Failed to export event' });
+  }
+});
+
+// The current user's ticket and check-in code
+router.get('/:id/ticket', authenticateToken, async (req, res) => {
+  try {
+    const event = await Event.findById(req.params.id);
+
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
+    // Attendees who signed up before tickets existed get one on first request
+    if (event.isAttending(req.user._id) && !event.getTicket(req.user._id)) {
+      event.addAttendee(req.user._id);
+      await event.save();
+    }
+
+    const ticket = event.getTicket(req.user._id);
+    if (!ticket) {
+      const waitlistIndex = event.waitlist.findIndex(id => id.toString() === req.user._id.toString());
+      return res.status(404).json({
+        error: waitlistIndex >= 0 ? 'You are on the waitlist for this event' : 'You have not RSVP\'d to this event',
+        waitlistPosition: waitlistIndex >= 0 ? waitlistIndex + 1 : null
+      });
+    }
+
+    res.json({
+      eventId: event._id,
+      code: ticket.code,
+      // Payload for the attendee's QR code; organizers can scan it or type the code
+      qrValue: `EVENT:${event._id}:${ticket.code}`,
+      issuedAt: ticket.issuedAt,
+      checkedInAt: ticket.checkedInAt
+    });
+  } catch (error) {
+    console.error('Error fetching event ticket:', error);
+    res.status(500).json({ error: 'Failed to fetch event ticket' });
+  }
+});
+
+// Organizer check-in by ticket code (or the full QR value)
+router.post('/:id/check-in', authenticateToken, async (req, res) => {
+  try {
+    const event = await Event.findById(req.params.id);
+
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
+    if (!canManageEvent(event, req.user)) {
+      return res.status(403).json({ error: 'Only the organizer can check attendees in' });
+    }
+
+    const raw = (req.body.code || '').toString().trim().toUpperCase();
+    const code = raw.startsWith('EVENT:') ? raw.split(':').pop() : raw;
+    if (!code) {
+      return res.status(400).json({ error: 'Check-in code is required' });
+    }
+
+    const ticket = event.tickets.find(t => t.code === code);
+    if (!ticket) {
+      return res.status(404).json({ error: 'No ticket with this code for this event' });
+    }
+
+    const attendee = await User.findById(ticket.userId).select('name avatar type department');
+
+    if (ticket.checkedInAt) {
+      return res.status(409).json({
+        error: 'This ticket has already been checked in',
+        attendee,
+        checkedInAt: ticket.checkedInAt
+      });
+    }
+
+    // Match the ticket by code in the update itself: a cancellation may have
+    // shifted ticket positions, and another scanner may have checked it in
+    const checkedInAt = new Date();
+    const updated = await Event.findOneAndUpdate(
+      { _id: event._id, tickets: { $elemMatch: { code, checkedInAt: null } } },
+      { $set: { 'tickets.$.checkedInAt': checkedInAt, 'tickets.$.checkedInBy': req.user._id } },
+      { new: true }
+    ).select('tickets');
+    if (!updated) {
+      return res.status(409).json({ error: 'This ticket has already been checked in or was cancelled', attendee });
+    }
+
+    res.json({
+      success: true,
+      attendee,
+      checkedInAt,
+      checkedInCount: updated.tickets.filter(t => t.checkedInAt).length
+    });
+  } catch (error) {
+    console.error('Error checking in attendee:', error);
+    res.status(500).json({ error: 'Failed to check in attendee' });
+  }
+});
+
+// List the people attending an event
+router.get('/:id/attendees', authenticateToken, async (req, res) => {
+  try {
+    const event = await Event.findById(req.params.id)
+      .populate('attendees', 'name avatar type department studentInfo.batch alumniInfo.currentCompany')
+      .populate('waitlist', 'name avatar type department');
+
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
+    // Organizers also see who has actually turned up
+    const isOrganizer = canManageEvent(event, req.user);
+    // Accounts deleted since they RSVP'd populate as null
+    const attendees = event.attendees.filter(Boolean).map(attendee => {
+      const obj = attendee.toObject();
+      if (isOrganizer) {
+        obj.checkedInAt = event.getTicket(attendee._id)?.checkedInAt || null;
+      }
+      return obj;
+    });
+
+    res.json({
+      attendees,
+      attendeeCount: event.attendees.length,
+      capacity: event.capacity,
+      waitlist: isOrganizer ? event.waitlist.filter(Boolean) : undefined,
+      waitlistCount: event.waitlist.length,
+      checkedInCount: isOrganizer ? event.tickets.filter(t => t.checkedInAt).length : undefined
+    });
+  } catch (error) {
+    console.error('Error fetching event attendees:', error);
+    res.status(500).json({ error: 'Failed to fetch event attendees' });
+  }
+});
+
 // Get upcoming events
 router.get('/upcoming/events', async (req, res) => {
   try {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const today = new Date().toISOString().split('T')[0];
 
     const upcomingEvents = await Event.find({
-      date: { $gte: today }
+      date: { $gte: today },
+      status: { $ne: 'cancelled' }
     })
+    .select('-tickets')
     .sort({ date: 1, time: 1 })
     .limit(5);
 
@@ -200,6 +456,7 @@ router.get('/type/:eventType', async (req, res) => {
     const { page = 1, limit = 10 } = req.query;
     
     const events = await Event.find({ type: req.params.eventType })
+      .select('-tickets')
       .sort({ date: 1, time: 1 })
       .limit(limit * 1)
       .skip((page - 1) * limit);
@@ -2,6 +2,8 @@ const express = require('express');
 const router = express.Router();
 const Group = require('../models/Group');
 const Post = require('../models/Post');
+const CommentService = require('../services/commentService');
+const ModerationService = require('../services/moderationService');
 const User = require('../models/User');
 const { authenticateToken } = require('../middleware/auth');
 
@@ -58,15 +60,18 @@ router.post('/', authenticateToken, async (req, res) => {
 // Get all groups (public groups or groups user is member of)
 router.get('/', authenticateToken, async (req, res) => {
   try {
-    const { page = 1, limit = 20, search, tag } = req.query;
+    const { page = 1, limit = 20, search, tag, member } = req.query;
     const skip = (page - 1) * limit;
     const currentUser = req.user;
 
     // Build query
     const query = { isActive: true };
     
-    // If user is student, only show groups that allow student join
-    if (currentUser.type === 'student') {
+    if (member === 'true') {
+      // Only groups the user already belongs to, e.g. to post into
+      query['members.userId'] = currentUser._id;
+    } else if (currentUser.type === 'student') {
+      // If user is student, only show groups that allow student join
       query.allowStudentJoin = true;
     }
 
@@ -268,6 +273,12 @@ router.post('/:groupId/posts', authenticateToken, async (req, res) => {
       return res.status(403).json({ error: 'You must be a member to post in this group' });
     }
 
+    // Same verdict flow as POST /api/posts; held posts stay out of the group until approved
+    const verdict = await ModerationService.evaluate('post', { content, tags });
+    if (verdict.action === 'block') {
+      return res.status(400).json(ModerationService.blockedResponse(verdict));
+    }
+
     // Create post
     const post = new Post({
       author: currentUser._id,
@@ -281,17 +292,27 @@ router.post('/:groupId/posts', authenticateToken, async (req, res) => {
       content,
       media,
       tags,
-      groupId: groupId // Add group reference
+      groupId: groupId, // Add group reference
+      audience: 'group',
+      isPublic: false,
+      moderationStatus: verdict.action === 'review' ? 'pending' : 'approved'
     });
 
     await post.save();
 
+    await ModerationService.recordVerdict(verdict, {
+      contentType: 'post',
+      contentId: post._id,
+      authorId: currentUser._id,
+      excerpt: post.content
+    });
+
     // Add post to group
     group.posts.push(post._id);
     await group.save();
 
     // Populate author info
-    await post.populate('author', 'name avatar type department studentInfo facultyInfo');
+    await post.populate('author', 'name avatar type department studentInfo facultyInfo alumniInfo.verificationStatus');
 
     res.status(201).json({
       message: 'Post created successfully in group',
@@ -326,15 +347,15 @@ router.get('/:groupId/posts', authenticateToken, async (req, res) => {
     }
 
     // Get posts for this group
-    const posts = await Post.find({ groupId })
-      .populate('author', 'name avatar type department studentInfo facultyInfo')
-      .populate('comments.author', 'name avatar type department studentInfo facultyInfo')
+    const query = { groupId, moderationStatus: { $nin: ['pending', 'removed'] } };
+    const posts = await Post.find(query)
+      .populate('author', 'name avatar type department studentInfo facultyInfo alumniInfo.verificationStatus')
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(parseInt(limit))
       .lean();
 
-    const total = await Post.countDocuments({ groupId });
+    const total = await Post.countDocuments(query);
 
     res.json({
       posts,
@@ -419,6 +440,7 @@ router.delete('/:groupId', authenticateToken, async (req, res) => {
     }
 
     // Delete all posts in the group
+    await CommentService.removeForPosts(await Post.distinct('_id', { groupId }));
     await Post.deleteMany({ groupId });
 
     // Delete the group
@@ -1,16 +1,41 @@
 const express = require('express');
+const mongoose = require('mongoose');
 const JobPosting = require('../models/JobPosting');
+const JobApplication = require('../models/JobApplication');
+const Post = require('../models/Post');
 const User = require('../models/User');
-const { authenticateToken } = require('../middleware/auth');
+const { authenticateToken, requireFacultyOrAdmin } = require('../middleware/auth');
+const JobApplicationService = require('../services/jobApplicationService');
+const JobRecommendationService = require('../services/jobRecommendationService');
+const PostAudienceService = require('../services/postAudienceService');
 
 const router = express.Router();
 
+const APPLICATION_ERRORS = {
+  job_inactive: { status: 400, error: 'This job posting is no longer active' },
+  deadline_passed: { status: 400, error: 'The application deadline for this job has passed' },
+  own_job: { status: 400, error: 'You cannot apply to your own job posting' },
+  not_eligible: { status: 403, error: 'You do not meet the eligibility criteria for this job' },
+  already_applied: { status: 409, error: 'You have already applied to this job' },
+  invalid_status: { status: 400, error: 'Invalid application status' },
+  withdrawn: { status: 400, error: 'This application has been withdrawn' },
+  closed: { status: 400, error: 'This application has already been closed' }
+};
+
+const sendApplicationError = (res, reason, extra = {}) => {
+  const { status, error } = APPLICATION_ERRORS[reason] || { status: 400, error: 'Unable to update application' };
+  return res.status(status).json({ error, code: reason, ...extra });
+};
+
+const APPLICANT_FIELDS = 'name avatar type department batch email.college email.professional studentInfo alumniInfo resume';
+const JOB_SUMMARY_FIELDS = 'title companyName companyLogo location jobType deadline isActive sourcePost postedBy';
+
 // Get all job postings with filtering and pagination
 router.get('/', async (req, res) => {
   try {
     const { page = 1, limit = 10, jobType, location, industry, search, skills, branches, experienceLevel, from, to } = req.query;
     
-    let query = { isActive: true };
+    let query = { isActive: true, ...JobPosting.LISTED };
     
     // Add filters
     if (jobType) query.jobType = jobType;
@@ -34,6 +59,7 @@ router.get('/', async (req, res) => {
     }
 
     const jobPostings = await JobPosting.find(query)
+      .select('-eligibilityOverrides')
       .sort({ createdAt: -1 })
       .limit(limit * 1)
       .skip((page - 1) * limit);
@@ -52,10 +78,45 @@ router.get('/', async (req, res) => {
   }
 });
 
+// Jobs ranked for the current user, each with the reasons it was picked
+router.get('/recommended', authenticateToken, async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit) || 10, 30);
+    const recommendations = await JobRecommendationService.recommendForUser(req.user, { limit });
+    res.json({ recommendations });
+  } catch (error) {
+    console.error('Error fetching job recommendations:', error);
+    res.status(500).json({ error: 'Failed to fetch job recommendations' });
+  }
+});
+
+router.get('/recommendations/digest', authenticateToken, async (req, res) => {
+  try {
+    res.json(await JobRecommendationService.getDigestPreference(req.user._id));
+  } catch (error) {
+    console.error('Error fetching job digest preference:', error);
+    res.status(500).json({ error: 'Failed to fetch digest preference' });
+  }
+});
+
+// Opt in or out of the weekly recommendations email
+router.put('/recommendations/digest', authenticateToken, async (req, res) => {
+  try {
+    if (typeof req.body.enabled !== 'boolean') {
+      return res.status(400).json({ error: 'enabled must be true or false' });
+    }
+    res.json(await JobRecommendationService.setDigestPreference(req.user._id, req.body.enabled));
+  } catch (error) {
+    console.error('Error updating job digest preference:', error);
+    res.status(500).json({ error: 'Failed to update digest preference' });
+  }
+});
+
 // Get a specific job posting
 router.get('/:id', async (req, res) => {
   try {
-    const jobPosting = await JobPosting.findById(req.params.id);
+    // Postings from restricted posts are served through /post/:postId instead
+    const jobPosting = await JobPosting.findOne({ _id: req.params.id, ...JobPosting.LISTED }).select('-eligibilityOverrides');
 
     if (!jobPosting) {
       return res.status(404).json({ error: 'Job posting not found' });
@@ -152,39 +213,353 @@ router.delete('/:id', authenticateToken, async (req, res) => {
   }
 });
 
-// Apply to a job (mark as applied)
+// Apply to a job with the resume from the applicant's profile
 router.post('/:id/apply', authenticateToken, async (req, res) => {
   try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+
     const jobPosting = await JobPosting.findById(req.params.id);
-    
-    if (!jobPosting) {
+    if (!jobPosting || !(await JobApplicationService.canViewJob(jobPosting, req.user))) {
       return res.status(404).json({ error: 'Job posting not found' });
     }
 
-    if (!jobPosting.isActive) {
-      return res.status(400).json({ error: 'This job posting is no longer active' });
+    const { coverLetter } = req.body;
+    if (coverLetter && coverLetter.length > 2000) {
+      return res.status(400).json({ error: 'Cover letter must be 2000 characters or fewer' });
     }
 
-    // Create a placement application notification for poster
-    const Notification = require('../models/Notification');
-    await Notification.create({
-      recipient: jobPosting.postedBy,
-      sender: req.user._id,
-      type: 'placement_application',
-      title: 'New Job Application',
-      message: `${req.user.name} applied for ${jobPosting.title} at ${jobPosting.companyName}`,
-      category: 'placement',
-      actionData: { placementId: jobPosting._id, userId: req.user._id }
+    const result = await JobApplicationService.apply({
+      job: jobPosting,
+      user: req.user,
+      coverLetter: coverLetter?.trim(),
+      io: req.app.get('io')
+    });
+
+    if (!result.success) {
+      return sendApplicationError(res, result.reason, result.reasons ? { reasons: result.reasons } : {});
+    }
+
+    res.status(201).json({
+      message: 'Application submitted successfully',
+      application: result.application.toApplicantJSON()
     });
-    const updatedJob = jobPosting; // no applicants array in schema anymore
-    
-    res.json({ message: 'Application submitted successfully', jobPosting: updatedJob });
   } catch (error) {
     console.error('Error applying to job:', error);
     res.status(500).json({ error: 'Failed to apply to job' });
   }
 });
 
+// Applications the current user has submitted
+router.get('/applications/mine', authenticateToken, async (req, res) => {
+  try {
+    const { status } = req.query;
+    const query = { applicant: req.user._id };
+    if (status && JobApplication.STATUSES.includes(status)) query.status = status;
+
+    const applications = await JobApplication.find(query)
+      .populate('job', JOB_SUMMARY_FIELDS)
+      .sort({ updatedAt: -1 });
+
+    res.json({ applications: applications.map(app => app.toApplicantJSON()) });
+  } catch (error) {
+    console.error('Error fetching my applications:', error);
+    res.status(500).json({ error: 'Failed to fetch applications' });
+  }
+});
+
+// Poster-side pipeline: every application for a job, grouped by status
+router.get('/:id/applications', authenticateToken, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+
+    const jobPosting = await JobPosting.findById(req.params.id);
+    if (!jobPosting) {
+      return res.status(404).json({ error: 'Job posting not found' });
+    }
+    if (!JobApplicationService.canManageJob(jobPosting, req.user)) {
+      return res.status(403).json({ error: 'Not authorized to view applications for this job' });
+    }
+
+    const applications = await JobApplication.find({ job: jobPosting._id })
+      .populate('applicant', APPLICANT_FIELDS)
+      .sort({ createdAt: 1 });
+
+    const pipeline = JobApplication.STATUSES.reduce((acc, status) => {
+      acc[status] = [];
+      return acc;
+    }, {});
+    applications.forEach(app => pipeline[app.status].push(app));
+
+    res.json({ job: jobPosting, pipeline, total: applications.length });
+  } catch (error) {
+    console.error('Error fetching job applications:', error);
+    res.status(500).json({ error: 'Failed to fetch job applications' });
+  }
+});
+
+// Move an application through the pipeline (poster only)
+router.put('/applications/:applicationId/status', authenticateToken, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.applicationId)) {
+      return res.status(400).json({ error: 'Invalid application ID' });
+    }
+
+    const application = await JobApplication.findById(req.params.applicationId);
+    if (!application) {
+      return res.status(404).json({ error: 'Application not found' });
+    }
+    const jobPosting = await JobPosting.findById(application.job);
+    if (!jobPosting || !JobApplicationService.canManageJob(jobPosting, req.user)) {
+      return res.status(403).json({ error: 'Not authorized to update this application' });
+    }
+
+    const { status, note, posterNotes } = req.body;
+    if (posterNotes !== undefined) application.posterNotes = posterNotes;
+
+    const result = await JobApplicationService.updateStatus({
+      application,
+      job: jobPosting,
+      status: status || application.status,
+      actor: req.user,
+      note,
+      io: req.app.get('io')
+    });
+
+    if (!result.success) {
+      return sendApplicationError(res, result.reason);
+    }
+    if (result.unchanged && posterNotes !== undefined) {
+      await application.save();
+    }
+
+    await application.populate('applicant', APPLICANT_FIELDS);
+    res.json({ application });
+  } catch (error) {
+    console.error('Error updating application status:', error);
+    res.status(500).json({ error: 'Failed to update application' });
+  }
+});
+
+// Withdraw an application (applicant only)
+router.post('/applications/:applicationId/withdraw', authenticateToken, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.applicationId)) {
+      return res.status(400).json({ error: 'Invalid application ID' });
+    }
+
+    const application = await JobApplication.findById(req.params.applicationId);
+    if (!application || application.applicant.toString() !== req.user._id.toString()) {
+      return res.status(404).json({ error: 'Application not found' });
+    }
+    const jobPosting = await JobPosting.findById(application.job);
+    if (!jobPosting) {
+      return res.status(404).json({ error: 'Job posting not found' });
+    }
+
+    const result = await JobApplicationService.withdraw({
+      application,
+      job: jobPosting,
+      user: req.user,
+      io: req.app.get('io')
+    });
+
+    if (!result.success) {
+      return sendApplicationError(res, result.reason);
+    }
+
+    res.json({ application: result.application.toApplicantJSON() });
+  } catch (error) {
+    console.error('Error withdrawing application:', error);
+    res.status(500).json({ error: 'Failed to withdraw application' });
+  }
+});
+
+// Job posting behind a feed job post, with the viewer's application if any
+router.get('/post/:postId', authenticateToken, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.postId)) {
+      return res.status(400).json({ error: 'Invalid post ID' });
+    }
+
+    const post = await Post.findOne({ _id: req.params.postId, postType: 'job' });
+    if (!post || !(await PostAudienceService.canView(post, req.user))) {
+      return res.status(404).json({ error: 'Job post not found' });
+    }
+
+    let jobPosting = await JobPosting.findOne({ sourcePost: post._id });
+    if (!jobPosting) {
+      // Job posts created before applications existed are mirrored on first view
+      jobPosting = await JobApplicationService.syncFromPost(post);
+    }
+    if (!jobPosting) {
+      // Nothing to mirror: the post has no job details
+      return res.status(404).json({ error: 'This post has no job details' });
+    }
+
+    const isPoster = JobApplicationService.canManageJob(jobPosting, req.user);
+    const [myApplication, applicationCount] = await Promise.all([
+      JobApplication.findOne({ job: jobPosting._id, applicant: req.user._id }),
+      isPoster ? JobApplication.countDocuments({ job: jobPosting._id, status: { $ne: 'withdrawn' } }) : null
+    ]);
+
+    const job = jobPosting.toJSON();
+    delete job.eligibilityOverrides;
+
+    res.json({
+      job,
+      myApplication: myApplication ? myApplication.toApplicantJSON() : null,
+      applicationCount,
+      isPoster,
+      deadlinePassed: jobPosting.isPastDeadline(),
+      eligibility: isPoster ? null : JobApplicationService.evaluateEligibility(jobPosting, req.user),
+      canOverrideEligibility: JobApplicationService.canCoordinate(req.user)
+    });
+  } catch (error) {
+    console.error('Error fetching job for post:', error);
+    res.status(500).json({ error: 'Failed to fetch job details' });
+  }
+});
+
+// Whether the current user meets the job's eligibility criteria
+router.get('/:id/eligibility', authenticateToken, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+
+    const jobPosting = await JobPosting.findById(req.params.id);
+    if (!jobPosting || !(await JobApplicationService.canViewJob(jobPosting, req.user))) {
+      return res.status(404).json({ error: 'Job posting not found' });
+    }
+
+    res.json(JobApplicationService.evaluateEligibility(jobPosting, req.user));
+  } catch (error) {
+    console.error('Error checking job eligibility:', error);
+    res.status(500).json({ error: 'Failed to check eligibility' });
+  }
+});
+
+// Eligibility overrides granted by placement coordinators
+router.get('/:id/eligibility-overrides', authenticateToken, requireFacultyOrAdmin, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+
+    const jobPosting = await JobPosting.findById(req.params.id)
+      .select('title companyName eligibilityOverrides')
+      .populate('eligibilityOverrides.userId', 'name avatar type department batch')
+      .populate('eligibilityOverrides.grantedBy', 'name');
+    if (!jobPosting) {
+      return res.status(404).json({ error: 'Job posting not found' });
+    }
+
+    res.json({ overrides: jobPosting.eligibilityOverrides });
+  } catch (error) {
+    console.error('Error fetching eligibility overrides:', error);
+    res.status(500).json({ error: 'Failed to fetch eligibility overrides' });
+  }
+});
+
+// Let an individual applicant apply despite failing the eligibility checks
+router.post('/:id/eligibility-overrides', authenticateToken, requireFacultyOrAdmin, async (req, res) => {
+  try {
+    const { userId, note } = req.body;
+    if (!mongoose.Types.ObjectId.isValid(req.params.id) || !mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(400).json({ error: 'Invalid job or user ID' });
+    }
+
+    const [jobPosting, applicant] = await Promise.all([
+      JobPosting.findById(req.params.id),
+      User.findById(userId).select('-password')
+    ]);
+    if (!jobPosting) {
+      return res.status(404).json({ error: 'Job posting not found' });
+    }
+    if (!applicant) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (jobPosting.hasEligibilityOverride(userId)) {
+      return res.status(409).json({ error: 'This user already has an eligibility override for this job' });
+    }
+
+    jobPosting.eligibilityOverrides.push({ userId, grantedBy: req.user._id, note: note?.trim() });
+    await jobPosting.save();
+
+    await JobApplicationService.notify({
+      recipientId: applicant._id,
+      senderId: req.user._id,
+      type: 'job_update',
+      title: 'Eligibility Override Granted',
+      message: `${req.user.name} cleared you to apply for ${jobPosting.title} at ${jobPosting.companyName}`,
+      job: jobPosting,
+      io: req.app.get('io')
+    });
+
+    await jobPosting.populate([
+      { path: 'eligibilityOverrides.userId', select: 'name avatar type department batch' },
+      { path: 'eligibilityOverrides.grantedBy', select: 'name' }
+    ]);
+    res.status(201).json({ overrides: jobPosting.eligibilityOverrides });
+  } catch (error) {
+    console.error('Error granting eligibility override:', error);
+    res.status(500).json({ error: 'Failed to grant eligibility override' });
+  }
+});
+
+router.delete('/:id/eligibility-overrides/:userId', authenticateToken, requireFacultyOrAdmin, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id) || !mongoose.Types.ObjectId.isValid(req.params.userId)) {
+      return res.status(400).json({ error: 'Invalid job or user ID' });
+    }
+
+    const jobPosting = await JobPosting.findByIdAndUpdate(
+      req.params.id,
+      { $pull: { eligibilityOverrides: { userId: req.params.userId } } },
+      { new: true }
+    );
+    if (!jobPosting) {
+      return res.status(404).json({ error: 'Job posting not found' });
+    }
+
+    // Applications already submitted under the override are left in the pipeline
+    res.json({ message: 'Eligibility override removed' });
+  } catch (error) {
+    console.error('Error removing eligibility override:', error);
+    res.status(500).json({ error: 'Failed to remove eligibility override' });
+  }
+});
+
+// Jobs the current user has posted, with open application counts
+router.get('/posted/mine', authenticateToken, async (req, res) => {
+  try {
+    const jobs = await JobPosting.find({ postedBy: req.user._id })
+      .select(JOB_SUMMARY_FIELDS)
+      .sort({ createdAt: -1 })
+      .lean();
+
+    const counts = await JobApplication.aggregate([
+      { $match: { job: { $in: jobs.map(job => job._id) }, status: { $ne: 'withdrawn' } } },
+      { $group: { _id: '$job', count: { $sum: 1 } } }
+    ]);
+    const countByJob = counts.reduce((acc, c) => {
+      acc[c._id.toString()] = c.count;
+      return acc;
+    }, {});
+
+    res.json({
+      jobs: jobs.map(job => ({ ...job, applicationCount: countByJob[job._id.toString()] || 0 }))
+    });
+  } catch (error) {
+    console.error('Error fetching posted jobs:', error);
+    res.status(500).json({ error: 'Failed to fetch posted jobs' });
+  }
+});
+
 // Get job postings by company
 router.get('/company/:companyName', async (req, res) => {
   try {
@@ -192,15 +567,18 @@ router.get('/company/:companyName', async (req, res) => {
     
     const jobPostings = await JobPosting.find({
       companyName: { $regex: req.params.companyName, $options: 'i' },
-      isActive: true
+      isActive: true,
+      ...JobPosting.LISTED
     })
+    .select('-eligibilityOverrides')
     .sort({ createdAt: -1 })
     .limit(limit * 1)
     .skip((page - 1) * limit);
 
     const totalJobs = await JobPosting.countDocuments({
       companyName: { $regex: req.params.companyName, $options: 'i' },
-      isActive: true
+      isActive: true,
+      ...JobPosting.LISTED
     });
 
     res.json({
@@ -222,15 +600,18 @@ router.get('/location/:location', async (req, res) => {
     
     const jobPostings = await JobPosting.find({
       location: { $regex: req.params.location, $options: 'i' },
-      isActive: true
+      isActive: true,
+      ...JobPosting.LISTED
     })
+    .select('-eligibilityOverrides')
     .sort({ createdAt: -1 })
     .limit(limit * 1)
     .skip((page - 1) * limit);
 
     const totalJobs = await JobPosting.countDocuments({
       location: { $regex: req.params.location, $options: 'i' },
-      isActive: true
+      isActive: true,
+      ...JobPosting.LISTED
     });
 
     res.json({
@@ -248,7 +629,8 @@ router.get('/location/:location', async (req, res) => {
 // Get recent job postings
 router.get('/recent/jobs', async (req, res) => {
   try {
-    const recentJobs = await JobPosting.find({ isActive: true })
+    const recentJobs = await JobPosting.find({ isActive: true, ...JobPosting.LISTED })
+      .select('-eligibilityOverrides')
       .sort({ createdAt: -1 })
       .limit(5);
 
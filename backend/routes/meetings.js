@@ -4,6 +4,9 @@ const Meeting = require('../models/Meeting');
 const PDFDocument = require('pdfkit');
 const googleMeetService = require('../services/googleMeetService');
 const attendanceTrackingService = require('../services/attendanceTrackingService');
+const CalendarFeedService = require('../services/calendarFeedService');
+const PDFGenerator = require('../services/pdfGenerator');
+const MeetingSummaryService = require('../services/meetingSummaryService');
 const { v4: uuidv4 } = require('uuid');
 const { authenticateToken } = require('../middleware/auth');
 
@@ -667,6 +670,29 @@ router.post('/:meetingId/complete', authenticateToken, async (req, res) => {
   }
 });
 
+// Download a meeting as an .ics file (host or invitees)
+router.get('/:meetingId/ics', authenticateToken, async (req, res) => {
+  try {
+    const meeting = await Meeting.findOne({ id: req.params.meetingId });
+    if (!meeting) {
+      return res.status(404).json({ error: 'Meeting not found' });
+    }
+
+    const emails = [req.user.email?.college, req.user.email?.professional, req.user.email?.personal].filter(Boolean);
+    const isHost = meeting.host_id.toString() === req.user._id.toString();
+    const isInvited = [...meeting.attendees, ...meeting.expected_attendees]
+      .some(attendee => attendee.email && emails.includes(attendee.email.toLowerCase()));
+    if (!isHost && !isInvited) {
+      return res.status(403).json({ error: 'Only the host and invitees can export this meeting' });
+    }
+
+    CalendarFeedService.sendCalendar(res, CalendarFeedService.buildMeetingCalendar(meeting), `${meeting.title}.ics`);
+  } catch (error) {
+    console.error('Error exporting meeting:', error);
+    res.status(500).json({ error: 'Failed to export meeting' });
+  }
+});
+
 // Get attendance data (with option to refresh from Google Calendar)
 router.get('/:meetingId/attendance', authenticateToken, async (req, res) => {
   try {
@@ -700,6 +726,7 @@ router.get('/:meetingId/attendance', authenticateToken, async (req, res) => {
             partialCount: 0,
             absentCount: 0
           },
+          hostActions: updatedMeeting.host_actions || [],
           refreshed: true
         });
       } catch (refreshError) {
@@ -717,6 +744,7 @@ router.get('/:meetingId/attendance', authenticateToken, async (req, res) => {
         partialCount: 0,
         absentCount: 0
       },
+      hostActions: meeting.host_actions || [],
       refreshed: false
     });
   } catch (error) {
@@ -886,6 +914,8 @@ router.get('/:meetingId/attendance/pdf', authenticateToken, async (req, res) =>
       }
     }
 
+    attendance = attendanceTrackingService.addBreakoutTime(attendance, meeting.breakout_logs);
+
     // Always allow download, even if attendance is empty (return empty attendance)
     // This prevents 400 errors and allows users to download the meeting structure
 
@@ -945,10 +975,23 @@ router.get('/:meetingId/attendance/pdf', authenticateToken, async (req, res) =>
           .text(`Leave Time: ${formatDate(record.leaveTime)}`)
           .text(`Duration: ${record.duration || 0} mins`)
           .text(`Attendance %: ${record.attendancePercentage ?? 0}%`);
+        if (record.breakoutRooms && record.breakoutRooms.length > 0) {
+          doc.text(`Breakout Rooms: ${record.breakoutRooms.map(room => `${room.name} (${room.duration} mins)`).join(', ')}`);
+        }
         doc.moveDown(0.5);
       });
     }
 
+    const hostActions = meeting.host_actions || [];
+    if (hostActions.length > 0) {
+      doc.moveDown();
+      doc.fontSize(14).text('Host Actions', { underline: true });
+      doc.moveDown(0.5);
+      hostActions.forEach(entry => {
+        doc.fontSize(10).text(`${formatDate(entry.timestamp)} - ${PDFGenerator.describeHostAction(entry)}`);
+      });
+    }
+
     doc.end();
   } catch (error) {
     console.error('Error downloading attendance PDF:', error);
@@ -959,6 +1002,100 @@ router.get('/:meetingId/attendance/pdf', authenticateToken, async (req, res) =>
   }
 });
 
+// Post-meeting summary: chat transcript, shared links/files, reactions and duration stats
+router.get('/:meetingId/summary', authenticateToken, async (req, res) => {
+  try {
+    const meeting = await Meeting.findOne({ id: req.params.meetingId });
+    if (!meeting) {
+      return res.status(404).json({ error: 'Meeting not found' });
+    }
+
+    if (!MeetingSummaryService.canView(meeting, req.user)) {
+      return res.status(403).json({ error: 'Only the host and attendees can view this meeting summary' });
+    }
+
+    res.json({
+      success: true,
+      ...MeetingSummaryService.buildSummary(meeting, req.user)
+    });
+  } catch (error) {
+    console.error('Error fetching meeting summary:', error);
+    res.status(500).json({ error: 'Failed to fetch meeting summary' });
+  }
+});
+
+// Export in-meeting poll and quiz answers to Excel (one sheet per poll)
+router.get('/:meetingId/polls/excel', authenticateToken, async (req, res) => {
+  try {
+    const XLSX = require('xlsx');
+    const { meetingId } = req.params;
+    const userId = req.user._id.toString();
+
+    const meeting = await Meeting.findOne({ id: meetingId }).select('id title host_id co_host_ids polls');
+    if (!meeting) {
+      return res.status(404).json({ error: 'Meeting not found' });
+    }
+
+    if (meeting.host_id.toString() !== userId && !(meeting.co_host_ids || []).includes(userId)) {
+      return res.status(403).json({ error: 'Only the meeting host or a co-host can download poll results' });
+    }
+
+    const polls = meeting.polls || [];
+    if (polls.length === 0) {
+      return res.status(400).json({ error: 'No polls were run in this meeting' });
+    }
+
+    const formatTime = (date) => (date ? new Date(date).toLocaleString() : 'N/A');
+    const workbook = XLSX.utils.book_new();
+    const quizScores = {};
+
+    polls.forEach((poll, index) => {
+      const isQuiz = poll.type === 'quiz';
+      const headers = isQuiz
+        ? ['Name', 'Email', 'Answer', 'Correct', 'Answered At']
+        : ['Name', 'Email', 'Answer', 'Answered At'];
+      const worksheetData = [[poll.question], headers];
+
+      poll.answers.forEach(answer => {
+        const option = poll.options.find(opt => opt.id === answer.option_id);
+        const row = [answer.name || 'Unknown', answer.email || 'N/A', option ? option.text : 'N/A'];
+        if (isQuiz) {
+          row.push(answer.correct ? 'Yes' : 'No');
+
+          const key = answer.user_id || answer.email;
+          quizScores[key] = quizScores[key] || { name: answer.name || 'Unknown', email: answer.email || 'N/A', correct: 0 };
+          if (answer.correct) quizScores[key].correct += 1;
+        }
+        row.push(formatTime(answer.answered_at));
+        worksheetData.push(row);
+      });
+
+      const worksheet = XLSX.utils.aoa_to_sheet(worksheetData);
+      worksheet['!merges'] = [{ s: { r: 0, c: 0 }, e: { r: 0, c: headers.length - 1 } }];
+      XLSX.utils.book_append_sheet(workbook, worksheet, `${index + 1}. ${isQuiz ? 'Quiz' : 'Poll'}`);
+    });
+
+    const quizCount = polls.filter(poll => poll.type === 'quiz').length;
+    if (quizCount > 0) {
+      const scoreData = [['Name', 'Email', 'Correct Answers', 'Total Quizzes']];
+      Object.values(quizScores)
+        .sort((a, b) => b.correct - a.correct)
+        .forEach(score => scoreData.push([score.name, score.email, score.correct, quizCount]));
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(scoreData), 'Quiz Scores');
+    }
+
+    const excelBuffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+    const sanitizedTitle = `${meeting.title || 'Meeting'} - Polls`.replace(/[/\\?%*:|"<>]/g, '_').substring(0, 100);
+
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="${sanitizedTitle}.xlsx"`);
+    res.send(excelBuffer);
+  } catch (error) {
+    console.error('Error exporting meeting polls to Excel:', error);
+    res.status(500).json({ error: 'Failed to export poll results' });
+  }
+});
+
 // Log join event
 router.post('/:meetingId/log-join', authenticateToken, async (req, res) => {
   try {
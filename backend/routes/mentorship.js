@@ -0,0 +1,405 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const Mentorship = require('../models/Mentorship');
+const User = require('../models/User');
+const { authenticateToken } = require('../middleware/auth');
+const MentorshipService = require('../services/mentorshipService');
+
+const router = express.Router();
+
+const MENTORSHIP_ERRORS = {
+  students_only: { status: 403, error: 'Only students can request mentorship' },
+  own_request: { status: 400, error: 'You cannot request mentorship from yourself' },
+  not_mentor: { status: 400, error: 'This person is not currently offering mentorship' },
+  at_capacity: { status: 409, error: 'This mentor has no open mentorship slots right now' },
+  already_requested: { status: 409, error: 'You already have an open request or mentorship with this mentor' },
+  not_pending: { status: 400, error: 'This request has already been answered' },
+  not_active: { status: 400, error: 'This mentorship is not active' },
+  feedback_given: { status: 400, error: 'You have already left feedback for this mentorship' }
+};
+
+const sendMentorshipError = (res, reason) => {
+  const { status, error } = MENTORSHIP_ERRORS[reason] || { status: 400, error: 'Unable to update mentorship' };
+  return res.status(status).json({ error, code: reason });
+};
+
+const PARTICIPANT_FIELDS = 'name avatar type department batch email.college email.professional alumniInfo.currentCompany alumniInfo.jobTitle studentInfo.department studentInfo.currentYear';
+
+// Loads a mentorship the current user takes part in; sends the error response itself otherwise
+const loadMentorship = async (req, res, { populate = false } = {}) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    res.status(400).json({ error: 'Invalid mentorship ID' });
+    return null;
+  }
+  let query = Mentorship.findById(req.params.id);
+  if (populate) {
+    query = query
+      .populate('mentor', PARTICIPANT_FIELDS)
+      .populate('mentee', PARTICIPANT_FIELDS)
+      .populate('notes.author', 'name avatar');
+  }
+  const mentorship = await query;
+  if (!mentorship || !mentorship.isParticipant(req.user._id)) {
+    res.status(404).json({ error: 'Mentorship not found' });
+    return null;
+  }
+  return mentorship;
+};
+
+const requireActive = (res, mentorship) => {
+  if (mentorship.status !== 'active') {
+    sendMentorshipError(res, 'not_active');
+    return false;
+  }
+  return true;
+};
+
+// Browse mentors by area, company and department
+router.get('/mentors', authenticateToken, async (req, res) => {
+  try {
+    const { area, company, department, search } = req.query;
+    const page = Math.max(parseInt(req.query.page) || 1, 1);
+    const limit = Math.min(parseInt(req.query.limit) || 12, 50);
+    res.json(await MentorshipService.searchMentors({
+      area, company, department, search, page, limit, excludeUserId: req.user._id
+    }));
+  } catch (error) {
+    console.error('Error fetching mentors:', error);
+    res.status(500).json({ error: 'Failed to fetch mentors' });
+  }
+});
+
+// Mentors ranked by skills and department overlap, each with the reasons it was picked
+router.get('/mentors/suggested', authenticateToken, async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit) || 6, 20);
+    res.json({ suggestions: await MentorshipService.suggestMentors(req.user, { limit }) });
+  } catch (error) {
+    console.error('Error fetching mentor suggestions:', error);
+    res.status(500).json({ error: 'Failed to fetch mentor suggestions' });
+  }
+});
+
+// The current user's mentoring availability (alumni only)
+router.put('/availability', authenticateToken, async (req, res) => {
+  try {
+    if (req.user.type !== 'alumni') {
+      return res.status(403).json({ error: 'Only alumni can offer mentorship' });
+    }
+    const { offering, areas, capacity } = req.body;
+    const update = {};
+    if (offering !== undefined) update['alumniInfo.mentorshipOffering'] = !!offering;
+    if (areas !== undefined) {
+      if (!Array.isArray(areas)) return res.status(400).json({ error: 'areas must be a list' });
+      update['alumniInfo.mentorshipAreas'] = [...new Set(areas.map(a => String(a).trim()).filter(Boolean))].slice(0, 15);
+    }
+    if (capacity !== undefined) {
+      const value = parseInt(capacity);
+      if (isNaN(value) || value < 1 || value > 20) {
+        return res.status(400).json({ error: 'capacity must be between 1 and 20' });
+      }
+      update['alumniInfo.mentorshipCapacity'] = value;
+    }
+
+    const user = await User.findByIdAndUpdate(req.user._id, { $set: update }, { new: true })
+      .select('alumniInfo.mentorshipOffering alumniInfo.mentorshipAreas alumniInfo.mentorshipCapacity');
+    const activeMentees = await Mentorship.countDocuments({ mentor: req.user._id, status: 'active' });
+    res.json({
+      offering: !!user.alumniInfo?.mentorshipOffering,
+      areas: user.alumniInfo?.mentorshipAreas || [],
+      capacity: MentorshipService.capacityOf(user),
+      activeMentees
+    });
+  } catch (error) {
+    console.error('Error updating mentorship availability:', error);
+    res.status(500).json({ error: 'Failed to update mentorship availability' });
+  }
+});
+
+// Everything the current user is part of, as mentor and as mentee
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const mentorships = await Mentorship.find({ $or: [{ mentor: req.user._id }, { mentee: req.user._id }] })
+      .select('-notes')
+      .populate('mentor', PARTICIPANT_FIELDS)
+      .populate('mentee', PARTICIPANT_FIELDS)
+      .sort({ updatedAt: -1 });
+
+    const userId = req.user._id.toString();
+    res.json({
+      asMentor: mentorships.filter(m => m.mentor?._id.toString() === userId),
+      asMentee: mentorships.filter(m => m.mentee?._id.toString() === userId),
+      availability: req.user.type === 'alumni' ? {
+        offering: !!req.user.alumniInfo?.mentorshipOffering,
+        areas: req.user.alumniInfo?.mentorshipAreas || [],
+        capacity: MentorshipService.capacityOf(req.user),
+        activeMentees: mentorships.filter(m => m.mentor?._id.toString() === userId && m.status === 'active').length
+      } : null
+    });
+  } catch (error) {
+    console.error('Error fetching mentorships:', error);
+    res.status(500).json({ error: 'Failed to fetch mentorships' });
+  }
+});
+
+// Student asks an alumnus to mentor them
+router.post('/requests', authenticateToken, async (req, res) => {
+  try {
+    const { mentorId, area, message } = req.body;
+    if (!mongoose.Types.ObjectId.isValid(mentorId)) {
+      return res.status(400).json({ error: 'Invalid mentor ID' });
+    }
+    if (!message || !message.trim()) {
+      return res.status(400).json({ error: 'Tell the mentor what you would like help with' });
+    }
+    if (message.length > 2000) {
+      return res.status(400).json({ error: 'Goals must be 2000 characters or fewer' });
+    }
+
+    const mentor = await User.findById(mentorId).select(MentorshipService.MENTOR_FIELDS);
+    if (!mentor) {
+      return res.status(404).json({ error: 'Mentor not found' });
+    }
+
+    const result = await MentorshipService.request({
+      mentor,
+      mentee: req.user,
+      area: area?.trim(),
+      message: message.trim(),
+      io: req.app.get('io')
+    });
+    if (!result.success) {
+      return sendMentorshipError(res, result.reason);
+    }
+
+    res.status(201).json({ mentorship: result.mentorship });
+  } catch (error) {
+    console.error('Error requesting mentorship:', error);
+    res.status(500).json({ error: 'Failed to send mentorship request' });
+  }
+});
+
+// Mentor accepts or declines a pending request
+router.put('/:id/respond', authenticateToken, async (req, res) => {
+  try {
+    const mentorship = await loadMentorship(req, res);
+    if (!mentorship) return;
+    if (mentorship.mentor.toString() !== req.user._id.toString()) {
+      return res.status(403).json({ error: 'Only the mentor can respond to this request' });
+    }
+
+    const { accept, note } = req.body;
+    if (typeof accept !== 'boolean') {
+      return res.status(400).json({ error: 'accept must be true or false' });
+    }
+
+    const result = await MentorshipService.respond({
+      mentorship,
+      mentor: req.user,
+      accept,
+      note: note?.trim()?.slice(0, 500),
+      io: req.app.get('io')
+    });
+    if (!result.success) {
+      return sendMentorshipError(res, result.reason);
+    }
+
+    res.json({ mentorship: result.mentorship });
+  } catch (error) {
+    console.error('Error responding to mentorship request:', error);
+    res.status(500).json({ error: 'Failed to respond to mentorship request' });
+  }
+});
+
+// Mentee withdraws a request that hasn't been answered yet
+router.post('/:id/cancel', authenticateToken, async (req, res) => {
+  try {
+    const mentorship = await loadMentorship(req, res);
+    if (!mentorship) return;
+
+    const result = await MentorshipService.cancel({ mentorship, mentee: req.user });
+    if (!result.success) {
+      return sendMentorshipError(res, result.reason);
+    }
+    res.json({ mentorship: result.mentorship });
+  } catch (error) {
+    console.error('Error cancelling mentorship request:', error);
+    res.status(500).json({ error: 'Failed to cancel mentorship request' });
+  }
+});
+
+// Shared space: sessions, notes and goals
+router.get('/:id', authenticateToken, async (req, res) => {
+  try {
+    const mentorship = await loadMentorship(req, res, { populate: true });
+    if (!mentorship) return;
+    res.json({ mentorship });
+  } catch (error) {
+    console.error('Error fetching mentorship:', error);
+    res.status(500).json({ error: 'Failed to fetch mentorship' });
+  }
+});
+
+router.post('/:id/sessions', authenticateToken, async (req, res) => {
+  try {
+    const mentorship = await loadMentorship(req, res);
+    if (!mentorship || !requireActive(res, mentorship)) return;
+
+    const { scheduledAt, durationMinutes, topic, meetingLink } = req.body;
+    const when = new Date(scheduledAt);
+    if (!scheduledAt || isNaN(when.getTime())) {
+      return res.status(400).json({ error: 'A valid session date and time is required' });
+    }
+
+    mentorship.sessions.push({
+      scheduledAt: when,
+      durationMinutes: parseInt(durationMinutes) || 30,
+      topic: topic?.trim(),
+      meetingLink: meetingLink?.trim(),
+      createdBy: req.user._id
+    });
+    await mentorship.save();
+
+    const session = mentorship.sessions[mentorship.sessions.length - 1];
+    await MentorshipService.notifySessionScheduled({ mentorship, session, user: req.user, io: req.app.get('io') });
+    res.status(201).json({ session });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error scheduling mentorship session:', error);
+    res.status(500).json({ error: 'Failed to schedule session' });
+  }
+});
+
+// Reschedule, mark done/cancelled, or write the session notes
+router.put('/:id/sessions/:sessionId', authenticateToken, async (req, res) => {
+  try {
+    const mentorship = await loadMentorship(req, res);
+    if (!mentorship || !requireActive(res, mentorship)) return;
+
+    const session = mentorship.sessions.id(req.params.sessionId);
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const { scheduledAt, durationMinutes, topic, meetingLink, notes, status } = req.body;
+    if (scheduledAt !== undefined) {
+      const when = new Date(scheduledAt);
+      if (isNaN(when.getTime())) return res.status(400).json({ error: 'Invalid session date' });
+      session.scheduledAt = when;
+    }
+    if (status !== undefined) {
+      if (!Mentorship.SESSION_STATUSES.includes(status)) return res.status(400).json({ error: 'Invalid session status' });
+      session.status = status;
+    }
+    if (durationMinutes !== undefined) session.durationMinutes = parseInt(durationMinutes) || session.durationMinutes;
+    if (topic !== undefined) session.topic = topic;
+    if (meetingLink !== undefined) session.meetingLink = meetingLink;
+    if (notes !== undefined) session.notes = notes;
+
+    await mentorship.save();
+    res.json({ session });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error updating mentorship session:', error);
+    res.status(500).json({ error: 'Failed to update session' });
+  }
+});
+
+router.post('/:id/notes', authenticateToken, async (req, res) => {
+  try {
+    const mentorship = await loadMentorship(req, res);
+    if (!mentorship || !requireActive(res, mentorship)) return;
+
+    const text = req.body.text?.trim();
+    if (!text) return res.status(400).json({ error: 'Note text is required' });
+    if (text.length > 2000) return res.status(400).json({ error: 'Notes must be 2000 characters or fewer' });
+
+    mentorship.notes.push({ author: req.user._id, text });
+    await mentorship.save();
+    await mentorship.populate('notes.author', 'name avatar');
+    res.status(201).json({ note: mentorship.notes[mentorship.notes.length - 1] });
+  } catch (error) {
+    console.error('Error adding mentorship note:', error);
+    res.status(500).json({ error: 'Failed to add note' });
+  }
+});
+
+router.post('/:id/goals', authenticateToken, async (req, res) => {
+  try {
+    const mentorship = await loadMentorship(req, res);
+    if (!mentorship || !requireActive(res, mentorship)) return;
+
+    const text = req.body.text?.trim();
+    if (!text) return res.status(400).json({ error: 'Goal text is required' });
+    if (text.length > 300) return res.status(400).json({ error: 'Goals must be 300 characters or fewer' });
+
+    mentorship.goals.push({ text, createdBy: req.user._id });
+    await mentorship.save();
+    res.status(201).json({ goal: mentorship.goals[mentorship.goals.length - 1] });
+  } catch (error) {
+    console.error('Error adding mentorship goal:', error);
+    res.status(500).json({ error: 'Failed to add goal' });
+  }
+});
+
+router.put('/:id/goals/:goalId', authenticateToken, async (req, res) => {
+  try {
+    const mentorship = await loadMentorship(req, res);
+    if (!mentorship || !requireActive(res, mentorship)) return;
+
+    const goal = mentorship.goals.id(req.params.goalId);
+    if (!goal) {
+      return res.status(404).json({ error: 'Goal not found' });
+    }
+    if (typeof req.body.done === 'boolean') {
+      goal.done = req.body.done;
+      goal.completedAt = req.body.done ? new Date() : undefined;
+    }
+    if (req.body.text?.trim()) goal.text = req.body.text.trim();
+
+    await mentorship.save();
+    res.json({ goal });
+  } catch (error) {
+    console.error('Error updating mentorship goal:', error);
+    res.status(500).json({ error: 'Failed to update goal' });
+  }
+});
+
+// Close an active mentorship, or add feedback to one the other side closed
+router.post('/:id/close', authenticateToken, async (req, res) => {
+  try {
+    const mentorship = await loadMentorship(req, res);
+    if (!mentorship) return;
+
+    const { comment } = req.body;
+    const rating = req.body.rating !== undefined && req.body.rating !== null ? parseInt(req.body.rating) : undefined;
+    if (rating !== undefined && (isNaN(rating) || rating < 1 || rating > 5)) {
+      return res.status(400).json({ error: 'Rating must be between 1 and 5' });
+    }
+    if (comment && comment.length > 1000) {
+      return res.status(400).json({ error: 'Feedback must be 1000 characters or fewer' });
+    }
+
+    const result = await MentorshipService.close({
+      mentorship,
+      user: req.user,
+      rating,
+      comment: comment?.trim(),
+      io: req.app.get('io')
+    });
+    if (!result.success) {
+      return sendMentorshipError(res, result.reason);
+    }
+
+    res.json({ mentorship: result.mentorship });
+  } catch (error) {
+    console.error('Error closing mentorship:', error);
+    res.status(500).json({ error: 'Failed to close mentorship' });
+  }
+});
+
+module.exports = router;
@@ -6,8 +6,9 @@ const User = require('../models/User');
 const Notification = require('../models/Notification');
 const FollowService = require('../services/followService');
 const MessageDeletionService = require('../services/messageDeletionService');
+const ModerationService = require('../services/moderationService');
+const MessageEncryptionService = require('../services/messageEncryptionService');
 const { authenticateToken } = require('../middleware/auth');
-const crypto = require('crypto');
 const multer = require('multer');
 const cloudinary = require('cloudinary').v2;
 const axios = require('axios');
@@ -94,50 +95,6 @@ const messageUpload = multer({
   }
 });
 
-// Helper function to encrypt message content with proper GCM mode
-const encryptMessage = (content, encryptionKey) => {
-  try {
-    const algorithm = 'aes-256-gcm';
-    const key = crypto.scryptSync(encryptionKey, 'salt', 32);
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv(algorithm, key, iv);
-
-    let encrypted = cipher.update(content, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-
-    const authTag = cipher.getAuthTag();
-
-    return {
-      encrypted: encrypted,
-      iv: iv.toString('hex'),
-      authTag: authTag.toString('hex')
-    };
-  } catch (error) {
-    console.error('Encryption error:', error);
-    return null;
-  }
-};
-
-// Helper function to decrypt message content with proper GCM mode
-const decryptMessage = (encryptedData, encryptionKey) => {
-  try {
-    const algorithm = 'aes-256-gcm';
-    const key = crypto.scryptSync(encryptionKey, 'salt', 32);
-    const iv = Buffer.from(encryptedData.iv, 'hex');
-    const decipher = crypto.createDecipheriv(algorithm, key, iv);
-
-    decipher.setAuthTag(Buffer.from(encryptedData.authTag, 'hex'));
-
-    let decrypted = decipher.update(encryptedData.encrypted, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
-
-    return decrypted;
-  } catch (error) {
-    console.error('Decryption error:', error);
-    return null;
-  }
-};
-
 // Helper function to check if users can message each other
 const canUsersMessage = async (user1Id, user2Id) => {
   try {
@@ -164,12 +121,6 @@ const canUsersMessage = async (user1Id, user2Id) => {
   }
 };
 
-// Helper function to generate conversation encryption key
-const generateConversationKey = (conversationId, participantIds) => {
-  const sortedIds = participantIds.sort().join('-');
-  return crypto.createHash('sha256').update(`${conversationId}-${sortedIds}`).digest('hex');
-};
-
 // Conversations are now handled in /routes/conversations.js
 
 // PDF Download Proxy Endpoint - Serves PDFs with correct headers
@@ -407,6 +358,8 @@ router.get('/conversations/:conversationId/messages', authenticateToken, async (
         replyTo: msg.replyTo,
         reactions: msg.reactions,
         isEncrypted: msg.isEncrypted || false,
+        encryptedContent: msg.isEncrypted ? msg.encryptedContent : undefined,
+        legacyEncryption: msg.legacyEncryption || false,
         deletionMetadata: msg.deletionMetadata
       };
     });
@@ -451,7 +404,8 @@ router.get('/conversations/:conversationId/messages', authenticateToken, async (
 router.post('/conversations/:conversationId/messages', authenticateToken, async (req, res) => {
   try {
     const { conversationId } = req.params;
-    const { content, mediaUrl, fileName, fileSize, messageType = 'text', isEncrypted = false, replyTo, tempId } = req.body;
+    const { mediaUrl, fileName, fileSize, messageType = 'text', isEncrypted = false, encryptedContent, replyTo, tempId } = req.body;
+    const content = isEncrypted ? MessageEncryptionService.ENCRYPTED_PLACEHOLDER : req.body.content;
     const senderId = req.user._id;
 
     if (!content && !mediaUrl) {
@@ -464,6 +418,18 @@ router.post('/conversations/:conversationId/messages', authenticateToken, async
       return res.status(403).json({ error: 'Access denied to this conversation' });
     }
 
+    let encryptedFields;
+    if (isEncrypted) {
+      if (messageType !== 'text' || mediaUrl) {
+        return res.status(400).json({ error: 'Only text messages can be end-to-end encrypted', code: 'invalid_envelope' });
+      }
+      const envelopeCheck = MessageEncryptionService.validateEnvelope(encryptedContent, conversation.participants);
+      if (!envelopeCheck.valid) {
+        return res.status(400).json({ error: 'Invalid encrypted message', code: envelopeCheck.reason });
+      }
+      encryptedFields = envelopeCheck.envelope;
+    }
+
     // Check messaging permissions (for 1-on-1 conversations)
     if (!conversation.isGroupChat) {
       const otherParticipantId = conversation.participants.find(
@@ -480,6 +446,15 @@ router.post('/conversations/:conversationId/messages', authenticateToken, async
       }
     }
 
+    // Encrypted payloads are opaque to the server and cannot be moderated
+    let verdict = null;
+    if (!isEncrypted && content) {
+      verdict = await ModerationService.evaluate('message', { content });
+      if (verdict.action === 'block') {
+        return res.status(400).json(ModerationService.blockedResponse(verdict));
+      }
+    }
+
     // Create message
     const message = new Message({
       conversationId: new mongoose.Types.ObjectId(conversationId),
@@ -491,16 +466,26 @@ router.post('/conversations/:conversationId/messages', authenticateToken, async
       fileName,
       fileSize,
       isEncrypted: isEncrypted || false,
+      encryptedContent: encryptedFields,
       tempId,
       replyTo: replyTo ? {
         messageId: replyTo.messageId,
-        content: replyTo.content,
+        content: isEncrypted ? MessageEncryptionService.ENCRYPTED_PLACEHOLDER : replyTo.content,
         senderName: replyTo.senderName
       } : undefined
     });
 
     await message.save();
 
+    // Messages are delivered in real time, so review verdicts are recorded as flags
+    await ModerationService.recordVerdict(verdict?.action === 'review' ? { ...verdict, action: 'flag' } : verdict, {
+      contentType: 'message',
+      contentId: message._id,
+      parentId: conversation._id,
+      authorId: senderId,
+      excerpt: content
+    });
+
     // Update conversation last message
     conversation.lastMessage = content || `[${messageType}]`;
     conversation.lastMessageTime = new Date();
@@ -557,6 +542,7 @@ router.post('/conversations/:conversationId/messages', authenticateToken, async
             fileName: message.fileName,
             fileSize: message.fileSize,
             isEncrypted: message.isEncrypted || false,
+            encryptedContent: message.isEncrypted ? message.encryptedContent : undefined,
             createdAt: message.createdAt,
             isOwn: isSelf,
             tempId: message.tempId,
@@ -580,6 +566,7 @@ router.post('/conversations/:conversationId/messages', authenticateToken, async
         fileName: message.fileName,
         fileSize: message.fileSize,
         isEncrypted: message.isEncrypted || false,
+        encryptedContent: message.isEncrypted ? message.encryptedContent : undefined,
         createdAt: message.createdAt,
         isOwn: true,
         tempId: message.tempId,
@@ -1121,6 +1108,15 @@ router.post('/send', authenticateToken, async (req, res) => {
       return res.status(400).json({ error: 'Conversation ID and content are required' });
     }
 
+    // Server-side encryption was retired: the server must never hold message keys.
+    // Encrypted messages are sealed on the device and posted as an E2EE envelope.
+    if (encryptionKey) {
+      return res.status(400).json({
+        error: 'Server-side encryption is no longer supported. Send end-to-end encrypted messages to /api/conversations/:id/messages.',
+        code: 'server_encryption_retired'
+      });
+    }
+
     // Verify conversation exists and user is participant
     const conversation = await Conversation.findById(conversationId);
     if (!conversation || !conversation.participants.includes(senderId)) {
@@ -1143,31 +1139,13 @@ router.post('/send', authenticateToken, async (req, res) => {
       }
     }
 
-    // Encrypt message content if encryption key is provided
-    let encryptedContent = null;
-    let originalContent = content;
-
-    if (encryptionKey) {
-      encryptedContent = encryptMessage(content, encryptionKey);
-      if (!encryptedContent) {
-        return res.status(500).json({ error: 'Failed to encrypt message' });
-      }
-      // Store encrypted content instead of plain text
-      originalContent = JSON.stringify(encryptedContent);
-    }
-
     // Create message
     const message = new Message({
       conversationId,
       senderId,
       senderName: req.user.name,
-      content: originalContent,
-      messageType,
-      isEncrypted: !!encryptionKey,
-      encryptionData: encryptedContent ? {
-        iv: encryptedContent.iv,
-        authTag: encryptedContent.authTag
-      } : null
+      content,
+      messageType
     });
 
     await message.save();
@@ -1219,9 +1197,9 @@ router.post('/send', authenticateToken, async (req, res) => {
               _id: message._id,
               senderId: message.senderId._id,
               senderName: message.senderName,
-              content: content, // Send original content for real-time display
+              content: content,
               messageType: message.messageType,
-              isEncrypted: !!encryptionKey,
+              isEncrypted: false,
               createdAt: message.createdAt,
               isOwn: false
             }
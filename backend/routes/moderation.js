@@ -0,0 +1,287 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const router = express.Router();
+const { authenticateToken, requireFacultyOrAdmin } = require('../middleware/auth');
+const ModerationFilter = require('../models/ModerationFilter');
+const ModerationRule = require('../models/ModerationRule');
+const FlaggedContent = require('../models/FlaggedContent');
+const ModerationService = require('../services/moderationService');
+
+router.use(authenticateToken, requireFacultyOrAdmin);
+
+// Shape a flagged item the way the ContentModeration screen expects it
+const serializeFlagged = (flagged) => {
+  const obj = flagged.toJSON();
+  return {
+    ...obj,
+    id: flagged._id.toString(),
+    flaggedBy: flagged.flaggedBy?.name || 'Auto-moderation',
+    flaggedAt: flagged.createdAt,
+    reviewedBy: flagged.reviewedBy?.name || obj.reviewedBy,
+    author: flagged.authorId?.name ? { _id: flagged.authorId._id, name: flagged.authorId.name } : undefined
+  };
+};
+
+// ===== FILTERS =====
+
+router.get('/filters', async (req, res) => {
+  try {
+    const filters = await ModerationFilter.find().sort({ createdAt: -1 });
+    res.json({ success: true, filters });
+  } catch (error) {
+    console.error('Error fetching moderation filters:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch moderation filters' });
+  }
+});
+
+router.post('/filters', async (req, res) => {
+  try {
+    const { type, pattern, action, severity, enabled } = req.body;
+
+    if (!type || !pattern || !pattern.trim()) {
+      return res.status(400).json({ success: false, error: 'Filter type and pattern are required' });
+    }
+
+    try {
+      ModerationService.validatePattern(type, pattern.trim());
+    } catch (patternError) {
+      return res.status(400).json({ success: false, error: 'Invalid regular expression', details: patternError.message });
+    }
+
+    const filter = await ModerationFilter.create({
+      type,
+      pattern: pattern.trim(),
+      action,
+      severity,
+      enabled: enabled !== false,
+      createdBy: req.user._id
+    });
+
+    ModerationService.invalidateCache();
+    res.status(201).json({ success: true, filter });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ success: false, error: 'Filter validation failed', details: error.message });
+    }
+    console.error('Error creating moderation filter:', error);
+    res.status(500).json({ success: false, error: 'Failed to create moderation filter' });
+  }
+});
+
+router.put('/filters/:id', async (req, res) => {
+  try {
+    const filter = await ModerationFilter.findById(req.params.id);
+    if (!filter) {
+      return res.status(404).json({ success: false, error: 'Filter not found' });
+    }
+
+    const { type, pattern, action, severity, enabled } = req.body;
+    if (type !== undefined) filter.type = type;
+    if (pattern !== undefined) filter.pattern = pattern.trim();
+    if (action !== undefined) filter.action = action;
+    if (severity !== undefined) filter.severity = severity;
+    if (enabled !== undefined) filter.enabled = !!enabled;
+
+    try {
+      ModerationService.validatePattern(filter.type, filter.pattern);
+    } catch (patternError) {
+      return res.status(400).json({ success: false, error: 'Invalid regular expression', details: patternError.message });
+    }
+
+    await filter.save();
+    ModerationService.invalidateCache();
+    res.json({ success: true, filter });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ success: false, error: 'Filter validation failed', details: error.message });
+    }
+    console.error('Error updating moderation filter:', error);
+    res.status(500).json({ success: false, error: 'Failed to update moderation filter' });
+  }
+});
+
+router.delete('/filters/:id', async (req, res) => {
+  try {
+    const filter = await ModerationFilter.findByIdAndDelete(req.params.id);
+    if (!filter) {
+      return res.status(404).json({ success: false, error: 'Filter not found' });
+    }
+
+    ModerationService.invalidateCache();
+    res.json({ success: true, message: 'Filter deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting moderation filter:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete moderation filter' });
+  }
+});
+
+// ===== RULES =====
+
+router.get('/rules', async (req, res) => {
+  try {
+    const rules = await ModerationRule.find().sort({ priority: -1, createdAt: -1 });
+    res.json({ success: true, rules });
+  } catch (error) {
+    console.error('Error fetching moderation rules:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch moderation rules' });
+  }
+});
+
+router.post('/rules', async (req, res) => {
+  try {
+    const { name, description, type, conditions, action, enabled, priority } = req.body;
+
+    if (!name || !name.trim() || !type) {
+      return res.status(400).json({ success: false, error: 'Rule name and content type are required' });
+    }
+
+    const rule = await ModerationRule.create({
+      name: name.trim(),
+      description,
+      type,
+      conditions: Array.isArray(conditions) ? conditions : [],
+      action,
+      enabled: enabled !== false,
+      priority,
+      createdBy: req.user._id
+    });
+
+    ModerationService.invalidateCache();
+    res.status(201).json({ success: true, rule });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ success: false, error: 'Rule validation failed', details: error.message });
+    }
+    console.error('Error creating moderation rule:', error);
+    res.status(500).json({ success: false, error: 'Failed to create moderation rule' });
+  }
+});
+
+router.put('/rules/:id', async (req, res) => {
+  try {
+    const rule = await ModerationRule.findById(req.params.id);
+    if (!rule) {
+      return res.status(404).json({ success: false, error: 'Rule not found' });
+    }
+
+    const fields = ['name', 'description', 'type', 'conditions', 'action', 'priority'];
+    fields.forEach((field) => {
+      if (req.body[field] !== undefined) rule[field] = req.body[field];
+    });
+    if (req.body.enabled !== undefined) rule.enabled = !!req.body.enabled;
+
+    await rule.save();
+    ModerationService.invalidateCache();
+    res.json({ success: true, rule });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ success: false, error: 'Rule validation failed', details: error.message });
+    }
+    console.error('Error updating moderation rule:', error);
+    res.status(500).json({ success: false, error: 'Failed to update moderation rule' });
+  }
+});
+
+router.delete('/rules/:id', async (req, res) => {
+  try {
+    const rule = await ModerationRule.findByIdAndDelete(req.params.id);
+    if (!rule) {
+      return res.status(404).json({ success: false, error: 'Rule not found' });
+    }
+
+    ModerationService.invalidateCache();
+    res.json({ success: true, message: 'Rule deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting moderation rule:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete moderation rule' });
+  }
+});
+
+// ===== FLAGGED CONTENT =====
+
+router.get('/flagged', async (req, res) => {
+  try {
+    const { status, contentType, page = 1, limit = 50 } = req.query;
+    const query = {};
+    if (status) query.status = status;
+    if (contentType) query.contentType = contentType;
+
+    const [flagged, total] = await Promise.all([
+      FlaggedContent.find(query)
+        .populate('flaggedBy', 'name')
+        .populate('reviewedBy', 'name')
+        .populate('authorId', 'name')
+        .sort({ status: 1, createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(parseInt(limit)),
+      FlaggedContent.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      flaggedContent: flagged.map(serializeFlagged),
+      totalPages: Math.ceil(total / limit),
+      currentPage: parseInt(page),
+      total
+    });
+  } catch (error) {
+    console.error('Error fetching flagged content:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch flagged content' });
+  }
+});
+
+// Review a flagged item: approve, remove or warn the author
+router.put('/flagged/:id', async (req, res) => {
+  try {
+    const { action, notes } = req.body;
+
+    if (!['approved', 'removed', 'warned'].includes(action)) {
+      return res.status(400).json({ success: false, error: 'Action must be one of approved, removed or warned' });
+    }
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ success: false, error: 'Invalid flagged content ID' });
+    }
+
+    const flagged = await FlaggedContent.findById(req.params.id);
+    if (!flagged) {
+      return res.status(404).json({ success: false, error: 'Flagged content not found' });
+    }
+
+    await ModerationService.review(flagged, { action, notes, reviewer: req.user });
+
+    await flagged.populate([
+      { path: 'flaggedBy', select: 'name' },
+      { path: 'reviewedBy', select: 'name' },
+      { path: 'authorId', select: 'name' }
+    ]);
+
+    res.json({ success: true, flagged: serializeFlagged(flagged) });
+  } catch (error) {
+    console.error('Error reviewing flagged content:', error);
+    res.status(500).json({ success: false, error: 'Failed to review flagged content' });
+  }
+});
+
+// ===== SETTINGS =====
+
+router.get('/settings', async (req, res) => {
+  try {
+    const settings = await ModerationService.getSettings();
+    res.json({ success: true, settings });
+  } catch (error) {
+    console.error('Error fetching moderation settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch moderation settings' });
+  }
+});
+
+router.put('/settings', async (req, res) => {
+  try {
+    const settings = await ModerationService.updateSettings(req.body || {});
+    res.json({ success: true, settings });
+  } catch (error) {
+    console.error('Error updating moderation settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to update moderation settings' });
+  }
+});
+
+module.exports = router;
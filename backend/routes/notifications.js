@@ -364,7 +364,8 @@ router.put('/settings', authenticateToken, async (req, res) => {
     let securityChanges = null;
     if (security) {
       const validSecurityFields = [
-        'twoFactorEnabled', 'loginNotifications', 'sessionTimeout',
+        // twoFactorEnabled is read-only here; it follows enrollment in /api/auth/2fa
+        'loginNotifications', 'sessionTimeout',
         'requirePasswordChange', 'lastPasswordChange', 'passwordExpiryDays'
       ];
       const filteredSecurity = {};
@@ -5,12 +5,81 @@ const { authenticateToken } = require('../middleware/auth');
 const Post = require('../models/Post');
 const User = require('../models/User');
 const NotificationService = require('../services/notificationService');
+const ModerationService = require('../services/moderationService');
+const CalendarFeedService = require('../services/calendarFeedService');
+const JobApplicationService = require('../services/jobApplicationService');
+const CommentService = require('../services/commentService');
+const FeedService = require('../services/feedService');
+const PostAudienceService = require('../services/postAudienceService');
+const Comment = require('../models/Comment');
 const { uploadImage, uploadVideo, deleteFile } = require('../services/cloudinary');
 const cloudinary = require('cloudinary').v2;
 const Group = require('../models/Group');
 const multer = require('multer');
 
 
+// Posts held for review or removed by a moderator stay hidden from everyone but their author
+const HIDDEN_MODERATION_STATUSES = ['pending', 'removed'];
+
+const COMMENT_ERRORS = {
+  parent_not_found: { status: 404, error: 'The comment you are replying to no longer exists' },
+  not_author: { status: 403, error: 'You can only change your own comments' },
+  not_found: { status: 404, error: 'Comment not found' }
+};
+
+const AUDIENCE_ERRORS = {
+  invalid_audience: { status: 400, error: 'Unknown audience' },
+  department_required: { status: 400, error: 'Add your department to your profile to post to it' },
+  batch_required: { status: 400, error: 'Choose the batch this post is for' },
+  group_not_found: { status: 404, error: 'Group not found' },
+  not_group_member: { status: 403, error: 'You must be a member to post in this group' }
+};
+
+const sendAudienceError = (res, reason) => {
+  const { status, error } = AUDIENCE_ERRORS[reason] || { status: 400, error: 'Invalid audience' };
+  return res.status(status).json({ error, code: reason });
+};
+
+const sendCommentError = (res, result) => {
+  if (result.reason === 'blocked') {
+    return res.status(400).json(ModerationService.blockedResponse(result.verdict));
+  }
+  const { status, error } = COMMENT_ERRORS[result.reason] || { status: 400, error: 'Unable to update comment' };
+  return res.status(status).json({ error, code: result.reason });
+};
+
+// Loads a post the current user can see; sends the 404 itself otherwise
+const loadVisiblePost = async (req, res, postId) => {
+  if (!mongoose.Types.ObjectId.isValid(postId)) {
+    res.status(404).json({ error: 'Post not found' });
+    return null;
+  }
+  const post = await Post.findById(postId).select('author content allowComments moderationStatus audience audienceBatch department groupId');
+  const isAuthor = post?.author.toString() === req.user._id.toString();
+  if (!post || post.moderationStatus === 'removed' || (post.moderationStatus === 'pending' && !isAuthor) ||
+    !(await PostAudienceService.canView(post, req.user))) {
+    res.status(404).json({ error: 'Post not found' });
+    return null;
+  }
+  return post;
+};
+
+// Loads a comment the current user can see, on a post they can see; sends the 404 itself otherwise
+const loadComment = async (req, res) => {
+  const { postId, commentId } = req.params;
+  const post = await loadVisiblePost(req, res, postId);
+  if (!post) return null;
+  if (!mongoose.Types.ObjectId.isValid(commentId)) {
+    res.status(404).json({ error: 'Comment not found' });
+    return null;
+  }
+  const comment = await Comment.findOne({ _id: commentId, post: post._id, ...CommentService.visibleTo(req.user._id) });
+  if (!comment || comment.moderationStatus === 'removed') {
+    res.status(404).json({ error: 'Comment not found' });
+    return null;
+  }
+  return comment;
+};
 
 // Configure multer for file uploads
 const upload = multer({
@@ -29,13 +98,24 @@ const upload = multer({
   }
 });
 
-// Get all posts with pagination and filtering
+// Get all posts with pagination and filtering. With ?feed=for_you|latest the
+// response is cursor-paginated ({ posts, nextCursor, hasMore }) instead of paged.
 router.get('/', authenticateToken, async (req, res) => {
   try {
-    const { page = 1, limit = 10, author, tags, search, postType, department, batch, fromDate, toDate } = req.query;
+    const { page = 1, limit = 10, author, tags, search, postType, department, batch, fromDate, toDate, feed, cursor } = req.query;
+
+    if (feed && !FeedService.isFeed(feed)) {
+      return res.status(400).json({ error: 'Unknown feed' });
+    }
+    if (cursor && !FeedService.isValidCursor(cursor)) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
     const skip = (page - 1) * limit;
 
-    let query = { isPublic: true };
+    let query = {
+      moderationStatus: { $nin: HIDDEN_MODERATION_STATUSES },
+      $and: [await PostAudienceService.visibilityFilter(req.user)]
+    };
 
     if (author) {
       query.author = author;
@@ -70,9 +150,22 @@ router.get('/', authenticateToken, async (req, res) => {
       query['eventDetails.date'] = dateFilter;
     }
 
+    if (feed) {
+      const result = await FeedService.getFeed({
+        user: req.user,
+        feed,
+        cursor,
+        limit: Math.min(50, Math.max(1, parseInt(limit) || 10)),
+        query
+      });
+      return res.json({
+        ...result,
+        posts: result.posts.map(post => ({ ...post.toObject(), likeIds: post.likes.map(like => like._id.toString()) }))
+      });
+    }
+
     const posts = await Post.find(query)
-      .populate('author', 'name avatar type batch department studentInfo facultyInfo')
-      .populate('comments.author', 'name avatar')
+      .populate('author', 'name avatar type batch department studentInfo facultyInfo alumniInfo.verificationStatus')
       .populate('likes', 'name avatar')
       .sort({ createdAt: -1 })
       .skip(skip)
@@ -103,14 +196,19 @@ router.get('/', authenticateToken, async (req, res) => {
 router.get('/:id', authenticateToken, async (req, res) => {
   try {
     const post = await Post.findById(req.params.id)
-      .populate('author', 'name avatar type batch department studentInfo facultyInfo')
-      .populate('comments.author', 'name avatar')
+      .populate('author', 'name avatar type batch department studentInfo facultyInfo alumniInfo.verificationStatus')
       .populate('likes', 'name avatar');
 
     if (!post) {
       return res.status(404).json({ error: 'Post not found' });
     }
 
+    const isAuthor = post.author?._id?.toString() === req.user._id.toString();
+    if (post.moderationStatus === 'removed' || (post.moderationStatus === 'pending' && !isAuthor) ||
+      !(await PostAudienceService.canView(post, req.user))) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
     // Add likeIds field for easier frontend checking
     const postObj = post.toObject();
     postObj.likeIds = post.likes.map(like => like._id.toString());
@@ -122,6 +220,24 @@ router.get('/:id', authenticateToken, async (req, res) => {
   }
 });
 
+// Download an event post as an .ics file
+router.get('/:id/ics', authenticateToken, async (req, res) => {
+  try {
+    const post = await Post.findById(req.params.id);
+
+    if (!post || post.postType !== 'event' || post.moderationStatus === 'removed' ||
+      !(await PostAudienceService.canView(post, req.user))) {
+      return res.status(404).json({ error: 'Event post not found' });
+    }
+
+    const body = await CalendarFeedService.buildEventPostCalendar(post);
+    CalendarFeedService.sendCalendar(res, body, `${post.title || 'event'}.ics`);
+  } catch (error) {
+    console.error('Error exporting event post:', error);
+    res.status(500).json({ error: 'Failed to export event post' });
+  }
+});
+
 // Debug endpoint to test data parsing
 router.post('/debug', authenticateToken, (req, res) => {
   console.log('Debug endpoint - Request body:', JSON.stringify(req.body, null, 2));
@@ -157,6 +273,9 @@ router.post('/', authenticateToken, upload.array('media', 5), async (req, res) =
       content,
       tags,
       isPublic,
+      audience,
+      audienceBatch,
+      groupId,
       allowComments,
       jobDetails,
       pollDetails,
@@ -191,6 +310,17 @@ router.post('/', authenticateToken, upload.array('media', 5), async (req, res) =
       return res.status(404).json({ error: 'User not found' });
     }
 
+    // Older clients only send isPublic; a non-public post goes to followers
+    const audienceResult = await PostAudienceService.resolve({
+      audience: audience || (isPublic === 'false' ? 'followers' : 'everyone'),
+      audienceBatch,
+      groupId,
+      user
+    });
+    if (!audienceResult.success) {
+      return sendAudienceError(res, audienceResult.reason);
+    }
+
     let mediaFiles = [];
 
     // Handle file uploads to Cloudinary
@@ -258,7 +388,7 @@ router.post('/', authenticateToken, upload.array('media', 5), async (req, res) =
             tags.split(',').map(tag => tag.trim()).filter(tag => tag)
         ) :
           []) : [],
-      isPublic: isPublic !== 'false',
+      ...audienceResult.fields,
       allowComments: allowComments !== 'false'
     };
 
@@ -384,6 +514,18 @@ router.post('/', authenticateToken, upload.array('media', 5), async (req, res) =
       }
     }
 
+    const verdict = await ModerationService.evaluate('post', {
+      title: postData.title,
+      content: postData.content,
+      tags: postData.tags
+    });
+    if (verdict.action === 'block') {
+      return res.status(400).json(ModerationService.blockedResponse(verdict));
+    }
+    if (verdict.action === 'review') {
+      postData.moderationStatus = 'pending';
+    }
+
     console.log('Creating post with data:', JSON.stringify(postData, null, 2));
 
     let post;
@@ -425,15 +567,31 @@ router.post('/', authenticateToken, upload.array('media', 5), async (req, res) =
       });
     }
 
+    await ModerationService.recordVerdict(verdict, {
+      contentType: 'post',
+      contentId: post._id,
+      authorId: userId,
+      excerpt: post.content
+    });
+
+    if (post.postType === 'job') {
+      try {
+        await JobApplicationService.syncFromPost(post);
+      } catch (syncError) {
+        // The posting is mirrored again on first view, so don't fail the post
+        console.error('Error creating job posting for post:', syncError);
+      }
+    }
+
     // Populate author info before sending response
-    await post.populate('author', 'name avatar type batch department studentInfo facultyInfo');
+    await post.populate('author', 'name avatar type batch department studentInfo facultyInfo alumniInfo.verificationStatus');
 
-    // realtime broadcast
+    // realtime broadcast (posts held for review are announced once approved)
     const io = req.app.get('io');
-    if (io) {
-      io.emit('new_post', { post, author: post.author, timestamp: new Date() });
+    if (io && post.moderationStatus !== 'pending') {
+      await PostAudienceService.emit(io, post, 'new_post', { post, author: post.author, timestamp: new Date() });
       if (post.postType === 'event') {
-        io.emit('event_post_created', { post });
+        await PostAudienceService.emit(io, post, 'event_post_created', { post });
       }
     }
 
@@ -453,7 +611,7 @@ router.post('/', authenticateToken, upload.array('media', 5), async (req, res) =
 // Update a post
 router.put('/:id', authenticateToken, async (req, res) => {
   try {
-    const { content, tags, isPublic, allowComments } = req.body;
+    const { content, tags, isPublic, audience, audienceBatch, groupId, allowComments } = req.body;
     const postId = req.params.id;
     const userId = req.user._id;
 
@@ -466,17 +624,54 @@ router.put('/:id', authenticateToken, async (req, res) => {
       return res.status(403).json({ error: 'You can only edit your own posts' });
     }
 
+    let audienceFields = null;
+    if (audience !== undefined || isPublic !== undefined) {
+      if (post.groupId && audience !== 'group') {
+        return res.status(400).json({ error: 'Group posts stay visible to their group' });
+      }
+      const audienceResult = await PostAudienceService.resolve({
+        audience: audience || (isPublic === false || isPublic === 'false' ? 'followers' : 'everyone'),
+        audienceBatch,
+        groupId: post.groupId || groupId,
+        user: req.user
+      });
+      if (!audienceResult.success) {
+        return sendAudienceError(res, audienceResult.reason);
+      }
+      audienceFields = audienceResult.fields;
+    }
+
+    let verdict = null;
+    if (content !== undefined) {
+      verdict = await ModerationService.evaluate('post', { content: content.trim() });
+      if (verdict.action === 'block') {
+        return res.status(400).json(ModerationService.blockedResponse(verdict));
+      }
+    }
+
     const updates = {};
+    if (verdict?.action === 'review') updates.moderationStatus = 'pending';
     if (content !== undefined) updates.content = content.trim();
     if (tags !== undefined) updates.tags = tags.split(',').map(tag => tag.trim());
-    if (isPublic !== undefined) updates.isPublic = isPublic;
+    if (audienceFields) Object.assign(updates, audienceFields);
     if (allowComments !== undefined) updates.allowComments = allowComments;
 
     const updatedPost = await Post.findByIdAndUpdate(
       postId,
       updates,
       { new: true, runValidators: true }
-    ).populate('author', 'name avatar type batch department');
+    ).populate('author', 'name avatar type batch department alumniInfo.verificationStatus');
+
+    await ModerationService.recordVerdict(verdict, {
+      contentType: 'post',
+      contentId: postId,
+      authorId: userId,
+      excerpt: updatedPost.content
+    });
+
+    if (audienceFields && post.postType === 'job') {
+      await JobApplicationService.updateAudienceForPost(postId, audienceFields.audience);
+    }
 
     res.json(updatedPost);
   } catch (error) {
@@ -513,6 +708,10 @@ router.delete('/:id', authenticateToken, async (req, res) => {
     }
 
     await Post.findByIdAndDelete(postId);
+    await CommentService.removeForPosts([post._id]);
+    if (post.postType === 'job') {
+      await JobApplicationService.deactivateForPost(postId);
+    }
     res.json({ message: 'Post deleted successfully' });
   } catch (error) {
     console.error('Error deleting post:', error);
@@ -529,6 +728,11 @@ router.post('/:id/like', authenticateToken, async (req, res) => {
 
     console.log('🔄 Like request:', { postId, userId: userId.toString() });
 
+    const target = await Post.findById(postId).select('author audience audienceBatch department groupId');
+    if (target && !(await PostAudienceService.canView(target, req.user))) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
     let liked = false;
     let authorId = null;
     let contentSnippet = '';
@@ -630,79 +834,90 @@ router.post('/:id/like', authenticateToken, async (req, res) => {
   }
 });
 
-// Add a comment to a post
-router.post('/:id/comments', authenticateToken, async (req, res) => {
+// Comments on a post, or replies to one comment with ?parentId=
+router.get('/:id/comments', authenticateToken, async (req, res) => {
   try {
-    const { content } = req.body;
-    const postId = req.params.id;
-    const userId = req.user._id;
+    const post = await loadVisiblePost(req, res, req.params.id);
+    if (!post) return;
+
+    const { parentId } = req.query;
+    if (parentId && !mongoose.Types.ObjectId.isValid(parentId)) {
+      return res.status(400).json({ error: 'Invalid comment ID' });
+    }
+    const page = Math.max(1, parseInt(req.query.page) || 1);
+    const limit = Math.min(50, Math.max(1, parseInt(req.query.limit) || 10));
+
+    res.json(await CommentService.list({
+      postId: post._id,
+      parentId: parentId || null,
+      viewerId: req.user._id,
+      page,
+      limit
+    }));
+  } catch (error) {
+    console.error('Error fetching comments:', error);
+    res.status(500).json({ error: 'Failed to fetch comments' });
+  }
+});
 
-    if (!content || !content.trim()) {
+// Add a comment to a post, or a reply with parentId
+router.post('/:id/comments', authenticateToken, async (req, res) => {
+  try {
+    const content = req.body.content?.trim();
+    if (!content) {
       return res.status(400).json({ error: 'Comment content is required' });
     }
-
-    const post = await Post.findById(postId);
-    if (!post) {
-      return res.status(404).json({ error: 'Post not found' });
+    if (content.length > 2000) {
+      return res.status(400).json({ error: 'Comments must be 2000 characters or fewer' });
     }
 
+    const post = await loadVisiblePost(req, res, req.params.id);
+    if (!post) return;
     if (!post.allowComments) {
       return res.status(400).json({ error: 'Comments are disabled for this post' });
     }
 
-    const comment = {
-      author: userId,
-      content: content.trim(),
-      likes: []
-    };
-
-    post.comments.push(comment);
-    await post.save();
-
-    // Populate comment author info
-    await post.populate('comments.author', 'name avatar');
+    const result = await CommentService.create({
+      post,
+      user: req.user,
+      content,
+      parentId: req.body.parentId,
+      io: req.app.get('io')
+    });
+    if (!result.success) {
+      return sendCommentError(res, result);
+    }
 
-    const newComment = post.comments[post.comments.length - 1];
-    // notification to post author on comment
-    if (post.author.toString() !== userId.toString()) {
-      console.log(`Creating notification for post comment: ${post.author} from ${userId}`);
-      const createdNotification = await NotificationService.createPostCommentNotification(
-        userId,
-        post.author,
-        post._id,
-        post.content.substring(0, 50) + '...',
-        content.trim()
-      );
-      console.log(`Comment notification created:`, createdNotification._id);
+    res.status(201).json(CommentService.serialize(result.comment));
+  } catch (error) {
+    console.error('Error adding comment:', error);
+    res.status(500).json({ error: 'Failed to add comment' });
+  }
+});
 
-      const io = req.app.get('io');
-      if (io) {
-        console.log(`Emitting comment notification to user_${post.author}`);
-        io.to(`user_${post.author}`).emit('new_notification', {
-          notification: createdNotification,
-          timestamp: new Date()
-        });
-        console.log(`Comment notification emitted successfully`);
-      } else {
-        console.error('Socket.io instance not found for comment notification');
-      }
+// Edit a comment; the response carries editedAt for the "edited" marker
+router.put('/:postId/comments/:commentId', authenticateToken, async (req, res) => {
+  try {
+    const content = req.body.content?.trim();
+    if (!content) {
+      return res.status(400).json({ error: 'Comment content is required' });
+    }
+    if (content.length > 2000) {
+      return res.status(400).json({ error: 'Comments must be 2000 characters or fewer' });
     }
 
-    // Real-time broadcast comment update
-    const io = req.app.get('io');
-    if (io) {
-      io.emit('post_comment_added', {
-        postId: postId,
-        comment: newComment,
-        commentCount: post.comments.length,
-        timestamp: new Date()
-      });
+    const comment = await loadComment(req, res);
+    if (!comment) return;
+
+    const result = await CommentService.edit({ comment, user: req.user, content, io: req.app.get('io') });
+    if (!result.success) {
+      return sendCommentError(res, result);
     }
 
-    res.status(201).json(newComment);
+    res.json(CommentService.serialize(result.comment));
   } catch (error) {
-    console.error('Error adding comment:', error);
-    res.status(500).json({ error: 'Failed to add comment' });
+    console.error('Error editing comment:', error);
+    res.status(500).json({ error: 'Failed to edit comment' });
   }
 });
 
@@ -720,7 +935,7 @@ router.post('/:id/poll-vote', authenticateToken, async (req, res) => {
     }
 
     const post = await Post.findById(postId);
-    if (!post) {
+    if (!post || !(await PostAudienceService.canView(post, req.user))) {
       return res.status(404).json({ error: 'Post not found' });
     }
 
@@ -847,18 +1062,16 @@ router.post('/:id/poll-vote', authenticateToken, async (req, res) => {
 
     // Real-time broadcast poll update
     const io = req.app.get('io');
-    if (io) {
-      io.emit('poll_vote_updated', {
-        postId: post._id,
-        pollDetails: post.pollDetails,
-        totalVotes: post.pollDetails.totalVotes,
-        timestamp: new Date()
-      });
-    }
+    await PostAudienceService.emit(io, post, 'poll_vote_updated', {
+      postId: post._id,
+      pollDetails: post.pollDetails,
+      totalVotes: post.pollDetails.totalVotes,
+      timestamp: new Date()
+    });
 
     // Return the full updated post for frontend consistency
     const updatedPost = await Post.findById(postId)
-      .populate('author', 'name avatar type department batch')
+      .populate('author', 'name avatar type department batch alumniInfo.verificationStatus')
       .lean();
 
     if (!updatedPost) {
@@ -876,156 +1089,33 @@ router.post('/:id/poll-vote', authenticateToken, async (req, res) => {
 // Like/unlike a comment
 router.post('/:postId/comments/:commentId/like', authenticateToken, async (req, res) => {
   try {
-    const { postId, commentId } = req.params;
-    const userId = req.user._id;
-
-    const post = await Post.findById(postId);
-    if (!post) {
-      return res.status(404).json({ error: 'Post not found' });
-    }
-
-    const comment = post.comments.id(commentId);
-    if (!comment) {
+    const comment = await loadComment(req, res);
+    if (!comment) return;
+    if (comment.deletedAt) {
       return res.status(404).json({ error: 'Comment not found' });
     }
 
-    const likeIndex = comment.likes.indexOf(userId);
-    if (likeIndex > -1) {
-      // Unlike
-      comment.likes.splice(likeIndex, 1);
-    } else {
-      // Like
-      comment.likes.push(userId);
-    }
-
-    await post.save();
-    await comment.populate('likes', 'name avatar');
-
-    res.json({
-      liked: likeIndex === -1,
-      likeCount: comment.likes.length,
-      likes: comment.likes
-    });
+    res.json(await CommentService.toggleLike({ comment, userId: req.user._id }));
   } catch (error) {
     console.error('Error toggling comment like:', error);
     res.status(500).json({ error: 'Failed to toggle comment like' });
   }
 });
 
-// Delete a comment
+// Delete a comment; one with replies stays behind as a "deleted" placeholder
 router.delete('/:postId/comments/:commentId', authenticateToken, async (req, res) => {
   try {
-    const { postId, commentId } = req.params;
-    const userId = req.user._id;
-
-    console.log('🗑️ Deleting comment:', { postId, commentId, userId });
-    console.log('🔍 Comment ID type:', typeof commentId);
-    console.log('🔍 Comment ID length:', commentId?.length);
-    console.log('🔍 Comment ID value:', commentId);
-    console.log('🔍 User ID type:', typeof userId);
-    console.log('🔍 User ID value:', userId);
+    const comment = await loadComment(req, res);
+    if (!comment) return;
 
-    const post = await Post.findById(postId);
-    if (!post) {
-      console.log('❌ Post not found:', postId);
-      return res.status(404).json({ error: 'Post not found' });
-    }
-
-    console.log('📝 Post found, comments count:', post.comments.length);
-    console.log('🔍 Looking for comment ID:', commentId);
-    console.log('📋 Available comment IDs:', post.comments.map(c => ({ id: c._id.toString(), type: typeof c._id })));
-
-    // Find the comment index using multiple methods
-    let commentIndex = -1;
-    let comment = null;
-
-    // Method 1: Try using .id() method (handles both _id and commentId)
-    try {
-      comment = post.comments.id(commentId);
-      commentIndex = post.comments.findIndex(c => c._id.toString() === comment._id.toString());
-      console.log('✅ Found comment using .id() method, index:', commentIndex);
-    } catch (error) {
-      console.log('❌ .id() method failed:', error.message);
-    }
-
-    // Method 2: Try finding by _id (MongoDB default field)
-    if (commentIndex === -1) {
-      commentIndex = post.comments.findIndex(c => c._id.toString() === commentId);
-      if (commentIndex !== -1) {
-        comment = post.comments[commentIndex];
-        console.log('✅ Found comment by _id, index:', commentIndex);
-      } else {
-        console.log('❌ Comment not found by _id');
-      }
-    }
-
-    // Method 3: Try finding by commentId field (custom field)
-    if (commentIndex === -1) {
-      commentIndex = post.comments.findIndex(c => c.commentId && c.commentId.toString() === commentId);
-      if (commentIndex !== -1) {
-        comment = post.comments[commentIndex];
-        console.log('✅ Found comment by commentId field, index:', commentIndex);
-      } else {
-        console.log('❌ Comment not found by commentId field');
-      }
-    }
-
-    // Method 4: Try finding by ObjectId conversion (handle malformed IDs)
-    if (commentIndex === -1) {
-      try {
-        const objectId = new mongoose.Types.ObjectId(commentId);
-        commentIndex = post.comments.findIndex(c =>
-          c._id.equals(objectId) ||
-          (c.commentId && c.commentId.equals(objectId))
-        );
-        if (commentIndex !== -1) {
-          comment = post.comments[commentIndex];
-          console.log('✅ Found comment by ObjectId conversion, index:', commentIndex);
-        } else {
-          console.log('❌ Comment not found by ObjectId conversion');
-        }
-      } catch (error) {
-        console.log('❌ ObjectId conversion failed:', error.message);
-      }
-    }
-
-    // Method 5: Try partial match
-    if (commentIndex === -1) {
-      commentIndex = post.comments.findIndex(c =>
-        c._id.toString().includes(commentId) ||
-        (c.commentId && c.commentId.toString().includes(commentId))
-      );
-      if (commentIndex !== -1) {
-        comment = post.comments[commentIndex];
-        console.log('✅ Found comment by partial match, index:', commentIndex);
-      } else {
-        console.log('❌ Comment not found by partial match');
-      }
-    }
-
-    if (commentIndex === -1 || !comment) {
-      console.log('❌ Comment not found with any method:', commentId);
-      console.log('🔍 Available comment IDs (_id):', post.comments.map(c => c._id.toString()));
-      console.log('🔍 Available comment IDs (commentId):', post.comments.map(c => c.commentId ? c.commentId.toString() : 'No commentId'));
-      return res.status(404).json({ error: 'Comment not found' });
-    }
-
-    console.log('✅ Comment found, author:', comment.author.toString());
-    console.log('👤 User ID:', userId.toString());
-
-    if (comment.author.toString() !== userId.toString()) {
-      console.log('❌ Unauthorized: User cannot delete this comment');
-      return res.status(403).json({ error: 'You can only delete your own comments' });
+    const result = await CommentService.remove({ comment, user: req.user });
+    if (!result.success) {
+      return sendCommentError(res, result);
     }
 
-    // Remove the comment by index using splice
-    post.comments.splice(commentIndex, 1);
-    await post.save();
-
-    console.log('✅ Comment deleted successfully');
-    res.json({ message: 'Comment deleted successfully' });
+    res.json({ message: 'Comment deleted successfully', placeholder: result.placeholder });
   } catch (error) {
-    console.error('❌ Error deleting comment:', error);
+    console.error('Error deleting comment:', error);
     res.status(500).json({ error: 'Failed to delete comment' });
   }
 });
@@ -1038,9 +1128,13 @@ router.post('/:id/share', authenticateToken, async (req, res) => {
     const { groupId } = req.body; // Optional: share to specific group
 
     const post = await Post.findById(postId);
-    if (!post) {
+    if (!post || !(await PostAudienceService.canView(post, req.user))) {
       return res.status(404).json({ error: 'Post not found' });
     }
+    // Re-posting into a group would show the content beyond its audience
+    if (groupId && post.audience !== 'everyone') {
+      return res.status(400).json({ error: 'Only posts visible to everyone can be shared to a group' });
+    }
 
     // Check if user has already shared this post
     const alreadyShared = post.shares.some(share =>
@@ -1085,6 +1179,8 @@ router.post('/:id/share', authenticateToken, async (req, res) => {
         media: post.media,
         tags: post.tags,
         groupId: groupId,
+        audience: 'group',
+        isPublic: false,
         isShared: true,
         originalPostId: postId
       });
@@ -1106,13 +1202,11 @@ router.post('/:id/share', authenticateToken, async (req, res) => {
 
     // Emit real-time update
     const io = req.app.get('io');
-    if (io) {
-      io.emit('post_shared', {
-        postId: post._id,
-        sharedBy: userId,
-        shareCount: post.shares.length
-      });
-    }
+    await PostAudienceService.emit(io, post, 'post_shared', {
+      postId: post._id,
+      sharedBy: userId,
+      shareCount: post.shares.length
+    });
 
     res.json({
       message: 'Post shared successfully',
@@ -1132,7 +1226,7 @@ router.get('/:id/poll-data/excel', authenticateToken, async (req, res) => {
     const userId = req.user._id;
 
     const post = await Post.findById(postId);
-    if (!post) {
+    if (!post || !(await PostAudienceService.canView(post, req.user))) {
       return res.status(404).json({ error: 'Post not found' });
     }
 
@@ -1283,7 +1377,7 @@ router.get('/:id/poll-data', authenticateToken, async (req, res) => {
     const userId = req.user._id;
 
     const post = await Post.findById(postId);
-    if (!post) {
+    if (!post || !(await PostAudienceService.canView(post, req.user))) {
       return res.status(404).json({ error: 'Post not found' });
     }
 
@@ -0,0 +1,97 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const rateLimit = require('express-rate-limit');
+const router = express.Router();
+const { authenticateToken } = require('../middleware/auth');
+const FlaggedContent = require('../models/FlaggedContent');
+const ModerationService = require('../services/moderationService');
+
+// Members can file at most 10 reports per hour
+const reportLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10,
+  keyGenerator: (req) => req.user._id.toString(),
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req, res) => {
+    res.status(429).json({ error: 'You have submitted too many reports. Please try again later.' });
+  }
+});
+
+const REPORT_ERRORS = {
+  reporting_disabled: { status: 403, error: 'Reporting is currently disabled' },
+  invalid_reason: { status: 400, error: 'Please choose a valid reason for the report' },
+  content_not_found: { status: 404, error: 'The content you are reporting could not be found' },
+  own_content: { status: 400, error: 'You cannot report your own content' },
+  already_reported: { status: 409, error: 'You have already reported this content' }
+};
+
+// Report a post, comment, message or profile
+router.post('/', authenticateToken, reportLimiter, async (req, res) => {
+  try {
+    const { contentType, contentId, parentId, reason, details } = req.body;
+
+    if (!['post', 'comment', 'message', 'profile'].includes(contentType)) {
+      return res.status(400).json({ error: 'Invalid content type' });
+    }
+    if (!mongoose.Types.ObjectId.isValid(contentId) || (parentId && !mongoose.Types.ObjectId.isValid(parentId))) {
+      return res.status(400).json({ error: 'Invalid content ID' });
+    }
+
+    const result = await ModerationService.submitReport({
+      contentType,
+      contentId,
+      parentId: parentId || null,
+      reason,
+      details,
+      reporterId: req.user._id
+    });
+
+    if (!result.success) {
+      const { status, error } = REPORT_ERRORS[result.reason] || { status: 400, error: 'Unable to submit report' };
+      return res.status(status).json({ error, code: result.reason });
+    }
+
+    res.status(result.merged ? 200 : 201).json({
+      success: true,
+      message: 'Thanks for letting us know. Our moderators will review this report.',
+      reportId: result.flagged._id
+    });
+  } catch (error) {
+    console.error('Error submitting report:', error);
+    res.status(500).json({ error: 'Failed to submit report' });
+  }
+});
+
+// Reports filed by the current user and their status
+router.get('/mine', authenticateToken, async (req, res) => {
+  try {
+    const reports = await FlaggedContent.find({ 'reporters.userId': req.user._id })
+      .select('contentType contentId parentId status action reporters createdAt reviewedAt')
+      .sort({ createdAt: -1 })
+      .limit(50);
+
+    res.json({
+      success: true,
+      reports: reports.map(flagged => {
+        const own = flagged.reporters.find(r => r.userId.toString() === req.user._id.toString());
+        return {
+          id: flagged._id,
+          contentType: flagged.contentType,
+          contentId: flagged.contentId,
+          parentId: flagged.parentId,
+          reason: own?.reason,
+          details: own?.details,
+          reportedAt: own?.at,
+          status: flagged.status,
+          resolvedAt: flagged.reviewedAt
+        };
+      })
+    });
+  } catch (error) {
+    console.error('Error fetching reports:', error);
+    res.status(500).json({ error: 'Failed to fetch reports' });
+  }
+});
+
+module.exports = router;
@@ -16,13 +16,24 @@ const Conversation = require('../models/Conversation');
 const Message = require('../models/Message');
 const Notification = require('../models/Notification');
 const UserSettings = require('../models/UserSettings');
+const SessionService = require('../services/sessionService');
 const Connection = require('../models/Connection');
 const Group = require('../models/Group');
 const JobPosting = require('../models/JobPosting');
+const JobApplication = require('../models/JobApplication');
 const Placement = require('../models/Placement');
 const Meeting = require('../models/Meeting');
 const GoogleMeetRoom = require('../models/GoogleMeetRoom');
 const { authenticateToken } = require('../middleware/auth');
+const ModerationService = require('../services/moderationService');
+const CommentService = require('../services/commentService');
+const PostAudienceService = require('../services/postAudienceService');
+const CalendarFeedService = require('../services/calendarFeedService');
+
+// alumniInfo fields only the server writes (AlumniVerificationService.review and
+// the MentorshipService slot counter); profile edits never touch them, even when
+// the client echoes them back
+const SERVER_ALUMNI_FIELDS = ['isVerified', 'verificationStatus', 'activeMentees'];
 
 // ⚠️ IMPORTANT: Route order matters in Express.js!
 // Specific routes (like /profile) MUST be defined BEFORE parameterized routes (like /:userId)
@@ -255,6 +266,10 @@ router.put('/profile', authenticateToken, async (req, res) => {
       }
     });
 
+    if (profileUpdate.timezone && !CalendarFeedService.isValidTimezone(profileUpdate.timezone)) {
+      return res.status(400).json({ error: 'Invalid timezone' });
+    }
+
     const arrayFields = [
       'skills',
       'languages',
@@ -289,6 +304,17 @@ router.put('/profile', authenticateToken, async (req, res) => {
       profileUpdate.department = updateData.department;
     }
 
+    const verdict = await ModerationService.evaluate('profile', {
+      name: profileUpdate.name,
+      bio: profileUpdate.bio,
+      location: profileUpdate.location,
+      skills: profileUpdate.skills,
+      interests: profileUpdate.interests
+    });
+    if (verdict.action === 'block') {
+      return res.status(400).json({ success: false, ...ModerationService.blockedResponse(verdict) });
+    }
+
     // Handle type-specific information
     if (currentUser.type === 'student') {
       unsetFields.alumniInfo = '';
@@ -311,12 +337,10 @@ router.put('/profile', authenticateToken, async (req, res) => {
       unsetFields.studentInfo = '';
       unsetFields.facultyInfo = '';
       if (updateData.alumniInfo) {
-        profileUpdate.alumniInfo = {
-          ...(currentUser.alumniInfo?.toObject
-            ? currentUser.alumniInfo.toObject()
-            : currentUser.alumniInfo || {}),
-          ...updateData.alumniInfo
-        };
+        // Set individual paths so concurrent server-side writes to alumniInfo survive
+        Object.entries(updateData.alumniInfo)
+          .filter(([field]) => !SERVER_ALUMNI_FIELDS.includes(field))
+          .forEach(([field, value]) => { profileUpdate[`alumniInfo.${field}`] = value; });
         if (updateData.alumniInfo.currentCompany) {
           profileUpdate.company = updateData.alumniInfo.currentCompany;
         }
@@ -380,6 +404,14 @@ router.put('/profile', authenticateToken, async (req, res) => {
       return res.status(404).json({ error: 'User not found' });
     }
 
+    // Profiles cannot be held back, so review verdicts are recorded as flags
+    await ModerationService.recordVerdict(verdict.action === 'review' ? { ...verdict, action: 'flag' } : verdict, {
+      contentType: 'profile',
+      contentId: userId,
+      authorId: userId,
+      excerpt: [profileUpdate.name, profileUpdate.bio].filter(Boolean).join(' — ')
+    });
+
     console.log('✅ Profile updated successfully');
 
     // Emit socket event for real-time profile update
@@ -1111,14 +1143,22 @@ router.get('/:userId/posts', authenticateToken, async (req, res) => {
     const { page = 1, limit = 20 } = req.query;
     const skip = (page - 1) * limit;
 
-    const posts = await Post.find({ author: req.params.userId })
-      .populate('author', 'name avatar type department batch studentInfo facultyInfo')
+    // Authors still see their own posts while they wait for moderator review
+    const isSelf = req.params.userId === req.user._id.toString();
+    const hiddenStatuses = isSelf ? ['removed'] : ['pending', 'removed'];
+    const query = { author: req.params.userId, moderationStatus: { $nin: hiddenStatuses } };
+    if (!isSelf) {
+      query.$and = [await PostAudienceService.visibilityFilter(req.user)];
+    }
+
+    const posts = await Post.find(query)
+      .populate('author', 'name avatar type department batch studentInfo facultyInfo alumniInfo.verificationStatus')
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(parseInt(limit))
       .lean();
 
-    const total = await Post.countDocuments({ author: req.params.userId });
+    const total = await Post.countDocuments(query);
     const totalPages = Math.ceil(total / limit);
 
     res.json({
@@ -1809,7 +1849,8 @@ router.delete('/delete-account', authenticateToken, async (req, res) => {
     const deletionOperations = [
       Post.deleteMany({ author: userId }),
       Post.updateMany({ likes: userId }, { $pull: { likes: userId } }),
-      Post.updateMany({ 'comments.author': userId }, { $pull: { comments: { author: userId } } }),
+      CommentService.removeAllByAuthor(userId),
+      CommentService.removeForPosts(postIds),
       Post.updateMany({ 'shares.userId': userId }, { $pull: { shares: { userId } } }),
       Follow.deleteMany({
         $or: [{ followerId: userId }, { followeeId: userId }]
@@ -1830,6 +1871,9 @@ router.delete('/delete-account', authenticateToken, async (req, res) => {
       ),
       Group.deleteMany({ createdBy: userId }),
       JobPosting.deleteMany({ postedBy: userId }),
+      JobApplication.deleteMany({
+        $or: [{ applicant: userId }, { poster: userId }]
+      }),
       Placement.deleteMany({ student: userId }),
       Meeting.deleteMany({ host_id: userId.toString() }),
       GoogleMeetRoom.deleteMany({ host_id: userId }),
@@ -1901,6 +1945,7 @@ router.get('/security-info', authenticateToken, async (req, res) => {
 
     const user = await User.findById(userId).select('email createdAt lastLogin');
     const userSettings = await UserSettings.findOne({ userId });
+    const sessions = await SessionService.list(userId);
 
     const securityInfo = {
       email: user.email,
@@ -1908,8 +1953,9 @@ router.get('/security-info', authenticateToken, async (req, res) => {
       lastLogin: user.lastLogin,
       passwordLastChanged: userSettings?.security?.lastPasswordChange,
       twoFactorEnabled: userSettings?.security?.twoFactorEnabled || false,
-      sessionTimeout: userSettings?.security?.sessionTimeout || 24,
-      requirePasswordChange: userSettings?.security?.requirePasswordChange || false
+      sessionTimeout: userSettings?.security?.sessionTimeout || 30,
+      requirePasswordChange: userSettings?.security?.requirePasswordChange || false,
+      activeSessions: sessions.length
     };
 
     res.json(securityInfo);
@@ -4,7 +4,6 @@ const helmet = require('helmet');
 const morgan = require('morgan');
 const rateLimit = require('express-rate-limit');
 const mongoose = require('mongoose');
-const jwt = require('jsonwebtoken');
 const multer = require('multer');
 const { createServer } = require('http');
 const { Server } = require('socket.io');
@@ -26,11 +25,22 @@ const statsRoutes = require('./routes/stats');
 const configRoutes = require('./routes/config');
 const followRoutes = require('./routes/follows');
 const placementRoutes = require('./routes/placements');
+const mentorshipRoutes = require('./routes/mentorship');
+const alumniVerificationRoutes = require('./routes/alumniVerification');
 const meetingRoutes = require('./routes/meetings');
 const calendarMeetingRoutes = require('./routes/calendarMeetings');
 const googleMeetRoutes = require('./routes/googleMeet');
+const moderationRoutes = require('./routes/moderation');
+const reportRoutes = require('./routes/reports');
+const calendarRoutes = require('./routes/calendar');
+const encryptionRoutes = require('./routes/encryption');
+const analyticsRoutes = require('./routes/analytics');
 const CronService = require('./services/cronService');
 const { ensureDemoUser } = require('./services/demoUserService');
+const CommentService = require('./services/commentService');
+const PostAudienceService = require('./services/postAudienceService');
+const SessionService = require('./services/sessionService');
+const MentorshipService = require('./services/mentorshipService');
 const { startEmailExpiryMonitoring } = require('./services/emailExpiryService');
 
 // Import middleware
@@ -38,6 +48,7 @@ const { authenticateToken } = require('./middleware/auth');
 
 // Import services
 const SocketService = require('./services/socketService');
+const MeetingSocketService = require('./services/meetingSocketService');
 const { startRealtimeWatchers } = require('./services/realtimeWatchers');
 
 // Email validation middleware
@@ -168,6 +179,7 @@ const io = new Server(server, {
 
 // Initialize Socket Service for real-time messaging
 const socketService = new SocketService(io);
+new MeetingSocketService(io);
 startRealtimeWatchers(io);
 
 // Make io available to routes
@@ -186,7 +198,7 @@ io.on('connection', (socket) => {
         return;
       }
 
-      const decoded = jwt.verify(token, process.env.JWT_SECRET);
+      const decoded = SessionService.verifyAccessToken(token);
       const user = await User.findById(decoded.userId);
 
       if (!user) {
@@ -309,6 +321,24 @@ const connectDB = async () => {
 
     await ensureDemoUser();
 
+    try {
+      await CommentService.migrateEmbeddedComments();
+    } catch (error) {
+      console.error('❌ Failed to migrate embedded comments:', error);
+    }
+
+    try {
+      await PostAudienceService.backfillAudience();
+    } catch (error) {
+      console.error('❌ Failed to backfill post audiences:', error);
+    }
+
+    try {
+      await MentorshipService.syncActiveMentees();
+    } catch (error) {
+      console.error('❌ Failed to sync active mentee counts:', error);
+    }
+
     // Realtime watchers are started once socket.io is ready (see below)
 
   } catch (error) {
@@ -347,6 +377,13 @@ app.use('/api/stats', statsRoutes);
 app.use('/api/config', configRoutes);
 app.use('/api/follows', followRoutes);
 app.use('/api/placements', placementRoutes);
+app.use('/api/mentorship', mentorshipRoutes);
+app.use('/api/alumni-verification', alumniVerificationRoutes);
+app.use('/api/moderation', moderationRoutes);
+app.use('/api/reports', reportRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/encryption', encryptionRoutes);
+app.use('/api/analytics', analyticsRoutes);
 
 // Group routes (protected)
 app.use('/api/groups', require('./routes/groups'));
@@ -0,0 +1,175 @@
+const AlumniVerification = require('../models/AlumniVerification');
+const User = require('../models/User');
+const NotificationService = require('./notificationService');
+
+const QUEUE_FIELDS = 'name avatar email.personal email.college department batch studentInfo.rollNumber studentInfo.batch studentInfo.department studentInfo.joinYear alumniInfo.currentCompany alumniInfo.jobTitle alumniInfo.graduationYear alumniInfo.originalDepartment alumniInfo.conversionDate alumniInfo.verificationStatus createdAt';
+const STATUSES = ['pending', 'verified', 'rejected'];
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+class AlumniVerificationService {
+  static statusOf(user) {
+    return user.alumniInfo?.verificationStatus || 'pending';
+  }
+
+  // What the alumnus sees about their own verification
+  static async getStatus(user) {
+    const record = await AlumniVerification.findOne({ user: user._id }).lean();
+    return {
+      status: this.statusOf(user),
+      proofDocument: record?.proofDocument?.url ? record.proofDocument : null,
+      submittedAt: record?.submittedAt || null,
+      reviewedAt: record?.reviewedAt || null,
+      rejectionReason: this.statusOf(user) === 'rejected' ? record?.rejectionReason || null : null
+    };
+  }
+
+  /**
+   * Attach a proof document (degree certificate, provisional, ID card). A
+   * rejected alumnus uploading new proof goes back into the pending queue.
+   */
+  static async submitProof({ user, url, fileName }) {
+    if (user.type !== 'alumni') {
+      return { success: false, reason: 'alumni_only' };
+    }
+    if (this.statusOf(user) === 'verified') {
+      return { success: false, reason: 'already_verified' };
+    }
+
+    const now = new Date();
+    await AlumniVerification.findOneAndUpdate(
+      { user: user._id },
+      { $set: { proofDocument: { url, fileName, uploadedAt: now }, submittedAt: now } },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+    if (this.statusOf(user) === 'rejected') {
+      await User.updateOne(
+        { _id: user._id, 'alumniInfo.verificationStatus': 'rejected' },
+        { $set: { 'alumniInfo.verificationStatus': 'pending' } }
+      );
+    }
+
+    const refreshed = await User.findById(user._id).select('alumniInfo.verificationStatus');
+    return { success: true, verification: await this.getStatus(refreshed) };
+  }
+
+  static async listQueue({ status = 'pending', search, page = 1, limit = 20 }) {
+    const query = { type: 'alumni' };
+    // Alumni created before the field existed have no status and count as pending
+    query['alumniInfo.verificationStatus'] = status === 'pending' ? { $in: ['pending', null] } : status;
+    if (search) {
+      const pattern = { $regex: escapeRegex(search), $options: 'i' };
+      query.$or = [{ name: pattern }, { 'studentInfo.rollNumber': pattern }, { 'email.personal': pattern }];
+    }
+
+    const [users, total, counts] = await Promise.all([
+      User.find(query).select(QUEUE_FIELDS).sort({ 'alumniInfo.conversionDate': 1, createdAt: 1 }).skip((page - 1) * limit).limit(limit).lean(),
+      User.countDocuments(query),
+      this.countByStatus()
+    ]);
+
+    const records = await AlumniVerification.find({ user: { $in: users.map(u => u._id) } })
+      .populate('reviewedBy', 'name')
+      .lean();
+    const byUser = new Map(records.map(record => [record.user.toString(), record]));
+
+    return {
+      alumni: users.map(user => {
+        const record = byUser.get(user._id.toString());
+        return {
+          ...user,
+          verification: {
+            status: user.alumniInfo?.verificationStatus || 'pending',
+            proofDocument: record?.proofDocument?.url ? record.proofDocument : null,
+            submittedAt: record?.submittedAt || null,
+            reviewedBy: record?.reviewedBy || null,
+            reviewedAt: record?.reviewedAt || null,
+            rejectionReason: record?.rejectionReason || null
+          }
+        };
+      }),
+      counts,
+      currentPage: page,
+      totalPages: Math.ceil(total / limit),
+      total
+    };
+  }
+
+  static async countByStatus() {
+    const rows = await User.aggregate([
+      { $match: { type: 'alumni' } },
+      { $group: { _id: { $ifNull: ['$alumniInfo.verificationStatus', 'pending'] }, count: { $sum: 1 } } }
+    ]);
+    const counts = Object.fromEntries(STATUSES.map(status => [status, 0]));
+    rows.forEach(row => { counts[row._id] = row.count; });
+    return counts;
+  }
+
+  /**
+   * Approve or reject an alumnus. Reviewers can also revisit earlier
+   * decisions, e.g. revoke a verification that turned out to be wrong.
+   */
+  static async review({ alumnusId, reviewer, decision, reason, io }) {
+    if (!['verified', 'rejected'].includes(decision)) {
+      return { success: false, reason: 'invalid_decision' };
+    }
+    if (decision === 'rejected' && !reason) {
+      return { success: false, reason: 'reason_required' };
+    }
+
+    // Conditional on the current status so two reviewers can't both apply a decision
+    const alumnus = await User.findOneAndUpdate(
+      { _id: alumnusId, type: 'alumni', 'alumniInfo.verificationStatus': { $ne: decision } },
+      { $set: { 'alumniInfo.verificationStatus': decision, 'alumniInfo.isVerified': decision === 'verified' } },
+      { new: true }
+    ).select('name type alumniInfo.verificationStatus');
+    if (!alumnus) {
+      const exists = await User.exists({ _id: alumnusId, type: 'alumni' });
+      return { success: false, reason: exists ? 'unchanged' : 'not_found' };
+    }
+
+    const now = new Date();
+    await AlumniVerification.findOneAndUpdate(
+      { user: alumnus._id },
+      {
+        $set: {
+          reviewedBy: reviewer._id,
+          reviewedAt: now,
+          rejectionReason: decision === 'rejected' ? reason : null
+        },
+        $push: { history: { decision, reason, reviewer: reviewer._id, at: now } }
+      },
+      { upsert: true, setDefaultsOnInsert: true }
+    );
+
+    await this.notify({ alumnus, reviewer, decision, reason, io });
+
+    return { success: true, status: decision };
+  }
+
+  static async notify({ alumnus, reviewer, decision, reason, io }) {
+    try {
+      const notification = await NotificationService.createNotification({
+        recipientId: alumnus._id,
+        senderId: reviewer._id,
+        type: 'verification_update',
+        title: decision === 'verified' ? 'Alumni Status Verified' : 'Alumni Verification Rejected',
+        message: decision === 'verified'
+          ? 'Your alumni status has been verified. A verified badge now shows on your profile and posts.'
+          : `Your alumni verification was rejected: ${reason}. You can upload new proof from Settings.`,
+        priority: 'high',
+        category: 'system',
+        metadata: { verificationStatus: decision, reason }
+      });
+      if (notification && io) {
+        io.to(`user_${alumnus._id}`).emit('new_notification', { notification, timestamp: new Date() });
+      }
+    } catch (error) {
+      console.error('Error sending verification notification:', error);
+    }
+  }
+}
+
+AlumniVerificationService.STATUSES = STATUSES;
+
+module.exports = AlumniVerificationService;
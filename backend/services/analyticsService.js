@@ -0,0 +1,349 @@
+const AnalyticsDailyRollup = require('../models/AnalyticsDailyRollup');
+const Post = require('../models/Post');
+const Comment = require('../models/Comment');
+const Message = require('../models/Message');
+const Follow = require('../models/Follow');
+const FollowRequest = require('../models/FollowRequest');
+const Notification = require('../models/Notification');
+const User = require('../models/User');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RANGES = { '7d': 7, '30d': 30, '90d': 90, '1y': 365 };
+// Likes carry no timestamp, so they count towards the day the post was created.
+// Recent days are recomputed until that settles.
+const SETTLE_DAYS = 7;
+const RECENT_REFRESH_MS = 15 * 60 * 1000;
+const TOP_PER_DAY = 25;
+const TOP_PER_RANGE = 10;
+// Days one dashboard request may (re)compute; the nightly cron job backfills the rest
+const MAX_REQUEST_BACKFILL_DAYS = 14;
+
+const startOfDay = (date) => {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+};
+
+const dayKey = (date) => date.toISOString().slice(0, 10);
+
+// Weeks start on Monday
+const startOfWeek = (key) => {
+  const date = new Date(`${key}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date;
+};
+
+const increment = (map, key, amount = 1) => {
+  if (key === undefined || key === null || key === '') return;
+  map.set(key, (map.get(key) || 0) + amount);
+};
+
+const toCounts = (map, limit) => {
+  const counts = [...map.entries()]
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count);
+  return limit ? counts.slice(0, limit) : counts;
+};
+
+const normalizeTag = (tag) => String(tag || '').trim().replace(/^#+/, '').toLowerCase();
+
+const inDay = (value, start, end) => value && value >= start && value < end;
+
+class AnalyticsService {
+  static isValidRange(range) {
+    return Object.prototype.hasOwnProperty.call(RANGES, range);
+  }
+
+  /**
+   * Aggregate one UTC day of activity into its rollup document. Safe to rerun;
+   * the rollup is replaced wholesale.
+   */
+  static async rollupDay(date) {
+    const start = startOfDay(date);
+    const end = new Date(start.getTime() + DAY_MS);
+    const created = { createdAt: { $gte: start, $lt: end } };
+
+    const dayComments = await Comment.find({ ...created, moderationStatus: { $ne: 'removed' } })
+      .select('post author')
+      .lean();
+    const commentsByPost = new Map();
+    dayComments.forEach(comment => {
+      const key = String(comment.post);
+      commentsByPost.set(key, [...(commentsByPost.get(key) || []), comment]);
+    });
+
+    const [posts, newUsers, messageSenders, follows, followRequests, notifications, signedIn] = await Promise.all([
+      Post.find({
+        moderationStatus: { $ne: 'removed' },
+        $or: [
+          created,
+          { _id: { $in: [...commentsByPost.keys()] } },
+          { 'shares.sharedAt': { $gte: start, $lt: end } }
+        ]
+      })
+        .select('author postType title content tags likes shares createdAt')
+        .lean(),
+      User.find(created).select('type').lean(),
+      Message.aggregate([
+        { $match: created },
+        { $group: { _id: '$senderId', count: { $sum: 1 } } }
+      ]),
+      Follow.find(created).select('followerId').lean(),
+      FollowRequest.countDocuments(created),
+      Notification.countDocuments(created),
+      User.find({ lastLogin: { $gte: start, $lt: end } }).distinct('_id')
+    ]);
+
+    const active = new Set(signedIn.map(String));
+    const postsByType = new Map();
+    const tags = new Map();
+    const userEngagement = new Map();
+    const topPosts = [];
+    let postCount = 0;
+    let likes = 0;
+    let comments = 0;
+    let shares = 0;
+
+    posts.forEach(post => {
+      const isNew = inDay(post.createdAt, start, end);
+      const postLikes = isNew ? (post.likes || []).length : 0;
+      const postComments = commentsByPost.get(String(post._id)) || [];
+      const postShares = (post.shares || []).filter(share => inDay(share.sharedAt, start, end));
+
+      if (isNew) {
+        postCount++;
+        increment(postsByType, post.postType);
+        new Set((post.tags || []).map(normalizeTag)).forEach(tag => increment(tags, tag));
+        active.add(String(post.author));
+      }
+      postComments.forEach(comment => active.add(String(comment.author)));
+      postShares.forEach(share => active.add(String(share.userId)));
+
+      likes += postLikes;
+      comments += postComments.length;
+      shares += postShares.length;
+
+      const engagement = postLikes + postComments.length + postShares.length;
+      if (engagement > 0) {
+        topPosts.push({
+          postId: post._id,
+          authorId: post.author,
+          title: post.title || String(post.content || '').slice(0, 80),
+          engagement
+        });
+        increment(userEngagement, String(post.author), engagement);
+      }
+    });
+
+    messageSenders.forEach(sender => active.add(String(sender._id)));
+    follows.forEach(follow => active.add(String(follow.followerId)));
+
+    const messages = messageSenders.reduce((sum, sender) => sum + sender.count, 0);
+    const newUsersByType = new Map();
+    newUsers.forEach(user => increment(newUsersByType, user.type));
+
+    const rollup = {
+      date: start,
+      newUsers: newUsers.length,
+      newUsersByType: toCounts(newUsersByType),
+      activeUsers: active.size,
+      activeUserIds: [...active],
+      posts: postCount,
+      postsByType: toCounts(postsByType),
+      likes,
+      comments,
+      shares,
+      messages,
+      follows: follows.length,
+      followRequests,
+      notifications,
+      engagement: likes + comments + shares + messages + follows.length,
+      tags: toCounts(tags, TOP_PER_DAY * 2),
+      topPosts: topPosts.sort((a, b) => b.engagement - a.engagement).slice(0, TOP_PER_DAY),
+      topUsers: toCounts(userEngagement, TOP_PER_DAY).map(({ key, count }) => ({ userId: key, engagement: count })),
+      computedAt: new Date()
+    };
+
+    await AnalyticsDailyRollup.replaceOne({ date: start }, rollup, { upsert: true });
+    return rollup;
+  }
+
+  /**
+   * Make sure every day in [start, end) has an up-to-date rollup. Missing days
+   * are backfilled; days inside the settle window are recomputed once their
+   * rollup is older than RECENT_REFRESH_MS. At most `maxDays` days are
+   * computed, newest first; returns how many were left for later.
+   */
+  static async ensureRollups(start, end, now = new Date(), maxDays = Infinity) {
+    const existing = await AnalyticsDailyRollup.find({ date: { $gte: start, $lt: end } })
+      .select('date computedAt')
+      .lean();
+    const computed = new Map(existing.map(rollup => [rollup.date.getTime(), rollup.computedAt]));
+    const settleFrom = startOfDay(now).getTime() - (SETTLE_DAYS - 1) * DAY_MS;
+
+    const due = [];
+    for (let time = end.getTime() - DAY_MS; time >= start.getTime(); time -= DAY_MS) {
+      const computedAt = computed.get(time);
+      // Settled days computed before they settled get one final pass
+      const stale = time >= settleFrom
+        ? now - computedAt > RECENT_REFRESH_MS
+        : computedAt < time + SETTLE_DAYS * DAY_MS;
+      if (!computedAt || stale) due.push(time);
+    }
+
+    for (const time of due.slice(0, maxDays)) {
+      await this.rollupDay(new Date(time));
+    }
+    return { remaining: Math.max(0, due.length - maxDays) };
+  }
+
+  /**
+   * Cron entry point: recompute the days whose like counts may still change,
+   * then backfill whatever dashboard requests left missing in the longest range.
+   */
+  static async refreshRecentRollups(now = new Date()) {
+    const today = startOfDay(now);
+    const start = new Date(today.getTime() - (SETTLE_DAYS - 1) * DAY_MS);
+    for (let time = start.getTime(); time <= today.getTime(); time += DAY_MS) {
+      await this.rollupDay(new Date(time));
+    }
+
+    const end = new Date(today.getTime() + DAY_MS);
+    const longest = Math.max(...Object.values(RANGES));
+    const backfill = await this.ensureRollups(new Date(end.getTime() - longest * DAY_MS), end, now);
+    return { days: SETTLE_DAYS, remaining: backfill.remaining };
+  }
+
+  /**
+   * Build the AnalyticsDashboard payload for the last `range` days (today
+   * included). Concurrent requests share a single backfill, capped so a cold
+   * range answers quickly; `pendingDays` counts the days still missing.
+   */
+  static async getAnalytics(range, now = new Date()) {
+    const days = RANGES[range];
+    const end = new Date(startOfDay(now).getTime() + DAY_MS);
+    const start = new Date(end.getTime() - days * DAY_MS);
+
+    const pendingKey = `${start.getTime()}-${end.getTime()}`;
+    if (!this.pending.has(pendingKey)) {
+      this.pending.set(pendingKey, this.ensureRollups(start, end, now, MAX_REQUEST_BACKFILL_DAYS)
+        .finally(() => this.pending.delete(pendingKey)));
+    }
+    const { remaining: pendingDays } = await this.pending.get(pendingKey);
+
+    const [rollups, totalUsers, activeResult, userTypes] = await Promise.all([
+      AnalyticsDailyRollup.find({ date: { $gte: start, $lt: end } })
+        .select('-activeUserIds')
+        .sort({ date: 1 })
+        .lean(),
+      User.countDocuments(),
+      AnalyticsDailyRollup.aggregate([
+        { $match: { date: { $gte: start, $lt: end } } },
+        { $unwind: '$activeUserIds' },
+        { $group: { _id: '$activeUserIds' } },
+        { $count: 'count' }
+      ]),
+      User.aggregate([{ $group: { _id: '$type', count: { $sum: 1 } } }])
+    ]);
+
+    const totals = { newUsers: 0, posts: 0, likes: 0, comments: 0, shares: 0, messages: 0, follows: 0, followRequests: 0, notifications: 0, engagement: 0 };
+    const postsByType = new Map();
+    const tags = new Map();
+    const postEngagement = new Map();
+    const userEngagement = new Map();
+
+    rollups.forEach(rollup => {
+      Object.keys(totals).forEach(key => { totals[key] += rollup[key] || 0; });
+      rollup.postsByType.forEach(({ key, count }) => increment(postsByType, key, count));
+      rollup.tags.forEach(({ key, count }) => increment(tags, key, count));
+      rollup.topUsers.forEach(({ userId, engagement }) => increment(userEngagement, String(userId), engagement));
+      rollup.topPosts.forEach(post => {
+        const id = String(post.postId);
+        const entry = postEngagement.get(id) || { id, title: post.title, engagement: 0 };
+        entry.engagement += post.engagement;
+        postEngagement.set(id, entry);
+      });
+    });
+
+    const topUserCounts = toCounts(userEngagement, TOP_PER_RANGE);
+    const topUserDocs = await User.find({ _id: { $in: topUserCounts.map(({ key }) => key) } }).select('name').lean();
+    const names = new Map(topUserDocs.map(user => [String(user._id), user.name]));
+
+    // Users who joined during the range relative to those who were already here
+    const existingUsers = totalUsers - totals.newUsers;
+    const growthRate = existingUsers > 0
+      ? Math.round((totals.newUsers / existingUsers) * 1000) / 10
+      : (totals.newUsers > 0 ? 100 : 0);
+
+    const daily = rollups.map(rollup => ({
+      date: dayKey(rollup.date),
+      users: rollup.activeUsers,
+      posts: rollup.posts,
+      engagement: rollup.engagement,
+      newUsers: rollup.newUsers
+    }));
+
+    return {
+      range,
+      from: start,
+      to: end,
+      pendingDays,
+      overview: {
+        totalUsers,
+        activeUsers: activeResult[0]?.count || 0,
+        totalPosts: totals.posts,
+        totalEngagements: totals.engagement,
+        growthRate
+      },
+      engagement: {
+        likes: totals.likes,
+        comments: totals.comments,
+        shares: totals.shares,
+        messages: totals.messages,
+        follows: totals.follows,
+        followRequests: totals.followRequests,
+        notifications: totals.notifications
+      },
+      content: {
+        postsByType: toCounts(postsByType).map(({ key, count }) => ({ type: key, count })),
+        topPosts: [...postEngagement.values()].sort((a, b) => b.engagement - a.engagement).slice(0, TOP_PER_RANGE),
+        trendingTopics: toCounts(tags, TOP_PER_RANGE).map(({ key, count }) => ({ topic: key, count }))
+      },
+      users: {
+        newUsers: daily.map(({ date, newUsers }) => ({ date, count: newUsers })),
+        userTypes: userTypes
+          .filter(({ _id }) => _id)
+          .map(({ _id, count }) => ({ type: _id, count }))
+          .sort((a, b) => b.count - a.count),
+        topUsers: topUserCounts
+          .filter(({ key }) => names.has(key))
+          .map(({ key, count }) => ({ id: key, name: names.get(key), engagement: count }))
+      },
+      timeSeries: {
+        daily: daily.map(({ date, users, posts, engagement }) => ({ date, users, posts, engagement })),
+        weekly: this.bucket(daily, day => dayKey(startOfWeek(day.date)), 'week'),
+        monthly: this.bucket(daily, day => day.date.slice(0, 7), 'month')
+      }
+    };
+  }
+
+  // Sum daily points into week/month buckets. `users` is the busiest day's
+  // active count, since active users can't be added across days.
+  static bucket(daily, keyFor, label) {
+    const buckets = new Map();
+    daily.forEach(day => {
+      const key = keyFor(day);
+      const bucket = buckets.get(key) || { [label]: key, users: 0, posts: 0, engagement: 0 };
+      bucket.users = Math.max(bucket.users, day.users);
+      bucket.posts += day.posts;
+      bucket.engagement += day.engagement;
+      buckets.set(key, bucket);
+    });
+    return [...buckets.values()];
+  }
+}
+
+AnalyticsService.RANGES = RANGES;
+AnalyticsService.pending = new Map();
+
+module.exports = AnalyticsService;
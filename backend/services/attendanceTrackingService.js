@@ -309,7 +309,7 @@ class AttendanceTrackingService {
         : 0;
 
       // Update meeting with attendance data
-      meeting.attendance = attendance;
+      meeting.attendance = this.addBreakoutTime(attendance, meeting.breakout_logs);
       meeting.attendance_summary = summary;
       meeting.total_duration = meetingDuration;
       meeting.attendance_processed_at = new Date();
@@ -329,6 +329,43 @@ class AttendanceTrackingService {
     }
   }
 
+  /**
+   * Add the minutes each attendee spent in each breakout room, from the
+   * in-app meeting's breakout_logs
+   */
+  addBreakoutTime(attendance, breakoutLogs = []) {
+    if (!breakoutLogs || breakoutLogs.length === 0) {
+      return attendance;
+    }
+
+    const byEmail = new Map();
+    breakoutLogs.forEach(log => {
+      const email = (log.email || '').toLowerCase();
+      if (!email || !log.joined_at || !log.left_at) return;
+
+      const rooms = byEmail.get(email) || new Map();
+      const room = rooms.get(log.breakout_id) || { breakoutId: log.breakout_id, name: log.breakout_name, ms: 0 };
+      room.ms += new Date(log.left_at) - new Date(log.joined_at);
+      rooms.set(log.breakout_id, room);
+      byEmail.set(email, rooms);
+    });
+
+    return attendance.map(record => {
+      const plain = typeof record.toObject === 'function' ? record.toObject() : record;
+      const rooms = byEmail.get((plain.email || '').toLowerCase());
+      if (!rooms) return plain;
+
+      return {
+        ...plain,
+        breakoutRooms: [...rooms.values()].map(({ breakoutId, name, ms }) => ({
+          breakoutId,
+          name,
+          duration: Math.round(ms / (1000 * 60))
+        }))
+      };
+    });
+  }
+
   /**
    * Check if meeting link is expired (1 hour after start time)
    */
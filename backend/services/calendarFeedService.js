@@ -0,0 +1,286 @@
+const crypto = require('crypto');
+const Event = require('../models/Event');
+const Post = require('../models/Post');
+const Meeting = require('../models/Meeting');
+const User = require('../models/User');
+
+// Event and event-post times are wall-clock strings; read them in the organizer's
+// timezone, falling back to the campus timezone.
+const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || 'Asia/Kolkata';
+const DEFAULT_EVENT_DURATION = 60; // minutes, events don't store an end time
+const PRODUCT_ID = '-//InspiraNet//Calendar//EN';
+
+class CalendarFeedService {
+  static isValidTimezone(timezone) {
+    if (!timezone) return false;
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  static resolveTimezone(timezone) {
+    return this.isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+  }
+
+  // Offset of `timezone` from UTC at the given instant, in minutes
+  static getTimezoneOffset(date, timezone) {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(date).reduce((acc, part) => {
+      acc[part.type] = part.value;
+      return acc;
+    }, {});
+    const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return Math.round((asUtc - date.getTime()) / 60000);
+  }
+
+  /**
+   * Convert a 'YYYY-MM-DD' date and 'HH:mm' (or 'h:mm AM') time in `timezone` to a UTC Date.
+   * Returns null when the date cannot be parsed.
+   */
+  static toUtcDate(date, time, timezone) {
+    const dateMatch = /^(\d{4})-(\d{2})-(\d{2})/.exec(date || '');
+    if (!dateMatch) return null;
+
+    let hours = 0;
+    let minutes = 0;
+    const timeMatch = /^(\d{1,2}):(\d{2})\s*(am|pm)?/i.exec((time || '').trim());
+    if (timeMatch) {
+      hours = parseInt(timeMatch[1], 10);
+      minutes = parseInt(timeMatch[2], 10);
+      const meridiem = timeMatch[3]?.toLowerCase();
+      if (meridiem === 'pm' && hours < 12) hours += 12;
+      if (meridiem === 'am' && hours === 12) hours = 0;
+    }
+
+    const [, year, month, day] = dateMatch.map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+    // Apply the offset twice so instants near a DST change land on the right side
+    let offset = this.getTimezoneOffset(new Date(wallClock), timezone);
+    offset = this.getTimezoneOffset(new Date(wallClock - offset * 60000), timezone);
+    return new Date(wallClock - offset * 60000);
+  }
+
+  static formatUtc(date) {
+    return new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  static escapeText(value) {
+    return String(value || '')
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  // RFC 5545 lines are limited to 75 octets; continuation lines start with a space
+  static foldLine(line) {
+    const bytes = Buffer.from(line, 'utf8');
+    if (bytes.length <= 75) return line;
+
+    const chunks = [];
+    let current = '';
+    for (const char of line) {
+      const limit = chunks.length === 0 ? 75 : 74;
+      if (Buffer.byteLength(current + char, 'utf8') > limit) {
+        chunks.push(current);
+        current = char;
+      } else {
+        current += char;
+      }
+    }
+    chunks.push(current);
+    return chunks.join('\r\n ');
+  }
+
+  static buildVEvent({ uid, start, end, title, description, location, url, status, updatedAt }) {
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${uid}`,
+      `DTSTAMP:${this.formatUtc(updatedAt || new Date())}`,
+      `DTSTART:${this.formatUtc(start)}`,
+      `DTEND:${this.formatUtc(end)}`,
+      `SUMMARY:${this.escapeText(title)}`
+    ];
+    if (description) lines.push(`DESCRIPTION:${this.escapeText(description)}`);
+    if (location) lines.push(`LOCATION:${this.escapeText(location)}`);
+    if (url) lines.push(`URL:${url}`);
+    lines.push(`STATUS:${status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`);
+    lines.push('END:VEVENT');
+    return lines;
+  }
+
+  /**
+   * Wrap VEVENT line arrays into a VCALENDAR document.
+   * `timezone` is advertised to clients so times display in the subscriber's zone.
+   */
+  static buildCalendar(vevents, { name, timezone } = {}) {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH'
+    ];
+    if (name) lines.push(`X-WR-CALNAME:${this.escapeText(name)}`);
+    if (timezone) lines.push(`X-WR-TIMEZONE:${timezone}`);
+    lines.push('REFRESH-INTERVAL;VALUE=DURATION:PT1H', 'X-PUBLISHED-TTL:PT1H');
+    vevents.forEach(vevent => lines.push(...vevent));
+    lines.push('END:VCALENDAR');
+    return lines.map(line => this.foldLine(line)).join('\r\n') + '\r\n';
+  }
+
+  static eventToVEvent(event, organizerTimezone) {
+    const timezone = this.resolveTimezone(organizerTimezone);
+    const start = this.toUtcDate(event.date, event.time, timezone);
+    if (!start) return null;
+
+    const description = [event.description, event.meetLink ? `Join online: ${event.meetLink}` : '']
+      .filter(Boolean)
+      .join('\n\n');
+
+    return this.buildVEvent({
+      uid: `event-${event._id}@inspiranet`,
+      start,
+      end: new Date(start.getTime() + DEFAULT_EVENT_DURATION * 60000),
+      title: event.title,
+      description,
+      location: event.location,
+      url: event.meetLink,
+      status: event.status,
+      updatedAt: event.updatedAt
+    });
+  }
+
+  static eventPostToVEvent(post, organizerTimezone) {
+    const details = post.eventDetails || {};
+    const timezone = this.resolveTimezone(organizerTimezone);
+    const start = this.toUtcDate(details.date, details.time, timezone);
+    if (!start) return null;
+
+    return this.buildVEvent({
+      uid: `post-${post._id}@inspiranet`,
+      start,
+      end: new Date(start.getTime() + DEFAULT_EVENT_DURATION * 60000),
+      title: post.title || details.title || 'Event',
+      description: post.content,
+      location: details.location,
+      url: details.registrationForm,
+      updatedAt: post.updatedAt
+    });
+  }
+
+  static meetingToVEvent(meeting) {
+    return this.buildVEvent({
+      uid: `meeting-${meeting.id}@inspiranet`,
+      start: meeting.start_time,
+      end: meeting.end_time,
+      title: meeting.title,
+      description: [meeting.description, meeting.meet_link ? `Join: ${meeting.meet_link}` : '']
+        .filter(Boolean)
+        .join('\n\n'),
+      location: meeting.meet_link,
+      url: meeting.meet_link,
+      status: meeting.status,
+      updatedAt: meeting.updated_at
+    });
+  }
+
+  // Map organizer ids to their timezones for a batch of events
+  static async loadTimezones(userIds) {
+    const ids = [...new Set(userIds.filter(Boolean).map(id => id.toString()))];
+    if (ids.length === 0) return {};
+    const users = await User.find({ _id: { $in: ids } }).select('timezone').lean();
+    return users.reduce((acc, u) => {
+      acc[u._id.toString()] = u.timezone;
+      return acc;
+    }, {});
+  }
+
+  static async buildEventCalendar(event) {
+    const timezones = await this.loadTimezones([event.createdById]);
+    const vevent = this.eventToVEvent(event, timezones[event.createdById?.toString()]);
+    return this.buildCalendar(vevent ? [vevent] : [], { name: event.title });
+  }
+
+  static async buildEventPostCalendar(post) {
+    const authorId = post.author?._id || post.author;
+    const timezones = await this.loadTimezones([authorId]);
+    const vevent = this.eventPostToVEvent(post, timezones[authorId?.toString()]);
+    return this.buildCalendar(vevent ? [vevent] : [], { name: post.title || 'Event' });
+  }
+
+  static buildMeetingCalendar(meeting) {
+    return this.buildCalendar([this.meetingToVEvent(meeting)], { name: meeting.title });
+  }
+
+  /**
+   * Everything on a user's schedule: RSVPed events, their own event posts,
+   * and meetings they host or are invited to.
+   */
+  static async buildUserFeed(user) {
+    const emails = [user.email?.college, user.email?.professional, user.email?.personal].filter(Boolean);
+    const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    const sinceDate = since.toISOString().split('T')[0];
+
+    const [events, eventPosts, meetings] = await Promise.all([
+      Event.find({ attendees: user._id, date: { $gte: sinceDate } }).select('-tickets').lean(),
+      Post.find({
+        author: user._id,
+        postType: 'event',
+        'eventDetails.date': { $gte: sinceDate },
+        moderationStatus: { $ne: 'removed' }
+      }).lean(),
+      Meeting.find({
+        start_time: { $gte: since },
+        $or: [
+          { host_id: user._id.toString() },
+          ...(emails.length > 0
+            ? [{ 'attendees.email': { $in: emails } }, { 'expected_attendees.email': { $in: emails } }]
+            : [])
+        ]
+      }).lean()
+    ]);
+
+    const timezones = await this.loadTimezones(events.map(e => e.createdById));
+    const vevents = [
+      ...events.map(event => this.eventToVEvent(event, timezones[event.createdById?.toString()])),
+      ...eventPosts.map(post => this.eventPostToVEvent(post, user.timezone)),
+      ...meetings.map(meeting => this.meetingToVEvent(meeting))
+    ].filter(Boolean);
+
+    return this.buildCalendar(vevents, {
+      name: `${user.name} - InspiraNet`,
+      timezone: this.resolveTimezone(user.timezone)
+    });
+  }
+
+  static generateToken() {
+    return crypto.randomBytes(24).toString('hex');
+  }
+
+  static feedUrl(req, token) {
+    const baseUrl = process.env.BACKEND_URL || `${req.protocol}://${req.get('host')}`;
+    return `${baseUrl}/api/calendar/feed/${token}.ics`;
+  }
+
+  static sendCalendar(res, body, filename) {
+    res.set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename.replace(/[^\w.-]+/g, '_')}"`
+    });
+    res.send(body);
+  }
+}
+
+module.exports = CalendarFeedService;
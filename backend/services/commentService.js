@@ -0,0 +1,376 @@
+const mongoose = require('mongoose');
+const Comment = require('../models/Comment');
+const Post = require('../models/Post');
+const User = require('../models/User');
+const NotificationService = require('./notificationService');
+const ModerationService = require('./moderationService');
+const PostAudienceService = require('./postAudienceService');
+
+// Mentions are written as @[Display Name](userId) by the comment box's picker
+const MENTION_PATTERN = /@\[([^\]\n]{1,100})\]\(([a-f0-9]{24})\)/g;
+const MAX_MENTIONS = 10;
+const AUTHOR_FIELDS = 'name avatar';
+// What PostAudienceService.canView reads from a user
+const MENTION_AUDIENCE_FIELDS = 'role department batch studentInfo.department studentInfo.batch facultyInfo.department';
+
+const idOf = (value) => (value?._id || value).toString();
+
+class CommentService {
+  // Replace mention markup with plain @Name, for notifications and moderation
+  static plainText(content) {
+    return String(content || '').replace(MENTION_PATTERN, (match, name) => `@${name}`);
+  }
+
+  /**
+   * Keep mention markup only for users that exist and can read the post,
+   * rewriting it with their current name. Returns the cleaned content and
+   * the mentioned user ids.
+   */
+  static async resolveMentions(content, post) {
+    const ids = [...new Set([...content.matchAll(MENTION_PATTERN)].map(match => match[2]))].slice(0, MAX_MENTIONS);
+    const found = ids.length > 0
+      ? await User.find({ _id: { $in: ids } }).select(`name ${MENTION_AUDIENCE_FIELDS}`).lean()
+      : [];
+    const readable = await Promise.all(found.map(user => PostAudienceService.canView(post, user)));
+    const users = found.filter((user, index) => readable[index]);
+    const names = new Map(users.map(user => [user._id.toString(), user.name]));
+
+    const cleaned = content.replace(MENTION_PATTERN, (match, name, id) =>
+      (names.has(id) ? `@[${names.get(id)}](${id})` : `@${name}`));
+    return { content: cleaned, mentions: users.map(user => user._id) };
+  }
+
+  // Held comments stay visible to their author only
+  static visibleTo(viewerId) {
+    return { $or: [{ moderationStatus: 'approved' }, { moderationStatus: 'pending', author: viewerId }] };
+  }
+
+  static serialize(comment) {
+    const obj = comment.toObject ? comment.toObject() : comment;
+    if (obj.deletedAt) {
+      return { ...obj, content: '', author: null, mentions: [], likes: [] };
+    }
+    return obj;
+  }
+
+  /**
+   * One page of comments on a post (parentId null) or of replies to a
+   * comment. Top-level comments come newest first, replies oldest first so
+   * a conversation reads top to bottom.
+   */
+  static async list({ postId, parentId = null, viewerId, page = 1, limit = 10 }) {
+    const query = { post: postId, parent: parentId, ...this.visibleTo(viewerId) };
+    const [comments, total] = await Promise.all([
+      Comment.find(query)
+        .populate('author', AUTHOR_FIELDS)
+        .sort({ createdAt: parentId ? 1 : -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Comment.countDocuments(query)
+    ]);
+
+    return {
+      comments: comments.map(comment => this.serialize(comment)),
+      currentPage: page,
+      totalPages: Math.ceil(total / limit),
+      total,
+      hasMore: page * limit < total
+    };
+  }
+
+  static async create({ post, user, content, parentId, io }) {
+    let parent = null;
+    if (parentId) {
+      if (!mongoose.Types.ObjectId.isValid(parentId)) {
+        return { success: false, reason: 'parent_not_found' };
+      }
+      parent = await Comment.findOne({ _id: parentId, post: post._id, deletedAt: null, moderationStatus: 'approved' });
+      if (!parent) {
+        return { success: false, reason: 'parent_not_found' };
+      }
+    }
+
+    const verdict = await ModerationService.evaluate('comment', { content: this.plainText(content) });
+    if (verdict.action === 'block') {
+      return { success: false, reason: 'blocked', verdict };
+    }
+
+    const resolved = await this.resolveMentions(content, post);
+    // Past the deepest level a reply joins its parent's thread rather than nesting further
+    const attachTo = parent && parent.depth >= Comment.MAX_DEPTH ? parent.parent : parent?._id;
+    const comment = await Comment.create({
+      post: post._id,
+      parent: attachTo || null,
+      depth: parent ? Math.min(parent.depth + 1, Comment.MAX_DEPTH) : 0,
+      author: user._id,
+      content: resolved.content,
+      mentions: resolved.mentions,
+      moderationStatus: verdict.action === 'review' ? 'pending' : 'approved'
+    });
+
+    await ModerationService.recordVerdict(verdict, {
+      contentType: 'comment',
+      contentId: comment._id,
+      parentId: post._id,
+      authorId: user._id,
+      excerpt: this.plainText(comment.content)
+    });
+
+    await comment.populate('author', AUTHOR_FIELDS);
+    if (comment.moderationStatus !== 'approved') {
+      return { success: true, comment };
+    }
+
+    await Comment.adjustCounts(comment, 1);
+    await this.notifyNewComment({ post, parent, comment, user, io });
+
+    if (io) {
+      const { commentCount } = await Post.findById(post._id).select('commentCount').lean();
+      await PostAudienceService.emit(io, post, 'post_comment_added', {
+        postId: post._id,
+        comment: this.serialize(comment),
+        commentCount,
+        timestamp: new Date()
+      });
+    }
+
+    return { success: true, comment };
+  }
+
+  static async edit({ comment, user, content, io }) {
+    if (comment.deletedAt) {
+      return { success: false, reason: 'not_found' };
+    }
+    if (idOf(comment.author) !== user._id.toString()) {
+      return { success: false, reason: 'not_author' };
+    }
+
+    const verdict = await ModerationService.evaluate('comment', { content: this.plainText(content) });
+    if (verdict.action === 'block') {
+      return { success: false, reason: 'blocked', verdict };
+    }
+
+    const post = await Post.findById(comment.post).select('author audience audienceBatch department groupId').lean();
+    if (!post) {
+      return { success: false, reason: 'not_found' };
+    }
+    const resolved = await this.resolveMentions(content, post);
+    const previousMentions = new Set(comment.mentions.map(id => id.toString()));
+    const wasCounted = comment.isCounted();
+
+    comment.content = resolved.content;
+    comment.mentions = resolved.mentions;
+    comment.editedAt = new Date();
+    if (verdict.action === 'review') {
+      comment.moderationStatus = 'pending';
+    }
+    await comment.save();
+
+    await ModerationService.recordVerdict(verdict, {
+      contentType: 'comment',
+      contentId: comment._id,
+      parentId: comment.post,
+      authorId: user._id,
+      excerpt: this.plainText(comment.content)
+    });
+    if (wasCounted && !comment.isCounted()) {
+      await Comment.adjustCounts(comment, -1);
+    }
+
+    if (comment.isCounted()) {
+      const added = resolved.mentions.filter(id => !previousMentions.has(id.toString()));
+      await this.notifyMentions({ comment, user, recipients: added, io });
+    }
+
+    await comment.populate('author', AUTHOR_FIELDS);
+    return { success: true, comment };
+  }
+
+  static async remove({ comment, user }) {
+    if (comment.deletedAt) {
+      return { success: false, reason: 'not_found' };
+    }
+    if (idOf(comment.author) !== user._id.toString()) {
+      return { success: false, reason: 'not_author' };
+    }
+
+    const wasCounted = comment.isCounted();
+    if (await Comment.exists({ parent: comment._id })) {
+      await Comment.updateOne(
+        { _id: comment._id },
+        { $set: { deletedAt: new Date(), content: '', mentions: [], likes: [] } }
+      );
+      await Comment.adjustCounts(comment, wasCounted ? -1 : 0, { replyDelta: 0 });
+      return { success: true, placeholder: true };
+    }
+
+    await Comment.deleteOne({ _id: comment._id });
+    await Comment.adjustCounts(comment, wasCounted ? -1 : 0, { replyDelta: wasCounted ? -1 : 0 });
+    await this.pruneEmptyPlaceholder(comment.parent);
+    return { success: true, placeholder: false };
+  }
+
+  // A deleted placeholder whose last reply just went away has nothing left to hold together
+  static async pruneEmptyPlaceholder(parentId) {
+    if (!parentId) return;
+    const parent = await Comment.findById(parentId);
+    if (!parent?.deletedAt || await Comment.exists({ parent: parent._id })) return;
+
+    await Comment.deleteOne({ _id: parent._id });
+    if (parent.moderationStatus === 'approved') {
+      await Comment.adjustCounts(parent, 0, { replyDelta: -1 });
+    }
+    await this.pruneEmptyPlaceholder(parent.parent);
+  }
+
+  static async toggleLike({ comment, userId }) {
+    const liked = !comment.likes.some(id => id.toString() === userId.toString());
+    const updated = await Comment.findByIdAndUpdate(
+      comment._id,
+      liked ? { $addToSet: { likes: userId } } : { $pull: { likes: userId } },
+      { new: true }
+    ).select('likes');
+    return { liked, likeCount: updated.likes.length, likes: updated.likes };
+  }
+
+  // Comments on a set of posts go with them
+  static async removeForPosts(postIds) {
+    if (postIds.length === 0) return;
+    await Comment.deleteMany({ post: { $in: postIds } });
+  }
+
+  /**
+   * Account deletion: drop the user's comments, keeping placeholders where
+   * others have replied, then recount the affected posts and threads.
+   */
+  static async removeAllByAuthor(userId) {
+    const comments = await Comment.find({ author: userId }).select('_id post parent').lean();
+    if (comments.length === 0) return;
+
+    const ids = comments.map(comment => comment._id);
+    const withReplies = await Comment.distinct('parent', { parent: { $in: ids } });
+    const keep = new Set(withReplies.map(String));
+
+    await Promise.all([
+      Comment.updateMany(
+        { _id: { $in: withReplies } },
+        { $set: { deletedAt: new Date(), content: '', mentions: [], likes: [] } }
+      ),
+      Comment.deleteMany({ _id: { $in: ids.filter(id => !keep.has(id.toString())) } }),
+      Comment.updateMany({ likes: userId }, { $pull: { likes: userId } })
+    ]);
+
+    const postIds = [...new Set(comments.map(comment => comment.post.toString()))];
+    const parentIds = [...new Set(comments.filter(comment => comment.parent).map(comment => comment.parent.toString()))];
+    await Promise.all([
+      ...postIds.map(async (postId) => {
+        const commentCount = await Comment.countDocuments({ post: postId, moderationStatus: 'approved', deletedAt: null });
+        await Post.updateOne({ _id: postId }, { $set: { commentCount } });
+      }),
+      ...parentIds.map(async (parentId) => {
+        const replyCount = await Comment.countDocuments({ parent: parentId, moderationStatus: 'approved' });
+        await Comment.updateOne({ _id: parentId }, { $set: { replyCount } });
+      })
+    ]);
+  }
+
+  static async notifyNewComment({ post, parent, comment, user, io }) {
+    const text = this.plainText(comment.content);
+    const notified = new Set([user._id.toString()]);
+    const notifications = [];
+
+    try {
+      const parentAuthor = parent ? parent.author.toString() : null;
+      const postAuthor = post.author.toString();
+
+      if (parentAuthor && !notified.has(parentAuthor)) {
+        notifications.push(await NotificationService.createCommentReplyNotification(
+          user._id, parentAuthor, post._id, comment._id, text
+        ));
+        notified.add(parentAuthor);
+      }
+      if (!notified.has(postAuthor)) {
+        notifications.push(await NotificationService.createPostCommentNotification(
+          user._id, postAuthor, post._id, post.content.substring(0, 50) + '...', text
+        ));
+        notified.add(postAuthor);
+      }
+    } catch (error) {
+      console.error('Error sending comment notifications:', error);
+    }
+
+    const mentioned = comment.mentions.filter(id => !notified.has(id.toString()));
+    notifications.push(...await this.notifyMentions({ comment, user, recipients: mentioned }));
+    this.emit(io, notifications);
+  }
+
+  static async notifyMentions({ comment, user, recipients, io }) {
+    const text = this.plainText(comment.content);
+    const notifications = [];
+    for (const recipientId of recipients) {
+      if (recipientId.toString() === user._id.toString()) continue;
+      try {
+        notifications.push(await NotificationService.createPostMentionNotification(
+          user._id, recipientId, comment.post, comment._id, text
+        ));
+      } catch (error) {
+        console.error('Error sending mention notification:', error);
+      }
+    }
+    this.emit(io, notifications);
+    return notifications;
+  }
+
+  static emit(io, notifications) {
+    if (!io) return;
+    notifications.filter(Boolean).forEach(notification => {
+      io.to(`user_${notification.recipientId}`).emit('new_notification', { notification, timestamp: new Date() });
+    });
+  }
+
+  /**
+   * Move comments embedded in post documents into the Comment collection.
+   * Runs at startup; posts are only unset once their comments are copied, and
+   * re-copying is harmless because the original _ids are kept.
+   */
+  static async migrateEmbeddedComments() {
+    let migrated = 0;
+    const cursor = Post.collection.find({ 'comments.0': { $exists: true } }, { projection: { comments: 1, createdAt: 1 } });
+
+    for await (const post of cursor) {
+      const docs = post.comments.map(comment => ({
+        _id: comment._id,
+        post: post._id,
+        parent: null,
+        depth: 0,
+        author: comment.author,
+        content: comment.content,
+        mentions: [],
+        likes: comment.likes || [],
+        replyCount: 0,
+        moderationStatus: comment.moderationStatus || 'approved',
+        editedAt: null,
+        deletedAt: null,
+        createdAt: comment.createdAt || post.createdAt,
+        updatedAt: comment.createdAt || post.createdAt
+      }));
+
+      try {
+        await Comment.collection.insertMany(docs, { ordered: false });
+      } catch (error) {
+        const duplicatesOnly = error.code === 11000 || (error.writeErrors || []).every(writeError => writeError.code === 11000);
+        if (!duplicatesOnly) throw error;
+      }
+
+      const commentCount = docs.filter(doc => doc.moderationStatus === 'approved').length;
+      await Post.collection.updateOne({ _id: post._id }, { $set: { commentCount }, $unset: { comments: '' } });
+      migrated++;
+    }
+
+    if (migrated > 0) {
+      console.log(`✅ Moved embedded comments of ${migrated} posts into the comments collection`);
+    }
+  }
+}
+
+module.exports = CommentService;
@@ -1,6 +1,8 @@
 const cron = require('node-cron');
 const EmailExpiryService = require('./emailExpiryService');
 const MessageDeletionService = require('./messageDeletionService');
+const JobRecommendationService = require('./jobRecommendationService');
+const AnalyticsService = require('./analyticsService');
 
 class CronService {
   static init() {
@@ -85,6 +87,38 @@ class CronService {
       timezone: "Asia/Kolkata"
     });
 
+    // Weekly job recommendation digest - Mondays at 10 AM
+    cron.schedule('0 10 * * 1', async () => {
+      console.log('💼 Sending weekly job digests...');
+      try {
+        const results = await JobRecommendationService.sendWeeklyDigests();
+        console.log('✅ Job digests completed:', {
+          sent: results.sent,
+          skipped: results.skipped,
+          errors: results.errors.length
+        });
+      } catch (error) {
+        console.error('❌ Job digest sending failed:', error);
+      }
+    }, {
+      scheduled: true,
+      timezone: "Asia/Kolkata"
+    });
+
+    // Analytics rollups - daily at 1 AM, recomputing the days still settling
+    cron.schedule('0 1 * * *', async () => {
+      console.log('📊 Refreshing analytics rollups...');
+      try {
+        const result = await AnalyticsService.refreshRecentRollups();
+        console.log('✅ Analytics rollups refreshed:', { days: result.days });
+      } catch (error) {
+        console.error('❌ Analytics rollup refresh failed:', error);
+      }
+    }, {
+      scheduled: true,
+      timezone: "Asia/Kolkata"
+    });
+
     console.log('🕐 Cron jobs initialized successfully');
   }
 
@@ -85,6 +85,10 @@ class EmailService {
         return this.generateFinalWarningEmail(data);
       case 'conversion-notification':
         return this.generateConversionNotificationEmail(data);
+      case 'job-digest':
+        return this.generateJobDigestEmail(data);
+      case 'password-reset':
+        return this.generatePasswordResetEmail(data);
       default:
         return this.generateDefaultEmail(data);
     }
@@ -368,6 +372,135 @@ class EmailService {
     return { html, text };
   }
 
+  /**
+   * Generate weekly job recommendations digest
+   */
+  generateJobDigestEmail(data) {
+    const { name, recommendations } = data;
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:8083';
+    // Job fields are written by members, so keep them from injecting markup
+    const escape = (value) => String(value || '').replace(/[&<>"']/g, char => ({
+      '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+    })[char]);
+
+    const jobsHtml = recommendations.map(({ job, reasons }) => `
+            <div style="background: white; border: 1px solid #e0e0e0; border-radius: 8px; padding: 16px; margin: 12px 0;">
+              <h3 style="color: #333; margin: 0 0 4px 0;">${escape(job.title)}</h3>
+              <p style="color: #555; margin: 0 0 8px 0;">${escape(job.companyName)} &middot; ${escape(job.location)} &middot; ${job.jobType}</p>
+              ${job.deadline ? `<p style="color: #856404; margin: 0 0 8px 0; font-size: 14px;">Apply by ${new Date(job.deadline).toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}</p>` : ''}
+              <ul style="color: #555; padding-left: 20px; margin: 0; font-size: 14px;">
+                ${reasons.map(reason => `<li>${escape(reason)}</li>`).join('')}
+              </ul>
+            </div>`).join('');
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+          <h1 style="margin: 0; font-size: 28px;">💼 Jobs Recommended for You</h1>
+          <p style="margin: 10px 0 0 0; font-size: 16px;">Your weekly picks from KEC Alumni Network</p>
+        </div>
+
+        <div style="padding: 30px; background: #f8f9fa; border-radius: 0 0 10px 10px;">
+          <h2 style="color: #333; margin-top: 0;">Hello ${name},</h2>
+
+          <p style="color: #555; line-height: 1.6;">
+            Based on your skills, department and past applications, these new openings look like a good fit:
+          </p>
+          ${jobsHtml}
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${frontendUrl}/dashboard?section=placements"
+               style="background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
+              View All Recommendations
+            </a>
+          </div>
+
+          <p style="color: #666; font-size: 14px; text-align: center;">
+            You're receiving this because you turned on the weekly job digest. You can turn it off from the Placements page.
+          </p>
+        </div>
+      </div>
+    `;
+
+    const jobsText = recommendations.map(({ job, reasons }) => `
+      - ${job.title} at ${job.companyName} (${job.location}, ${job.jobType})
+        ${reasons.join('; ')}`).join('\n');
+
+    const text = `
+      Jobs Recommended for You
+
+      Hello ${name},
+
+      Based on your skills, department and past applications, these new openings look like a good fit:
+      ${jobsText}
+
+      View all recommendations: ${frontendUrl}/dashboard?section=placements
+
+      You're receiving this because you turned on the weekly job digest. You can turn it off from the Placements page.
+    `;
+
+    return { html, text };
+  }
+
+  /**
+   * Generate password reset email
+   */
+  generatePasswordResetEmail(data) {
+    const { name, resetUrl, expiresInMinutes } = data;
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+          <h1 style="margin: 0; font-size: 28px;">🔑 Reset Your Password</h1>
+          <p style="margin: 10px 0 0 0; font-size: 16px;">KEC Alumni Network</p>
+        </div>
+
+        <div style="padding: 30px; background: #f8f9fa; border-radius: 0 0 10px 10px;">
+          <h2 style="color: #333; margin-top: 0;">Hello ${name},</h2>
+
+          <p style="color: #555; line-height: 1.6;">
+            We received a request to reset the password for your KEC Alumni Network account.
+            Click the button below to choose a new password.
+          </p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${resetUrl}"
+               style="background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
+              Reset Password
+            </a>
+          </div>
+
+          <div style="background: #fff3cd; border: 1px solid #ffeaa7; border-radius: 5px; padding: 15px; margin: 20px 0;">
+            <p style="color: #856404; margin: 0;">
+              This link expires in ${expiresInMinutes} minutes and can only be used once.
+              Resetting your password signs you out of all devices.
+            </p>
+          </div>
+
+          <p style="color: #666; font-size: 14px; text-align: center;">
+            If you didn't ask to reset your password, you can ignore this email. Your password won't change.
+          </p>
+        </div>
+      </div>
+    `;
+
+    const text = `
+      Reset Your Password
+
+      Hello ${name},
+
+      We received a request to reset the password for your KEC Alumni Network account.
+      Open this link to choose a new password: ${resetUrl}
+
+      This link expires in ${expiresInMinutes} minutes and can only be used once.
+      Resetting your password signs you out of all devices.
+
+      If you didn't ask to reset your password, you can ignore this email. Your password won't change.
+    `;
+
+    return { html, text };
+  }
+
   /**
    * Generate default email template
    */
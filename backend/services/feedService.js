@@ -0,0 +1,239 @@
+const mongoose = require('mongoose');
+const Post = require('../models/Post');
+const Comment = require('../models/Comment');
+const Follow = require('../models/Follow');
+const FeedSnapshot = require('../models/FeedSnapshot');
+
+const FEEDS = ['for_you', 'latest'];
+const AUTHOR_FIELDS = 'name avatar type batch department studentInfo facultyInfo alumniInfo.verificationStatus';
+
+const CANDIDATE_LIMIT = 300; // most recent posts ranked per request
+const SNAPSHOT_TTL_MS = 60 * 60 * 1000; // how long a ranked order stays available for scrolling
+const HALF_LIFE_HOURS = 36;
+const PREFERENCE_WINDOW_DAYS = 90;
+const PREFERENCE_SAMPLE = 200;
+
+// Multipliers on top of a baseline of 1
+const WEIGHTS = {
+  followed: 3,
+  sameDepartment: 1,
+  sameBatch: 0.75,
+  postType: 1
+};
+// Comments and shares say more about a post than a like does
+const ENGAGEMENT = { like: 1, comment: 2, share: 3 };
+
+const normalize = (value) => String(value || '').trim().toLowerCase();
+
+// Cursors are opaque to the client: base64url JSON of the last item's sort key
+const encodeCursor = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const decodeCursor = (cursor) => {
+  if (!cursor) return null;
+  try {
+    const value = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+    return value && typeof value === 'object' ? value : undefined;
+  } catch (error) {
+    return undefined;
+  }
+};
+
+const isDate = (value) => (typeof value === 'string' || typeof value === 'number') && !isNaN(new Date(value).getTime());
+const isAfter = (after) => !!after && typeof after === 'object' &&
+  isDate(after.createdAt) && mongoose.Types.ObjectId.isValid(after.id);
+
+// Either { after } for newest-first paging, or { snapshot, offset, after } inside a ranked snapshot
+const isWellFormed = (position) => {
+  if (position.snapshot === undefined) return isAfter(position.after);
+  return mongoose.Types.ObjectId.isValid(position.snapshot) &&
+    Number.isInteger(position.offset) && position.offset >= 0 &&
+    (position.after === null || isAfter(position.after));
+};
+
+// Strictly after (createdAt, _id) in newest-first order
+const olderThan = ({ createdAt, id }) => ({
+  $or: [
+    { createdAt: { $lt: new Date(createdAt) } },
+    { createdAt: new Date(createdAt), _id: { $lt: id } }
+  ]
+});
+
+class FeedService {
+  static isFeed(feed) {
+    return FEEDS.includes(feed);
+  }
+
+  static isValidCursor(cursor) {
+    const position = decodeCursor(cursor);
+    return position === null || (position !== undefined && isWellFormed(position));
+  }
+
+  /**
+   * What ranking needs to know about the viewer, built once per request so
+   * scoring a post stays synchronous.
+   */
+  static async buildProfile(user) {
+    const since = new Date(Date.now() - PREFERENCE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const [followees, likedPosts, comments] = await Promise.all([
+      Follow.find({ followerId: user._id }).distinct('followeeId'),
+      Post.find({ likes: user._id, createdAt: { $gte: since } })
+        .sort({ createdAt: -1 })
+        .limit(PREFERENCE_SAMPLE)
+        .select('postType')
+        .lean(),
+      Comment.find({ author: user._id, createdAt: { $gte: since } })
+        .sort({ createdAt: -1 })
+        .limit(PREFERENCE_SAMPLE)
+        .select('post')
+        .lean()
+    ]);
+    const commentedPostIds = [...new Set(comments.map(comment => comment.post.toString()))];
+    const commentedPosts = commentedPostIds.length > 0
+      ? await Post.find({ _id: { $in: commentedPostIds } }).select('postType').lean()
+      : [];
+
+    // Share of the viewer's recent likes and comments that went to each post type
+    const interactions = [...likedPosts, ...commentedPosts];
+    const typeShare = interactions.reduce((acc, post) => {
+      acc[post.postType] = (acc[post.postType] || 0) + 1 / interactions.length;
+      return acc;
+    }, {});
+
+    return {
+      following: new Set([...followees, ...(user.following || [])].map(String)),
+      department: normalize(user.department || user.studentInfo?.department || user.facultyInfo?.department || user.alumniInfo?.originalDepartment),
+      batch: normalize(user.batch || user.studentInfo?.batch),
+      typeShare
+    };
+  }
+
+  /**
+   * Score one post for the viewer: affinity (follows, department, batch) and
+   * post type preference, boosted by engagement per hour and decayed by age.
+   */
+  static scorePost(post, profile, now) {
+    const ageHours = Math.max(0, (now - new Date(post.createdAt)) / (60 * 60 * 1000));
+
+    let affinity = 1;
+    if (profile.following.has(post.author.toString())) affinity += WEIGHTS.followed;
+    if (profile.department && normalize(post.department) === profile.department) affinity += WEIGHTS.sameDepartment;
+    if (profile.batch && normalize(post.batch) === profile.batch) affinity += WEIGHTS.sameBatch;
+
+    const preference = 1 + (profile.typeShare[post.postType] || 0) * WEIGHTS.postType;
+
+    const engagement = (post.likes || []).length * ENGAGEMENT.like +
+      (post.commentCount || 0) * ENGAGEMENT.comment +
+      (post.shares || []).length * ENGAGEMENT.share;
+    const velocity = engagement / (ageHours + 2);
+
+    const decay = Math.pow(0.5, ageHours / HALF_LIFE_HOURS);
+    return affinity * preference * (1 + Math.log1p(velocity)) * decay;
+  }
+
+  /**
+   * One page of a feed. "latest" is newest first; "for_you" ranks the most
+   * recent posts once, on the first page, and serves later pages from that
+   * snapshot before carrying on with older posts newest first. Either way
+   * the cursor pins the position, so neither new posts nor likes, comments
+   * and shares arriving while scrolling shift pages.
+   */
+  static async getFeed({ user, feed, cursor, limit, query }) {
+    const position = decodeCursor(cursor);
+
+    if (feed === 'latest' || (position && position.snapshot === undefined)) {
+      return this.latestPage({ query, limit, after: position?.after || null, feed });
+    }
+    return this.rankedPage({ user, query, limit, position });
+  }
+
+  static async latestPage({ query, limit, after, feed }) {
+    const filter = after ? { $and: [query, olderThan(after)] } : query;
+    const posts = await Post.find(filter)
+      .populate('author', AUTHOR_FIELDS)
+      .populate('likes', 'name avatar')
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1);
+
+    const page = posts.slice(0, limit);
+    const last = page[page.length - 1];
+    const hasMore = posts.length > limit;
+    return {
+      feed,
+      posts: page,
+      hasMore,
+      nextCursor: hasMore ? encodeCursor({ after: { createdAt: last.createdAt, id: last._id } }) : null
+    };
+  }
+
+  // Rank the most recent posts for the viewer; the ids come back best first
+  static async rank(user, query) {
+    const now = new Date();
+    const [profile, candidates] = await Promise.all([
+      this.buildProfile(user),
+      Post.find(query)
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(CANDIDATE_LIMIT)
+        .select('author department batch postType likes commentCount shares createdAt')
+        .lean()
+    ]);
+
+    const postIds = candidates
+      .map(post => ({ id: post._id, score: this.scorePost(post, profile, now) }))
+      .sort((a, b) => b.score - a.score || b.id.toString().localeCompare(a.id.toString()))
+      .map(({ id }) => id);
+
+    // Past the ranked window, the feed continues with everything older
+    const oldest = candidates.length === CANDIDATE_LIMIT ? candidates[candidates.length - 1] : null;
+    return { postIds, after: oldest ? { createdAt: oldest.createdAt, id: oldest._id } : null };
+  }
+
+  static async rankedPage({ user, query, limit, position }) {
+    let postIds;
+    let snapshotId = position?.snapshot || null;
+    let after = position?.after || null;
+
+    if (position) {
+      const snapshot = await FeedSnapshot.findOne({ _id: position.snapshot, userId: user._id }).select('postIds').lean();
+      if (!snapshot) {
+        // Expired: carry on newest first from where the ranked window ended
+        return after
+          ? this.latestPage({ query, limit, after, feed: 'for_you' })
+          : { feed: 'for_you', posts: [], hasMore: false, nextCursor: null };
+      }
+      postIds = snapshot.postIds;
+    } else {
+      ({ postIds, after } = await this.rank(user, query));
+      // Only worth storing when there is a second page to serve from it
+      if (postIds.length > limit) {
+        const snapshot = await FeedSnapshot.create({
+          userId: user._id,
+          postIds,
+          expiresAt: new Date(Date.now() + SNAPSHOT_TTL_MS)
+        });
+        snapshotId = snapshot._id;
+      }
+    }
+
+    const offset = position?.offset || 0;
+    const ids = postIds.slice(offset, offset + limit);
+    // Re-applying the query drops posts deleted, removed or restricted since the snapshot was taken
+    const posts = ids.length > 0
+      ? await Post.find({ $and: [query, { _id: { $in: ids } }] })
+        .populate('author', AUTHOR_FIELDS)
+        .populate('likes', 'name avatar')
+      : [];
+    const byId = new Map(posts.map(post => [post._id.toString(), post]));
+    const ordered = ids.map(id => byId.get(id.toString())).filter(Boolean);
+
+    let nextCursor = null;
+    if (offset + limit < postIds.length) {
+      nextCursor = encodeCursor({ snapshot: snapshotId, offset: offset + limit, after });
+    } else if (after) {
+      nextCursor = encodeCursor({ after });
+    }
+
+    return { feed: 'for_you', posts: ordered, hasMore: !!nextCursor, nextCursor };
+  }
+}
+
+module.exports = FeedService;
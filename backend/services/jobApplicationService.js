@@ -0,0 +1,321 @@
+const JobPosting = require('../models/JobPosting');
+const JobApplication = require('../models/JobApplication');
+const Post = require('../models/Post');
+const User = require('../models/User');
+const NotificationService = require('./notificationService');
+const PostAudienceService = require('./postAudienceService');
+
+// Statuses the poster can move an application into
+const POSTER_STATUSES = ['applied', 'shortlisted', 'interviewing', 'offered', 'rejected'];
+
+const STATUS_LABELS = {
+  applied: 'Applied',
+  shortlisted: 'Shortlisted',
+  interviewing: 'Interviewing',
+  offered: 'Offered',
+  rejected: 'Not selected',
+  withdrawn: 'Withdrawn'
+};
+
+// Branch lists written as "All branches" / "Any" don't restrict applicants
+const OPEN_BRANCHES = ['all', 'any', 'allbranches', 'anybranch', 'open'];
+
+const firstNumber = (value) => {
+  const match = /(\d+(?:\.\d+)?)/.exec(String(value || ''));
+  return match ? parseFloat(match[1]) : null;
+};
+
+const normalizeBranch = (value) => String(value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// "Computer Science and Engineering" -> "cse", so full names match the usual short forms
+const branchAcronym = (value) => String(value || '')
+  .toLowerCase()
+  .split(/[^a-z]+/)
+  .filter(word => word && !['and', 'of', 'the', 'in'].includes(word))
+  .map(word => word[0])
+  .join('');
+
+// Minimum years asked for by levels like "Fresher", "0-2 years", "3+ years" or "Senior"
+const requiredYears = (experienceLevel) => {
+  const level = String(experienceLevel || '').toLowerCase();
+  if (!level || /fresher|entry|intern|graduate|any/.test(level)) return 0;
+  const years = firstNumber(level);
+  if (years !== null) return years;
+  if (/senior|lead/.test(level)) return 5;
+  if (/mid/.test(level)) return 2;
+  return 0;
+};
+
+class JobApplicationService {
+  static canManageJob(job, user) {
+    return job.postedBy.toString() === user._id.toString() || user.role === 'admin';
+  }
+
+  // Placement coordinators are faculty members and admins
+  static canCoordinate(user) {
+    return user.type === 'faculty' || user.role === 'admin';
+  }
+
+  /**
+   * Check an applicant against the job's cgpaCutoff, eligibleBranches and experienceLevel.
+   * Returns { eligible, reasons, overridden }; reasons are shown to the applicant as-is.
+   */
+  static evaluateEligibility(job, user) {
+    const reasons = [];
+
+    const cutoff = firstNumber(job.cgpaCutoff);
+    if (cutoff !== null && cutoff > 0) {
+      let cgpa = firstNumber(user.studentInfo?.cgpa);
+      if (cgpa === null) {
+        // Alumni are judged on experience; a missing CGPA only blocks students
+        if (user.type === 'student') {
+          reasons.push(`Add your CGPA to your profile (minimum ${job.cgpaCutoff})`);
+        }
+      } else {
+        // Cutoffs may be written as a percentage while profiles store a 10-point CGPA
+        if (cutoff > 10 && cgpa <= 10) cgpa *= 10;
+        if (cgpa < cutoff) {
+          reasons.push(`CGPA ${user.studentInfo.cgpa} is below the cutoff of ${job.cgpaCutoff}`);
+        }
+      }
+    }
+
+    const branches = (job.eligibleBranches || []).map(normalizeBranch).filter(Boolean);
+    if (branches.length > 0 && !branches.some(b => OPEN_BRANCHES.includes(b))) {
+      const department = user.studentInfo?.department || user.alumniInfo?.originalDepartment || user.department;
+      const normalized = normalizeBranch(department);
+      const acronym = branchAcronym(department);
+      // Whole names or whole acronyms only: substrings would let "CE" match "CSE"
+      const matches = normalized && (job.eligibleBranches || []).some(branch => {
+        const b = normalizeBranch(branch);
+        const branchShort = branchAcronym(branch);
+        return b === normalized ||
+          (acronym.length > 1 && (b === acronym || branchShort === acronym)) ||
+          (branchShort.length > 1 && branchShort === normalized);
+      });
+      if (!department) {
+        reasons.push('Add your department to your profile to check branch eligibility');
+      } else if (!matches) {
+        reasons.push(`${department} is not one of the eligible branches (${job.eligibleBranches.join(', ')})`);
+      }
+    }
+
+    const minYears = requiredYears(job.experienceLevel);
+    if (minYears > 0) {
+      const years = user.type === 'alumni' ? firstNumber(user.alumniInfo?.experience) || 0 : 0;
+      if (years < minYears) {
+        reasons.push(`Requires ${job.experienceLevel} of experience; your profile shows ${years} year${years === 1 ? '' : 's'}`);
+      }
+    }
+
+    const overridden = reasons.length > 0 && job.hasEligibilityOverride(user._id);
+    return { eligible: reasons.length === 0 || overridden, reasons, overridden };
+  }
+
+  /**
+   * Create or refresh the JobPosting that mirrors a job post from the feed,
+   * so feed jobs share the same application pipeline as /api/jobs postings.
+   */
+  static async syncFromPost(post) {
+    if (post.postType !== 'job' || !post.jobDetails) return null;
+
+    const details = post.jobDetails;
+    const authorId = post.author?._id || post.author;
+    let contactEmail = details.contactEmail;
+    if (!contactEmail) {
+      const author = await User.findById(authorId).select('email').lean();
+      contactEmail = author?.email?.professional || author?.email?.college || author?.email?.personal;
+    }
+
+    const deadline = details.deadline ? new Date(details.deadline) : null;
+    const update = {
+      companyName: details.company,
+      industry: details.industry,
+      location: details.location,
+      companyDescription: details.companyDescription,
+      companyLogo: details.companyLogo,
+      title: details.title,
+      jobType: details.jobType || 'full-time',
+      salaryRange: details.salaryRange || details.salary,
+      benefits: details.benefits || [],
+      referralBonus: details.referralBonus,
+      skillsRequired: details.skillsRequired || [],
+      cgpaCutoff: details.cgpaCutoff,
+      eligibleBranches: details.eligibleBranches || [],
+      experienceLevel: details.experienceLevel,
+      eligibilityCriteria: details.eligibilityCriteria || details.eligibility,
+      deadline: deadline && !isNaN(deadline.getTime()) ? deadline : null,
+      applicationLink: details.applicationLink,
+      hiringTimeline: details.hiringTimeline,
+      contactEmail,
+      interviewRounds: details.interviewRounds || 0,
+      interviewDetails: details.interviewDetails || [],
+      postedBy: authorId,
+      isActive: post.moderationStatus !== 'removed',
+      audience: post.audience || 'everyone'
+    };
+
+    return JobPosting.findOneAndUpdate(
+      { sourcePost: post._id },
+      { $set: update },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+  }
+
+  static async updateAudienceForPost(postId, audience) {
+    await JobPosting.updateOne({ sourcePost: postId }, { $set: { audience } });
+  }
+
+  // Postings mirrored from a restricted post are only for users who can read that post
+  static async canViewJob(job, user) {
+    if (!job.sourcePost || !job.audience || job.audience === 'everyone') return true;
+    const post = await Post.findById(job.sourcePost).select('author audience audienceBatch department groupId').lean();
+    return !!post && PostAudienceService.canView(post, user);
+  }
+
+  static async deactivateForPost(postId) {
+    await JobPosting.updateOne({ sourcePost: postId }, { $set: { isActive: false } });
+  }
+
+  static async apply({ job, user, coverLetter, io }) {
+    if (!job.isActive) {
+      return { success: false, reason: 'job_inactive' };
+    }
+    if (job.isPastDeadline()) {
+      return { success: false, reason: 'deadline_passed' };
+    }
+    if (job.postedBy.toString() === user._id.toString()) {
+      return { success: false, reason: 'own_job' };
+    }
+
+    const eligibility = this.evaluateEligibility(job, user);
+    if (!eligibility.eligible) {
+      return { success: false, reason: 'not_eligible', reasons: eligibility.reasons };
+    }
+
+    const existing = await JobApplication.findOne({ job: job._id, applicant: user._id });
+    if (existing && existing.status !== 'withdrawn') {
+      return { success: false, reason: 'already_applied', application: existing };
+    }
+
+    let application;
+    if (existing) {
+      // Re-applying after withdrawing reopens the same record
+      existing.resume = user.resume || null;
+      existing.coverLetter = coverLetter;
+      existing.eligibilityOverridden = eligibility.overridden;
+      existing.setStatus('applied', user._id, 'Re-applied');
+      application = await existing.save();
+    } else {
+      application = new JobApplication({
+        job: job._id,
+        applicant: user._id,
+        poster: job.postedBy,
+        resume: user.resume || null,
+        coverLetter,
+        eligibilityOverridden: eligibility.overridden
+      });
+      application.setStatus('applied', user._id);
+      try {
+        await application.save();
+      } catch (error) {
+        // Two concurrent submits: the unique index lets only one through
+        if (error.code === 11000) {
+          return { success: false, reason: 'already_applied' };
+        }
+        throw error;
+      }
+    }
+
+    await this.notify({
+      recipientId: job.postedBy,
+      senderId: user._id,
+      type: 'job_application',
+      title: 'New Job Application',
+      message: `${user.name} applied for ${job.title} at ${job.companyName}`,
+      job,
+      application,
+      io
+    });
+
+    return { success: true, application };
+  }
+
+  static async updateStatus({ application, job, status, actor, note, io }) {
+    if (!POSTER_STATUSES.includes(status)) {
+      return { success: false, reason: 'invalid_status' };
+    }
+    if (application.status === 'withdrawn') {
+      return { success: false, reason: 'withdrawn' };
+    }
+    if (application.status === status) {
+      return { success: true, application, unchanged: true };
+    }
+
+    application.setStatus(status, actor._id, note);
+    await application.save();
+
+    await this.notify({
+      recipientId: application.applicant,
+      senderId: actor._id,
+      type: 'job_update',
+      title: 'Application Update',
+      message: `Your application for ${job.title} at ${job.companyName} is now: ${STATUS_LABELS[status]}`,
+      job,
+      application,
+      io
+    });
+
+    return { success: true, application };
+  }
+
+  static async withdraw({ application, job, user, io }) {
+    if (application.status === 'withdrawn') {
+      return { success: false, reason: 'withdrawn' };
+    }
+    if (application.status === 'rejected') {
+      return { success: false, reason: 'closed' };
+    }
+
+    application.setStatus('withdrawn', user._id);
+    await application.save();
+
+    await this.notify({
+      recipientId: job.postedBy,
+      senderId: user._id,
+      type: 'job_update',
+      title: 'Application Withdrawn',
+      message: `${user.name} withdrew their application for ${job.title}`,
+      job,
+      application,
+      io
+    });
+
+    return { success: true, application };
+  }
+
+  static async notify({ recipientId, senderId, type, title, message, job, application, io }) {
+    try {
+      const notification = await NotificationService.createNotification({
+        recipientId,
+        senderId,
+        type,
+        title,
+        message,
+        relatedPostId: job.sourcePost,
+        priority: 'medium',
+        category: 'system',
+        metadata: { jobId: job._id, applicationId: application?._id, status: application?.status }
+      });
+      if (notification && io) {
+        io.to(`user_${recipientId}`).emit('new_notification', { notification, timestamp: new Date() });
+      }
+    } catch (error) {
+      console.error('Error sending job application notification:', error);
+    }
+  }
+}
+
+JobApplicationService.STATUS_LABELS = STATUS_LABELS;
+
+module.exports = JobApplicationService;
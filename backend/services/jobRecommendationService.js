@@ -0,0 +1,187 @@
+const JobPosting = require('../models/JobPosting');
+const JobApplication = require('../models/JobApplication');
+const UserSettings = require('../models/UserSettings');
+const User = require('../models/User');
+const JobApplicationService = require('./jobApplicationService');
+const emailService = require('./emailService');
+
+const CANDIDATE_LIMIT = 200; // most recent active postings considered per request
+const DIGEST_SIZE = 5;
+
+const normalize = (value) => String(value || '').trim().toLowerCase();
+
+class JobRecommendationService {
+  /**
+   * What we know about the user that ranking depends on. Built once per request
+   * so scoring a job stays synchronous.
+   */
+  static async buildProfile(user) {
+    const applications = await JobApplication.find({ applicant: user._id })
+      .populate('job', 'jobType')
+      .select('job status')
+      .lean();
+
+    const appliedJobIds = new Set(applications.map(app => (app.job?._id || app.job)?.toString()).filter(Boolean));
+    const appliedTypes = applications.reduce((acc, app) => {
+      if (app.job?.jobType) acc[app.job.jobType] = (acc[app.job.jobType] || 0) + 1;
+      return acc;
+    }, {});
+
+    return {
+      skills: new Map((user.skills || []).map(skill => [normalize(skill), skill])),
+      department: user.studentInfo?.department || user.alumniInfo?.originalDepartment || user.department,
+      locations: [user.location, user.city, user.alumniInfo?.workLocation].map(normalize).filter(Boolean),
+      appliedJobIds,
+      appliedTypes
+    };
+  }
+
+  /**
+   * Score one posting for the user. Returns null for jobs that shouldn't be
+   * recommended at all (already applied, ineligible, closed).
+   */
+  static scoreJob(job, user, profile, now = new Date()) {
+    if (profile.appliedJobIds.has(job._id.toString())) return null;
+    if (job.postedBy.toString() === user._id.toString()) return null;
+    if (job.isPastDeadline(now)) return null;
+
+    const eligibility = JobApplicationService.evaluateEligibility(job, user);
+    if (!eligibility.eligible) return null;
+
+    let score = 0;
+    const reasons = [];
+
+    // Skills overlap carries the most weight
+    const required = job.skillsRequired || [];
+    const matched = required.filter(skill => profile.skills.has(normalize(skill)));
+    if (matched.length > 0) {
+      score += matched.length * 10 + Math.round((matched.length / required.length) * 20);
+      reasons.push(`Matches your skills: ${matched.slice(0, 4).join(', ')}${matched.length > 4 ? ` +${matched.length - 4} more` : ''}`);
+    }
+
+    if ((job.eligibleBranches || []).length > 0 && profile.department) {
+      score += 15;
+      reasons.push(`Open to ${profile.department} students`);
+    }
+
+    const jobLocation = normalize(job.location);
+    const nearby = profile.locations.find(loc => jobLocation.includes(loc) || loc.includes(jobLocation));
+    if (nearby) {
+      score += 12;
+      reasons.push(`In your preferred location (${job.location})`);
+    } else if (/remote|anywhere|work from home|wfh/.test(jobLocation)) {
+      score += 6;
+      reasons.push('Remote role');
+    }
+
+    const typeCount = profile.appliedTypes[job.jobType] || 0;
+    if (typeCount > 0) {
+      score += Math.min(typeCount, 3) * 5;
+      reasons.push(`Similar to ${job.jobType} roles you've applied to`);
+    }
+
+    if (score === 0) return null;
+
+    // Small nudge towards fresh postings and ones closing soon
+    const ageDays = (now - new Date(job.createdAt)) / (24 * 60 * 60 * 1000);
+    if (ageDays <= 7) score += 3;
+    if (job.deadline) {
+      const daysLeft = (new Date(job.deadline) - now) / (24 * 60 * 60 * 1000);
+      if (daysLeft >= 0 && daysLeft <= 7) {
+        score += 2;
+        reasons.push(`Closes ${daysLeft < 1 ? 'today' : `in ${Math.ceil(daysLeft)} days`}`);
+      }
+    }
+
+    return { score, reasons };
+  }
+
+  // Also feeds the weekly digest email, so only listed postings are candidates
+  static async recommendForUser(user, { limit = 10, since = null } = {}) {
+    const query = { isActive: true, ...JobPosting.LISTED };
+    if (since) query.createdAt = { $gte: since };
+
+    const [profile, candidates] = await Promise.all([
+      this.buildProfile(user),
+      JobPosting.find(query)
+        .sort({ createdAt: -1 })
+        .limit(CANDIDATE_LIMIT)
+    ]);
+
+    const now = new Date();
+    return candidates
+      .map(job => {
+        const result = this.scoreJob(job, user, profile, now);
+        if (!result) return null;
+        const plain = job.toJSON();
+        delete plain.eligibilityOverrides;
+        return { job: plain, ...result };
+      })
+      .filter(Boolean)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  static async getDigestPreference(userId) {
+    const settings = await UserSettings.findOne({ userId }).select('jobDigest').lean();
+    return { enabled: !!settings?.jobDigest?.enabled, lastSentAt: settings?.jobDigest?.lastSentAt || null };
+  }
+
+  static async setDigestPreference(userId, enabled) {
+    await UserSettings.findOneAndUpdate(
+      { userId },
+      { $set: { 'jobDigest.enabled': !!enabled } },
+      { upsert: true, setDefaultsOnInsert: true }
+    );
+    return this.getDigestPreference(userId);
+  }
+
+  /**
+   * Email each opted-in user the best new postings since their last digest.
+   * Users with nothing new are skipped without updating lastSentAt.
+   */
+  static async sendWeeklyDigests() {
+    const results = { sent: 0, skipped: 0, errors: [] };
+    const subscribers = await UserSettings.find({ 'jobDigest.enabled': true }).select('userId jobDigest').lean();
+    const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+    for (const subscription of subscribers) {
+      try {
+        const user = await User.findById(subscription.userId).select('-password');
+        const to = user?.email?.personal || user?.email?.professional || user?.email?.college;
+        if (!user || !to) {
+          results.skipped++;
+          continue;
+        }
+
+        const lastSentAt = subscription.jobDigest?.lastSentAt;
+        const since = lastSentAt && lastSentAt > weekAgo ? lastSentAt : weekAgo;
+        const recommendations = await this.recommendForUser(user, { limit: DIGEST_SIZE, since });
+        if (recommendations.length === 0) {
+          results.skipped++;
+          continue;
+        }
+
+        const delivered = await emailService.sendEmail({
+          to,
+          subject: `${recommendations.length} job${recommendations.length === 1 ? '' : 's'} recommended for you this week`,
+          template: 'job-digest',
+          data: { name: user.name, recommendations }
+        });
+        if (!delivered) {
+          results.errors.push({ userId: user._id, error: 'send failed' });
+          continue;
+        }
+
+        await UserSettings.updateOne({ userId: user._id }, { $set: { 'jobDigest.lastSentAt': new Date() } });
+        results.sent++;
+      } catch (error) {
+        results.errors.push({ userId: subscription.userId, error: error.message });
+      }
+    }
+
+    return results;
+  }
+}
+
+module.exports = JobRecommendationService;
@@ -1,355 +1,384 @@
-const { v4: uuidv4 } = require('uuid');
 const mediasoup = require('mediasoup');
 
+const MEDIA_CODECS = [
+    {
+        kind: 'audio',
+        mimeType: 'audio/opus',
+        clockRate: 48000,
+        channels: 2
+    },
+    {
+        kind: 'video',
+        mimeType: 'video/VP8',
+        clockRate: 90000,
+        parameters: {
+            'x-google-start-bitrate': 1000
+        }
+    },
+    {
+        kind: 'video',
+        mimeType: 'video/H264',
+        clockRate: 90000,
+        parameters: {
+            'packetization-mode': 1,
+            'profile-level-id': '42e01f',
+            'level-asymmetry-allowed': 1
+        }
+    }
+];
+
+// Selective forwarding unit for large in-app meetings. One mediasoup router per
+// meeting room; every participant gets a send and a receive transport.
 class MeetingService {
     constructor() {
-        this.activeMeetings = new Map();
+        this.activeMeetings = new Map(); // roomKey -> { id, router, activeSpeakerObserver, participants, producers }
         this.workers = [];
-        this.routers = new Map();
+        this.nextWorker = 0;
+        this.initPromise = null;
+        this.available = null;
     }
 
-    // Initialize MediaSoup workers
+    // Initialize MediaSoup workers (lazily, on the first SFU meeting)
     async initializeMediaSoup() {
-        try {
-            console.log('🔄 Initializing MediaSoup workers...');
-
-            const worker = await mediasoup.createWorker({
-                logLevel: 'warn',
-                rtcMinPort: 40000,
-                rtcMaxPort: 49999
-            });
-
-            worker.on('died', () => {
-                console.error('❌ MediaSoup worker died, exiting...');
-                process.exit(1);
-            });
-
-            this.workers.push(worker);
-
-            const router = await worker.createRouter({
-                mediaCodecs: [
-                    {
-                        kind: 'audio',
-                        mimeType: 'audio/opus',
-                        clockRate: 48000,
-                        channels: 2
-                    },
-                    {
-                        kind: 'video',
-                        mimeType: 'video/VP8',
-                        clockRate: 90000,
-                        parameters: {
-                            'x-google-start-bitrate': 1000
-                        }
-                    },
-                    {
-                        kind: 'video',
-                        mimeType: 'video/H264',
-                        clockRate: 90000,
-                        parameters: {
-                            'packetization-mode': 1,
-                            'profile-level-id': '42e01f',
-                            'level-asymmetry-allowed': 1
-                        }
+        if (!this.initPromise) {
+            this.initPromise = (async () => {
+                try {
+                    console.log('🔄 Initializing MediaSoup workers...');
+                    const workerCount = Math.max(1, parseInt(process.env.MEDIASOUP_WORKERS, 10) || 1);
+
+                    for (let i = 0; i < workerCount; i++) {
+                        const worker = await mediasoup.createWorker({
+                            logLevel: 'warn',
+                            rtcMinPort: parseInt(process.env.MEDIASOUP_MIN_PORT, 10) || 40000,
+                            rtcMaxPort: parseInt(process.env.MEDIASOUP_MAX_PORT, 10) || 49999
+                        });
+
+                        worker.on('died', () => {
+                            console.error('❌ MediaSoup worker died, exiting...');
+                            process.exit(1);
+                        });
+
+                        this.workers.push(worker);
                     }
-                ]
-            });
 
-            this.routers.set(worker.pid, router);
-            console.log('✅ MediaSoup worker and router initialized successfully');
-        } catch (error) {
-            console.error('❌ Failed to initialize MediaSoup:', error);
-            throw error;
+                    this.available = true;
+                    console.log(`✅ MediaSoup initialized with ${this.workers.length} worker(s)`);
+                } catch (error) {
+                    // Meetings keep working in peer-to-peer mode without the SFU
+                    this.available = false;
+                    console.error('❌ Failed to initialize MediaSoup:', error);
+                }
+            })();
         }
+
+        await this.initPromise;
+        return this.available;
     }
 
-    // Create a new meeting
-    async createMeeting(meetingData) {
-        try {
-            const meetingId = uuidv4();
-            const worker = this.workers[0]; // Use first worker for now
-            const router = this.routers.get(worker.pid);
-
-            if (!router) {
-                throw new Error('Router not available');
-            }
-
-            // Create WebRTC transport for the meeting
-            const transport = await router.createWebRtcTransport({
-                listenIps: [{ ip: '0.0.0.0', announcedIp: process.env.SERVER_IP || 'localhost' }],
-                enableUdp: true,
-                enableTcp: true,
-                preferUdp: true,
-                initialAvailableOutgoingBitrate: 1000000
-            });
+    // Create the router for a meeting room, or return the existing one
+    async createMeeting(roomKey, { onActiveSpeaker, onConsumerClosed } = {}) {
+        const existing = this.activeMeetings.get(roomKey);
+        if (existing) return existing;
 
-            const meeting = {
-                id: meetingId,
-                ...meetingData,
-                participants: new Map(),
-                producers: new Map(),
-                consumers: new Map(),
-                transport,
-                router,
-                createdAt: new Date(),
-                status: 'active'
-            };
-
-            this.activeMeetings.set(meetingId, meeting);
-            console.log(`✅ Created meeting ${meetingId} with MediaSoup transport`);
-
-            return meeting;
-        } catch (error) {
-            console.error('❌ Failed to create meeting:', error);
-            throw error;
+        if (!(await this.initializeMediaSoup())) {
+            throw new Error('SFU not available');
         }
+
+        // Another join may have created it while the workers were starting
+        if (this.activeMeetings.has(roomKey)) return this.activeMeetings.get(roomKey);
+
+        const worker = this.workers[this.nextWorker++ % this.workers.length];
+        const router = await worker.createRouter({ mediaCodecs: MEDIA_CODECS });
+        const activeSpeakerObserver = await router.createActiveSpeakerObserver({ interval: 300 });
+
+        const meeting = {
+            id: roomKey,
+            router,
+            activeSpeakerObserver,
+            participants: new Map(),
+            producers: new Map(), // producerId -> { producer, participantId }
+            onConsumerClosed,
+            createdAt: new Date()
+        };
+
+        activeSpeakerObserver.on('dominantspeaker', ({ producer }) => {
+            const entry = meeting.producers.get(producer.id);
+            if (entry && onActiveSpeaker) onActiveSpeaker(entry.participantId);
+        });
+
+        this.activeMeetings.set(roomKey, meeting);
+        console.log(`✅ Created SFU router for meeting ${roomKey}`);
+        return meeting;
     }
 
     // Join a meeting
-    async joinMeeting(meetingId, userData) {
-        try {
-            const meeting = this.activeMeetings.get(meetingId);
-            if (!meeting) {
-                throw new Error('Meeting not found');
-            }
-
-            const participantId = uuidv4();
-            const participant = {
+    async joinMeeting(roomKey, participantId) {
+        const meeting = this.activeMeetings.get(roomKey);
+        if (!meeting) {
+            throw new Error('Meeting not found');
+        }
+
+        if (!meeting.participants.has(participantId)) {
+            meeting.participants.set(participantId, {
                 id: participantId,
-                ...userData,
                 joinTime: new Date(),
-                streams: new Map(),
+                transports: new Map(),
                 producers: new Map(),
                 consumers: new Map()
-            };
-
-            meeting.participants.set(participantId, participant);
-            console.log(`✅ Participant ${participantId} joined meeting ${meetingId}`);
-
-            return {
-                meeting: this.sanitizeMeeting(meeting),
-                participant,
-                connectionParams: await this.generateConnectionParams(meeting, participant)
-            };
-        } catch (error) {
-            console.error('❌ Failed to join meeting:', error);
-            throw error;
+            });
         }
+
+        return {
+            routerRtpCapabilities: meeting.router.rtpCapabilities,
+            iceServers: this.getIceServers()
+        };
     }
 
-    // Generate connection parameters for client
-    async generateConnectionParams(meeting, participant) {
-        try {
-            const transport = meeting.transport;
-
-            // Create producer transport for the participant
-            const producerTransport = await meeting.router.createWebRtcTransport({
-                listenIps: [{ ip: '0.0.0.0', announcedIp: process.env.SERVER_IP || 'localhost' }],
-                enableUdp: true,
-                enableTcp: true,
-                preferUdp: true
-            });
+    // Create a send or receive WebRTC transport for a participant
+    async createTransport(roomKey, participantId, direction) {
+        const { meeting, participant } = this.getParticipant(roomKey, participantId);
+        const announcedAddress = process.env.MEDIASOUP_ANNOUNCED_IP || process.env.SERVER_IP || undefined;
+        const ip = process.env.MEDIASOUP_LISTEN_IP || '0.0.0.0';
+
+        const transport = await meeting.router.createWebRtcTransport({
+            listenInfos: [
+                { protocol: 'udp', ip, announcedAddress },
+                { protocol: 'tcp', ip, announcedAddress }
+            ],
+            enableUdp: true,
+            enableTcp: true,
+            preferUdp: true,
+            initialAvailableOutgoingBitrate: 1000000,
+            appData: { direction }
+        });
 
-            // Create consumer transport for the participant
-            const consumerTransport = await meeting.router.createWebRtcTransport({
-                listenIps: [{ ip: '0.0.0.0', announcedIp: process.env.SERVER_IP || 'localhost' }],
-                enableUdp: true,
-                enableTcp: true,
-                preferUdp: true
-            });
+        participant.transports.set(transport.id, transport);
 
-            return {
-                producerTransport: {
-                    id: producerTransport.id,
-                    iceParameters: producerTransport.iceParameters,
-                    iceCandidates: producerTransport.iceCandidates,
-                    dtlsParameters: producerTransport.dtlsParameters
-                },
-                consumerTransport: {
-                    id: consumerTransport.id,
-                    iceParameters: consumerTransport.iceParameters,
-                    iceCandidates: consumerTransport.iceCandidates,
-                    dtlsParameters: consumerTransport.dtlsParameters
-                },
-                routerRtpCapabilities: meeting.router.rtpCapabilities
-            };
-        } catch (error) {
-            console.error('❌ Failed to generate connection params:', error);
-            throw error;
-        }
+        return {
+            id: transport.id,
+            iceParameters: transport.iceParameters,
+            iceCandidates: transport.iceCandidates,
+            dtlsParameters: transport.dtlsParameters
+        };
     }
 
     // Handle WebRTC signaling
-    async handleSignaling(participantId, meetingId, message) {
-        try {
-            const meeting = this.activeMeetings.get(meetingId);
-            const participant = meeting.participants.get(participantId);
-
-            if (!participant) {
-                throw new Error('Participant not found');
-            }
-
-            switch (message.type) {
-                case 'connect_producer':
-                    return await this.handleConnectProducer(participant, meeting, message);
-                case 'connect_consumer':
-                    return await this.handleConnectConsumer(participant, meeting, message);
-                case 'produce':
-                    return await this.handleProduce(participant, meeting, message);
-                case 'consume':
-                    return await this.handleConsume(participant, meeting, message);
-                case 'pause_producer':
-                    return await this.handlePauseProducer(participant, message);
-                case 'resume_producer':
-                    return await this.handleResumeProducer(participant, message);
-                case 'close_producer':
-                    return await this.handleCloseProducer(participant, message);
-                default:
-                    throw new Error(`Unknown signaling type: ${message.type}`);
-            }
-        } catch (error) {
-            console.error('❌ Signaling error:', error);
-            throw error;
+    async handleSignaling(roomKey, participantId, message) {
+        const { meeting, participant } = this.getParticipant(roomKey, participantId);
+
+        switch (message.type) {
+            case 'connect_transport':
+                return await this.handleConnectTransport(participant, message);
+            case 'produce':
+                return await this.handleProduce(participant, meeting, message);
+            case 'consume':
+                return await this.handleConsume(participant, meeting, message);
+            case 'resume_consumer':
+                return await this.handleResumeConsumer(participant, message);
+            case 'set_preferred_layers':
+                return await this.handleSetPreferredLayers(participant, message);
+            case 'pause_producer':
+                return await this.handlePauseProducer(participant, message);
+            case 'resume_producer':
+                return await this.handleResumeProducer(participant, message);
+            case 'close_producer':
+                return await this.handleCloseProducer(participant, meeting, message);
+            default:
+                throw new Error(`Unknown signaling type: ${message.type}`);
         }
     }
 
-    // Handle producer connection
-    async handleConnectProducer(participant, meeting, message) {
-        try {
-            const transport = meeting.transport;
-            await transport.connect({
-                dtlsParameters: message.dtlsParameters
-            });
-
-            participant.producerTransport = transport;
-            console.log(`✅ Producer transport connected for participant ${participant.id}`);
-        } catch (error) {
-            console.error('❌ Failed to connect producer transport:', error);
-            throw error;
+    // Handle transport connection (DTLS handshake parameters from the client)
+    async handleConnectTransport(participant, message) {
+        const transport = participant.transports.get(message.transportId);
+        if (!transport) {
+            throw new Error('Transport not found');
         }
-    }
 
-    // Handle consumer connection
-    async handleConnectConsumer(participant, meeting, message) {
-        try {
-            // In a real implementation, you'd have separate consumer transports
-            // For simplicity, we're using the same transport
-            const transport = meeting.transport;
-            await transport.connect({
-                dtlsParameters: message.dtlsParameters
-            });
-
-            participant.consumerTransport = transport;
-            console.log(`✅ Consumer transport connected for participant ${participant.id}`);
-        } catch (error) {
-            console.error('❌ Failed to connect consumer transport:', error);
-            throw error;
-        }
+        await transport.connect({ dtlsParameters: message.dtlsParameters });
     }
 
     // Handle produce (start producing media)
     async handleProduce(participant, meeting, message) {
-        try {
-            const transport = meeting.transport;
-            const producer = await transport.produce({
-                kind: message.kind,
-                rtpParameters: message.rtpParameters
-            });
+        const transport = participant.transports.get(message.transportId);
+        if (!transport || transport.appData.direction !== 'send') {
+            throw new Error('Send transport not found');
+        }
+
+        const producer = await transport.produce({
+            kind: message.kind,
+            rtpParameters: message.rtpParameters
+        });
 
-            participant.producers.set(producer.id, producer);
-            meeting.producers.set(producer.id, producer);
+        participant.producers.set(producer.id, producer);
+        meeting.producers.set(producer.id, { producer, participantId: participant.id });
 
-            // Notify other participants about new producer
-            this.notifyParticipants(meeting.id, {
-                action: 'new_producer',
-                data: {
-                    producerId: producer.id,
-                    participantId: participant.id,
-                    kind: message.kind
-                }
-            }, participant.id);
+        producer.on('transportclose', () => {
+            participant.producers.delete(producer.id);
+            meeting.producers.delete(producer.id);
+        });
 
-            console.log(`✅ Producer created: ${producer.id} for participant ${participant.id}`);
-            return { id: producer.id };
-        } catch (error) {
-            console.error('❌ Failed to create producer:', error);
-            throw error;
+        if (producer.kind === 'audio') {
+            await meeting.activeSpeakerObserver.addProducer({ producerId: producer.id });
         }
+
+        console.log(`✅ Producer created: ${producer.id} for participant ${participant.id}`);
+        return { id: producer.id, kind: producer.kind };
     }
 
-    // Handle consume (start consuming media)
+    // Handle consume (start consuming media). Consumers start paused until the
+    // client has wired up the track, then call resume_consumer.
     async handleConsume(participant, meeting, message) {
-        try {
-            const producer = meeting.producers.get(message.producerId);
-            if (!producer) {
-                throw new Error('Producer not found');
-            }
-
-            const transport = meeting.transport;
-            const consumer = await transport.consume({
-                producerId: producer.id,
-                rtpCapabilities: message.rtpCapabilities
-            });
+        const entry = meeting.producers.get(message.producerId);
+        if (!entry) {
+            throw new Error('Producer not found');
+        }
+        if (!meeting.router.canConsume({ producerId: entry.producer.id, rtpCapabilities: message.rtpCapabilities })) {
+            throw new Error('Cannot consume this producer');
+        }
+
+        const transport = [...participant.transports.values()].find(t => t.appData.direction === 'recv');
+        if (!transport) {
+            throw new Error('Receive transport not found');
+        }
+
+        const consumer = await transport.consume({
+            producerId: entry.producer.id,
+            rtpCapabilities: message.rtpCapabilities,
+            paused: true
+        });
 
-            participant.consumers.set(consumer.id, consumer);
-            meeting.consumers.set(consumer.id, consumer);
+        participant.consumers.set(consumer.id, consumer);
 
-            console.log(`✅ Consumer created: ${consumer.id} for participant ${participant.id}`);
-            return {
-                id: consumer.id,
-                producerId: producer.id,
-                kind: consumer.kind,
-                rtpParameters: consumer.rtpParameters
-            };
-        } catch (error) {
-            console.error('❌ Failed to create consumer:', error);
-            throw error;
+        const cleanup = () => {
+            participant.consumers.delete(consumer.id);
+            if (meeting.onConsumerClosed) meeting.onConsumerClosed(participant.id, consumer.id);
+        };
+        consumer.on('transportclose', () => participant.consumers.delete(consumer.id));
+        consumer.on('producerclose', cleanup);
+
+        // Start simulcast video on the lowest layer; the client asks for more
+        // for the tiles that need it
+        if (consumer.type === 'simulcast') {
+            await consumer.setPreferredLayers({ spatialLayer: 0, temporalLayer: 2 });
+        }
+
+        return {
+            id: consumer.id,
+            producerId: entry.producer.id,
+            participantId: entry.participantId,
+            kind: consumer.kind,
+            rtpParameters: consumer.rtpParameters,
+            type: consumer.type
+        };
+    }
+
+    async handleResumeConsumer(participant, message) {
+        const consumer = participant.consumers.get(message.consumerId);
+        if (consumer) {
+            await consumer.resume();
         }
     }
 
+    // Pick the simulcast layer forwarded to this participant for one consumer
+    async handleSetPreferredLayers(participant, message) {
+        const consumer = participant.consumers.get(message.consumerId);
+        if (!consumer || consumer.type !== 'simulcast') return;
+
+        const spatialLayer = Math.max(0, Math.min(2, parseInt(message.spatialLayer, 10) || 0));
+        const temporalLayer = Number.isInteger(message.temporalLayer)
+            ? Math.max(0, Math.min(2, message.temporalLayer))
+            : 2;
+        await consumer.setPreferredLayers({ spatialLayer, temporalLayer });
+    }
+
     // Handle pause producer
     async handlePauseProducer(participant, message) {
-        try {
-            const producer = participant.producers.get(message.producerId);
-            if (producer) {
-                await producer.pause();
-                console.log(`⏸️ Producer paused: ${message.producerId}`);
-            }
-        } catch (error) {
-            console.error('❌ Failed to pause producer:', error);
-            throw error;
+        const producer = participant.producers.get(message.producerId);
+        if (producer) {
+            await producer.pause();
         }
     }
 
     // Handle resume producer
     async handleResumeProducer(participant, message) {
-        try {
-            const producer = participant.producers.get(message.producerId);
-            if (producer) {
-                await producer.resume();
-                console.log(`▶️ Producer resumed: ${message.producerId}`);
-            }
-        } catch (error) {
-            console.error('❌ Failed to resume producer:', error);
-            throw error;
+        const producer = participant.producers.get(message.producerId);
+        if (producer) {
+            await producer.resume();
         }
     }
 
     // Handle close producer
-    async handleCloseProducer(participant, message) {
-        try {
-            const producer = participant.producers.get(message.producerId);
-            if (producer) {
-                await producer.close();
-                participant.producers.delete(message.producerId);
-                console.log(`🗑️ Producer closed: ${message.producerId}`);
-            }
-        } catch (error) {
-            console.error('❌ Failed to close producer:', error);
-            throw error;
+    async handleCloseProducer(participant, meeting, message) {
+        const producer = participant.producers.get(message.producerId);
+        if (producer) {
+            producer.close();
+            participant.producers.delete(message.producerId);
+            meeting.producers.delete(message.producerId);
+            console.log(`🗑️ Producer closed: ${message.producerId}`);
         }
     }
 
+    // Producers a newly connected participant should consume
+    listProducers(roomKey, excludeParticipantId = null) {
+        const meeting = this.activeMeetings.get(roomKey);
+        if (!meeting) return [];
+
+        return [...meeting.producers.values()]
+            .filter(({ participantId }) => participantId !== excludeParticipantId)
+            .map(({ producer, participantId }) => ({
+                producerId: producer.id,
+                participantId,
+                kind: producer.kind
+            }));
+    }
+
+    getProducerOwner(roomKey, producerId) {
+        return this.activeMeetings.get(roomKey)?.producers.get(producerId)?.participantId || null;
+    }
+
+    // Close every consumer for which shouldClose(consumerParticipantId, producerParticipantId)
+    // holds, e.g. between participants who are no longer in the same breakout room
+    closeConsumers(roomKey, shouldClose) {
+        const meeting = this.activeMeetings.get(roomKey);
+        if (!meeting) return;
+
+        meeting.participants.forEach(participant => {
+            participant.consumers.forEach(consumer => {
+                const entry = meeting.producers.get(consumer.producerId);
+                if (!entry || !shouldClose(participant.id, entry.participantId)) return;
+
+                consumer.close();
+                participant.consumers.delete(consumer.id);
+                if (meeting.onConsumerClosed) meeting.onConsumerClosed(participant.id, consumer.id);
+            });
+        });
+    }
+
+    // Remove a participant; closing their transports closes their producers
+    // and consumers, which in turn closes everyone's consumers of them
+    leaveMeeting(roomKey, participantId) {
+        const meeting = this.activeMeetings.get(roomKey);
+        const participant = meeting?.participants.get(participantId);
+        if (!participant) return;
+
+        participant.transports.forEach(transport => transport.close());
+        meeting.participants.delete(participantId);
+
+        if (meeting.participants.size === 0) {
+            this.cleanupMeeting(roomKey);
+        }
+    }
+
+    getParticipant(roomKey, participantId) {
+        const meeting = this.activeMeetings.get(roomKey);
+        const participant = meeting?.participants.get(participantId);
+        if (!participant) {
+            throw new Error('Participant not found');
+        }
+        return { meeting, participant };
+    }
+
     // Get ICE servers configuration
     getIceServers() {
         const iceServers = [
@@ -369,71 +398,27 @@ class MeetingService {
         return iceServers;
     }
 
-    // Notify participants about events
-    notifyParticipants(meetingId, message, excludeParticipantId = null) {
-        const meeting = this.activeMeetings.get(meetingId);
+    // Clean up meeting
+    cleanupMeeting(roomKey) {
+        const meeting = this.activeMeetings.get(roomKey);
         if (!meeting) return;
 
-        meeting.participants.forEach((participant, participantId) => {
-            if (participantId !== excludeParticipantId) {
-                // In a real implementation, you'd send this through WebSocket
-                // For now, we'll just log it
-                console.log(`📢 Notifying participant ${participantId}:`, message);
-            }
-        });
-    }
-
-    // Sanitize meeting data for client
-    sanitizeMeeting(meeting) {
-        return {
-            id: meeting.id,
-            title: meeting.title,
-            hostId: meeting.hostId,
-            status: meeting.status,
-            participantCount: meeting.participants.size,
-            createdAt: meeting.createdAt
-        };
-    }
-
-    // Clean up meeting
-    async cleanupMeeting(meetingId) {
-        try {
-            const meeting = this.activeMeetings.get(meetingId);
-            if (!meeting) return;
-
-            // Close all transports
-            if (meeting.transport) {
-                await meeting.transport.close();
-            }
-
-            // Close all producers
-            for (const producer of meeting.producers.values()) {
-                await producer.close();
-            }
-
-            // Close all consumers
-            for (const consumer of meeting.consumers.values()) {
-                await consumer.close();
-            }
-
-            this.activeMeetings.delete(meetingId);
-            console.log(`🧹 Cleaned up meeting ${meetingId}`);
-        } catch (error) {
-            console.error(`❌ Failed to cleanup meeting ${meetingId}:`, error);
-        }
+        // Closing the router closes every transport, producer and consumer on it
+        meeting.router.close();
+        this.activeMeetings.delete(roomKey);
+        console.log(`🧹 Cleaned up SFU meeting ${roomKey}`);
     }
 
     // Get meeting statistics
-    getMeetingStats(meetingId) {
-        const meeting = this.activeMeetings.get(meetingId);
+    getMeetingStats(roomKey) {
+        const meeting = this.activeMeetings.get(roomKey);
         if (!meeting) return null;
 
         return {
             id: meeting.id,
             participantCount: meeting.participants.size,
             producerCount: meeting.producers.size,
-            consumerCount: meeting.consumers.size,
-            status: meeting.status,
+            consumerCount: [...meeting.participants.values()].reduce((sum, p) => sum + p.consumers.size, 0),
             createdAt: meeting.createdAt
         };
     }
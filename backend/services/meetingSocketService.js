@@ -0,0 +1,1146 @@
+const { v4: uuidv4 } = require('uuid');
+const User = require('../models/User');
+const SessionService = require('./sessionService');
+const Meeting = require('../models/Meeting');
+const MeetingService = require('./meetingService');
+
+const MAX_CHAT_LENGTH = 1000;
+const MAX_CHAT_HISTORY = 200;
+const MAX_REACTION_LENGTH = 16;
+const REACTION_INTERVAL_MS = 500;
+const CHAT_INTERVAL_MS = 300;
+// Caps on what one Meeting document keeps, well clear of MongoDB's 16 MB document limit
+const MAX_STORED_CHAT_MESSAGES = 5000;
+const MAX_STORED_REACTIONS = 2000;
+const MAX_BREAKOUT_ROOMS = 50;
+const MAX_RECALL_SECONDS = 300;
+const DEFAULT_RECALL_SECONDS = 60;
+const MAX_POLL_OPTIONS = 10;
+const MAX_POLL_TEXT_LENGTH = 300;
+const MIN_QUIZ_SECONDS = 10;
+const MAX_QUIZ_SECONDS = 600;
+const DEFAULT_QUIZ_SECONDS = 60;
+const LINK_PATTERN = /https?:\/\/[^\s<>"']+/gi;
+// Above this many participants a room switches from a peer-to-peer mesh to the SFU
+const SFU_THRESHOLD = parseInt(process.env.MEETING_SFU_THRESHOLD, 10) || 6;
+
+const SFU_SIGNALS = {
+  'sfu:connect-transport': 'connect_transport',
+  'sfu:produce': 'produce',
+  'sfu:consume': 'consume',
+  'sfu:resume-consumer': 'resume_consumer',
+  'sfu:set-preferred-layers': 'set_preferred_layers',
+  'sfu:pause-producer': 'pause_producer',
+  'sfu:resume-producer': 'resume_producer',
+  'sfu:close-producer': 'close_producer'
+};
+
+const primaryEmail = (user) =>
+  (user.email?.college || user.email?.professional || user.email?.personal || '').toLowerCase();
+
+const userEmails = (user) =>
+  ['college', 'professional', 'personal']
+    .map(key => user.email?.[key])
+    .filter(Boolean)
+    .map(email => email.toLowerCase());
+
+/**
+ * Signaling server for the in-app MeetingRoom, on the /meetings namespace.
+ * Rooms are keyed by Meeting.roomId (or Meeting.id); the host is whoever
+ * matches Meeting.host_id, regardless of who joined first. Small rooms relay
+ * mesh WebRTC signaling; larger ones are moved onto the mediasoup SFU.
+ *
+ * With the waiting room on, anyone not on the Meeting.attendees invite list
+ * knocks and waits in the lobby until the host or a co-host lets them in.
+ * Room controls and host actions are persisted on the Meeting document.
+ *
+ * Breakout rooms split a room into groups. Media, chat, reactions and typing
+ * stay within a participant's group (socket.io room `${roomKey}#${breakoutId}`,
+ * or `#main`); room-wide events still go to roomKey.
+ *
+ * Polls and timed quizzes are room-wide. Each user answers once; answers are
+ * stored on Meeting.polls and the live counts are broadcast after every answer.
+ *
+ * Chat, likes and reactions are also written to the Meeting document so the
+ * transcript survives the room and feeds GET /meetings/:meetingId/summary.
+ */
+class MeetingSocketService {
+  constructor(io) {
+    this.namespace = io.of('/meetings');
+    this.rooms = new Map(); // roomId -> room state, see createRoom()
+    this.sfu = new MeetingService();
+
+    this.setupMiddleware();
+    this.setupEventHandlers();
+  }
+
+  setupMiddleware() {
+    this.namespace.use(async (socket, next) => {
+      try {
+        const token = socket.handshake.auth.token;
+        if (!token) {
+          return next(new Error('Authentication error: No token provided'));
+        }
+
+        const decoded = SessionService.verifyAccessToken(token);
+        const user = await User.findById(decoded.userId).select('name email type role');
+        if (!user) {
+          return next(new Error('Authentication error: Invalid token'));
+        }
+        if (decoded.sid && !(await SessionService.validate(decoded.sid, user._id))) {
+          return next(new Error('Authentication error: Session expired'));
+        }
+
+        socket.userId = user._id.toString();
+        socket.user = user;
+        next();
+      } catch (error) {
+        next(new Error('Authentication error: Invalid token'));
+      }
+    });
+  }
+
+  setupEventHandlers() {
+    this.namespace.on('connection', (socket) => {
+      socket.on('join-room', (roomId, username) => this.handleJoin(socket, roomId, username));
+
+      // WebRTC signaling is only relayed between sockets in the same room
+      ['offer', 'answer', 'ice-candidate'].forEach(event => {
+        socket.on(event, (payload, targetId) => {
+          if (this.sameRoom(socket, targetId)) {
+            socket.to(targetId).emit(event, payload, socket.id);
+          }
+        });
+      });
+
+      this.setupSfuHandlers(socket);
+      this.setupModerationHandlers(socket);
+
+      socket.on('update-media-state', (state) => {
+        const participant = this.getParticipant(socket);
+        if (!participant || !state || typeof state !== 'object') return;
+
+        ['micEnabled', 'cameraEnabled', 'screenSharing'].forEach(key => {
+          if (typeof state[key] === 'boolean') participant[key] = state[key];
+        });
+        this.namespace.to(socket.data.roomId).emit('media-state-update', this.serializeParticipant(participant));
+      });
+
+      socket.on('raise-hand', (raised) => {
+        const participant = this.getParticipant(socket);
+        if (!participant) return;
+
+        participant.handRaised = !!raised;
+        this.namespace.to(socket.data.roomId).emit('user-raised-hand', socket.id, participant.handRaised, participant.username);
+      });
+
+      socket.on('reaction', (emoji) => {
+        const participant = this.getParticipant(socket);
+        if (!participant || typeof emoji !== 'string' || !emoji.trim() || emoji.length > MAX_REACTION_LENGTH) return;
+
+        const now = Date.now();
+        if (now - (participant.lastReactionAt || 0) < REACTION_INTERVAL_MS) return;
+        participant.lastReactionAt = now;
+
+        this.namespace.to(this.groupChannel(socket.data.roomId, participant.breakoutId)).emit('user-reaction', socket.id, emoji, participant.username);
+
+        const room = this.rooms.get(socket.data.roomId);
+        Meeting.updateOne({ id: room.meetingId }, {
+          $push: {
+            reactions: {
+              $each: [{ user_id: participant.userId, name: participant.username, emoji, timestamp: new Date(now) }],
+              $slice: -MAX_STORED_REACTIONS
+            }
+          }
+        }).catch(error => console.error('Error saving meeting reaction:', error));
+      });
+
+      socket.on('send-message', (text) => {
+        const participant = this.getParticipant(socket);
+        const content = typeof text === 'string' ? text.trim() : '';
+        if (!participant || !content) return;
+
+        const now = Date.now();
+        if (now - (participant.lastMessageAt || 0) < CHAT_INTERVAL_MS) return;
+        participant.lastMessageAt = now;
+
+        const room = this.rooms.get(socket.data.roomId);
+        const message = {
+          id: `${socket.id}-${now}`,
+          user: participant.username,
+          userId: participant.userId,
+          breakoutId: participant.breakoutId,
+          text: content.slice(0, MAX_CHAT_LENGTH),
+          senderId: socket.id,
+          likes: 0,
+          likedBy: new Set(),
+          timestamp: now
+        };
+        room.messages.push(message);
+        if (room.messages.length > MAX_CHAT_HISTORY) room.messages.shift();
+
+        this.namespace.to(this.groupChannel(socket.data.roomId, message.breakoutId)).emit('receive-message', this.serializeMessage(message));
+
+        Meeting.updateOne({ id: room.meetingId }, {
+          $push: {
+            chat_messages: {
+              $each: [{
+                message_id: message.id,
+                user_id: message.userId,
+                name: message.user,
+                breakout_id: message.breakoutId,
+                breakout_name: room.breakout?.rooms.find(r => r.id === message.breakoutId)?.name,
+                text: message.text,
+                links: (message.text.match(LINK_PATTERN) || []).map(url => url.replace(/[.,;:!?)]+$/, '')),
+                sent_at: new Date(message.timestamp)
+              }],
+              $slice: -MAX_STORED_CHAT_MESSAGES
+            }
+          }
+        }).catch(error => console.error('Error saving meeting chat message:', error));
+      });
+
+      socket.on('like-message', (messageId) => {
+        const participant = this.getParticipant(socket);
+        if (!participant) return;
+
+        const message = this.rooms.get(socket.data.roomId).messages.find(m => m.id === messageId);
+        if (!message || message.breakoutId !== participant.breakoutId || message.likedBy.has(participant.userId)) return;
+
+        message.likedBy.add(participant.userId);
+        message.likes = message.likedBy.size;
+        this.namespace.to(this.groupChannel(socket.data.roomId, message.breakoutId)).emit('message-liked', { messageId, likes: message.likes });
+
+        Meeting.updateOne(
+          { id: this.rooms.get(socket.data.roomId).meetingId, 'chat_messages.message_id': messageId },
+          { $addToSet: { 'chat_messages.$.liked_by': participant.userId } }
+        ).catch(error => console.error('Error saving meeting chat like:', error));
+      });
+
+      socket.on('typing', (isTyping) => {
+        const participant = this.getParticipant(socket);
+        if (!participant) return;
+        socket.to(this.groupChannel(socket.data.roomId, participant.breakoutId)).emit('user-typing', socket.id, !!isTyping, participant.username);
+      });
+
+      socket.on('poll-answer', async ({ pollId, optionId } = {}) => {
+        try {
+          await this.answerPoll(socket, pollId, optionId);
+        } catch (error) {
+          console.error('Error answering meeting poll:', error);
+        }
+      });
+
+      socket.on('leave-room', () => this.handleLeave(socket));
+      socket.on('disconnect', () => this.handleLeave(socket));
+    });
+  }
+
+  async handleJoin(socket, roomId, username) {
+    try {
+      if (typeof roomId !== 'string' || !roomId.trim()) {
+        return socket.emit('meeting_join_error', { message: 'Room ID is required' });
+      }
+      if (socket.data.roomId || socket.data.lobbyRoomId) {
+        return socket.emit('meeting_join_error', { message: 'Already in a meeting' });
+      }
+
+      roomId = roomId.trim();
+      const meeting = await Meeting.findOne({ $or: [{ roomId }, { id: roomId }] })
+        .select('id roomId host_id title status attendees.email expected_attendees.email waiting_room_enabled locked co_host_ids blocked_participants.user_id polls chat_messages');
+      if (!meeting) {
+        return socket.emit('meeting_join_error', { message: 'Meeting not found' });
+      }
+      if (meeting.status !== 'active') {
+        return socket.emit('meeting_join_error', { message: `This meeting has been ${meeting.status}` });
+      }
+      if (!socket.connected || socket.data.roomId || socket.data.lobbyRoomId) return;
+
+      // Clients may join by either id; always key the room by the same one
+      const roomKey = meeting.roomId || meeting.id;
+      const room = this.rooms.get(roomKey) || this.createRoom(meeting);
+      const isHost = socket.userId === room.hostUserId;
+      const isModerator = isHost || room.coHostIds.has(socket.userId);
+
+      if (!isHost && room.blockedUserIds.has(socket.userId)) {
+        return socket.emit('meeting_join_error', { message: 'You have been removed from this meeting' });
+      }
+      if (!isModerator && room.locked) {
+        return socket.emit('meeting_join_error', { message: 'This meeting is locked' });
+      }
+
+      this.rooms.set(roomKey, room);
+      const name = (typeof username === 'string' && username.trim()) ? username.trim().slice(0, 100) : socket.user.name;
+
+      if (room.waitingRoomEnabled && !isModerator && !this.isInvited(room, socket)) {
+        return this.waitInLobby(socket, roomKey, name);
+      }
+      await this.admitToRoom(socket, roomKey, name);
+    } catch (error) {
+      console.error('Error joining meeting room:', error);
+      socket.emit('meeting_join_error', { message: 'Failed to join the meeting room' });
+    }
+  }
+
+  createRoom(meeting) {
+    const invited = [...(meeting.attendees || []), ...(meeting.expected_attendees || [])];
+    return {
+      meetingId: meeting.id,
+      title: meeting.title,
+      hostUserId: String(meeting.host_id),
+      mode: 'mesh',
+      participants: new Map(),
+      // Reload the recent transcript so chat survives the room closing
+      messages: (meeting.chat_messages || []).slice(-MAX_CHAT_HISTORY).map(message => ({
+        id: message.message_id,
+        user: message.name,
+        userId: message.user_id,
+        breakoutId: message.breakout_id || null,
+        text: message.text,
+        senderId: null,
+        likes: message.liked_by.length,
+        likedBy: new Set(message.liked_by),
+        timestamp: new Date(message.sent_at).getTime()
+      })),
+      lobby: new Map(), // socketId -> { socketId, userId, username, email, requestedAt }
+      waitingRoomEnabled: !!meeting.waiting_room_enabled,
+      locked: !!meeting.locked,
+      coHostIds: new Set(meeting.co_host_ids || []),
+      blockedUserIds: new Set((meeting.blocked_participants || []).map(blocked => blocked.user_id)),
+      invitedEmails: new Set(invited.map(attendee => (attendee.email || '').toLowerCase()).filter(Boolean)),
+      // Guests let in this session skip the lobby if they reconnect
+      admittedUserIds: new Set(),
+      // { rooms: [{ id, name }], assignments: Map<userId, breakoutId>, open, recallAt, recallTimer }
+      breakout: null,
+      // Earlier polls stay visible; any left open when the room last emptied count as closed
+      polls: new Map((meeting.polls || []).map(poll => [poll.id, {
+        id: poll.id,
+        type: poll.type,
+        question: poll.question,
+        options: poll.options.map(({ id, text }) => ({ id, text })),
+        correctOptionId: poll.correct_option_id || null,
+        createdByName: poll.created_by_name,
+        endsAt: poll.ends_at || null,
+        closedAt: poll.closed_at || poll.ends_at || poll.started_at,
+        answers: new Map(poll.answers.map(answer => [answer.user_id, answer.option_id])),
+        timer: null
+      }]))
+    };
+  }
+
+  isInvited(room, socket) {
+    return room.admittedUserIds.has(socket.userId) ||
+      userEmails(socket.user).some(email => room.invitedEmails.has(email));
+  }
+
+  async admitToRoom(socket, roomKey, username) {
+    const room = this.rooms.get(roomKey);
+    // While breakout rooms are open, (re)joining lands people in their assigned room
+    const breakoutId = room.breakout?.open ? (room.breakout.assignments.get(socket.userId) || null) : null;
+    const joinedAt = new Date();
+    const participant = {
+      socketId: socket.id,
+      userId: socket.userId,
+      username,
+      email: primaryEmail(socket.user),
+      isHost: socket.userId === room.hostUserId,
+      isCoHost: room.coHostIds.has(socket.userId),
+      micEnabled: true,
+      cameraEnabled: true,
+      screenSharing: false,
+      handRaised: false,
+      breakoutId,
+      breakoutEnteredAt: breakoutId ? joinedAt : null,
+      joinedAt
+    };
+
+    const firstSession = !this.hasOtherSession(room, socket.userId, socket.id);
+    room.participants.set(socket.id, participant);
+    socket.data.roomId = roomKey;
+    socket.join(roomKey);
+    socket.join(this.groupChannel(roomKey, breakoutId));
+
+    const others = this.groupMembers(room, breakoutId).filter(p => p.socketId !== socket.id);
+    socket.emit('meeting_joined', {
+      roomId: roomKey,
+      meetingId: room.meetingId,
+      title: room.title,
+      isHost: participant.isHost,
+      isCoHost: participant.isCoHost,
+      mode: room.mode,
+      breakoutId,
+      breakout: this.serializeBreakout(room),
+      messages: this.groupMessages(room, breakoutId),
+      polls: [...room.polls.values()].map(poll => this.serializePoll(poll)),
+      pollAnswers: Object.fromEntries([...room.polls.values()]
+        .filter(poll => poll.answers.has(socket.userId))
+        .map(poll => [poll.id, poll.answers.get(socket.userId)]))
+    });
+    socket.emit('room-users', others.map(p => this.serializeParticipant(p)));
+    socket.to(this.groupChannel(roomKey, breakoutId)).emit('user-connected', socket.id, participant.username);
+    this.emitRoomInfo(roomKey);
+    if (participant.isHost || participant.isCoHost) this.emitLobby(roomKey);
+
+    if (room.mode === 'mesh' && room.participants.size > SFU_THRESHOLD && !room.sfuUnavailable) {
+      await this.enableSfu(roomKey);
+    }
+
+    if (firstSession) {
+      await this.logPresence(room.meetingId, participant, 'join');
+    }
+  }
+
+  // Park a guest until a host or co-host admits or denies them
+  waitInLobby(socket, roomKey, username) {
+    const room = this.rooms.get(roomKey);
+    room.lobby.set(socket.id, {
+      socketId: socket.id,
+      userId: socket.userId,
+      username,
+      email: primaryEmail(socket.user),
+      requestedAt: new Date()
+    });
+    socket.data.lobbyRoomId = roomKey;
+    socket.emit('lobby-waiting', { roomId: roomKey, title: room.title });
+    this.emitLobby(roomKey);
+  }
+
+  leaveLobby(socket) {
+    const roomKey = socket.data.lobbyRoomId;
+    const room = roomKey && this.rooms.get(roomKey);
+    socket.data.lobbyRoomId = null;
+    if (!room) return;
+
+    room.lobby.delete(socket.id);
+    if (room.participants.size === 0 && room.lobby.size === 0) {
+      this.rooms.delete(roomKey);
+    } else {
+      this.emitLobby(roomKey);
+    }
+  }
+
+  async admitFromLobby(actor, roomKey, socketId) {
+    const room = this.rooms.get(roomKey);
+    const entry = room.lobby.get(socketId);
+    const target = this.namespace.sockets.get(socketId);
+    if (!entry || !target) return;
+
+    room.lobby.delete(socketId);
+    target.data.lobbyRoomId = null;
+    room.admittedUserIds.add(entry.userId);
+    this.emitLobby(roomKey);
+
+    await this.admitToRoom(target, roomKey, entry.username);
+    await this.recordHostAction(room, actor, 'admit', entry);
+  }
+
+  async denyFromLobby(actor, roomKey, socketId) {
+    const room = this.rooms.get(roomKey);
+    const entry = room.lobby.get(socketId);
+    const target = this.namespace.sockets.get(socketId);
+    if (!entry || !target) return;
+
+    target.emit('lobby-denied');
+    this.leaveLobby(target);
+    await this.recordHostAction(room, actor, 'deny', entry);
+  }
+
+  async setCoHost(actor, roomKey, socketId, promote) {
+    const room = this.rooms.get(roomKey);
+    const target = room.participants.get(socketId);
+    if (!target || target.isHost || room.coHostIds.has(target.userId) === promote) return;
+
+    if (promote) {
+      room.coHostIds.add(target.userId);
+    } else {
+      room.coHostIds.delete(target.userId);
+    }
+    room.participants.forEach(p => {
+      if (p.userId === target.userId) p.isCoHost = promote;
+    });
+    this.emitRoomInfo(roomKey);
+    this.emitLobby(roomKey);
+
+    await this.recordHostAction(room, actor, promote ? 'promote_cohost' : 'demote_cohost', target,
+      promote ? { $addToSet: { co_host_ids: target.userId } } : { $pull: { co_host_ids: target.userId } });
+  }
+
+  /**
+   * Take every session of a participant out of the room. Blocking also keeps
+   * them (and any session of theirs still knocking) out for the rest of the
+   * meeting; a plain removal lets them knock again.
+   */
+  async removeParticipant(actor, roomKey, socketId, block) {
+    const room = this.rooms.get(roomKey);
+    const target = room.participants.get(socketId);
+    if (!target || target.isHost || target.userId === actor.userId) return;
+    // Only the host can remove a co-host
+    if (target.isCoHost && !actor.isHost) return;
+
+    room.admittedUserIds.delete(target.userId);
+    if (block) {
+      room.blockedUserIds.add(target.userId);
+      [...room.lobby.values()]
+        .filter(entry => entry.userId === target.userId)
+        .forEach(entry => {
+          const knocking = this.namespace.sockets.get(entry.socketId);
+          if (!knocking) return;
+          knocking.emit('lobby-denied');
+          this.leaveLobby(knocking);
+        });
+    }
+
+    const sessions = [...room.participants.values()].filter(p => p.userId === target.userId);
+    for (const session of sessions) {
+      const targetSocket = this.namespace.sockets.get(session.socketId);
+      if (!targetSocket) continue;
+      targetSocket.emit('removed-from-meeting', { blocked: block });
+      await this.handleLeave(targetSocket);
+    }
+
+    await this.recordHostAction(room, actor, block ? 'block' : 'remove', target, block
+      ? { $push: { blocked_participants: { user_id: target.userId, email: target.email, name: target.username } } }
+      : {});
+  }
+
+  /**
+   * Launch a poll or a quiz. Quizzes need the index of the correct option and
+   * close themselves after durationSeconds.
+   */
+  async createPoll(actor, roomKey, { type, question, options, correctOption, durationSeconds }) {
+    const room = this.rooms.get(roomKey);
+    const isQuiz = type === 'quiz';
+    const text = typeof question === 'string' ? question.trim().slice(0, MAX_POLL_TEXT_LENGTH) : '';
+    const optionTexts = (Array.isArray(options) ? options : [])
+      .filter(option => typeof option === 'string' && option.trim())
+      .map(option => option.trim().slice(0, MAX_POLL_TEXT_LENGTH))
+      .slice(0, MAX_POLL_OPTIONS);
+
+    if (!text || optionTexts.length < 2) {
+      return this.namespace.to(actor.socketId).emit('poll-error', { message: 'A question and at least two options are required' });
+    }
+    if (isQuiz && !(Number.isInteger(correctOption) && correctOption >= 0 && correctOption < optionTexts.length)) {
+      return this.namespace.to(actor.socketId).emit('poll-error', { message: 'Pick the correct answer for the quiz' });
+    }
+
+    const startedAt = new Date();
+    const seconds = Math.max(MIN_QUIZ_SECONDS, Math.min(MAX_QUIZ_SECONDS, parseInt(durationSeconds, 10) || DEFAULT_QUIZ_SECONDS));
+    const pollOptions = optionTexts.map((option, i) => ({ id: `option-${i + 1}`, text: option }));
+    const poll = {
+      id: uuidv4(),
+      type: isQuiz ? 'quiz' : 'poll',
+      question: text,
+      options: pollOptions,
+      correctOptionId: isQuiz ? pollOptions[correctOption].id : null,
+      createdByName: actor.username,
+      endsAt: isQuiz ? new Date(startedAt.getTime() + seconds * 1000) : null,
+      closedAt: null,
+      answers: new Map(),
+      timer: null
+    };
+
+    await Meeting.updateOne({ id: room.meetingId }, {
+      $push: {
+        polls: {
+          id: poll.id,
+          type: poll.type,
+          question: poll.question,
+          options: poll.options,
+          correct_option_id: poll.correctOptionId,
+          created_by: actor.userId,
+          created_by_name: actor.username,
+          started_at: startedAt,
+          ends_at: poll.endsAt
+        }
+      }
+    });
+
+    room.polls.set(poll.id, poll);
+    if (isQuiz) {
+      poll.timer = setTimeout(() => {
+        this.closePoll(room, roomKey, poll.id).catch(error => console.error('Error closing meeting quiz:', error));
+      }, seconds * 1000);
+    }
+    this.namespace.to(roomKey).emit('poll-started', this.serializePoll(poll));
+  }
+
+  async answerPoll(socket, pollId, optionId) {
+    const participant = this.getParticipant(socket);
+    const room = participant && this.rooms.get(socket.data.roomId);
+    const poll = room && room.polls.get(pollId);
+    if (!poll || poll.closedAt || (poll.endsAt && Date.now() > poll.endsAt.getTime())) return;
+    if (!poll.options.some(option => option.id === optionId) || poll.answers.has(participant.userId)) return;
+
+    poll.answers.set(participant.userId, optionId);
+    room.participants.forEach(p => {
+      if (p.userId === participant.userId) this.namespace.to(p.socketId).emit('poll-answered', { pollId, optionId });
+    });
+    this.namespace.to(socket.data.roomId).emit('poll-results', this.serializePoll(poll));
+
+    await Meeting.updateOne({ id: room.meetingId, 'polls.id': pollId }, {
+      $push: {
+        'polls.$.answers': {
+          user_id: participant.userId,
+          email: participant.email,
+          name: participant.username,
+          option_id: optionId,
+          correct: poll.type === 'quiz' ? optionId === poll.correctOptionId : undefined,
+          answered_at: new Date()
+        }
+      }
+    });
+  }
+
+  async closePoll(room, roomKey, pollId) {
+    const poll = room.polls.get(pollId);
+    if (!poll || poll.closedAt) return;
+
+    clearTimeout(poll.timer);
+    poll.closedAt = new Date();
+    this.namespace.to(roomKey).emit('poll-closed', this.serializePoll(poll));
+    await Meeting.updateOne({ id: room.meetingId, 'polls.id': pollId }, { $set: { 'polls.$.closed_at': poll.closedAt } });
+  }
+
+  isBreakoutTarget(room, breakoutId) {
+    return !breakoutId || room.breakout.rooms.some(breakout => breakout.id === breakoutId);
+  }
+
+  applyBreakoutAssignments(roomKey) {
+    const room = this.rooms.get(roomKey);
+    [...room.participants.values()].forEach(participant => {
+      // Hosts and co-hosts move themselves with breakout-join unless assigned
+      const assigned = room.breakout.assignments.get(participant.userId);
+      if (!assigned && (participant.isHost || participant.isCoHost)) return;
+      this.moveToBreakout(roomKey, participant, assigned || null);
+    });
+  }
+
+  closeBreakouts(roomKey) {
+    const room = this.rooms.get(roomKey);
+    if (!room?.breakout?.open) return;
+
+    clearTimeout(room.breakout.recallTimer);
+    [...room.participants.values()].forEach(participant => this.moveToBreakout(roomKey, participant, null));
+    room.breakout.open = false;
+    room.breakout.recallAt = null;
+    room.breakout.recallTimer = null;
+    this.emitBreakoutState(roomKey);
+  }
+
+  /**
+   * Move one session between groups. The old group drops it like a peer that
+   * left and the new group connects to it like a peer that joined, over mesh
+   * or the SFU.
+   */
+  moveToBreakout(roomKey, participant, breakoutId) {
+    const room = this.rooms.get(roomKey);
+    const socket = this.namespace.sockets.get(participant.socketId);
+    if (!socket || participant.breakoutId === breakoutId) return;
+
+    const now = new Date();
+    const from = participant.breakoutId;
+    if (from) {
+      this.logBreakout(room, participant, now)
+        .catch(error => console.error('Error logging breakout room time:', error));
+    }
+
+    socket.leave(this.groupChannel(roomKey, from));
+    socket.to(this.groupChannel(roomKey, from)).emit('user-left-group', socket.id);
+    participant.breakoutId = breakoutId;
+    participant.breakoutEnteredAt = breakoutId ? now : null;
+    participant.handRaised = false;
+    socket.join(this.groupChannel(roomKey, breakoutId));
+
+    const others = this.groupMembers(room, breakoutId).filter(p => p.socketId !== socket.id);
+    const breakout = room.breakout?.rooms.find(b => b.id === breakoutId);
+    socket.emit('breakout-changed', {
+      breakoutId,
+      name: breakout ? breakout.name : null,
+      messages: this.groupMessages(room, breakoutId)
+    });
+    socket.emit('room-users', others.map(p => this.serializeParticipant(p)));
+    socket.to(this.groupChannel(roomKey, breakoutId)).emit('user-connected', socket.id, participant.username);
+
+    if (room.mode === 'sfu') {
+      this.sfu.closeConsumers(roomKey, (consumerId, producerId) =>
+        (consumerId === socket.id || producerId === socket.id) && !this.sameGroup(room, consumerId, producerId));
+
+      this.sfu.listProducers(roomKey).forEach(producer => {
+        if (producer.participantId === socket.id) {
+          socket.to(this.groupChannel(roomKey, breakoutId)).emit('sfu:new-producer', producer);
+        } else if (this.sameGroup(room, socket.id, producer.participantId)) {
+          socket.emit('sfu:new-producer', producer);
+        }
+      });
+    }
+  }
+
+  // Record a finished stay in a breakout room for the attendance report
+  async logBreakout(room, participant, leftAt) {
+    if (!participant.email || !participant.breakoutEnteredAt) return;
+
+    const breakout = room.breakout?.rooms.find(b => b.id === participant.breakoutId);
+    await Meeting.updateOne({ id: room.meetingId }, {
+      $push: {
+        breakout_logs: {
+          email: participant.email,
+          name: participant.username,
+          breakout_id: participant.breakoutId,
+          breakout_name: breakout ? breakout.name : participant.breakoutId,
+          joined_at: participant.breakoutEnteredAt,
+          left_at: leftAt
+        }
+      }
+    });
+  }
+
+  async handleLeave(socket) {
+    if (socket.data.lobbyRoomId) {
+      return this.leaveLobby(socket);
+    }
+
+    const roomKey = socket.data.roomId;
+    const room = roomKey && this.rooms.get(roomKey);
+    if (!room) return;
+
+    const participant = room.participants.get(socket.id);
+    room.participants.delete(socket.id);
+    socket.data.roomId = null;
+    if (room.mode === 'sfu') this.sfu.leaveMeeting(roomKey, socket.id);
+    socket.leave(roomKey);
+    if (participant) {
+      socket.leave(this.groupChannel(roomKey, participant.breakoutId));
+      if (participant.breakoutId) {
+        this.logBreakout(room, participant, new Date())
+          .catch(error => console.error('Error logging breakout room time:', error));
+      }
+    }
+
+    if (participant) {
+      this.namespace.to(roomKey).emit('user-disconnected', socket.id, participant.username);
+    }
+
+    if (room.participants.size === 0) {
+      this.sfu.cleanupMeeting(roomKey);
+      room.mode = 'mesh';
+      // Guests may still be knocking while nobody is in the room
+      if (room.lobby.size === 0) {
+        clearTimeout(room.breakout?.recallTimer);
+        room.polls.forEach(poll => {
+          this.closePoll(room, roomKey, poll.id).catch(error => console.error('Error closing meeting poll:', error));
+        });
+        this.rooms.delete(roomKey);
+      }
+    } else {
+      this.emitRoomInfo(roomKey);
+      if (room.breakout) this.emitBreakoutState(roomKey);
+    }
+
+    if (participant && !this.hasOtherSession(room, participant.userId, socket.id)) {
+      try {
+        await this.logPresence(room.meetingId, participant, 'leave');
+      } catch (error) {
+        console.error('Error logging meeting leave:', error);
+      }
+    }
+  }
+
+  /**
+   * Move a room onto the SFU. Clients drop their mesh connections when they
+   * receive meeting-mode and reconnect through sfu:* events. The room stays on
+   * the SFU until it empties, so it doesn't flap around the threshold.
+   */
+  async enableSfu(roomKey) {
+    const room = this.rooms.get(roomKey);
+    try {
+      await this.sfu.createMeeting(roomKey, {
+        onActiveSpeaker: (socketId) => this.namespace.to(roomKey).emit('active-speaker', { participantId: socketId }),
+        onConsumerClosed: (socketId, consumerId) => this.namespace.to(socketId).emit('sfu:consumer-closed', { consumerId })
+      });
+      room.mode = 'sfu';
+      this.namespace.to(roomKey).emit('meeting-mode', { mode: 'sfu' });
+      console.log(`📡 Meeting room ${roomKey} switched to SFU mode (${room.participants.size} participants)`);
+    } catch (error) {
+      room.sfuUnavailable = true;
+      console.error(`Error enabling SFU for meeting room ${roomKey}:`, error);
+    }
+  }
+
+  setupSfuHandlers(socket) {
+    const sfuRoom = () => {
+      const room = this.getParticipant(socket) && this.rooms.get(socket.data.roomId);
+      if (!room || room.mode !== 'sfu') throw new Error('Meeting is not in SFU mode');
+      return socket.data.roomId;
+    };
+
+    const handle = (event, handler) => {
+      socket.on(event, async (data, ack) => {
+        const respond = typeof ack === 'function' ? ack : () => {};
+        try {
+          respond({ success: true, ...(await handler(sfuRoom(), data || {})) });
+        } catch (error) {
+          console.error(`Error handling ${event}:`, error.message);
+          respond({ success: false, error: error.message });
+        }
+      });
+    };
+
+    handle('sfu:join', async (roomKey) => ({
+      ...(await this.sfu.joinMeeting(roomKey, socket.id)),
+      producers: this.sfu.listProducers(roomKey, socket.id)
+        .filter(producer => this.sameGroup(this.rooms.get(roomKey), socket.id, producer.participantId))
+    }));
+
+    handle('sfu:create-transport', (roomKey, { direction }) => {
+      if (direction !== 'send' && direction !== 'recv') throw new Error('Invalid transport direction');
+      return this.sfu.createTransport(roomKey, socket.id, direction);
+    });
+
+    Object.entries(SFU_SIGNALS).forEach(([event, type]) => {
+      handle(event, async (roomKey, data) => {
+        const room = this.rooms.get(roomKey);
+        if (type === 'consume' && !this.sameGroup(room, socket.id, this.sfu.getProducerOwner(roomKey, data.producerId))) {
+          throw new Error('Producer not found');
+        }
+
+        const result = await this.sfu.handleSignaling(roomKey, socket.id, { ...data, type });
+        if (type === 'produce') {
+          socket.to(this.groupChannel(roomKey, this.getParticipant(socket).breakoutId)).emit('sfu:new-producer', {
+            producerId: result.id,
+            participantId: socket.id,
+            kind: result.kind
+          });
+        }
+        return result;
+      });
+    });
+  }
+
+  // Host and co-host controls. Promoting and demoting co-hosts is host only.
+  setupModerationHandlers(socket) {
+    const moderate = (event, handler, { hostOnly = false } = {}) => {
+      socket.on(event, async (...args) => {
+        const actor = this.getParticipant(socket);
+        if (!actor || !(actor.isHost || (actor.isCoHost && !hostOnly))) return;
+
+        try {
+          await handler(actor, socket.data.roomId, ...args);
+        } catch (error) {
+          console.error(`Error handling ${event}:`, error);
+        }
+      });
+    };
+
+    moderate('admit-participant', (actor, roomKey, socketId) => this.admitFromLobby(actor, roomKey, socketId));
+    moderate('deny-participant', (actor, roomKey, socketId) => this.denyFromLobby(actor, roomKey, socketId));
+    moderate('admit-all', async (actor, roomKey) => {
+      for (const socketId of [...this.rooms.get(roomKey).lobby.keys()]) {
+        await this.admitFromLobby(actor, roomKey, socketId);
+      }
+    });
+
+    moderate('promote-cohost', (actor, roomKey, socketId) => this.setCoHost(actor, roomKey, socketId, true), { hostOnly: true });
+    moderate('demote-cohost', (actor, roomKey, socketId) => this.setCoHost(actor, roomKey, socketId, false), { hostOnly: true });
+
+    moderate('remove-participant', (actor, roomKey, socketId, options) =>
+      this.removeParticipant(actor, roomKey, socketId, !!options?.block));
+
+    moderate('lock-meeting', async (actor, roomKey, locked) => {
+      const room = this.rooms.get(roomKey);
+      if (room.locked === !!locked) return;
+
+      room.locked = !!locked;
+      this.emitRoomInfo(roomKey);
+      await this.recordHostAction(room, actor, room.locked ? 'lock' : 'unlock', null, { $set: { locked: room.locked } });
+    });
+
+    moderate('set-waiting-room', async (actor, roomKey, enabled) => {
+      const room = this.rooms.get(roomKey);
+      if (room.waitingRoomEnabled === !!enabled) return;
+
+      room.waitingRoomEnabled = !!enabled;
+      this.emitRoomInfo(roomKey);
+      await this.recordHostAction(room, actor, room.waitingRoomEnabled ? 'waiting_room_on' : 'waiting_room_off', null,
+        { $set: { waiting_room_enabled: room.waitingRoomEnabled } });
+
+      // Turning the waiting room off lets everyone who is knocking in
+      if (!room.waitingRoomEnabled) {
+        for (const socketId of [...room.lobby.keys()]) {
+          await this.admitFromLobby(actor, roomKey, socketId);
+        }
+      }
+    });
+
+    moderate('breakout-create', (actor, roomKey, count) => {
+      const room = this.rooms.get(roomKey);
+      if (room.breakout?.open) return;
+
+      const total = Math.max(1, Math.min(MAX_BREAKOUT_ROOMS, parseInt(count, 10) || 1));
+      room.breakout = {
+        rooms: Array.from({ length: total }, (_, i) => ({ id: `breakout-${i + 1}`, name: `Room ${i + 1}` })),
+        assignments: new Map(),
+        open: false,
+        recallAt: null,
+        recallTimer: null
+      };
+      this.emitBreakoutState(roomKey);
+    });
+
+    // Manual assignment; a null breakoutId keeps the user in the main room
+    moderate('breakout-assign', (actor, roomKey, { userId, breakoutId } = {}) => {
+      const room = this.rooms.get(roomKey);
+      if (!room.breakout || typeof userId !== 'string' || !this.isBreakoutTarget(room, breakoutId)) return;
+
+      if (breakoutId) {
+        room.breakout.assignments.set(userId, breakoutId);
+      } else {
+        room.breakout.assignments.delete(userId);
+      }
+      if (room.breakout.open) this.applyBreakoutAssignments(roomKey);
+      this.emitBreakoutState(roomKey);
+    });
+
+    // Spread everyone except the host and co-hosts evenly over the rooms
+    moderate('breakout-assign-random', (actor, roomKey) => {
+      const room = this.rooms.get(roomKey);
+      if (!room.breakout) return;
+
+      const userIds = [...new Set([...room.participants.values()]
+        .filter(p => !p.isHost && !p.isCoHost)
+        .map(p => p.userId))];
+      for (let i = userIds.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [userIds[i], userIds[j]] = [userIds[j], userIds[i]];
+      }
+
+      room.breakout.assignments = new Map(userIds.map((userId, i) =>
+        [userId, room.breakout.rooms[i % room.breakout.rooms.length].id]));
+      if (room.breakout.open) this.applyBreakoutAssignments(roomKey);
+      this.emitBreakoutState(roomKey);
+    });
+
+    moderate('breakout-open', async (actor, roomKey) => {
+      const room = this.rooms.get(roomKey);
+      if (!room.breakout || room.breakout.open) return;
+
+      room.breakout.open = true;
+      this.applyBreakoutAssignments(roomKey);
+      this.emitBreakoutState(roomKey);
+      await this.recordHostAction(room, actor, 'breakouts_open');
+    });
+
+    // Hosts and co-hosts can drop into any room (or back to the main room)
+    moderate('breakout-join', (actor, roomKey, breakoutId) => {
+      const room = this.rooms.get(roomKey);
+      if (!room.breakout?.open || !this.isBreakoutTarget(room, breakoutId)) return;
+
+      this.moveToBreakout(roomKey, actor, breakoutId || null);
+      this.emitBreakoutState(roomKey);
+    });
+
+    moderate('breakout-broadcast', (actor, roomKey, text) => {
+      const room = this.rooms.get(roomKey);
+      const content = typeof text === 'string' ? text.trim() : '';
+      if (!room.breakout?.open || !content) return;
+
+      this.namespace.to(roomKey).emit('breakout-broadcast', {
+        text: content.slice(0, MAX_CHAT_LENGTH),
+        from: actor.username,
+        timestamp: Date.now()
+      });
+    });
+
+    // Close the rooms after a countdown everyone can see; 0 closes them now
+    moderate('breakout-recall', async (actor, roomKey, seconds) => {
+      const room = this.rooms.get(roomKey);
+      if (!room.breakout?.open) return;
+
+      const parsed = parseInt(seconds, 10);
+      const delay = Math.max(0, Math.min(MAX_RECALL_SECONDS, Number.isNaN(parsed) ? DEFAULT_RECALL_SECONDS : parsed));
+      clearTimeout(room.breakout.recallTimer);
+      room.breakout.recallAt = Date.now() + delay * 1000;
+      room.breakout.recallTimer = setTimeout(() => this.closeBreakouts(roomKey), delay * 1000);
+      this.emitBreakoutState(roomKey);
+      await this.recordHostAction(room, actor, 'breakouts_close');
+    });
+
+    moderate('poll-create', (actor, roomKey, data) => this.createPoll(actor, roomKey, data || {}));
+    moderate('poll-close', (actor, roomKey, pollId) => this.closePoll(this.rooms.get(roomKey), roomKey, pollId));
+
+    moderate('host-mute-all', async (actor, roomKey) => {
+      socket.to(roomKey).emit('host-mute-all');
+      await this.recordHostAction(this.rooms.get(roomKey), actor, 'mute_all');
+    });
+  }
+
+  // Append to Meeting.host_actions, together with any change to the room settings
+  async recordHostAction(room, actor, action, target = null, update = {}) {
+    const entry = {
+      action,
+      actor_id: actor.userId,
+      actor_name: actor.username,
+      target_id: target?.userId,
+      target_name: target?.username,
+      target_email: target?.email,
+      timestamp: new Date()
+    };
+
+    try {
+      await Meeting.updateOne({ id: room.meetingId }, { ...update, $push: { ...update.$push, host_actions: entry } });
+    } catch (error) {
+      console.error('Error recording meeting host action:', error);
+    }
+  }
+
+  /**
+   * Append a join/leave event to Meeting.attendance_logs, which attendance
+   * processing falls back to when Google Meet data isn't available.
+   */
+  async logPresence(meetingId, participant, type) {
+    if (!participant.email) return;
+
+    const event = { type, timestamp: new Date() };
+    const appended = await Meeting.updateOne(
+      { id: meetingId, 'attendance_logs.email': participant.email },
+      { $push: { 'attendance_logs.$.events': event } }
+    );
+    if (appended.matchedCount > 0) return;
+
+    const created = await Meeting.updateOne(
+      { id: meetingId, 'attendance_logs.email': { $ne: participant.email } },
+      { $push: { attendance_logs: { email: participant.email, name: participant.username, events: [event] } } }
+    );
+    if (created.matchedCount === 0) {
+      // Another session created the log in between
+      await Meeting.updateOne(
+        { id: meetingId, 'attendance_logs.email': participant.email },
+        { $push: { 'attendance_logs.$.events': event } }
+      );
+    }
+  }
+
+  emitRoomInfo(roomKey) {
+    const room = this.rooms.get(roomKey);
+    if (!room) return;
+
+    const host = [...room.participants.values()].find(p => p.isHost);
+    this.namespace.to(roomKey).emit('room-info', {
+      roomId: roomKey,
+      meetingId: room.meetingId,
+      hostId: host ? host.socketId : null,
+      hostUserId: room.hostUserId,
+      locked: room.locked,
+      waitingRoomEnabled: room.waitingRoomEnabled,
+      participants: [...room.participants.values()].map(p => this.serializeParticipant(p))
+    });
+  }
+
+  // Live counts; a quiz's answer is only revealed once it closes
+  serializePoll(poll) {
+    const counts = new Map();
+    poll.answers.forEach(optionId => counts.set(optionId, (counts.get(optionId) || 0) + 1));
+
+    return {
+      id: poll.id,
+      type: poll.type,
+      question: poll.question,
+      createdByName: poll.createdByName,
+      options: poll.options.map(({ id, text }) => ({ id, text, count: counts.get(id) || 0 })),
+      totalAnswers: poll.answers.size,
+      endsAt: poll.endsAt ? poll.endsAt.getTime() : null,
+      closed: !!poll.closedAt,
+      correctOptionId: poll.closedAt ? poll.correctOptionId : null
+    };
+  }
+
+  serializeBreakout(room) {
+    const { breakout } = room;
+    if (!breakout) return null;
+
+    return {
+      open: breakout.open,
+      recallAt: breakout.recallAt,
+      assignments: Object.fromEntries(breakout.assignments),
+      rooms: breakout.rooms.map(({ id, name }) => ({
+        id,
+        name,
+        participantIds: this.groupMembers(room, id).map(p => p.socketId)
+      }))
+    };
+  }
+
+  emitBreakoutState(roomKey) {
+    const room = this.rooms.get(roomKey);
+    if (room) this.namespace.to(roomKey).emit('breakout-state', this.serializeBreakout(room));
+  }
+
+  // The lobby is only visible to the host and co-hosts
+  emitLobby(roomKey) {
+    const room = this.rooms.get(roomKey);
+    if (!room) return;
+
+    const waiting = [...room.lobby.values()].map(({ socketId, userId, username, email, requestedAt }) => ({
+      id: socketId, userId, username, email, requestedAt
+    }));
+    room.participants.forEach(p => {
+      if (p.isHost || p.isCoHost) this.namespace.to(p.socketId).emit('lobby-update', { waiting });
+    });
+  }
+
+  getParticipant(socket) {
+    const room = socket.data.roomId && this.rooms.get(socket.data.roomId);
+    return room ? room.participants.get(socket.id) : null;
+  }
+
+  sameRoom(socket, targetId) {
+    const room = socket.data.roomId && this.rooms.get(socket.data.roomId);
+    return !!room && typeof targetId === 'string' && targetId !== socket.id && this.sameGroup(room, socket.id, targetId);
+  }
+
+  // Both sockets are in the room and in the same breakout room (or both in the main room)
+  sameGroup(room, socketId, otherSocketId) {
+    const participant = room?.participants.get(socketId);
+    const other = room?.participants.get(otherSocketId);
+    return !!participant && !!other && participant.breakoutId === other.breakoutId;
+  }
+
+  groupChannel(roomKey, breakoutId) {
+    return `${roomKey}#${breakoutId || 'main'}`;
+  }
+
+  groupMembers(room, breakoutId) {
+    return [...room.participants.values()].filter(p => p.breakoutId === breakoutId);
+  }
+
+  groupMessages(room, breakoutId) {
+    return room.messages
+      .filter(message => message.breakoutId === breakoutId)
+      .map(message => this.serializeMessage(message));
+  }
+
+  hasOtherSession(room, userId, socketId) {
+    return [...room.participants.values()].some(p => p.userId === userId && p.socketId !== socketId);
+  }
+
+  serializeParticipant(participant) {
+    return {
+      id: participant.socketId,
+      userId: participant.userId,
+      username: participant.username,
+      isHost: participant.isHost,
+      isCoHost: participant.isCoHost,
+      micEnabled: participant.micEnabled,
+      cameraEnabled: participant.cameraEnabled,
+      screenSharing: participant.screenSharing,
+      handRaised: participant.handRaised,
+      breakoutId: participant.breakoutId
+    };
+  }
+
+  serializeMessage(message) {
+    const { likedBy, ...rest } = message;
+    return rest;
+  }
+}
+
+module.exports = MeetingSocketService;
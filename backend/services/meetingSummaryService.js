@@ -0,0 +1,130 @@
+// Links that point at a document or a file-hosting service count as shared files
+const FILE_EXTENSION_PATTERN = /\.(pdf|docx?|xlsx?|pptx?|csv|txt|zip|rar|png|jpe?g|gif|mp4)$/i;
+const FILE_HOSTS = ['drive.google.com', 'docs.google.com', 'dropbox.com', 'onedrive.live.com', '1drv.ms', 'res.cloudinary.com'];
+
+/**
+ * Builds the post-meeting summary (transcript, shared links and files,
+ * reactions and duration stats) from what meetingSocketService persisted on
+ * the Meeting document. The attendance table itself comes from
+ * GET /meetings/:meetingId/attendance.
+ */
+class MeetingSummaryService {
+  static userEmails(user) {
+    return Object.values(user.email || {})
+      .filter(email => typeof email === 'string' && email)
+      .map(email => email.toLowerCase());
+  }
+
+  // Host, co-hosts and anyone invited to or present in the meeting
+  static canView(meeting, user) {
+    const userId = user._id.toString();
+    if (meeting.host_id.toString() === userId || (meeting.co_host_ids || []).includes(userId)) return true;
+
+    const emails = new Set(this.userEmails(user));
+    const known = [
+      ...(meeting.attendees || []),
+      ...(meeting.expected_attendees || []),
+      ...(meeting.attendance_logs || [])
+    ];
+    return known.some(entry => entry.email && emails.has(entry.email.toLowerCase())) ||
+      (meeting.chat_messages || []).some(message => message.user_id === userId);
+  }
+
+  static isFileLink(url) {
+    try {
+      const { hostname, pathname } = new URL(url);
+      return FILE_EXTENSION_PATTERN.test(pathname) ||
+        FILE_HOSTS.some(host => hostname === host || hostname.endsWith(`.${host}`));
+    } catch {
+      return false;
+    }
+  }
+
+  static minutesBetween(start, end) {
+    return Math.max(0, Math.round((new Date(end) - new Date(start)) / 60000));
+  }
+
+  // Actual start/end and per-person time from the in-app join/leave logs
+  static durationStats(meeting) {
+    const logs = meeting.attendance_logs || [];
+    const allEvents = logs.flatMap(log => log.events || []).filter(event => event.timestamp);
+    const times = allEvents.map(event => new Date(event.timestamp).getTime());
+    const actualStart = times.length ? new Date(Math.min(...times)) : null;
+    const actualEnd = times.length ? new Date(Math.max(...times)) : null;
+
+    const perPerson = logs.map(log => {
+      let minutes = 0;
+      let joinedAt = null;
+      [...(log.events || [])]
+        .sort((a, b) => new Date(a.timestamp) - new Date(b.timestamp))
+        .forEach(event => {
+          if (event.type === 'join' && !joinedAt) {
+            joinedAt = event.timestamp;
+          } else if (event.type === 'leave' && joinedAt) {
+            minutes += this.minutesBetween(joinedAt, event.timestamp);
+            joinedAt = null;
+          }
+        });
+      // Still "in" at the last recorded event: count until the meeting's last activity
+      if (joinedAt && actualEnd) minutes += this.minutesBetween(joinedAt, actualEnd);
+      return minutes;
+    });
+
+    return {
+      scheduledMinutes: this.minutesBetween(meeting.start_time, meeting.end_time),
+      actualStart,
+      actualEnd,
+      actualMinutes: actualStart ? this.minutesBetween(actualStart, actualEnd) : 0,
+      participantCount: logs.length,
+      averageMinutes: perPerson.length ? Math.round(perPerson.reduce((sum, m) => sum + m, 0) / perPerson.length) : 0,
+      longestMinutes: perPerson.length ? Math.max(...perPerson) : 0
+    };
+  }
+
+  static buildSummary(meeting, user) {
+    const messages = meeting.chat_messages || [];
+    const links = messages.flatMap(message => (message.links || []).map(url => ({
+      url,
+      sharedBy: message.name,
+      sharedAt: message.sent_at
+    })));
+
+    const reactionCounts = {};
+    (meeting.reactions || []).forEach(({ emoji }) => {
+      reactionCounts[emoji] = (reactionCounts[emoji] || 0) + 1;
+    });
+
+    return {
+      meeting: {
+        id: meeting.id,
+        title: meeting.title,
+        description: meeting.description,
+        start_time: meeting.start_time,
+        end_time: meeting.end_time,
+        status: meeting.status
+      },
+      isHost: meeting.host_id.toString() === user._id.toString(),
+      stats: {
+        ...this.durationStats(meeting),
+        messageCount: messages.length,
+        reactionCount: (meeting.reactions || []).length,
+        pollCount: (meeting.polls || []).length
+      },
+      transcript: messages.map(message => ({
+        id: message.message_id,
+        name: message.name,
+        breakoutName: message.breakout_name || null,
+        text: message.text,
+        likes: (message.liked_by || []).length,
+        sentAt: message.sent_at
+      })),
+      sharedFiles: links.filter(link => this.isFileLink(link.url)),
+      sharedLinks: links.filter(link => !this.isFileLink(link.url)),
+      reactions: Object.entries(reactionCounts)
+        .map(([emoji, count]) => ({ emoji, count }))
+        .sort((a, b) => b.count - a.count)
+    };
+  }
+}
+
+module.exports = MeetingSummaryService;
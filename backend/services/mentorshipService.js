@@ -0,0 +1,326 @@
+const Mentorship = require('../models/Mentorship');
+const User = require('../models/User');
+const NotificationService = require('./notificationService');
+
+const MENTOR_FIELDS = 'name avatar type department batch skills alumniInfo.currentCompany alumniInfo.jobTitle alumniInfo.experience alumniInfo.originalDepartment alumniInfo.mentorshipOffering alumniInfo.mentorshipAreas alumniInfo.mentorshipCapacity';
+const DEFAULT_CAPACITY = 3; // User.alumniInfo.mentorshipCapacity default
+
+const normalize = (value) => String(value || '').trim().toLowerCase();
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const departmentOf = (user) => user.studentInfo?.department || user.alumniInfo?.originalDepartment || user.department;
+
+class MentorshipService {
+  static isMentor(user) {
+    return user.type === 'alumni' && !!user.alumniInfo?.mentorshipOffering;
+  }
+
+  static capacityOf(mentor) {
+    return mentor.alumniInfo?.mentorshipCapacity || DEFAULT_CAPACITY;
+  }
+
+  /**
+   * Take one of the mentor's slots if the live counter is still under the
+   * live capacity. Two accepts racing for the last slot can't both pass,
+   * unlike reading the active count and writing separately.
+   */
+  static async reserveSlot(mentorId) {
+    const result = await User.updateOne(
+      {
+        _id: mentorId,
+        $expr: {
+          $lt: [
+            { $ifNull: ['$alumniInfo.activeMentees', 0] },
+            { $ifNull: ['$alumniInfo.mentorshipCapacity', DEFAULT_CAPACITY] }
+          ]
+        }
+      },
+      { $inc: { 'alumniInfo.activeMentees': 1 } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  static async releaseSlot(mentorId) {
+    await User.updateOne(
+      { _id: mentorId, 'alumniInfo.activeMentees': { $gt: 0 } },
+      { $inc: { 'alumniInfo.activeMentees': -1 } }
+    );
+  }
+
+  // Recount activeMentees from the mentorships themselves, e.g. for counters that predate it
+  static async syncActiveMentees() {
+    const rows = await Mentorship.aggregate([
+      { $match: { status: 'active' } },
+      { $group: { _id: '$mentor', count: { $sum: 1 } } }
+    ]);
+    await User.updateMany(
+      { 'alumniInfo.activeMentees': { $gt: 0 }, _id: { $nin: rows.map(row => row._id) } },
+      { $set: { 'alumniInfo.activeMentees': 0 } }
+    );
+    if (rows.length > 0) {
+      await User.bulkWrite(rows.map(row => ({
+        updateOne: { filter: { _id: row._id }, update: { $set: { 'alumniInfo.activeMentees': row.count } } }
+      })));
+    }
+  }
+
+  // mentorId -> number of active mentees
+  static async activeCounts(mentorIds) {
+    const rows = await Mentorship.aggregate([
+      { $match: { mentor: { $in: mentorIds }, status: 'active' } },
+      { $group: { _id: '$mentor', count: { $sum: 1 } } }
+    ]);
+    return new Map(rows.map(row => [row._id.toString(), row.count]));
+  }
+
+  static withAvailability(mentor, counts) {
+    const active = counts.get(mentor._id.toString()) || 0;
+    const capacity = this.capacityOf(mentor);
+    return { ...mentor, activeMentees: active, capacity, openSlots: Math.max(0, capacity - active) };
+  }
+
+  /**
+   * Alumni offering mentorship, filtered by area, company and department.
+   * Each mentor comes back with activeMentees / capacity / openSlots.
+   */
+  static async searchMentors({ area, company, department, search, page = 1, limit = 12, excludeUserId }) {
+    const query = { type: 'alumni', 'alumniInfo.mentorshipOffering': true };
+    if (excludeUserId) query._id = { $ne: excludeUserId };
+    if (area) query['alumniInfo.mentorshipAreas'] = { $regex: escapeRegex(area), $options: 'i' };
+    if (company) query['alumniInfo.currentCompany'] = { $regex: escapeRegex(company), $options: 'i' };
+    if (department) {
+      const pattern = { $regex: escapeRegex(department), $options: 'i' };
+      query.$or = [{ department: pattern }, { 'alumniInfo.originalDepartment': pattern }];
+    }
+    if (search) query.name = { $regex: escapeRegex(search), $options: 'i' };
+
+    const [mentors, total] = await Promise.all([
+      User.find(query).select(MENTOR_FIELDS).sort({ name: 1 }).skip((page - 1) * limit).limit(limit).lean(),
+      User.countDocuments(query)
+    ]);
+    const counts = await this.activeCounts(mentors.map(m => m._id));
+
+    return {
+      mentors: mentors.map(mentor => this.withAvailability(mentor, counts)),
+      currentPage: page,
+      totalPages: Math.ceil(total / limit),
+      total
+    };
+  }
+
+  /**
+   * Score a mentor for a mentee on skills and department overlap. Mentorship
+   * areas count as skills, so "Data Science" as an area matches a student
+   * listing it as a skill. Returns { score, reasons }.
+   */
+  static scoreMentor(mentor, mentee) {
+    const menteeSkills = new Map((mentee.skills || []).map(skill => [normalize(skill), skill]));
+    const mentorSkills = new Set([...(mentor.skills || []), ...(mentor.alumniInfo?.mentorshipAreas || [])].map(normalize));
+
+    let score = 0;
+    const reasons = [];
+
+    const shared = [...menteeSkills.keys()].filter(skill => mentorSkills.has(skill)).map(skill => menteeSkills.get(skill));
+    if (shared.length > 0) {
+      score += shared.length * 10;
+      reasons.push(`Shares your skills: ${shared.slice(0, 4).join(', ')}${shared.length > 4 ? ` +${shared.length - 4} more` : ''}`);
+    }
+
+    const menteeDepartment = departmentOf(mentee);
+    if (menteeDepartment && normalize(departmentOf(mentor)) === normalize(menteeDepartment)) {
+      score += 20;
+      reasons.push(`Also studied ${menteeDepartment}`);
+    }
+
+    return { score, reasons };
+  }
+
+  static async suggestMentors(mentee, { limit = 6 } = {}) {
+    const [candidates, open] = await Promise.all([
+      User.find({ type: 'alumni', 'alumniInfo.mentorshipOffering': true, _id: { $ne: mentee._id } })
+        .select(MENTOR_FIELDS)
+        .lean(),
+      Mentorship.find({ mentee: mentee._id, status: { $in: Mentorship.OPEN_STATUSES } }).select('mentor').lean()
+    ]);
+    const alreadyAsked = new Set(open.map(m => m.mentor.toString()));
+    const counts = await this.activeCounts(candidates.map(m => m._id));
+
+    return candidates
+      .filter(mentor => !alreadyAsked.has(mentor._id.toString()))
+      .map(mentor => ({ mentor: this.withAvailability(mentor, counts), ...this.scoreMentor(mentor, mentee) }))
+      .filter(({ mentor, score }) => score > 0 && mentor.openSlots > 0)
+      .sort((a, b) => b.score - a.score || b.mentor.openSlots - a.mentor.openSlots)
+      .slice(0, limit);
+  }
+
+  static async request({ mentor, mentee, area, message, io }) {
+    if (mentee.type !== 'student') {
+      return { success: false, reason: 'students_only' };
+    }
+    if (mentor._id.toString() === mentee._id.toString()) {
+      return { success: false, reason: 'own_request' };
+    }
+    if (!this.isMentor(mentor)) {
+      return { success: false, reason: 'not_mentor' };
+    }
+
+    // Only a courtesy check: requests stay pending, and the slot is reserved when one is accepted
+    const active = await Mentorship.countDocuments({ mentor: mentor._id, status: 'active' });
+    if (active >= this.capacityOf(mentor)) {
+      return { success: false, reason: 'at_capacity' };
+    }
+
+    const mentorship = new Mentorship({ mentor: mentor._id, mentee: mentee._id, area, requestMessage: message });
+    try {
+      await mentorship.save();
+    } catch (error) {
+      // The partial unique index allows one open request or mentorship per pair
+      if (error.code === 11000) {
+        return { success: false, reason: 'already_requested' };
+      }
+      throw error;
+    }
+
+    await this.notify({
+      recipientId: mentor._id,
+      senderId: mentee._id,
+      type: 'mentorship_request',
+      title: 'New Mentorship Request',
+      message: `${mentee.name} asked you to be their mentor${area ? ` for ${area}` : ''}`,
+      mentorship,
+      io
+    });
+
+    return { success: true, mentorship };
+  }
+
+  static async respond({ mentorship, mentor, accept, note, io }) {
+    if (mentorship.status !== 'pending') {
+      return { success: false, reason: 'not_pending' };
+    }
+
+    if (accept && !(await this.reserveSlot(mentor._id))) {
+      return { success: false, reason: 'at_capacity' };
+    }
+
+    // Conditional on status so a double click or a racing cancel can't apply twice
+    const updated = await Mentorship.findOneAndUpdate(
+      { _id: mentorship._id, status: 'pending' },
+      { $set: { status: accept ? 'active' : 'declined', respondedAt: new Date(), responseNote: note } },
+      { new: true }
+    );
+    if (!updated) {
+      if (accept) await this.releaseSlot(mentor._id);
+      return { success: false, reason: 'not_pending' };
+    }
+
+    await this.notify({
+      recipientId: mentorship.mentee,
+      senderId: mentor._id,
+      type: 'mentorship_update',
+      title: accept ? 'Mentorship Request Accepted' : 'Mentorship Request Declined',
+      message: accept
+        ? `${mentor.name} accepted your mentorship request`
+        : `${mentor.name} declined your mentorship request${note ? `: ${note}` : ''}`,
+      mentorship: updated,
+      io
+    });
+
+    return { success: true, mentorship: updated };
+  }
+
+  static async cancel({ mentorship, mentee }) {
+    const updated = await Mentorship.findOneAndUpdate(
+      { _id: mentorship._id, mentee: mentee._id, status: 'pending' },
+      { $set: { status: 'cancelled' } },
+      { new: true }
+    );
+    return updated ? { success: true, mentorship: updated } : { success: false, reason: 'not_pending' };
+  }
+
+  // Either side can close; the other side can still leave feedback afterwards
+  static async close({ mentorship, user, rating, comment, io }) {
+    if (mentorship.status !== 'active' && mentorship.status !== 'closed') {
+      return { success: false, reason: 'not_active' };
+    }
+    const userId = user._id.toString();
+    if (mentorship.feedback.some(entry => entry.author.toString() === userId)) {
+      return { success: false, reason: 'feedback_given' };
+    }
+
+    // Closing is claimed with a conditional write so two closes can't both free the mentor's slot
+    const wasActive = mentorship.status === 'active' && (await Mentorship.updateOne(
+      { _id: mentorship._id, status: 'active' },
+      { $set: { status: 'closed' } }
+    )).modifiedCount === 1;
+    if (wasActive) {
+      await this.releaseSlot(mentorship.mentor._id || mentorship.mentor);
+      mentorship.status = 'closed';
+      mentorship.closedAt = new Date();
+      mentorship.closedBy = user._id;
+      mentorship.sessions.forEach(session => {
+        if (session.status === 'scheduled' && session.scheduledAt > mentorship.closedAt) session.status = 'cancelled';
+      });
+    }
+    if (rating || comment) {
+      mentorship.feedback.push({ author: user._id, rating, comment });
+    }
+    await mentorship.save();
+
+    if (wasActive) {
+      const otherId = (mentorship.mentor._id || mentorship.mentor).toString() === userId
+        ? (mentorship.mentee._id || mentorship.mentee)
+        : (mentorship.mentor._id || mentorship.mentor);
+      await this.notify({
+        recipientId: otherId,
+        senderId: user._id,
+        type: 'mentorship_update',
+        title: 'Mentorship Closed',
+        message: `${user.name} closed your mentorship. You can leave feedback from the mentorship page.`,
+        mentorship,
+        io
+      });
+    }
+
+    return { success: true, mentorship };
+  }
+
+  static async notifySessionScheduled({ mentorship, session, user, io }) {
+    const otherId = (mentorship.mentor._id || mentorship.mentor).toString() === user._id.toString()
+      ? (mentorship.mentee._id || mentorship.mentee)
+      : (mentorship.mentor._id || mentorship.mentor);
+    await this.notify({
+      recipientId: otherId,
+      senderId: user._id,
+      type: 'mentorship_update',
+      title: 'Mentorship Session Scheduled',
+      message: `${user.name} scheduled a session for ${session.scheduledAt.toUTCString()}${session.topic ? `: ${session.topic}` : ''}`,
+      mentorship,
+      io
+    });
+  }
+
+  static async notify({ recipientId, senderId, type, title, message, mentorship, io }) {
+    try {
+      const notification = await NotificationService.createNotification({
+        recipientId,
+        senderId,
+        type,
+        title,
+        message,
+        priority: 'medium',
+        category: 'connection',
+        metadata: { mentorshipId: mentorship._id, status: mentorship.status }
+      });
+      if (notification && io) {
+        io.to(`user_${recipientId}`).emit('new_notification', { notification, timestamp: new Date() });
+      }
+    } catch (error) {
+      console.error('Error sending mentorship notification:', error);
+    }
+  }
+}
+
+MentorshipService.MENTOR_FIELDS = MENTOR_FIELDS;
+
+module.exports = MentorshipService;
@@ -0,0 +1,234 @@
+const crypto = require('crypto');
+const User = require('../models/User');
+const Message = require('../models/Message');
+
+// New envelopes are version 3 (sender device bound into the ciphertext); version 2 ones are still readable
+const E2EE_VERSION = 3;
+const E2EE_VERSIONS = [2, E2EE_VERSION];
+const ENCRYPTED_PLACEHOLDER = '[Encrypted message]';
+const MAX_DEVICES_PER_USER = 10;
+const MAX_CIPHERTEXT_LENGTH = 64 * 1024; // base64 characters
+const MAX_BACKUP_LENGTH = 256 * 1024;
+const MIN_BACKUP_ITERATIONS = 100000;
+const MAX_BACKUP_ITERATIONS = 5000000;
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+const isBase64 = (value, maxLength = 1024) =>
+  typeof value === 'string' && value.length > 0 && value.length <= maxLength && BASE64_PATTERN.test(value);
+
+class MessageEncryptionService {
+  /**
+   * Parse a base64 SPKI public key and make sure it's an EC P-256 key, so
+   * clients never import something they can't use for ECDH.
+   */
+  static isValidPublicKey(publicKey) {
+    if (!isBase64(publicKey)) return false;
+    try {
+      const key = crypto.createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' });
+      return key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1';
+    } catch (error) {
+      return false;
+    }
+  }
+
+  static activeDevices(user) {
+    return (user.encryptionDevices || []).filter(device => !device.revokedAt);
+  }
+
+  /**
+   * Register this device's public key. Re-publishing the same key just refreshes
+   * lastSeenAt; a different key for a known device id is refused so a device's
+   * identity can't be swapped out from under its contacts.
+   */
+  static async publishDeviceKey(userId, { deviceId, publicKey, label }) {
+    if (!DEVICE_ID_PATTERN.test(deviceId || '')) return { success: false, reason: 'invalid_device' };
+    if (!this.isValidPublicKey(publicKey)) return { success: false, reason: 'invalid_key' };
+
+    const user = await User.findById(userId).select('encryptionDevices');
+    if (!user) return { success: false, reason: 'not_found' };
+
+    const existing = user.encryptionDevices.find(device => device.deviceId === deviceId);
+    if (existing) {
+      if (existing.revokedAt) return { success: false, reason: 'device_revoked' };
+      if (existing.publicKey !== publicKey) return { success: false, reason: 'device_exists' };
+      existing.lastSeenAt = new Date();
+      if (label) existing.label = String(label).slice(0, 100);
+    } else {
+      if (this.activeDevices(user).length >= MAX_DEVICES_PER_USER) {
+        return { success: false, reason: 'too_many_devices' };
+      }
+      user.encryptionDevices.push({
+        deviceId,
+        publicKey,
+        label: label ? String(label).slice(0, 100) : undefined,
+        lastSeenAt: new Date()
+      });
+    }
+
+    await user.save();
+    return { success: true, device: user.encryptionDevices.find(device => device.deviceId === deviceId) };
+  }
+
+  /**
+   * Active device keys for each user, keyed by user id. Users without any
+   * published device get an empty list so callers can tell who can't receive
+   * encrypted messages yet. With `includeRevoked`, revoked devices are listed
+   * too (with revokedAt) so clients can still verify messages they sent earlier.
+   */
+  static async getDeviceKeys(userIds, { includeRevoked = false } = {}) {
+    const users = await User.find({ _id: { $in: userIds } }).select('encryptionDevices').lean();
+    const keys = {};
+    userIds.forEach(id => { keys[id.toString()] = []; });
+    users.forEach(user => {
+      const devices = includeRevoked ? user.encryptionDevices || [] : this.activeDevices(user);
+      keys[user._id.toString()] = devices.map(device => ({
+        deviceId: device.deviceId,
+        publicKey: device.publicKey,
+        label: device.label,
+        createdAt: device.createdAt,
+        revokedAt: device.revokedAt
+      }));
+    });
+    return keys;
+  }
+
+  // All devices including revoked ones, newest first, for the device list in settings
+  static async listDevices(userId) {
+    const user = await User.findById(userId).select('encryptionDevices').lean();
+    return (user?.encryptionDevices || [])
+      .map(({ deviceId, publicKey, label, createdAt, lastSeenAt, revokedAt }) => ({
+        deviceId, publicKey, label, createdAt, lastSeenAt, revokedAt
+      }))
+      .sort((a, b) => new Date(b.createdAt) - new Date(a.createdAt));
+  }
+
+  /**
+   * Stop encrypting new messages to a device. Its key stays on record (marked
+   * revoked) so the device can't quietly re-register under the same id.
+   */
+  static async revokeDevice(userId, deviceId) {
+    const result = await User.updateOne(
+      { _id: userId, encryptionDevices: { $elemMatch: { deviceId, revokedAt: null } } },
+      { $set: { 'encryptionDevices.$.revokedAt': new Date() } }
+    );
+    return result.modifiedCount > 0 ? { success: true } : { success: false, reason: 'device_not_found' };
+  }
+
+  static async getBackup(userId) {
+    const user = await User.findById(userId).select('keyBackup').lean();
+    return user?.keyBackup?.ciphertext ? user.keyBackup : null;
+  }
+
+  /**
+   * Store the client-encrypted key backup. The server only checks the shape;
+   * it has no way to open it.
+   */
+  static async saveBackup(userId, { ciphertext, iv, salt, iterations, deviceIds }) {
+    const validIterations = Number.isInteger(iterations) &&
+      iterations >= MIN_BACKUP_ITERATIONS && iterations <= MAX_BACKUP_ITERATIONS;
+    const validDeviceIds = Array.isArray(deviceIds) && deviceIds.length > 0 &&
+      deviceIds.length <= 100 && deviceIds.every(id => DEVICE_ID_PATTERN.test(id || ''));
+
+    if (!isBase64(ciphertext, MAX_BACKUP_LENGTH) || !isBase64(iv) || !isBase64(salt) || !validIterations || !validDeviceIds) {
+      return { success: false, reason: 'invalid_backup' };
+    }
+
+    const keyBackup = { ciphertext, iv, salt, iterations, deviceIds, updatedAt: new Date() };
+    await User.updateOne({ _id: userId }, { $set: { keyBackup } });
+    return { success: true, backup: keyBackup };
+  }
+
+  static async deleteBackup(userId) {
+    await User.updateOne({ _id: userId }, { $unset: { keyBackup: 1 } });
+  }
+
+  /**
+   * Check the shape of a client-built envelope and return a sanitized copy for
+   * storage. The server can't verify the ciphertext, only that every wrapped key
+   * is addressed to a participant of the conversation.
+   */
+  static validateEnvelope(envelope, participantIds) {
+    if (!envelope || envelope.version !== E2EE_VERSION) return { valid: false, reason: 'invalid_envelope' };
+    if (!isBase64(envelope.ciphertext, MAX_CIPHERTEXT_LENGTH) || !isBase64(envelope.iv)) {
+      return { valid: false, reason: 'invalid_envelope' };
+    }
+    if (!DEVICE_ID_PATTERN.test(envelope.senderDeviceId || '') || !this.isValidPublicKey(envelope.senderPublicKey)) {
+      return { valid: false, reason: 'invalid_envelope' };
+    }
+
+    const participants = new Set(participantIds.map(id => id.toString()));
+    const keys = Array.isArray(envelope.keys) ? envelope.keys : [];
+    if (keys.length === 0 || keys.length > participants.size * MAX_DEVICES_PER_USER) {
+      return { valid: false, reason: 'invalid_envelope' };
+    }
+
+    for (const entry of keys) {
+      if (!participants.has(String(entry?.userId))) return { valid: false, reason: 'unknown_recipient' };
+      if (!DEVICE_ID_PATTERN.test(entry.deviceId || '') || !isBase64(entry.wrappedKey) || !isBase64(entry.iv)) {
+        return { valid: false, reason: 'invalid_envelope' };
+      }
+    }
+
+    return {
+      valid: true,
+      envelope: {
+        version: E2EE_VERSION,
+        ciphertext: envelope.ciphertext,
+        iv: envelope.iv,
+        senderDeviceId: envelope.senderDeviceId,
+        senderPublicKey: envelope.senderPublicKey,
+        keys: keys.map(entry => ({
+          userId: entry.userId,
+          deviceId: entry.deviceId,
+          wrappedKey: entry.wrappedKey,
+          iv: entry.iv
+        }))
+      }
+    };
+  }
+
+  /**
+   * One-off migration for messages flagged isEncrypted before E2EE existed.
+   * The old client "encryption" stored plaintext, so those messages are
+   * un-flagged and marked legacy. Messages from the retired server-keyed
+   * format can't be recovered (the key was never stored), so their payload is
+   * moved out of `content` and they stay flagged as unreadable legacy messages.
+   */
+  static async migrateLegacyMessages() {
+    const results = { plaintext: 0, retired: 0 };
+    const cursor = Message.find({
+      isEncrypted: true,
+      legacyEncryption: { $ne: true },
+      'encryptedContent.version': { $nin: E2EE_VERSIONS }
+    }).cursor();
+
+    for await (const message of cursor) {
+      let retired = null;
+      try {
+        const parsed = JSON.parse(message.content);
+        if (parsed && parsed.encrypted && parsed.iv && parsed.authTag) retired = parsed;
+      } catch (error) {
+        // Not JSON, so it was stored as plaintext
+      }
+
+      message.legacyEncryption = true;
+      if (retired) {
+        message.encryptedContent = { encrypted: retired.encrypted, iv: retired.iv, authTag: retired.authTag };
+        message.content = ENCRYPTED_PLACEHOLDER;
+        results.retired++;
+      } else {
+        message.isEncrypted = false;
+        results.plaintext++;
+      }
+      await message.save();
+    }
+
+    return results;
+  }
+}
+
+MessageEncryptionService.E2EE_VERSION = E2EE_VERSION;
+MessageEncryptionService.ENCRYPTED_PLACEHOLDER = ENCRYPTED_PLACEHOLDER;
+
+module.exports = MessageEncryptionService;
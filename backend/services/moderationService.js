@@ -0,0 +1,528 @@
+const ModerationFilter = require('../models/ModerationFilter');
+const ModerationRule = require('../models/ModerationRule');
+const FlaggedContent = require('../models/FlaggedContent');
+const Configuration = require('../models/Configuration');
+const Post = require('../models/Post');
+const Comment = require('../models/Comment');
+const Message = require('../models/Message');
+const Conversation = require('../models/Conversation');
+const User = require('../models/User');
+const NotificationService = require('./notificationService');
+
+const SETTINGS_KEY = 'moderation_settings';
+
+const DEFAULT_SETTINGS = {
+  autoModeration: true,
+  aiModeration: false,
+  userReporting: true,
+  adminReview: true,
+  contentFiltering: 'moderate',
+  profanityFilter: true,
+  spamDetection: true,
+  imageModeration: false
+};
+
+// Baseline list used when the profanity filter is switched on
+const PROFANITY_WORDS = ['fuck', 'shit', 'bitch', 'bastard', 'asshole', 'dickhead', 'motherfucker'];
+
+// Higher rank wins when several filters or rules match the same content
+const ACTION_RANK = { allow: 0, flag: 1, review: 2, block: 3 };
+const SEVERITY_RANK = { low: 1, medium: 2, high: 3 };
+
+const CACHE_TTL = 60 * 1000; // 1 minute
+
+const REPORT_REASONS = {
+  spam: 'Spam',
+  harassment: 'Harassment or bullying',
+  hate_speech: 'Hate speech',
+  inappropriate: 'Inappropriate content',
+  misinformation: 'Misinformation',
+  impersonation: 'Impersonation',
+  other: 'Other'
+};
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+let configCache = { filters: null, rules: null, settings: null, loadedAt: 0 };
+
+class ModerationService {
+  // Drop cached filters/rules/settings after an admin change
+  static invalidateCache() {
+    configCache = { filters: null, rules: null, settings: null, loadedAt: 0 };
+  }
+
+  static async loadConfig() {
+    if (configCache.filters && (Date.now() - configCache.loadedAt) < CACHE_TTL) {
+      return configCache;
+    }
+
+    const [filters, rules, settings] = await Promise.all([
+      ModerationFilter.find({ enabled: true }).lean(),
+      ModerationRule.find({ enabled: true }).sort({ priority: -1 }).lean(),
+      this.getSettings()
+    ]);
+
+    configCache = { filters, rules, settings, loadedAt: Date.now() };
+    return configCache;
+  }
+
+  static async getSettings() {
+    const config = await Configuration.findOne({ key: SETTINGS_KEY });
+    return { ...DEFAULT_SETTINGS, ...(config?.value || {}) };
+  }
+
+  static async updateSettings(updates) {
+    const allowed = Object.keys(DEFAULT_SETTINGS);
+    const current = await this.getSettings();
+    const next = { ...current };
+    allowed.forEach((key) => {
+      if (Object.prototype.hasOwnProperty.call(updates, key)) {
+        next[key] = updates[key];
+      }
+    });
+
+    await Configuration.findOneAndUpdate(
+      { key: SETTINGS_KEY },
+      {
+        $set: {
+          value: next,
+          category: 'moderation',
+          description: 'Content moderation settings',
+          isActive: true,
+          updatedAt: new Date()
+        }
+      },
+      { upsert: true, new: true }
+    );
+
+    this.invalidateCache();
+    return next;
+  }
+
+  // Throws for invalid regex patterns so routes can reject them up front
+  static validatePattern(type, pattern) {
+    if (type === 'regex') {
+      new RegExp(pattern, 'i');
+    }
+  }
+
+  static matchFilter(filter, text) {
+    if (!text) return false;
+    try {
+      if (filter.type === 'keyword') {
+        const keywords = filter.pattern.split(',').map(k => k.trim()).filter(Boolean);
+        return keywords.some(keyword => new RegExp(`\\b${escapeRegex(keyword)}\\b`, 'i').test(text));
+      }
+      if (filter.type === 'regex') {
+        return new RegExp(filter.pattern, 'i').test(text);
+      }
+    } catch (error) {
+      console.warn(`Skipping invalid moderation filter ${filter._id}:`, error.message);
+    }
+    // 'ai' filters need an external classifier which is not configured
+    return false;
+  }
+
+  static matchCondition(condition, fields) {
+    const raw = fields[condition.field];
+    const text = Array.isArray(raw) ? raw.join(' ') : (raw ?? '').toString();
+
+    switch (condition.operator) {
+      case 'contains':
+        return text.toLowerCase().includes(String(condition.value).toLowerCase());
+      case 'equals':
+        return text.trim().toLowerCase() === String(condition.value).trim().toLowerCase();
+      case 'regex':
+        try {
+          return new RegExp(String(condition.value), 'i').test(text);
+        } catch {
+          return false;
+        }
+      case 'length':
+        return text.length > Number(condition.value);
+      default:
+        return false;
+    }
+  }
+
+  static isSpam(text) {
+    if (!text) return false;
+    const links = (text.match(/https?:\/\//gi) || []).length;
+    return links > 5 || /(.)\1{14,}/.test(text);
+  }
+
+  /**
+   * Evaluate content against the enabled filters and rules.
+   * `fields` maps field names (content, title, bio, ...) to their values.
+   * Resolves to { action: 'allow' | 'flag' | 'review' | 'block', matches, matchedFields, severity, reason }.
+   */
+  static async evaluate(contentType, fields) {
+    const verdict = { action: 'allow', matches: [], matchedFields: [], severity: 'low', reason: '' };
+
+    const { filters, rules, settings } = await this.loadConfig();
+    if (!settings.autoModeration) return verdict;
+
+    const entries = Object.entries(fields).filter(([, value]) => value !== undefined && value !== null);
+    const addMatch = (match, fieldNames) => {
+      verdict.matches.push(match);
+      fieldNames.forEach(name => {
+        if (!verdict.matchedFields.includes(name)) verdict.matchedFields.push(name);
+      });
+    };
+
+    // The highest-priority matching rule wins; auto-approve skips the filters entirely
+    const rule = rules
+      .filter(r => r.type === contentType && r.conditions.length > 0)
+      .find(r => r.conditions.every(condition => this.matchCondition(condition, fields)));
+
+    if (rule) {
+      if (rule.action === 'auto-approve') return verdict;
+      addMatch({
+        source: 'rule',
+        id: rule._id,
+        label: rule.name,
+        action: rule.action,
+        severity: rule.priority >= 7 ? 'high' : rule.priority >= 4 ? 'medium' : 'low'
+      }, rule.conditions.map(c => c.field));
+    }
+
+    for (const filter of filters) {
+      const hitFields = entries
+        .filter(([, value]) => this.matchFilter(filter, Array.isArray(value) ? value.join(' ') : String(value)))
+        .map(([name]) => name);
+      if (hitFields.length > 0) {
+        addMatch({
+          source: 'filter',
+          id: filter._id,
+          label: `${filter.type} filter "${filter.pattern}"`,
+          action: filter.action,
+          severity: filter.severity
+        }, hitFields);
+      }
+    }
+
+    if (settings.profanityFilter) {
+      const profanity = { type: 'keyword', pattern: PROFANITY_WORDS.join(',') };
+      const hitFields = entries
+        .filter(([, value]) => this.matchFilter(profanity, Array.isArray(value) ? value.join(' ') : String(value)))
+        .map(([name]) => name);
+      if (hitFields.length > 0) {
+        addMatch({ source: 'profanity', label: 'Profanity', action: 'flag', severity: 'medium' }, hitFields);
+      }
+    }
+
+    if (settings.spamDetection) {
+      const hitFields = entries
+        .filter(([, value]) => typeof value === 'string' && this.isSpam(value))
+        .map(([name]) => name);
+      if (hitFields.length > 0) {
+        addMatch({ source: 'spam', label: 'Possible spam', action: 'flag', severity: 'low' }, hitFields);
+      }
+    }
+
+    for (const match of verdict.matches) {
+      let action = match.action;
+      // Strict filtering holds flagged content for review; lenient only flags it
+      if (settings.contentFiltering === 'strict' && action === 'flag') action = 'review';
+      if (settings.contentFiltering === 'lenient' && action === 'review') action = 'flag';
+      if (!settings.adminReview && action === 'review') action = 'flag';
+
+      if (ACTION_RANK[action] > ACTION_RANK[verdict.action]) verdict.action = action;
+      if (SEVERITY_RANK[match.severity] > SEVERITY_RANK[verdict.severity]) verdict.severity = match.severity;
+    }
+
+    verdict.reason = verdict.matches.map(m => m.label).join('; ');
+    return verdict;
+  }
+
+  /**
+   * Record a flag/review verdict for content that has been saved.
+   * Returns the FlaggedContent entry, or null when nothing needs reviewing.
+   */
+  static async recordVerdict(verdict, { contentType, contentId, parentId = null, authorId, excerpt = '' }) {
+    if (!verdict || (verdict.action !== 'flag' && verdict.action !== 'review')) return null;
+
+    const audit = { action: 'flagged', actor: null, notes: verdict.reason };
+    try {
+      return await FlaggedContent.create({
+        contentType,
+        contentId,
+        parentId,
+        authorId,
+        excerpt: excerpt.substring(0, 500),
+        matchedFields: verdict.matchedFields,
+        reason: verdict.reason || 'Matched moderation filter',
+        severity: verdict.severity,
+        queued: verdict.action === 'review',
+        source: 'auto',
+        auditTrail: [audit]
+      }).catch(error => {
+        if (error.code !== 11000) throw error;
+        // Already pending review; note the new verdict on that entry
+        return FlaggedContent.findOneAndUpdate(
+          { contentType, contentId, status: 'pending' },
+          { $push: { auditTrail: audit }, ...(verdict.action === 'review' ? { $set: { queued: true } } : {}) },
+          { new: true }
+        );
+      });
+    } catch (error) {
+      // Never fail the user's write because the moderation log could not be written
+      console.error('Error recording moderation verdict:', error);
+      return null;
+    }
+  }
+
+  // Look up the author and a short excerpt of the reported content
+  static async resolveReportTarget(contentType, contentId, parentId, reporterId) {
+    switch (contentType) {
+      case 'post': {
+        const post = await Post.findById(contentId).select('author title content moderationStatus');
+        if (!post || post.moderationStatus === 'removed') return null;
+        return { authorId: post.author, parentId: null, excerpt: [post.title, post.content].filter(Boolean).join(' - ') };
+      }
+      case 'comment': {
+        if (!parentId) return null;
+        const comment = await Comment.findOne({ _id: contentId, post: parentId }).select('author post content moderationStatus deletedAt');
+        if (!comment || comment.deletedAt || comment.moderationStatus === 'removed') return null;
+        return { authorId: comment.author, parentId: comment.post, excerpt: comment.content };
+      }
+      case 'message': {
+        const message = await Message.findById(contentId).select('senderId conversationId content isEncrypted isDeleted');
+        if (!message || message.isDeleted) return null;
+        // Only participants of the conversation can report its messages
+        const conversation = await Conversation.findOne({ _id: message.conversationId, participants: reporterId }).select('_id');
+        if (!conversation) return null;
+        return {
+          authorId: message.senderId,
+          parentId: message.conversationId,
+          excerpt: message.isEncrypted ? '[Encrypted message]' : message.content
+        };
+      }
+      case 'profile': {
+        const user = await User.findById(contentId).select('name bio');
+        if (!user) return null;
+        return { authorId: user._id, parentId: null, excerpt: [user.name, user.bio].filter(Boolean).join(' - ') };
+      }
+      default:
+        return null;
+    }
+  }
+
+  static summarizeReports(reporters) {
+    const counts = {};
+    reporters.forEach(report => {
+      counts[report.reason] = (counts[report.reason] || 0) + 1;
+    });
+    return 'Reported: ' + Object.entries(counts)
+      .map(([reason, count]) => `${REPORT_REASONS[reason] || reason}${count > 1 ? ` (${count})` : ''}`)
+      .join(', ');
+  }
+
+  /**
+   * File a member report. Reports on content that already has a pending entry are merged
+   * into it, and severity rises with the number of distinct reporters.
+   * Resolves to { success, merged, flagged } or { success: false, reason }.
+   */
+  static async submitReport({ contentType, contentId, parentId = null, reason, details = '', reporterId }) {
+    const settings = await this.getSettings();
+    if (!settings.userReporting) {
+      return { success: false, reason: 'reporting_disabled' };
+    }
+    if (!REPORT_REASONS[reason]) {
+      return { success: false, reason: 'invalid_reason' };
+    }
+
+    const target = await this.resolveReportTarget(contentType, contentId, parentId, reporterId);
+    if (!target) {
+      return { success: false, reason: 'content_not_found' };
+    }
+    if (target.authorId.toString() === reporterId.toString()) {
+      return { success: false, reason: 'own_content' };
+    }
+
+    const report = { userId: reporterId, reason, details: (details || '').trim().substring(0, 1000) };
+
+    const merged = await this.mergeReport(contentType, contentId, report);
+    if (merged) return merged;
+
+    let flagged;
+    try {
+      flagged = await FlaggedContent.create({
+        contentType,
+        contentId,
+        parentId: target.parentId,
+        authorId: target.authorId,
+        excerpt: (target.excerpt || '').substring(0, 500),
+        reason: this.summarizeReports([report]),
+        severity: 'low',
+        source: 'report',
+        flaggedBy: reporterId,
+        reporters: [report],
+        reportCount: 1,
+        auditTrail: [{ action: 'flagged', actor: reporterId, notes: report.details || REPORT_REASONS[reason] }]
+      });
+    } catch (error) {
+      // The partial unique index allows one pending entry per item; another report opened it first
+      if (error.code === 11000) {
+        return (await this.mergeReport(contentType, contentId, report)) || { success: false, reason: 'already_reported' };
+      }
+      throw error;
+    }
+    return { success: true, merged: false, flagged };
+  }
+
+  /**
+   * Add a report to the item's pending entry, if it has one. The reporter check
+   * and the push are a single update so concurrent reports can't overwrite each
+   * other. Resolves to null when there is no pending entry.
+   */
+  static async mergeReport(contentType, contentId, report) {
+    const flagged = await FlaggedContent.findOneAndUpdate(
+      { contentType, contentId, status: 'pending', 'reporters.userId': { $ne: report.userId } },
+      { $push: { reporters: report }, $inc: { reportCount: 1 } },
+      { new: true }
+    );
+    if (!flagged) {
+      const pending = await FlaggedContent.exists({ contentType, contentId, status: 'pending' });
+      return pending ? { success: false, reason: 'already_reported' } : null;
+    }
+
+    const update = {};
+    if (flagged.source === 'report') {
+      update.reason = this.summarizeReports(flagged.reporters);
+    }
+    const escalated = flagged.reportCount >= 5 ? 'high' : flagged.reportCount >= 3 ? 'medium' : null;
+    if (escalated && SEVERITY_RANK[escalated] > SEVERITY_RANK[flagged.severity]) {
+      update.severity = escalated;
+    }
+    if (Object.keys(update).length > 0) {
+      // Only the latest merge writes the summary, so an earlier one can't roll it back
+      await FlaggedContent.updateOne({ _id: flagged._id, reportCount: flagged.reportCount }, { $set: update });
+      flagged.set(update);
+    }
+    return { success: true, merged: true, flagged };
+  }
+
+  // Let everyone who reported the item know it has been dealt with
+  static async notifyReporters(flagged, action, reviewer) {
+    const outcome = action === 'approved'
+      ? 'Our moderators reviewed it and found that it does not break the community guidelines.'
+      : 'Our moderators reviewed it and took action. Thank you for helping keep the community safe.';
+
+    for (const report of flagged.reporters) {
+      try {
+        await NotificationService.createNotification({
+          recipientId: report.userId,
+          senderId: reviewer._id,
+          type: 'system_announcement',
+          title: 'Report Resolved',
+          message: `Your report about a ${flagged.contentType} has been resolved. ${outcome}`,
+          priority: 'medium',
+          category: 'system',
+          metadata: { flaggedContentId: flagged._id, contentType: flagged.contentType, action }
+        });
+      } catch (error) {
+        console.error('Error notifying reporter about resolved report:', error);
+      }
+    }
+  }
+
+  // Write the reviewer's decision back to the underlying content
+  static async applyToContent(flagged, action) {
+    const { contentType, contentId, parentId } = flagged;
+    const status = action === 'removed' ? 'removed' : 'approved';
+
+    switch (contentType) {
+      case 'post':
+        await Post.updateOne({ _id: contentId }, { $set: { moderationStatus: status } });
+        break;
+      case 'comment': {
+        const previous = await Comment.findOneAndUpdate(
+          { _id: contentId, post: parentId, moderationStatus: { $ne: status } },
+          { $set: { moderationStatus: status } }
+        );
+        // Keep the post's commentCount and the parent's replyCount in step with the new status
+        if (previous && !previous.deletedAt) {
+          await Comment.adjustCounts(previous, (status === 'approved') - (previous.moderationStatus === 'approved'));
+        }
+        break;
+      }
+      case 'message':
+        if (action === 'removed') {
+          await Message.updateOne(
+            { _id: contentId },
+            {
+              $set: {
+                isDeleted: true,
+                'deletionMetadata.deletedForEveryone': true,
+                'deletionMetadata.deletedForEveryoneAt': new Date()
+              }
+            }
+          );
+        }
+        break;
+      case 'profile':
+        if (action === 'removed' && flagged.matchedFields.length > 0) {
+          const unset = {};
+          flagged.matchedFields
+            .filter(field => field !== 'name')
+            .forEach(field => { unset[field] = ''; });
+          if (Object.keys(unset).length > 0) {
+            await User.updateOne({ _id: contentId }, { $unset: unset });
+          }
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Apply a reviewer decision ('approved' | 'removed' | 'warned') to a flagged item.
+   * Approved and warned content is released; removed content is hidden.
+   */
+  static async review(flagged, { action, notes, reviewer }) {
+    await this.applyToContent(flagged, action);
+
+    if (action === 'warned' || action === 'removed') {
+      try {
+        await NotificationService.createNotification({
+          recipientId: flagged.authorId,
+          senderId: reviewer._id,
+          type: 'system_announcement',
+          title: action === 'removed' ? 'Content Removed' : 'Community Guidelines Warning',
+          message: action === 'removed'
+            ? `Your ${flagged.contentType} was removed for violating the community guidelines.${notes ? ` Note: ${notes}` : ''}`
+            : `Your ${flagged.contentType} was reported for violating the community guidelines.${notes ? ` Note: ${notes}` : ''}`,
+          priority: 'high',
+          category: 'system',
+          metadata: { flaggedContentId: flagged._id, contentType: flagged.contentType, action }
+        });
+      } catch (error) {
+        console.error('Error notifying author about moderation action:', error);
+      }
+    }
+
+    await this.notifyReporters(flagged, action, reviewer);
+
+    flagged.status = 'resolved';
+    flagged.action = action;
+    flagged.notes = notes;
+    flagged.reviewedBy = reviewer._id;
+    flagged.reviewedAt = new Date();
+    flagged.auditTrail.push({ action, actor: reviewer._id, notes });
+    await flagged.save();
+
+    return flagged;
+  }
+
+  static blockedResponse(verdict) {
+    return {
+      error: 'This content violates the community guidelines and cannot be published',
+      code: 'CONTENT_BLOCKED',
+      reason: verdict.reason
+    };
+  }
+}
+
+module.exports = ModerationService;
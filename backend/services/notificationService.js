@@ -228,6 +228,53 @@ class NotificationService {
     });
   }
 
+  // Create comment reply notification
+  static async createCommentReplyNotification(replierId, commentAuthorId, postId, commentId, replyText) {
+    const replier = await User.findById(replierId);
+
+    if (!replier || replierId.toString() === commentAuthorId.toString()) return null;
+
+    return await this.createNotification({
+      recipientId: commentAuthorId,
+      senderId: replierId,
+      type: 'post_comment',
+      title: 'New Reply',
+      message: `${replier.name} replied to your comment: "${replyText.substring(0, 50)}${replyText.length > 50 ? '...' : ''}"`,
+      relatedPostId: postId,
+      relatedCommentId: commentId,
+      category: 'engagement',
+      metadata: {
+        commenterName: replier.name,
+        commenterAvatar: replier.avatar,
+        commentText: replyText,
+        isReply: true
+      }
+    });
+  }
+
+  // Create mention notification
+  static async createPostMentionNotification(mentionerId, mentionedUserId, postId, commentId, commentText) {
+    const mentioner = await User.findById(mentionerId);
+
+    if (!mentioner || mentionerId.toString() === mentionedUserId.toString()) return null;
+
+    return await this.createNotification({
+      recipientId: mentionedUserId,
+      senderId: mentionerId,
+      type: 'post_mention',
+      title: 'You Were Mentioned',
+      message: `${mentioner.name} mentioned you in a comment: "${commentText.substring(0, 50)}${commentText.length > 50 ? '...' : ''}"`,
+      relatedPostId: postId,
+      relatedCommentId: commentId,
+      category: 'engagement',
+      metadata: {
+        mentionerName: mentioner.name,
+        mentionerAvatar: mentioner.avatar,
+        commentText
+      }
+    });
+  }
+
   // Create post share notification
   static async createPostSharedNotification(sharerId, postOwnerId, postId, postTitle) {
     const sharer = await User.findById(sharerId);
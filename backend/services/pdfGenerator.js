@@ -115,6 +115,34 @@ class PDFGenerator {
           }
         });
 
+        // Time each participant spent in breakout rooms
+        const breakoutAttendees = (meeting.attendance || []).filter(p => p.breakoutRooms && p.breakoutRooms.length > 0);
+        if (breakoutAttendees.length > 0) {
+          doc.x = startX;
+          doc.y = yPos + 20;
+          doc.fontSize(12).fillColor('#333333').text('Breakout Rooms', { underline: true });
+          doc.moveDown(0.5);
+          doc.fontSize(9);
+          breakoutAttendees.forEach(participant => {
+            const rooms = participant.breakoutRooms.map(room => `${room.name} (${room.duration} min)`).join(', ');
+            doc.fillColor('#333333').text(`${participant.name || participant.email}: ${rooms}`);
+          });
+          yPos = doc.y;
+        }
+
+        // Host actions taken in the in-app meeting room
+        const hostActions = meeting.host_actions || [];
+        if (hostActions.length > 0) {
+          doc.x = startX;
+          doc.y = yPos + 20;
+          doc.fontSize(12).fillColor('#333333').text('Host Actions', { underline: true });
+          doc.moveDown(0.5);
+          doc.fontSize(9);
+          hostActions.forEach(entry => {
+            doc.fillColor('#333333').text(`${new Date(entry.timestamp).toLocaleTimeString()}  ${PDFGenerator.describeHostAction(entry)}`);
+          });
+        }
+
         // Footer
         doc.fontSize(8).fillColor('#999999');
         doc.text(`Generated on: ${new Date().toLocaleString()}`, 50, doc.page.height - 50, { align: 'center' });
@@ -126,6 +154,26 @@ class PDFGenerator {
       }
     });
   }
+
+  static describeHostAction(entry) {
+    const target = entry.target_name || entry.target_email || 'a participant';
+    const descriptions = {
+      admit: `admitted ${target} from the waiting room`,
+      deny: `denied ${target} entry`,
+      promote_cohost: `made ${target} a co-host`,
+      demote_cohost: `removed ${target} as co-host`,
+      remove: `removed ${target}`,
+      block: `removed and blocked ${target}`,
+      lock: 'locked the meeting',
+      unlock: 'unlocked the meeting',
+      waiting_room_on: 'turned on the waiting room',
+      waiting_room_off: 'turned off the waiting room',
+      mute_all: 'muted all participants',
+      breakouts_open: 'opened breakout rooms',
+      breakouts_close: 'recalled everyone from breakout rooms'
+    };
+    return `${entry.actor_name || 'Host'} ${descriptions[entry.action] || entry.action}`;
+  }
 }
 
 module.exports = PDFGenerator;
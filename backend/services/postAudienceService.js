@@ -0,0 +1,221 @@
+const mongoose = require('mongoose');
+const Post = require('../models/Post');
+const Follow = require('../models/Follow');
+const Group = require('../models/Group');
+const User = require('../models/User');
+const JobPosting = require('../models/JobPosting');
+
+const AUDIENCES = ['everyone', 'followers', 'mutuals', 'department', 'batch', 'group'];
+
+// Same fallbacks as the department/batch stamped on a post when it is created
+const departmentOf = (user) => user.department || user.studentInfo?.department || user.facultyInfo?.department;
+const batchOf = (user) => user.batch || user.studentInfo?.batch;
+const idOf = (value) => (value?._id || value).toString();
+
+// Admins see every post so reports and moderation keep working
+const seesEverything = (user) => user.role === 'admin';
+
+class PostAudienceService {
+  /**
+   * Validate the audience an author picked and turn it into the post fields
+   * to store. A batch audience defaults to the author's own batch; a group
+   * audience needs a group the author belongs to.
+   */
+  static async resolve({ audience = 'everyone', audienceBatch, groupId, user }) {
+    if (!AUDIENCES.includes(audience)) {
+      return { success: false, reason: 'invalid_audience' };
+    }
+
+    const fields = { audience, groupId: null, isPublic: audience === 'everyone' };
+
+    if (audience === 'department' && !departmentOf(user)) {
+      return { success: false, reason: 'department_required' };
+    }
+
+    if (audience === 'batch') {
+      fields.audienceBatch = String(audienceBatch || batchOf(user) || '').trim();
+      if (!fields.audienceBatch) {
+        return { success: false, reason: 'batch_required' };
+      }
+    }
+
+    if (audience === 'group') {
+      if (!groupId || !mongoose.Types.ObjectId.isValid(groupId)) {
+        return { success: false, reason: 'group_not_found' };
+      }
+      const group = await Group.findById(groupId).select('members.userId');
+      if (!group) {
+        return { success: false, reason: 'group_not_found' };
+      }
+      if (!group.members.some(member => member.userId.toString() === user._id.toString())) {
+        return { success: false, reason: 'not_group_member' };
+      }
+      fields.groupId = group._id;
+    }
+
+    return { success: true, fields };
+  }
+
+  // Who the user follows and who follows them; the legacy arrays on User are merged in
+  static async relationsOf(user) {
+    const [followees, followers] = await Promise.all([
+      Follow.find({ followerId: user._id }).distinct('followeeId'),
+      Follow.find({ followeeId: user._id }).distinct('followerId')
+    ]);
+    return {
+      following: new Set([...followees, ...(user.following || [])].map(String)),
+      followedBy: new Set([...followers, ...(user.followers || [])].map(String))
+    };
+  }
+
+  // Group posts are readable by members, and by anyone when the group is public
+  static async readableGroupIds(user) {
+    return Group.find({ $or: [{ 'members.userId': user._id }, { isPrivate: false }] }).distinct('_id');
+  }
+
+  // Query filter matching the posts a user may read; combine it with $and
+  static async visibilityFilter(user) {
+    if (seesEverything(user)) return {};
+
+    const [{ following, followedBy }, groupIds] = await Promise.all([
+      this.relationsOf(user),
+      this.readableGroupIds(user)
+    ]);
+    const mutuals = [...following].filter(id => followedBy.has(id));
+
+    const clauses = [
+      { author: user._id },
+      { audience: 'everyone' },
+      { audience: 'followers', author: { $in: [...following] } },
+      { audience: 'mutuals', author: { $in: mutuals } },
+      { audience: 'group', groupId: { $in: groupIds } }
+    ];
+    const department = departmentOf(user);
+    if (department) clauses.push({ audience: 'department', department });
+    const batch = batchOf(user);
+    if (batch) clauses.push({ audience: 'batch', audienceBatch: batch });
+
+    return { $or: clauses };
+  }
+
+  static async follows(followerId, followeeId) {
+    if (await Follow.exists({ followerId, followeeId })) return true;
+    return !!(await User.exists({ _id: followerId, following: followeeId }));
+  }
+
+  // Single-post check for routes that load a post by id
+  static async canView(post, user) {
+    const authorId = idOf(post.author);
+    if (authorId === user._id.toString() || seesEverything(user)) return true;
+
+    switch (post.audience || 'everyone') {
+      case 'everyone':
+        return true;
+      case 'followers':
+        return this.follows(user._id, authorId);
+      case 'mutuals':
+        return await this.follows(user._id, authorId) && await this.follows(authorId, user._id);
+      case 'department':
+        return !!departmentOf(user) && departmentOf(user) === post.department;
+      case 'batch':
+        return !!batchOf(user) && batchOf(user) === post.audienceBatch;
+      case 'group':
+        return !!post.groupId && !!(await Group.exists({
+          _id: post.groupId,
+          $or: [{ 'members.userId': user._id }, { isPrivate: false }]
+        }));
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Ids of the users a post may be pushed to in realtime, always including
+   * its author, or null when anyone can read it.
+   */
+  static async recipientIds(post) {
+    const authorId = idOf(post.author);
+    let ids;
+
+    switch (post.audience || 'everyone') {
+      case 'everyone':
+        return null;
+      case 'followers':
+      case 'mutuals': {
+        const author = await User.findById(authorId).select('followers following').lean();
+        const { following, followedBy } = await this.relationsOf({ ...author, _id: authorId });
+        ids = [...followedBy].filter(id => post.audience === 'followers' || following.has(id));
+        break;
+      }
+      case 'department':
+        ids = await User.find({
+          $or: [
+            { department: post.department },
+            { 'studentInfo.department': post.department },
+            { 'facultyInfo.department': post.department }
+          ]
+        }).distinct('_id');
+        break;
+      case 'batch':
+        ids = await User.find({
+          $or: [{ batch: post.audienceBatch }, { 'studentInfo.batch': post.audienceBatch }]
+        }).distinct('_id');
+        break;
+      case 'group': {
+        const group = await Group.findById(post.groupId).select('members.userId isPrivate').lean();
+        if (group && !group.isPrivate) return null;
+        ids = group ? group.members.map(member => member.userId) : [];
+        break;
+      }
+      default:
+        ids = [];
+    }
+
+    return [...new Set([authorId, ...ids.map(String)])];
+  }
+
+  // Emit a post event to everyone who can read the post
+  static async emit(io, post, event, payload) {
+    if (!io) return;
+    const recipients = await this.recipientIds(post);
+    if (!recipients) {
+      io.emit(event, payload);
+      return;
+    }
+    recipients.forEach(id => io.to(`user_${id}`).emit(event, payload));
+  }
+
+  /**
+   * Posts created before audiences existed: group posts stay with their
+   * group, non-public ones become followers-only, the rest are for everyone.
+   */
+  static async backfillAudience() {
+    const missing = { audience: { $exists: false } };
+    const group = await Post.collection.updateMany(
+      { ...missing, groupId: { $ne: null } },
+      { $set: { audience: 'group', isPublic: false } }
+    );
+    const followers = await Post.collection.updateMany({ ...missing, isPublic: false }, { $set: { audience: 'followers' } });
+    const everyone = await Post.collection.updateMany(missing, { $set: { audience: 'everyone' } });
+
+    const updated = group.modifiedCount + followers.modifiedCount + everyone.modifiedCount;
+    if (updated > 0) {
+      console.log(`✅ Set an audience on ${updated} existing posts`);
+    }
+
+    // Job postings mirrored from restricted posts before JobPosting carried the audience
+    const restrictedJobs = await Post.find({ postType: 'job', audience: { $ne: 'everyone' } }).select('audience').lean();
+    if (restrictedJobs.length > 0) {
+      await JobPosting.bulkWrite(restrictedJobs.map(post => ({
+        updateOne: {
+          filter: { sourcePost: post._id, audience: { $exists: false } },
+          update: { $set: { audience: post.audience } }
+        }
+      })));
+    }
+  }
+}
+
+PostAudienceService.AUDIENCES = AUDIENCES;
+
+module.exports = PostAudienceService;
@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const PostAudienceService = require('./postAudienceService');
 
 let initialized = false;
 
@@ -37,17 +38,26 @@ function startRealtimeWatchers(io) {
       }
     });
 
-    // Posts: broadcast creates/updates globally (clients can filter)
+    // Posts: creates/updates go to the post's audience, deletes (ids only) to everyone.
+    // Held posts are announced once approved; removed ones are dropped like deletes.
     const posts = conn.collection('posts');
     posts.watch([], { fullDocument: 'updateLookup' }).on('change', (change) => {
-      const doc = change.fullDocument;
-      if (!doc) return;
-      if (change.operationType === 'insert') {
-        io.emit('new_post', { post: doc });
-      } else if (change.operationType === 'update' || change.operationType === 'replace') {
-        io.emit('post_updated', { post: doc });
-      } else if (change.operationType === 'delete') {
+      if (change.operationType === 'delete') {
         io.emit('post_deleted', { postId: change.documentKey?._id });
+        return;
+      }
+      const doc = change.fullDocument;
+      if (!doc || doc.moderationStatus === 'pending') return;
+      if (doc.moderationStatus === 'removed') {
+        io.emit('post_deleted', { postId: doc._id });
+        return;
+      }
+      // An update that approves a held post is its first announcement
+      const approved = change.updateDescription?.updatedFields?.moderationStatus === 'approved';
+      const event = change.operationType === 'insert' || approved ? 'new_post' : 'post_updated';
+      if (change.operationType === 'insert' || change.operationType === 'update' || change.operationType === 'replace') {
+        PostAudienceService.emit(io, doc, event, { post: doc })
+          .catch(error => console.error('Error broadcasting post change:', error));
       }
     });
 
@@ -0,0 +1,218 @@
+const jwt = require('jsonwebtoken');
+const { v4: uuidv4 } = require('uuid');
+const Session = require('../models/Session');
+const User = require('../models/User');
+const UserSettings = require('../models/UserSettings');
+
+const ACCESS_TOKEN_TTL = '30m';
+const REFRESH_TOKEN_TTL_DAYS = 7;
+const DEFAULT_SESSION_TIMEOUT_MINUTES = 30; // UserSettings.security.sessionTimeout default
+const MIN_SESSION_TIMEOUT_MINUTES = 5;
+const TOUCH_INTERVAL_MS = 60 * 1000; // lastUsedAt is written at most once a minute per session
+const ROTATION_GRACE_MS = 10 * 1000;
+
+const BROWSERS = [[/Edg\//, 'Edge'], [/OPR\/|Opera/, 'Opera'], [/Chrome\//, 'Chrome'], [/Firefox\//, 'Firefox'], [/Safari\//, 'Safari']];
+const PLATFORMS = [[/Windows/, 'Windows'], [/Android/, 'Android'], [/iPhone|iPad|iPod/, 'iOS'], [/Mac OS X/, 'macOS'], [/Linux/, 'Linux']];
+
+/**
+ * Server-side sessions behind the JWTs. Every token carries a typ claim and
+ * only typ 'access' tokens authenticate requests and sockets. Access tokens
+ * carry the session id (sid) so authenticateToken can reject revoked or idle
+ * sessions; refresh
+ * tokens carry a jti that is rotated on every /auth/refresh. Presenting a
+ * refresh token that was rotated away more than ROTATION_GRACE_MS ago revokes
+ * the session, since it means a copy of the token is in someone else's hands.
+ */
+class SessionService {
+  static describeDevice(userAgent = '') {
+    const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+    if (!browser && !platform) return 'Unknown device';
+    return platform ? `${browser || 'Browser'} on ${platform}` : browser;
+  }
+
+  static clientIp(req) {
+    const forwarded = req.headers['x-forwarded-for'];
+    return (forwarded ? forwarded.split(',')[0] : req.ip || req.socket?.remoteAddress || '').trim();
+  }
+
+  static accessToken(userId, sessionId) {
+    return jwt.sign({ userId, sid: sessionId, typ: 'access' }, process.env.JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
+  }
+
+  /**
+   * Verifies a Bearer/handshake token. Tokens of any other typ (sign-in 2FA
+   * tickets, refresh tokens) are signed with the same secret, so they are
+   * rejected here with the same error as a bad signature.
+   */
+  static verifyAccessToken(token) {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    if (decoded.typ !== 'access') {
+      throw new jwt.JsonWebTokenError('invalid token type');
+    }
+    return decoded;
+  }
+
+  // tokenVersion lets a password reset invalidate every refresh token issued before it
+  static refreshToken(user, session) {
+    return jwt.sign(
+      { userId: user._id, sid: session.sessionId, jti: session.refreshTokenId, tokenVersion: user.tokenVersion || 0, typ: 'refresh' },
+      process.env.JWT_SECRET,
+      { expiresIn: `${REFRESH_TOKEN_TTL_DAYS}d` }
+    );
+  }
+
+  static async create(user, req) {
+    const userAgent = req.headers['user-agent'] || '';
+    const session = await Session.create({
+      sessionId: uuidv4(),
+      userId: user._id,
+      refreshTokenId: uuidv4(),
+      device: this.describeDevice(userAgent),
+      userAgent,
+      ip: this.clientIp(req),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000)
+    });
+    return {
+      token: this.accessToken(user._id, session.sessionId),
+      refreshToken: this.refreshToken(user, session)
+    };
+  }
+
+  static async timeoutMinutes(userId) {
+    const settings = await UserSettings.findOne({ userId }).select('security.sessionTimeout').lean();
+    return settings?.security?.sessionTimeout || DEFAULT_SESSION_TIMEOUT_MINUTES;
+  }
+
+  // Enforces UserSettings.security.sessionTimeout as an idle timeout
+  static async hasTimedOut(session) {
+    const idleMs = Date.now() - new Date(session.lastUsedAt).getTime();
+    // No setting is shorter than the minimum, so skip the settings lookup for recently used sessions
+    if (idleMs <= MIN_SESSION_TIMEOUT_MINUTES * 60 * 1000) return false;
+    return idleMs > (await this.timeoutMinutes(session.userId)) * 60 * 1000;
+  }
+
+  static isActive(session) {
+    return !!session && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  // Called by authenticateToken for every request whose access token carries a session id
+  static async validate(sessionId, userId) {
+    const session = await Session.findOne({ sessionId, userId });
+    if (!this.isActive(session)) return null;
+    if (await this.hasTimedOut(session)) {
+      await this.revoke(session, 'timeout');
+      return null;
+    }
+    if (Date.now() - session.lastUsedAt.getTime() > TOUCH_INTERVAL_MS) {
+      await Session.updateOne({ _id: session._id }, { $set: { lastUsedAt: new Date() } });
+    }
+    return session;
+  }
+
+  // A rotated-away jti is still honoured for a moment: tabs sharing the stored tokens refresh together
+  static wasJustRotated(session, jti) {
+    return jti === session.previousRefreshTokenId &&
+      Date.now() - new Date(session.rotatedAt).getTime() < ROTATION_GRACE_MS;
+  }
+
+  // The session's current pair, for a refresh that lost the race to another tab
+  static async currentTokens(decoded, session) {
+    const user = await User.findById(decoded.userId);
+    if (!user || (decoded.tokenVersion || 0) !== (user.tokenVersion || 0)) return null;
+    return {
+      user,
+      token: this.accessToken(user._id, session.sessionId),
+      refreshToken: this.refreshToken(user, session)
+    };
+  }
+
+  /**
+   * Exchanges a refresh token for a new access/refresh pair. Returns null when
+   * the token can't be used; jwt.verify errors are left to the caller.
+   */
+  static async rotate(refreshToken, req) {
+    const decoded = jwt.verify(refreshToken, process.env.JWT_SECRET);
+    // Refresh tokens from before sessions or token types existed; those users sign in again
+    if (decoded.typ !== 'refresh' || !decoded.sid || !decoded.jti) return null;
+
+    const session = await Session.findOne({ sessionId: decoded.sid, userId: decoded.userId });
+    if (!this.isActive(session)) return null;
+
+    if (decoded.jti !== session.refreshTokenId) {
+      if (this.wasJustRotated(session, decoded.jti)) return this.currentTokens(decoded, session);
+      console.warn(`Refresh token reuse detected for session ${session.sessionId}; revoking it`);
+      await this.revoke(session, 'reuse_detected');
+      return null;
+    }
+
+    if (await this.hasTimedOut(session)) {
+      await this.revoke(session, 'timeout');
+      return null;
+    }
+
+    const user = await User.findById(decoded.userId);
+    if (!user || (decoded.tokenVersion || 0) !== (user.tokenVersion || 0)) return null;
+
+    const userAgent = req.headers['user-agent'] || session.userAgent;
+    // Conditional on the old jti so two concurrent refreshes can't both succeed
+    const updated = await Session.findOneAndUpdate(
+      { _id: session._id, refreshTokenId: decoded.jti, revokedAt: null },
+      {
+        $set: {
+          refreshTokenId: uuidv4(),
+          previousRefreshTokenId: decoded.jti,
+          rotatedAt: new Date(),
+          lastUsedAt: new Date(),
+          ip: this.clientIp(req),
+          userAgent,
+          device: this.describeDevice(userAgent)
+        }
+      },
+      { new: true }
+    );
+    if (!updated) {
+      // Another refresh with the same token rotated it first
+      const current = await Session.findOne({ _id: session._id, revokedAt: null });
+      return current && this.wasJustRotated(current, decoded.jti) ? this.currentTokens(decoded, current) : null;
+    }
+
+    return {
+      user,
+      token: this.accessToken(user._id, updated.sessionId),
+      refreshToken: this.refreshToken(user, updated)
+    };
+  }
+
+  static async list(userId) {
+    return Session.find({ userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+      .sort({ lastUsedAt: -1 })
+      .lean();
+  }
+
+  static revoke(session, reason) {
+    return Session.updateOne(
+      { _id: session._id, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+  }
+
+  // Returns false when the session doesn't exist, isn't the user's, or is already signed out
+  static async revokeById(userId, sessionId, reason) {
+    const result = await Session.updateOne(
+      { sessionId, userId, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  static async revokeAll(userId, reason) {
+    const result = await Session.updateMany(
+      { userId, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+    return result.modifiedCount;
+  }
+}
+
+module.exports = SessionService;
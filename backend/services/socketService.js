@@ -1,10 +1,11 @@
-const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const SessionService = require('./sessionService');
 const Message = require('../models/Message');
 const Conversation = require('../models/Conversation');
 const Post = require('../models/Post');
 const Event = require('../models/Event');
 const Notification = require('../models/Notification');
+const PostAudienceService = require('./postAudienceService');
 
 class SocketService {
   constructor(io) {
@@ -26,12 +27,15 @@ class SocketService {
           return next(new Error('Authentication error: No token provided'));
         }
 
-        const decoded = jwt.verify(token, process.env.JWT_SECRET);
+        const decoded = SessionService.verifyAccessToken(token);
         const user = await User.findById(decoded.userId).select('-password');
 
         if (!user) {
           return next(new Error('Authentication error: Invalid token'));
         }
+        if (decoded.sid && !(await SessionService.validate(decoded.sid, user._id))) {
+          return next(new Error('Authentication error: Session expired'));
+        }
 
         socket.userId = user._id.toString();
         socket.user = user;
@@ -310,15 +314,16 @@ class SocketService {
           // Broadcast new post to relevant users based on user type and department
           const post = await Post.findById(postId).populate('author', 'name type department batch');
 
-          if (post) {
-            // Broadcast to all users (general posts) and typed channels for filtering on client
-            this.io.emit('new_post', {
+          // Posts held for review are announced once approved, removed ones never
+          if (post && !['pending', 'removed'].includes(post.moderationStatus)) {
+            // Broadcast to the post's audience, with a typed channel for event posts
+            await PostAudienceService.emit(this.io, post, 'new_post', {
               post: post,
               author: post.author,
               timestamp: new Date()
             });
             if (post.postType === 'event') {
-              this.io.emit('event_post_created', { post });
+              await PostAudienceService.emit(this.io, post, 'event_post_created', { post });
             }
 
             // Update post count for author
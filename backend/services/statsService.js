@@ -64,7 +64,7 @@ class StatsService {
         .limit(5)
         .select('title date location type');
 
-      const recentJobs = await JobPosting.find({ isActive: true })
+      const recentJobs = await JobPosting.find({ isActive: true, ...JobPosting.LISTED })
         .sort({ createdAt: -1 })
         .limit(5)
         .select('title company location type');
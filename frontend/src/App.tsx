@@ -5,6 +5,7 @@ import { AuthProvider } from '@/contexts/AuthContext';
 import { ThemeProvider } from '@/contexts/ThemeContext';
 import ErrorBoundary from '@/components/ErrorBoundary';
 import CookieConsent from '@/components/CookieConsent';
+import KeyBackupRestorePrompt from '@/components/messaging/KeyBackupRestorePrompt';
 import ScrollToTop from '@/components/ScrollToTop';
 import performanceService from '@/services/performanceService';
 
@@ -12,6 +13,8 @@ import performanceService from '@/services/performanceService';
 const LandingPage = React.lazy(() => import('@/pages/LandingPage'));
 const SignInPage = React.lazy(() => import('@/pages/SignInPage'));
 const SignUpPage = React.lazy(() => import('@/pages/SignUpPage'));
+const ForgotPasswordPage = React.lazy(() => import('@/pages/ForgotPasswordPage'));
+const ResetPasswordPage = React.lazy(() => import('@/pages/ResetPasswordPage'));
 const DashboardPage = React.lazy(() => import('@/pages/DashboardPage'));
 const Profile = React.lazy(() => import('@/pages/Profile'));
 const OtherUserProfile = React.lazy(() => import('@/components/profile/OtherUserProfile'));
@@ -24,6 +27,8 @@ const PrivacyPolicyPage = React.lazy(() => import('@/pages/PrivacyPolicyPage'));
 const TermsPage = React.lazy(() => import('@/pages/TermsPage'));
 const CookiePolicyPage = React.lazy(() => import('@/pages/CookiePolicyPage'));
 const TeamPage = React.lazy(() => import('@/pages/TeamPage'));
+const MeetingRoom = React.lazy(() => import('@/pages/MeetingRoom'));
+const MeetingSummaryPage = React.lazy(() => import('@/pages/MeetingSummaryPage'));
 const NotFound = React.lazy(() => import('@/pages/NotFound'));
 
 // Loading component
@@ -86,6 +91,8 @@ function App() {
                 <Route path="/" element={<LandingPage />} />
                 <Route path="/signin" element={<SignInPage />} />
                 <Route path="/signup" element={<SignUpPage />} />
+                <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+                <Route path="/reset-password" element={<ResetPasswordPage />} />
                 <Route path="/dashboard" element={<DashboardPage />} />
                 <Route path="/post/:postId" element={<DeepLinkRedirect section="home" />} />
                 <Route path="/placements/:id" element={<DeepLinkRedirect section="placements" />} />
@@ -100,12 +107,15 @@ function App() {
                 <Route path="/terms" element={<TermsPage />} />
                 <Route path="/cookie-policy" element={<CookiePolicyPage />} />
                 <Route path="/team" element={<TeamPage />} />
+                <Route path="/meeting/:roomId" element={<MeetingRoom />} />
+                <Route path="/meeting/:meetingId/summary" element={<MeetingSummaryPage />} />
                 <Route path="/index.html" element={<Navigate to="/" replace />} />
                 <Route path="*" element={<NotFound />} />
               </Routes>
             </React.Suspense>
           </ErrorBoundary>
           <CookieConsent />
+          <KeyBackupRestorePrompt />
           <Toaster />
         </div>
       </AuthProvider>
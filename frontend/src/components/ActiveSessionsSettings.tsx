@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Laptop, Smartphone, LogOut, Loader2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { ActiveSession, getSessions, revokeSession, revokeAllSessions } from '@/services/sessionsApi';
+
+const isMobile = (device: string) => /Android|iOS/.test(device);
+
+export default function ActiveSessionsSettings() {
+  const { logout } = useAuth();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setSessions(await getSessions());
+      } catch (error) {
+        console.error('Error loading sessions:', error);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  const handleSignOut = async (session: ActiveSession) => {
+    if (session.current) {
+      logout();
+      return;
+    }
+    setWorking(session.id);
+    try {
+      await revokeSession(session.id);
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+      toast({ title: 'Device signed out', description: `${session.device} will need to sign in again.` });
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to sign out that device', variant: 'destructive' });
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    if (!window.confirm('Sign out of every device, including this one?')) return;
+    setWorking('all');
+    try {
+      await revokeAllSessions();
+      logout();
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to sign out of all devices', variant: 'destructive' });
+      setWorking(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Laptop className="h-5 w-5" />
+          <span>Where You&apos;re Signed In</span>
+        </CardTitle>
+        <CardDescription>
+          Devices signed in to your account. Sign out any you don&apos;t recognise, then change your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <ul className="divide-y">
+              {sessions.map(session => {
+                const DeviceIcon = isMobile(session.device) ? Smartphone : Laptop;
+                return (
+                  <li key={session.id} className="flex items-center justify-between gap-3 py-3">
+                    <div className="flex items-start gap-3 min-w-0">
+                      <DeviceIcon className="h-5 w-5 mt-0.5 text-muted-foreground shrink-0" />
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2 text-sm font-medium">
+                          <span className="truncate">{session.device}</span>
+                          {session.current && <Badge variant="secondary">This device</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {session.ip || 'Unknown IP'} · Active {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}
+                          {' · '}Signed in {new Date(session.createdAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleSignOut(session)}
+                      disabled={working !== null}
+                    >
+                      {working === session.id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Sign out'}
+                    </Button>
+                  </li>
+                );
+              })}
+            </ul>
+            {sessions.length === 0 && (
+              <p className="text-sm text-muted-foreground">No active sessions found. Sign in again to see this device here.</p>
+            )}
+            <Button
+              variant="outline"
+              onClick={handleSignOutEverywhere}
+              disabled={working !== null}
+              className="text-red-600 hover:text-red-700"
+            >
+              {working === 'all' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <LogOut className="h-4 w-4 mr-2" />}
+              Sign out everywhere
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
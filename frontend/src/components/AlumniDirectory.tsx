@@ -29,6 +29,7 @@ import api from '@/services/api';
 import { useNavigate } from 'react-router-dom';
 import { socketService } from '@/services/socketService';
 import ShareModal from '@/components/ui/ShareModal';
+import VerifiedBadge from '@/components/ui/VerifiedBadge';
 
 interface User {
   _id: string;
@@ -496,6 +497,7 @@ export default function AlumniDirectory() {
                         <h3 className="text-lg sm:text-xl font-bold text-foreground truncate">
                           {user.name}
                         </h3>
+                        <VerifiedBadge user={user} />
                         <Badge variant="secondary" className="text-xs font-medium px-2 py-1">
                           {user.type}
                         </Badge>
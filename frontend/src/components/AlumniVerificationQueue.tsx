@@ -0,0 +1,251 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { BadgeCheck, Check, ChevronLeft, ChevronRight, FileText, Loader2, Search, X } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import {
+  VerificationQueue,
+  VerificationQueueItem,
+  VerificationStatus,
+  getVerificationQueue,
+  reviewAlumnus
+} from '@/services/alumniVerificationApi';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (axios.isAxiosError(error) && error.response?.data?.error) || fallback;
+
+const Field = ({ label, value }: { label: string; value?: string | number | null }) => (
+  <div>
+    <p className="text-xs text-muted-foreground">{label}</p>
+    <p className="text-sm font-medium">{value || '—'}</p>
+  </div>
+);
+
+export default function AlumniVerificationQueue() {
+  const [status, setStatus] = useState<VerificationStatus>('pending');
+  const [search, setSearch] = useState('');
+  // search is applied on submit, not on every keystroke
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [queue, setQueue] = useState<VerificationQueue | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<VerificationQueueItem | null>(null);
+  const [reason, setReason] = useState('');
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      setQueue(await getVerificationQueue({ status, search: appliedSearch || undefined, page }));
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to load verification queue'), variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [status, appliedSearch, page]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const handleReview = async (alumnus: VerificationQueueItem, decision: 'verified' | 'rejected', rejectReason?: string) => {
+    setWorking(alumnus._id);
+    try {
+      await reviewAlumnus(alumnus._id, decision, rejectReason);
+      toast({
+        title: decision === 'verified' ? 'Alumnus verified' : 'Verification rejected',
+        description: `${alumnus.name} has been notified.`
+      });
+      setRejecting(null);
+      setReason('');
+      await loadQueue();
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to save review'), variant: 'destructive' });
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <BadgeCheck className="h-8 w-8 text-blue-600" />
+          <div>
+            <h1 className="text-2xl font-bold">Alumni Verification</h1>
+            <p className="text-muted-foreground">
+              Confirm that alumni accounts belong to former students
+            </p>
+          </div>
+        </div>
+        {queue && (
+          <Badge variant="outline" className="text-sm">
+            {queue.counts.pending} pending review
+          </Badge>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between mb-4">
+        <Tabs value={status} onValueChange={(value) => { setStatus(value as VerificationStatus); setPage(1); }}>
+          <TabsList>
+            <TabsTrigger value="pending">Pending{queue ? ` (${queue.counts.pending})` : ''}</TabsTrigger>
+            <TabsTrigger value="verified">Verified{queue ? ` (${queue.counts.verified})` : ''}</TabsTrigger>
+            <TabsTrigger value="rejected">Rejected{queue ? ` (${queue.counts.rejected})` : ''}</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => { e.preventDefault(); setPage(1); setAppliedSearch(search.trim()); }}
+        >
+          <Input
+            placeholder="Name, roll number or email"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="sm:w-64"
+          />
+          <Button type="submit" variant="outline" size="icon">
+            <Search className="h-4 w-4" />
+          </Button>
+        </form>
+      </div>
+
+      {loading && !queue ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : queue && queue.alumni.length === 0 ? (
+        <Card>
+          <CardContent className="py-10 text-center text-sm text-muted-foreground">
+            No {status} alumni{appliedSearch ? ' match this search' : ''}.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {queue?.alumni.map(alumnus => (
+            <Card key={alumnus._id}>
+              <CardContent className="p-4 space-y-4">
+                <div className="flex flex-col md:flex-row md:items-start justify-between gap-3">
+                  <div className="flex items-center gap-3">
+                    <Avatar className="h-10 w-10">
+                      <AvatarImage src={alumnus.avatar} />
+                      <AvatarFallback>{alumnus.name.charAt(0)}</AvatarFallback>
+                    </Avatar>
+                    <div>
+                      <p className="font-medium">{alumnus.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {alumnus.email?.personal || alumnus.email?.college}
+                        {alumnus.alumniInfo?.conversionDate
+                          ? ` • Converted ${new Date(alumnus.alumniInfo.conversionDate).toLocaleDateString()}`
+                          : ` • Joined ${new Date(alumnus.createdAt).toLocaleDateString()}`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    {status !== 'verified' && (
+                      <Button size="sm" onClick={() => handleReview(alumnus, 'verified')} disabled={working === alumnus._id}>
+                        <Check className="h-4 w-4 mr-1" /> Approve
+                      </Button>
+                    )}
+                    {status !== 'rejected' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => { setRejecting(alumnus); setReason(''); }}
+                        disabled={working === alumnus._id}
+                      >
+                        <X className="h-4 w-4 mr-1" /> {status === 'verified' ? 'Revoke' : 'Reject'}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3 rounded-md bg-muted/40 p-3">
+                  <Field label="Roll number" value={alumnus.studentInfo?.rollNumber} />
+                  <Field label="Batch" value={alumnus.studentInfo?.batch || alumnus.batch} />
+                  <Field label="Department" value={alumnus.studentInfo?.department || alumnus.alumniInfo?.originalDepartment || alumnus.department} />
+                  <Field label="Graduation year" value={alumnus.alumniInfo?.graduationYear} />
+                  <Field
+                    label="Current role"
+                    value={[alumnus.alumniInfo?.jobTitle, alumnus.alumniInfo?.currentCompany].filter(Boolean).join(' at ')}
+                  />
+                </div>
+
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+                  {alumnus.verification.proofDocument ? (
+                    <a
+                      href={alumnus.verification.proofDocument.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-primary hover:underline"
+                    >
+                      <FileText className="h-4 w-4" />
+                      {alumnus.verification.proofDocument.fileName || 'Proof document'}
+                    </a>
+                  ) : (
+                    <span className="text-muted-foreground">No proof document uploaded</span>
+                  )}
+                  {alumnus.verification.reviewedBy && alumnus.verification.reviewedAt && (
+                    <span className="text-muted-foreground">
+                      Reviewed by {alumnus.verification.reviewedBy.name} on {new Date(alumnus.verification.reviewedAt).toLocaleDateString()}
+                    </span>
+                  )}
+                </div>
+                {status === 'rejected' && alumnus.verification.rejectionReason && (
+                  <p className="text-sm text-muted-foreground">Reason: {alumnus.verification.rejectionReason}</p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {queue && queue.totalPages > 1 && (
+        <div className="flex items-center justify-center gap-3 mt-6">
+          <Button variant="outline" size="icon" disabled={loading || page <= 1} onClick={() => setPage(page - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground">Page {page} of {queue.totalPages}</span>
+          <Button variant="outline" size="icon" disabled={loading || page >= queue.totalPages} onClick={() => setPage(page + 1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => { if (!open && !working) setRejecting(null); }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{status === 'verified' ? 'Revoke verification' : 'Reject verification'}</DialogTitle>
+            <DialogDescription>
+              {rejecting?.name} will be notified with this reason and can upload new proof.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            rows={4}
+            placeholder="e.g. The certificate is unreadable, please upload a clearer scan"
+            value={reason}
+            maxLength={1000}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)} disabled={!!working}>Cancel</Button>
+            <Button
+              variant="destructive"
+              onClick={() => rejecting && handleReview(rejecting, 'rejected', reason.trim())}
+              disabled={!!working || !reason.trim()}
+            >
+              {working && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {status === 'verified' ? 'Revoke' : 'Reject'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import React, { useState, useEffect, useRef } from 'react';
+import axios from 'axios';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { BadgeCheck, FileText, Loader2, Upload } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { uploadVerificationProofToCloudinary } from '@/services/cloudinary';
+import { AlumniVerification, getMyVerification, submitVerificationProof } from '@/services/alumniVerificationApi';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (axios.isAxiosError(error) && error.response?.data?.error) || (error instanceof Error && error.message) || fallback;
+
+const STATUS_BADGES = {
+  pending: { label: 'Pending review', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300' },
+  verified: { label: 'Verified', className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300' }
+};
+
+export default function AlumniVerificationSettings() {
+  const [verification, setVerification] = useState<AlumniVerification | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    getMyVerification()
+      .then(setVerification)
+      .catch((error) => console.error('Error loading alumni verification:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      const url = await uploadVerificationProofToCloudinary(file);
+      setVerification(await submitVerificationProof(url, file.name));
+      toast({ title: 'Proof submitted', description: 'Faculty reviewers will check your document shortly.' });
+    } catch (error) {
+      toast({ title: 'Upload failed', description: errorMessage(error, 'Failed to upload proof document'), variant: 'destructive' });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  if (loading || !verification) {
+    return null;
+  }
+
+  const badge = STATUS_BADGES[verification.status];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <BadgeCheck className="h-5 w-5" />
+              <span>Alumni Verification</span>
+            </CardTitle>
+            <CardDescription>
+              Verified alumni get a badge on their profile and posts
+            </CardDescription>
+          </div>
+          <Badge className={badge.className}>{badge.label}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {verification.status === 'verified' ? (
+          <p className="text-sm text-muted-foreground">
+            Your alumni status was verified{verification.reviewedAt && ` on ${new Date(verification.reviewedAt).toLocaleDateString()}`}.
+          </p>
+        ) : (
+          <>
+            {verification.status === 'rejected' && verification.rejectionReason && (
+              <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800 dark:border-red-900 dark:bg-red-900/20 dark:text-red-300">
+                <span className="font-medium">Reason: </span>{verification.rejectionReason}
+              </div>
+            )}
+            <p className="text-sm text-muted-foreground">
+              Upload your degree certificate, provisional certificate or college ID card (PDF or image, up to 10MB).
+              {verification.status === 'rejected' && ' Uploading new proof sends your request back for review.'}
+            </p>
+            {verification.proofDocument && (
+              <a
+                href={verification.proofDocument.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-2 text-sm text-primary hover:underline"
+              >
+                <FileText className="h-4 w-4" />
+                {verification.proofDocument.fileName || 'Submitted document'}
+              </a>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".pdf,image/*"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <div>
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={uploading}>
+                {uploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                {verification.proofDocument ? 'Replace document' : 'Upload proof'}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,6 +8,7 @@ import { BarChart, LineChart, PieChart, TrendingUp, Users, MessageCircle, Heart,
 import api from '../services/api';
 
 interface AnalyticsData {
+  pendingDays: number;
   overview: {
     totalUsers: number;
     activeUsers: number;
@@ -52,7 +53,7 @@ const AnalyticsDashboard: React.FC = () => {
   const loadAnalytics = async () => {
     try {
       setLoading(true);
-      const response = await api.get(`/analytics?range=${timeRange}`);
+      const response = await api.get(`/api/analytics?range=${timeRange}`);
       if (response.data.success) {
         setData(response.data.analytics);
       }
@@ -108,10 +109,10 @@ const AnalyticsDashboard: React.FC = () => {
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="1d">Last 24h</SelectItem>
               <SelectItem value="7d">Last 7 days</SelectItem>
               <SelectItem value="30d">Last 30 days</SelectItem>
               <SelectItem value="90d">Last 90 days</SelectItem>
+              <SelectItem value="1y">Last year</SelectItem>
             </SelectContent>
           </Select>
           
@@ -122,6 +123,12 @@ const AnalyticsDashboard: React.FC = () => {
         </div>
       </div>
 
+      {data.pendingDays > 0 && (
+        <p className="text-sm text-muted-foreground mb-4">
+          {data.pendingDays} older day{data.pendingDays === 1 ? ' is' : 's are'} still being processed and not included yet.
+        </p>
+      )}
+
       {/* Overview Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
         <Card>
@@ -334,7 +341,8 @@ const AnalyticsDashboard: React.FC = () => {
                     <span className="font-medium">
                       {timeRange === '7d' ? (data.overview.totalPosts / 7).toFixed(1) :
                        timeRange === '30d' ? (data.overview.totalPosts / 30).toFixed(1) :
-                       timeRange === '90d' ? (data.overview.totalPosts / 90).toFixed(1) : 0}
+                       timeRange === '90d' ? (data.overview.totalPosts / 90).toFixed(1) :
+                       timeRange === '1y' ? (data.overview.totalPosts / 365).toFixed(1) : 0}
                     </span>
                   </div>
                   <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
@@ -0,0 +1,184 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarDays, Copy, Check, RefreshCw, Trash2, Loader2, Link as LinkIcon } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import {
+  CalendarFeedStatus,
+  getCalendarFeed,
+  createCalendarFeed,
+  revokeCalendarFeed,
+  updateCalendarTimezone
+} from '@/services/calendarFeedApi';
+
+const COMMON_TIMEZONES = [
+  'Asia/Kolkata',
+  'Asia/Dubai',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Europe/London',
+  'Europe/Berlin',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'UTC'
+];
+
+export default function CalendarFeedSettings() {
+  const [feed, setFeed] = useState<CalendarFeedStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [timezone, setTimezone] = useState('');
+
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const timezoneOptions = Array.from(new Set([browserTimezone, timezone, ...COMMON_TIMEZONES].filter(Boolean)));
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const data = await getCalendarFeed();
+        setFeed(data);
+        setTimezone(data.timezone || browserTimezone);
+      } catch (error) {
+        console.error('Error loading calendar feed:', error);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [browserTimezone]);
+
+  const handleCreate = async () => {
+    if (feed?.active && !window.confirm('Reset your calendar link? Calendars subscribed with the old link will stop updating.')) {
+      return;
+    }
+    setWorking(true);
+    try {
+      const data = await createCalendarFeed();
+      setFeed(prev => ({ ...prev, ...data }));
+      toast({
+        title: feed?.active ? 'Calendar link reset' : 'Calendar link created',
+        description: 'Copy the link into Google Calendar, Outlook or Apple Calendar to subscribe.'
+      });
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to create calendar link', variant: 'destructive' });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!window.confirm('Turn off your calendar link? Subscribed calendars will stop updating.')) return;
+    setWorking(true);
+    try {
+      await revokeCalendarFeed();
+      setFeed(prev => (prev ? { ...prev, active: false, url: null, createdAt: null } : prev));
+      toast({ title: 'Calendar link revoked' });
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to revoke calendar link', variant: 'destructive' });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feed?.url) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast({ title: 'Copy failed', description: 'Select the link and copy it manually', variant: 'destructive' });
+    }
+  };
+
+  const handleTimezoneChange = async (value: string) => {
+    const previous = timezone;
+    setTimezone(value);
+    try {
+      await updateCalendarTimezone(value);
+      toast({ title: 'Timezone updated', description: `Calendar times will be shown in ${value}` });
+    } catch (error) {
+      setTimezone(previous);
+      toast({ title: 'Error', description: 'Failed to update timezone', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <CalendarDays className="h-5 w-5" />
+          <span>Calendar Subscription</span>
+        </CardTitle>
+        <CardDescription>
+          Subscribe to your events and meetings from any calendar app. Includes events you RSVP to, your event posts, and meetings you host or are invited to.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label>Timezone</Label>
+              <Select value={timezone} onValueChange={handleTimezoneChange}>
+                <SelectTrigger className="sm:w-72">
+                  <SelectValue placeholder="Select timezone" />
+                </SelectTrigger>
+                <SelectContent>
+                  {timezoneOptions.map(zone => (
+                    <SelectItem key={zone} value={zone}>
+                      {zone}{zone === browserTimezone ? ' (this device)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Used for your calendar feed and for the times of events you organise.
+              </p>
+            </div>
+
+            {feed?.active && feed.url ? (
+              <div className="space-y-3">
+                <Label htmlFor="calendar-feed-url">Private calendar link</Label>
+                <div className="flex gap-2">
+                  <Input id="calendar-feed-url" value={feed.url} readOnly className="font-mono text-xs" />
+                  <Button variant="outline" size="icon" onClick={handleCopy} title="Copy link">
+                    {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Anyone with this link can see your schedule. Reset it if it has been shared by mistake.
+                  {feed.createdAt && ` Created ${new Date(feed.createdAt).toLocaleDateString()}.`}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" size="sm" onClick={handleCreate} disabled={working}>
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Reset link
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleRevoke} disabled={working} className="text-red-600 hover:text-red-700">
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Revoke
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button onClick={handleCreate} disabled={working}>
+                {working ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <LinkIcon className="h-4 w-4 mr-2" />}
+                Create calendar link
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
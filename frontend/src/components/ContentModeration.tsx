@@ -23,16 +23,18 @@ interface ContentFilter {
   createdBy: string;
 }
 
+interface RuleCondition {
+  field: string;
+  operator: 'contains' | 'equals' | 'regex' | 'length';
+  value: string | number;
+}
+
 interface ModerationRule {
   id: string;
   name: string;
   description: string;
   type: 'post' | 'comment' | 'message' | 'profile';
-  conditions: {
-    field: string;
-    operator: 'contains' | 'equals' | 'regex' | 'length';
-    value: string | number;
-  }[];
+  conditions: RuleCondition[];
   action: 'block' | 'flag' | 'review' | 'auto-approve';
   enabled: boolean;
   priority: number;
@@ -51,6 +53,8 @@ interface FlaggedContent {
   reviewedAt?: string;
   action?: 'approved' | 'removed' | 'warned';
   notes?: string;
+  excerpt?: string;
+  reportCount?: number;
 }
 
 const ContentModeration: React.FC = () => {
@@ -62,7 +66,7 @@ const ContentModeration: React.FC = () => {
   const [showAddFilter, setShowAddFilter] = useState(false);
   const [showAddRule, setShowAddRule] = useState(false);
   const [newFilter, setNewFilter] = useState<Partial<ContentFilter>>({});
-  const [newRule, setNewRule] = useState<Partial<ModerationRule>>({});
+  const [newRule, setNewRule] = useState<Partial<ModerationRule>>({ conditions: [] });
   const [moderationSettings, setModerationSettings] = useState({
     autoModeration: true,
     aiModeration: false,
@@ -83,7 +87,7 @@ const ContentModeration: React.FC = () => {
 
   const loadFilters = async () => {
     try {
-      const response = await api.get('/moderation/filters');
+      const response = await api.get('/api/moderation/filters');
       if (response.data.success) {
         setFilters(response.data.filters);
       }
@@ -94,7 +98,7 @@ const ContentModeration: React.FC = () => {
 
   const loadRules = async () => {
     try {
-      const response = await api.get('/moderation/rules');
+      const response = await api.get('/api/moderation/rules');
       if (response.data.success) {
         setRules(response.data.rules);
       }
@@ -105,7 +109,7 @@ const ContentModeration: React.FC = () => {
 
   const loadFlaggedContent = async () => {
     try {
-      const response = await api.get('/moderation/flagged');
+      const response = await api.get('/api/moderation/flagged');
       if (response.data.success) {
         setFlaggedContent(response.data.flaggedContent);
       }
@@ -116,7 +120,7 @@ const ContentModeration: React.FC = () => {
 
   const loadModerationSettings = async () => {
     try {
-      const response = await api.get('/moderation/settings');
+      const response = await api.get('/api/moderation/settings');
       if (response.data.success) {
         setModerationSettings(response.data.settings);
       }
@@ -127,7 +131,7 @@ const ContentModeration: React.FC = () => {
 
   const addFilter = async () => {
     try {
-      const response = await api.post('/moderation/filters', newFilter);
+      const response = await api.post('/api/moderation/filters', newFilter);
       if (response.data.success) {
         setFilters(prev => [...prev, response.data.filter]);
         setNewFilter({});
@@ -149,10 +153,10 @@ const ContentModeration: React.FC = () => {
 
   const addRule = async () => {
     try {
-      const response = await api.post('/moderation/rules', newRule);
+      const response = await api.post('/api/moderation/rules', newRule);
       if (response.data.success) {
         setRules(prev => [...prev, response.data.rule]);
-        setNewRule({});
+        setNewRule({ conditions: [] });
         setShowAddRule(false);
         toast({
           title: "Success",
@@ -169,9 +173,16 @@ const ContentModeration: React.FC = () => {
     }
   };
 
+  const updateRuleCondition = (index: number, updates: Partial<RuleCondition>) => {
+    setNewRule(prev => ({
+      ...prev,
+      conditions: (prev.conditions || []).map((c, i) => i === index ? { ...c, ...updates } : c)
+    }));
+  };
+
   const toggleFilter = async (filterId: string, enabled: boolean) => {
     try {
-      await api.put(`/moderation/filters/${filterId}`, { enabled });
+      await api.put(`/api/moderation/filters/${filterId}`, { enabled });
       setFilters(prev => prev.map(f => 
         f.id === filterId ? { ...f, enabled } : f
       ));
@@ -182,7 +193,7 @@ const ContentModeration: React.FC = () => {
 
   const toggleRule = async (ruleId: string, enabled: boolean) => {
     try {
-      await api.put(`/moderation/rules/${ruleId}`, { enabled });
+      await api.put(`/api/moderation/rules/${ruleId}`, { enabled });
       setRules(prev => prev.map(r => 
         r.id === ruleId ? { ...r, enabled } : r
       ));
@@ -193,7 +204,7 @@ const ContentModeration: React.FC = () => {
 
   const deleteFilter = async (filterId: string) => {
     try {
-      await api.delete(`/moderation/filters/${filterId}`);
+      await api.delete(`/api/moderation/filters/${filterId}`);
       setFilters(prev => prev.filter(f => f.id !== filterId));
       toast({
         title: "Success",
@@ -211,7 +222,7 @@ const ContentModeration: React.FC = () => {
 
   const deleteRule = async (ruleId: string) => {
     try {
-      await api.delete(`/moderation/rules/${ruleId}`);
+      await api.delete(`/api/moderation/rules/${ruleId}`);
       setRules(prev => prev.filter(r => r.id !== ruleId));
       toast({
         title: "Success",
@@ -229,18 +240,14 @@ const ContentModeration: React.FC = () => {
 
   const reviewFlaggedContent = async (flaggedId: string, action: string, notes?: string) => {
     try {
-      const response = await api.put(`/moderation/flagged/${flaggedId}`, {
+      const response = await api.put(`/api/moderation/flagged/${flaggedId}`, {
         action,
-        notes,
-        reviewedBy: 'current-user-id', // This should come from auth context
-        reviewedAt: new Date().toISOString()
+        notes
       });
 
       if (response.data.success) {
         setFlaggedContent(prev => prev.map(f => 
-          f.id === flaggedId 
-            ? { ...f, status: 'reviewed', action: action as any, notes, reviewedAt: new Date().toISOString() }
-            : f
+          f.id === flaggedId ? response.data.flagged : f
         ));
         
         toast({
@@ -260,7 +267,7 @@ const ContentModeration: React.FC = () => {
 
   const updateModerationSettings = async (updates: Partial<typeof moderationSettings>) => {
     try {
-      const response = await api.put('/moderation/settings', updates);
+      const response = await api.put('/api/moderation/settings', updates);
       if (response.data.success) {
         setModerationSettings(prev => ({ ...prev, ...updates }));
         toast({
@@ -349,7 +356,7 @@ const ContentModeration: React.FC = () => {
                     <Label>Filter Type</Label>
                     <Select
                       value={newFilter.type}
-                      onValueChange={(value) => setNewFilter(prev => ({ ...prev, type: value as any }))}
+                      onValueChange={(value) => setNewFilter(prev => ({ ...prev, type: value as ContentFilter['type'] }))}
                     >
                       <SelectTrigger>
                         <SelectValue placeholder="Select type" />
@@ -366,7 +373,7 @@ const ContentModeration: React.FC = () => {
                     <Label>Action</Label>
                     <Select
                       value={newFilter.action}
-                      onValueChange={(value) => setNewFilter(prev => ({ ...prev, action: value as any }))}
+                      onValueChange={(value) => setNewFilter(prev => ({ ...prev, action: value as ContentFilter['action'] }))}
                     >
                       <SelectTrigger>
                         <SelectValue placeholder="Select action" />
@@ -392,7 +399,7 @@ const ContentModeration: React.FC = () => {
                     <Label>Severity</Label>
                     <Select
                       value={newFilter.severity}
-                      onValueChange={(value) => setNewFilter(prev => ({ ...prev, severity: value as any }))}
+                      onValueChange={(value) => setNewFilter(prev => ({ ...prev, severity: value as ContentFilter['severity'] }))}
                     >
                       <SelectTrigger>
                         <SelectValue placeholder="Select severity" />
@@ -486,7 +493,7 @@ const ContentModeration: React.FC = () => {
                     <Label>Content Type</Label>
                     <Select
                       value={newRule.type}
-                      onValueChange={(value) => setNewRule(prev => ({ ...prev, type: value as any }))}
+                      onValueChange={(value) => setNewRule(prev => ({ ...prev, type: value as ModerationRule['type'] }))}
                     >
                       <SelectTrigger>
                         <SelectValue placeholder="Select type" />
@@ -504,7 +511,7 @@ const ContentModeration: React.FC = () => {
                     <Label>Action</Label>
                     <Select
                       value={newRule.action}
-                      onValueChange={(value) => setNewRule(prev => ({ ...prev, action: value as any }))}
+                      onValueChange={(value) => setNewRule(prev => ({ ...prev, action: value as ModerationRule['action'] }))}
                     >
                       <SelectTrigger>
                         <SelectValue placeholder="Select action" />
@@ -539,6 +546,62 @@ const ContentModeration: React.FC = () => {
                     rows={3}
                   />
                 </div>
+
+                <div className="mt-4 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Conditions (all must match)</Label>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setNewRule(prev => ({
+                        ...prev,
+                        conditions: [...(prev.conditions || []), { field: 'content', operator: 'contains', value: '' }]
+                      }))}
+                    >
+                      Add Condition
+                    </Button>
+                  </div>
+                  {(newRule.conditions || []).map((condition, index) => (
+                    <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+                      <Input
+                        value={condition.field}
+                        onChange={(e) => updateRuleCondition(index, { field: e.target.value })}
+                        placeholder="Field (content, title, bio)"
+                      />
+                      <Select
+                        value={condition.operator}
+                        onValueChange={(value) => updateRuleCondition(index, { operator: value as RuleCondition['operator'] })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="contains">Contains</SelectItem>
+                          <SelectItem value="equals">Equals</SelectItem>
+                          <SelectItem value="regex">Matches regex</SelectItem>
+                          <SelectItem value="length">Longer than</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        value={condition.value}
+                        onChange={(e) => updateRuleCondition(index, {
+                          value: condition.operator === 'length' ? Number(e.target.value) : e.target.value
+                        })}
+                        placeholder="Value"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setNewRule(prev => ({
+                          ...prev,
+                          conditions: (prev.conditions || []).filter((_, i) => i !== index)
+                        }))}
+                      >
+                        <XCircle className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
                 
                 <div className="flex justify-end space-x-2 mt-4">
                   <Button variant="outline" onClick={() => setShowAddRule(false)}>
@@ -613,8 +676,12 @@ const ContentModeration: React.FC = () => {
                       </div>
                       
                       <p className="font-medium mb-1">Reason: {flagged.reason}</p>
+                      {flagged.excerpt && (
+                        <p className="text-sm border-l-2 pl-2 mb-2 line-clamp-3">{flagged.excerpt}</p>
+                      )}
                       <p className="text-sm text-muted-foreground mb-2">
                         Flagged by: {flagged.flaggedBy} • {new Date(flagged.flaggedAt).toLocaleDateString()}
+                        {flagged.reportCount && flagged.reportCount > 1 ? ` • ${flagged.reportCount} reports` : ''}
                       </p>
                       
                       {flagged.notes && (
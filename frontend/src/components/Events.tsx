@@ -1,44 +1,864 @@
-import React from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { format, startOfMonth, endOfMonth, parseISO, isValid } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Calendar, Clock, MapPin, Users } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Calendar as DayCalendar } from '@/components/ui/calendar';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Calendar,
+  Clock,
+  MapPin,
+  Users,
+  Plus,
+  Edit,
+  Trash2,
+  List,
+  Search,
+  Video,
+  Image as ImageIcon,
+  Loader2,
+  CheckCircle2,
+  X,
+  Ticket,
+  ScanLine,
+  Hourglass,
+  CalendarPlus
+} from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { socketService } from '@/services/socketService';
+import { uploadImageToCloudinary } from '@/services/cloudinary';
+import eventsApi, {
+  CampusEvent,
+  EventAttendeesResponse,
+  EventFormData,
+  EventTicket,
+  CheckInResult,
+  EVENT_TYPES
+} from '@/services/eventsApi';
+import { downloadIcs } from '@/services/calendarFeedApi';
+
+const EMPTY_FORM: EventFormData = {
+  title: '',
+  date: '',
+  time: '',
+  location: '',
+  type: 'workshop',
+  description: '',
+  meetLink: '',
+  poster: '',
+  capacity: null
+};
+
+const getTypeLabel = (type: string) => EVENT_TYPES.find(t => t.value === type)?.label || type;
+
+const formatEventDate = (date: string) => {
+  const parsed = parseISO(date);
+  return isValid(parsed) ? format(parsed, 'EEE, MMM d, yyyy') : date;
+};
 
 export default function Events() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [view, setView] = useState<'list' | 'calendar'>('list');
+  const [events, setEvents] = useState<CampusEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [search, setSearch] = useState('');
+  const [month, setMonth] = useState<Date>(new Date());
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(new Date());
+  const [rsvpLoading, setRsvpLoading] = useState<string | null>(null);
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingEvent, setEditingEvent] = useState<CampusEvent | null>(null);
+  const [form, setForm] = useState<EventFormData>(EMPTY_FORM);
+  const [posterFile, setPosterFile] = useState<File | null>(null);
+  const [posterPreview, setPosterPreview] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const [attendeesFor, setAttendeesFor] = useState<CampusEvent | null>(null);
+  const [attendeeData, setAttendeeData] = useState<EventAttendeesResponse | null>(null);
+  const [attendeesLoading, setAttendeesLoading] = useState(false);
+
+  const [ticketFor, setTicketFor] = useState<CampusEvent | null>(null);
+  const [ticket, setTicket] = useState<EventTicket | null>(null);
+
+  const [checkInFor, setCheckInFor] = useState<CampusEvent | null>(null);
+  const [checkInCode, setCheckInCode] = useState('');
+  const [checkingIn, setCheckingIn] = useState(false);
+  const [lastCheckIn, setLastCheckIn] = useState<CheckInResult | null>(null);
+
+  const canCreate = user?.type === 'faculty' || user?.type === 'alumni' || user?.role === 'admin';
+
+  const canManage = (event: CampusEvent) => {
+    if (!user) return false;
+    if (user.role === 'admin') return true;
+    if (event.createdById) return event.createdById === user._id;
+    return event.createdBy === user.name;
+  };
+
+  const isAttending = (event: CampusEvent) =>
+    !!user && (event.attendees || []).some(id => id.toString() === user._id);
+
+  const getWaitlistPosition = (event: CampusEvent) => {
+    if (!user) return 0;
+    return (event.waitlist || []).findIndex(id => id.toString() === user._id) + 1;
+  };
+
+  const isFull = (event: CampusEvent) =>
+    !!event.capacity && (event.attendees?.length || 0) >= event.capacity;
+
+  const loadEvents = useCallback(async () => {
+    setLoading(true);
+    try {
+      // List view shows what's coming up; calendar view loads the visible month
+      const range = view === 'calendar'
+        ? { from: format(startOfMonth(month), 'yyyy-MM-dd'), to: format(endOfMonth(month), 'yyyy-MM-dd') }
+        : { from: format(new Date(), 'yyyy-MM-dd') };
+      const data = await eventsApi.getEvents({
+        ...range,
+        type: typeFilter === 'all' ? undefined : typeFilter,
+        search: search.trim() || undefined,
+        limit: 100
+      });
+      setEvents(data.events || []);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load events',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [view, month, typeFilter, search, toast]);
+
+  useEffect(() => {
+    const timer = setTimeout(loadEvents, search ? 300 : 0);
+    return () => clearTimeout(timer);
+  }, [loadEvents, search]);
+
+  // Keep the list in sync with changes made by other users
+  useEffect(() => {
+    const handleEventUpdate = (payload: unknown) => {
+      const { event, deleted } = payload as { event?: CampusEvent; deleted?: boolean };
+      if (!event?._id) return;
+      setEvents(prev => {
+        if (deleted) return prev.filter(e => e._id !== event._id);
+        const exists = prev.some(e => e._id === event._id);
+        return exists ? prev.map(e => (e._id === event._id ? event : e)) : prev;
+      });
+    };
+    socketService.onEventUpdate(handleEventUpdate);
+    return () => socketService.offEventUpdate();
+  }, []);
+
+  const eventDays = useMemo(
+    () => events.map(e => parseISO(e.date)).filter(isValid),
+    [events]
+  );
+
+  const selectedDayEvents = useMemo(() => {
+    if (!selectedDay) return [];
+    const key = format(selectedDay, 'yyyy-MM-dd');
+    return events.filter(e => e.date === key);
+  }, [events, selectedDay]);
+
+  const openCreate = () => {
+    setEditingEvent(null);
+    setForm({ ...EMPTY_FORM, date: selectedDay && view === 'calendar' ? format(selectedDay, 'yyyy-MM-dd') : '' });
+    setPosterFile(null);
+    setPosterPreview('');
+    setShowForm(true);
+  };
+
+  const openEdit = (event: CampusEvent) => {
+    setEditingEvent(event);
+    setForm({
+      title: event.title,
+      date: event.date,
+      time: event.time,
+      location: event.location,
+      type: event.type,
+      description: event.description,
+      meetLink: event.meetLink || '',
+      poster: event.poster || '',
+      capacity: event.capacity ?? null
+    });
+    setPosterFile(null);
+    setPosterPreview(event.poster || '');
+    setShowForm(true);
+  };
+
+  const handlePosterChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      toast({ title: 'Invalid file', description: 'Posters must be image files', variant: 'destructive' });
+      return;
+    }
+    if (file.size > 5 * 1024 * 1024) {
+      toast({ title: 'File too large', description: 'Posters must be smaller than 5MB', variant: 'destructive' });
+      return;
+    }
+    setPosterFile(file);
+    setPosterPreview(URL.createObjectURL(file));
+  };
+
+  const removePoster = () => {
+    setPosterFile(null);
+    setPosterPreview('');
+    setForm(prev => ({ ...prev, poster: '' }));
+  };
+
+  const handleSave = async () => {
+    if (!form.title.trim() || !form.date || !form.time || !form.location.trim() || !form.description.trim()) {
+      toast({ title: 'Missing details', description: 'Please fill in all required fields', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      let poster = form.poster;
+      if (posterFile) {
+        poster = await uploadImageToCloudinary(posterFile);
+      }
+      const payload = { ...form, title: form.title.trim(), location: form.location.trim(), poster };
+
+      if (editingEvent) {
+        const updated = await eventsApi.updateEvent(editingEvent._id, payload);
+        setEvents(prev => prev.map(e => (e._id === updated._id ? updated : e)));
+        toast({ title: 'Event updated', description: 'Your changes have been saved' });
+      } else {
+        await eventsApi.createEvent(payload);
+        toast({ title: 'Event created', description: 'Your event is now visible to everyone' });
+        loadEvents();
+      }
+      setShowForm(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save event',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (event: CampusEvent) => {
+    if (!window.confirm(`Delete "${event.title}"? This cannot be undone.`)) return;
+    try {
+      await eventsApi.deleteEvent(event._id);
+      setEvents(prev => prev.filter(e => e._id !== event._id));
+      toast({ title: 'Event deleted' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete event',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleRsvp = async (event: CampusEvent) => {
+    setRsvpLoading(event._id);
+    try {
+      const { rsvpStatus, waitlistPosition, ...updated } = await eventsApi.toggleRsvp(event._id);
+      setEvents(prev => prev.map(e => (e._id === updated._id ? updated : e)));
+      if (rsvpStatus === 'going') {
+        toast({ title: "You're going!", description: `See you at ${updated.title}. Your check-in code is under "My ticket".` });
+      } else if (rsvpStatus === 'waitlisted') {
+        toast({ title: 'Added to the waitlist', description: `You are #${waitlistPosition} in line. We'll notify you if a seat opens up.` });
+      } else {
+        toast({ title: 'RSVP cancelled', description: `You are no longer attending ${updated.title}` });
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update RSVP',
+        variant: 'destructive'
+      });
+    } finally {
+      setRsvpLoading(null);
+    }
+  };
+
+  const openAttendees = async (event: CampusEvent) => {
+    setAttendeesFor(event);
+    setAttendeeData(null);
+    setAttendeesLoading(true);
+    try {
+      const data = await eventsApi.getAttendees(event._id);
+      setAttendeeData(data);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load attendees',
+        variant: 'destructive'
+      });
+    } finally {
+      setAttendeesLoading(false);
+    }
+  };
+
+  const handleAddToCalendar = async (event: CampusEvent) => {
+    try {
+      await downloadIcs(`/api/events/${event._id}/ics`, event.title);
+    } catch (error) {
+      console.error('Error exporting event:', error);
+      toast({ title: 'Error', description: 'Failed to export event', variant: 'destructive' });
+    }
+  };
+
+  const openTicket = async (event: CampusEvent) => {
+    setTicketFor(event);
+    setTicket(null);
+    try {
+      setTicket(await eventsApi.getTicket(event._id));
+    } catch (error) {
+      setTicketFor(null);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load your ticket',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const openCheckIn = (event: CampusEvent) => {
+    setCheckInFor(event);
+    setCheckInCode('');
+    setLastCheckIn(null);
+  };
+
+  const handleCheckIn = async () => {
+    if (!checkInFor || !checkInCode.trim()) return;
+    setCheckingIn(true);
+    try {
+      const result = await eventsApi.checkIn(checkInFor._id, checkInCode.trim());
+      setLastCheckIn(result);
+      setCheckInCode('');
+      toast({ title: 'Checked in', description: `${result.attendee?.name || 'Attendee'} has been checked in` });
+    } catch (error) {
+      toast({
+        title: 'Check-in failed',
+        description: error instanceof Error ? error.message : 'Failed to check in attendee',
+        variant: 'destructive'
+      });
+    } finally {
+      setCheckingIn(false);
+    }
+  };
+
+  const renderEventCard = (event: CampusEvent) => {
+    const attending = isAttending(event);
+    const waitlistPosition = getWaitlistPosition(event);
+    const full = isFull(event);
+    const cancelled = event.status === 'cancelled';
+
+    return (
+      <Card key={event._id} className="overflow-hidden">
+        {event.poster && (
+          <img src={event.poster} alt={event.title} className="w-full h-48 object-cover" />
+        )}
+        <CardHeader className="pb-2">
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <CardTitle className="text-lg truncate">{event.title}</CardTitle>
+              <p className="text-xs text-muted-foreground mt-1">Organised by {event.createdBy}</p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <Badge variant="secondary">{getTypeLabel(event.type)}</Badge>
+              {cancelled && <Badge variant="destructive">Cancelled</Badge>}
+              {!cancelled && full && <Badge variant="outline">Full</Badge>}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid gap-1.5 text-sm text-muted-foreground">
+            <div className="flex items-center gap-2">
+              <Calendar className="h-4 w-4" />
+              {formatEventDate(event.date)}
+            </div>
+            <div className="flex items-center gap-2">
+              <Clock className="h-4 w-4" />
+              {event.time}
+            </div>
+            <div className="flex items-center gap-2">
+              <MapPin className="h-4 w-4" />
+              {event.location}
+            </div>
+            {event.meetLink && (
+              <a
+                href={event.meetLink}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-2 text-blue-600 hover:underline"
+              >
+                <Video className="h-4 w-4" />
+                Join online
+              </a>
+            )}
+          </div>
+
+          <p className="text-sm whitespace-pre-wrap line-clamp-4">{event.description}</p>
+
+          <div className="flex flex-wrap items-center gap-2 pt-1">
+            <Button
+              size="sm"
+              variant={attending || waitlistPosition > 0 ? 'outline' : 'default'}
+              onClick={() => handleRsvp(event)}
+              disabled={rsvpLoading === event._id || (cancelled && !attending && waitlistPosition === 0)}
+              title={attending || waitlistPosition > 0 ? 'Click to cancel' : undefined}
+            >
+              {rsvpLoading === event._id ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : attending ? (
+                <CheckCircle2 className="h-4 w-4 mr-2 text-green-600" />
+              ) : waitlistPosition > 0 ? (
+                <Hourglass className="h-4 w-4 mr-2 text-amber-600" />
+              ) : (
+                <Plus className="h-4 w-4 mr-2" />
+              )}
+              {attending ? 'Going' : waitlistPosition > 0 ? `Waitlisted #${waitlistPosition}` : full ? 'Join waitlist' : 'RSVP'}
+            </Button>
+            {attending && (
+              <Button size="sm" variant="ghost" onClick={() => openTicket(event)}>
+                <Ticket className="h-4 w-4 mr-2" />
+                My ticket
+              </Button>
+            )}
+            <Button size="sm" variant="ghost" onClick={() => handleAddToCalendar(event)} title="Download .ics file">
+              <CalendarPlus className="h-4 w-4 mr-2" />
+              Add to calendar
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => openAttendees(event)}>
+              <Users className="h-4 w-4 mr-2" />
+              {event.attendees?.length || 0}{event.capacity ? ` / ${event.capacity}` : ''} attending
+            </Button>
+            {canManage(event) && (
+              <div className="ml-auto flex items-center gap-1">
+                <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => openCheckIn(event)} title="Check in attendees">
+                  <ScanLine className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => openEdit(event)} title="Edit event">
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 text-red-600 hover:text-red-700"
+                  onClick={() => handleDelete(event)}
+                  title="Delete event"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderEmptyState = (message: string) => (
+    <Card>
+      <CardContent className="text-center py-12">
+        <Calendar className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+        <p className="text-muted-foreground">{message}</p>
+        {canCreate && (
+          <Button className="mt-4" onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Event
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+
   return (
-    <div className="container mx-auto px-4 py-8">
-      <div className="max-w-4xl mx-auto">
-        <div className="text-center mb-8">
-          <h1 className="text-4xl font-bold text-foreground mb-4">Events</h1>
-          <p className="text-lg text-muted-foreground">
-            Stay updated with the latest events and gatherings
-          </p>
+    <div className="container mx-auto px-4 py-6">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Events</h1>
+            <p className="text-muted-foreground">Workshops, reunions and networking sessions across the community</p>
+          </div>
+          {canCreate && (
+            <Button onClick={openCreate} className="bg-blue-600 hover:bg-blue-700 text-white">
+              <Plus className="h-4 w-4 mr-2" />
+              Create Event
+            </Button>
+          )}
         </div>
 
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Calendar className="h-5 w-5" />
-              Events Coming Soon
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-muted-foreground">
-              The events feature is currently under development. Check back soon for exciting alumni events, 
-              networking opportunities, and professional development sessions.
-            </p>
-            <div className="mt-4 flex gap-2">
-              <Button disabled>
+        <Tabs value={view} onValueChange={(value) => setView(value as 'list' | 'calendar')}>
+          <div className="flex flex-col md:flex-row md:items-center gap-3">
+            <TabsList>
+              <TabsTrigger value="list">
+                <List className="h-4 w-4 mr-2" />
+                Upcoming
+              </TabsTrigger>
+              <TabsTrigger value="calendar">
                 <Calendar className="h-4 w-4 mr-2" />
-                Create Event
-              </Button>
-              <Button variant="outline" disabled>
-                <Users className="h-4 w-4 mr-2" />
-                Join Event
-              </Button>
+                Calendar
+              </TabsTrigger>
+            </TabsList>
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search events"
+                className="pl-9"
+              />
+            </div>
+            <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <SelectTrigger className="md:w-48">
+                <SelectValue placeholder="All types" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All types</SelectItem>
+                {EVENT_TYPES.map(type => (
+                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <TabsContent value="list" className="mt-6">
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+              </div>
+            ) : events.length === 0 ? (
+              renderEmptyState('No upcoming events match your filters')
+            ) : (
+              <div className="grid gap-4 md:grid-cols-2">
+                {events.map(renderEventCard)}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="calendar" className="mt-6">
+            <div className="grid gap-6 md:grid-cols-[auto_1fr]">
+              <Card className="h-fit">
+                <CardContent className="p-2">
+                  <DayCalendar
+                    mode="single"
+                    selected={selectedDay}
+                    onSelect={setSelectedDay}
+                    month={month}
+                    onMonthChange={setMonth}
+                    modifiers={{ hasEvent: eventDays }}
+                    modifiersClassNames={{ hasEvent: 'font-bold text-blue-600 underline underline-offset-4' }}
+                  />
+                </CardContent>
+              </Card>
+              <div className="space-y-4">
+                <h2 className="text-lg font-semibold">
+                  {selectedDay ? format(selectedDay, 'EEEE, MMMM d') : 'Select a day'}
+                </h2>
+                {loading ? (
+                  <div className="flex justify-center py-12">
+                    <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                  </div>
+                ) : selectedDayEvents.length === 0 ? (
+                  renderEmptyState('No events on this day')
+                ) : (
+                  selectedDayEvents.map(renderEventCard)
+                )}
+              </div>
             </div>
-          </CardContent>
-        </Card>
+          </TabsContent>
+        </Tabs>
       </div>
+
+      {/* Create / edit event */}
+      <Dialog open={showForm} onOpenChange={(open) => { if (!saving) setShowForm(open); }}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingEvent ? 'Edit Event' : 'Create Event'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="event-title">Title *</Label>
+              <Input
+                id="event-title"
+                value={form.title}
+                onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+                placeholder="Alumni networking evening"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="event-date">Date *</Label>
+                <Input
+                  id="event-date"
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm(prev => ({ ...prev, date: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="event-time">Time *</Label>
+                <Input
+                  id="event-time"
+                  type="time"
+                  value={form.time}
+                  onChange={(e) => setForm(prev => ({ ...prev, time: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Type *</Label>
+                <Select value={form.type} onValueChange={(value) => setForm(prev => ({ ...prev, type: value }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EVENT_TYPES.map(type => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="event-location">Location *</Label>
+                <Input
+                  id="event-location"
+                  value={form.location}
+                  onChange={(e) => setForm(prev => ({ ...prev, location: e.target.value }))}
+                  placeholder="Main auditorium"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-capacity">Capacity</Label>
+              <Input
+                id="event-capacity"
+                type="number"
+                min={1}
+                value={form.capacity ?? ''}
+                onChange={(e) => setForm(prev => ({
+                  ...prev,
+                  capacity: e.target.value ? Math.max(1, parseInt(e.target.value, 10) || 1) : null
+                }))}
+                placeholder="Unlimited"
+              />
+              <p className="text-xs text-muted-foreground">
+                Once the event is full, new RSVPs join a waitlist and are promoted in order when seats free up.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-link">Online link</Label>
+              <Input
+                id="event-link"
+                value={form.meetLink}
+                onChange={(e) => setForm(prev => ({ ...prev, meetLink: e.target.value }))}
+                placeholder="https://meet.google.com/..."
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-description">Description *</Label>
+              <Textarea
+                id="event-description"
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                rows={4}
+                placeholder="What should attendees expect?"
+              />
+            </div>
+            {editingEvent && (
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select
+                  value={form.status || editingEvent.status}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, status: value as CampusEvent['status'] }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="upcoming">Upcoming</SelectItem>
+                    <SelectItem value="ongoing">Ongoing</SelectItem>
+                    <SelectItem value="completed">Completed</SelectItem>
+                    <SelectItem value="cancelled">Cancelled</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Poster</Label>
+              {posterPreview ? (
+                <div className="relative">
+                  <img src={posterPreview} alt="Event poster" className="w-full h-40 object-cover rounded-md border" />
+                  <Button
+                    size="icon"
+                    variant="secondary"
+                    className="absolute top-2 right-2 h-7 w-7"
+                    onClick={removePoster}
+                    title="Remove poster"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <label className="flex flex-col items-center justify-center h-28 border-2 border-dashed rounded-md cursor-pointer text-muted-foreground hover:bg-muted/50">
+                  <ImageIcon className="h-6 w-6 mb-1" />
+                  <span className="text-sm">Upload a poster image</span>
+                  <input type="file" accept="image/*" className="hidden" onChange={handlePosterChange} />
+                </label>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowForm(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingEvent ? 'Save Changes' : 'Create Event'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Attendee list */}
+      <Dialog open={!!attendeesFor} onOpenChange={(open) => { if (!open) setAttendeesFor(null); }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Attendees · {attendeesFor?.title}</DialogTitle>
+          </DialogHeader>
+          {attendeesLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : !attendeeData || attendeeData.attendees.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No one has RSVP'd yet</p>
+          ) : (
+            <div className="space-y-3 max-h-96 overflow-y-auto">
+              <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                <span>
+                  {attendeeData.attendeeCount}{attendeeData.capacity ? ` of ${attendeeData.capacity}` : ''} seats taken
+                </span>
+                {attendeeData.waitlistCount > 0 && <span>• {attendeeData.waitlistCount} on waitlist</span>}
+                {attendeeData.checkedInCount !== undefined && <span>• {attendeeData.checkedInCount} checked in</span>}
+              </div>
+              {attendeeData.attendees.map(attendee => (
+                <div key={attendee._id} className="flex items-center gap-3">
+                  <Avatar className="h-9 w-9">
+                    <AvatarImage src={attendee.avatar} />
+                    <AvatarFallback>{attendee.name?.charAt(0).toUpperCase() || 'U'}</AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{attendee.name}</p>
+                    <p className="text-xs text-muted-foreground capitalize truncate">
+                      {[attendee.type, attendee.department || attendee.alumniInfo?.currentCompany, attendee.studentInfo?.batch]
+                        .filter(Boolean)
+                        .join(' • ')}
+                    </p>
+                  </div>
+                  {attendee.checkedInAt && (
+                    <Badge variant="secondary" className="ml-auto shrink-0">
+                      <CheckCircle2 className="h-3 w-3 mr-1 text-green-600" />
+                      Checked in
+                    </Badge>
+                  )}
+                </div>
+              ))}
+              {attendeeData.waitlist && attendeeData.waitlist.length > 0 && (
+                <div className="pt-2 border-t space-y-2">
+                  <p className="text-sm font-medium">Waitlist</p>
+                  {attendeeData.waitlist.map((waiting, index) => (
+                    <div key={waiting._id} className="flex items-center gap-3 text-sm">
+                      <span className="w-6 text-muted-foreground">#{index + 1}</span>
+                      <span className="truncate">{waiting.name}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Attendee ticket */}
+      <Dialog open={!!ticketFor} onOpenChange={(open) => { if (!open) setTicketFor(null); }}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Your ticket</DialogTitle>
+          </DialogHeader>
+          {!ticket ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="text-center space-y-3">
+              <p className="font-medium">{ticketFor?.title}</p>
+              <p className="text-sm text-muted-foreground">
+                {ticketFor && formatEventDate(ticketFor.date)} · {ticketFor?.time}
+              </p>
+              <div className="rounded-lg border-2 border-dashed py-6">
+                <p className="text-xs uppercase tracking-wide text-muted-foreground mb-1">Check-in code</p>
+                <p className="text-3xl font-mono font-bold tracking-widest">{ticket.code}</p>
+              </div>
+              {ticket.checkedInAt ? (
+                <Badge variant="secondary">
+                  <CheckCircle2 className="h-3 w-3 mr-1 text-green-600" />
+                  Checked in {format(new Date(ticket.checkedInAt), 'MMM d, h:mm a')}
+                </Badge>
+              ) : (
+                <p className="text-xs text-muted-foreground">Show this code to the organizer when you arrive.</p>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Organizer check-in */}
+      <Dialog open={!!checkInFor} onOpenChange={(open) => { if (!open && !checkingIn) setCheckInFor(null); }}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Check in · {checkInFor?.title}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Label htmlFor="check-in-code">Ticket code</Label>
+            <div className="flex gap-2">
+              <Input
+                id="check-in-code"
+                value={checkInCode}
+                onChange={(e) => setCheckInCode(e.target.value.toUpperCase())}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleCheckIn(); }}
+                placeholder="e.g. 3FA9C21B"
+                className="font-mono"
+                autoFocus
+              />
+              <Button onClick={handleCheckIn} disabled={checkingIn || !checkInCode.trim()}>
+                {checkingIn ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Check in'}
+              </Button>
+            </div>
+            {lastCheckIn && (
+              <div className="rounded-md bg-green-50 dark:bg-green-900/20 p-3 text-sm">
+                <p className="font-medium text-green-700 dark:text-green-400">
+                  {lastCheckIn.attendee?.name} checked in
+                </p>
+                <p className="text-muted-foreground">{lastCheckIn.checkedInCount} attendees checked in so far</p>
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,238 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { CloudUpload, KeyRound, Laptop, Loader2, Lock, RotateCcw, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import SecureKeyService, { KeyBackupStatus, RegisteredDevice } from '@/services/secureKeyService';
+
+const MIN_PASSPHRASE_LENGTH = 10;
+const secureKeys = SecureKeyService.getInstance();
+
+export default function MessagingKeysSettings() {
+  const { user } = useAuth();
+  const [devices, setDevices] = useState<RegisteredDevice[]>([]);
+  const [currentDeviceId, setCurrentDeviceId] = useState<string | null>(null);
+  const [backup, setBackup] = useState<KeyBackupStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+
+  const load = useCallback(async () => {
+    if (!user) return;
+    try {
+      // Make sure this browser is registered before listing devices
+      const deviceId = await secureKeys.getCurrentDeviceId(user._id);
+      const [deviceList, backupStatus] = await Promise.all([secureKeys.listDevices(), secureKeys.getBackupStatus()]);
+      setCurrentDeviceId(deviceId);
+      setDevices(deviceList);
+      setBackup(backupStatus);
+    } catch (error) {
+      console.error('Error loading encryption settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (secureKeys.isSupported()) {
+      load();
+    } else {
+      setLoading(false);
+    }
+  }, [load]);
+
+  const handleRevoke = async (device: RegisteredDevice) => {
+    if (!window.confirm(`Remove ${device.label || 'this device'}? It will stop receiving new encrypted messages.`)) return;
+    setWorking(true);
+    try {
+      await secureKeys.revokeDevice(device.deviceId);
+      setDevices(prev => prev.map(d => d.deviceId === device.deviceId ? { ...d, revokedAt: new Date().toISOString() } : d));
+      toast({ title: 'Device removed' });
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to remove device', variant: 'destructive' });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleBackup = async () => {
+    if (!user) return;
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      toast({ title: 'Passphrase too short', description: `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`, variant: 'destructive' });
+      return;
+    }
+    if (!backup?.exists && passphrase !== confirmPassphrase) {
+      toast({ title: 'Passphrases do not match', variant: 'destructive' });
+      return;
+    }
+
+    setWorking(true);
+    try {
+      setBackup(await secureKeys.backUpKeys(user._id, passphrase));
+      setPassphrase('');
+      setConfirmPassphrase('');
+      toast({ title: 'Keys backed up', description: 'Use your passphrase to restore messages when you sign in on a new device.' });
+    } catch (error) {
+      console.error('Error backing up keys:', error);
+      toast({
+        title: 'Backup failed',
+        description: backup?.exists ? "That passphrase doesn't open your existing backup." : 'Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!user || !passphrase) return;
+    setWorking(true);
+    try {
+      const count = await secureKeys.restoreKeys(user._id, passphrase);
+      setPassphrase('');
+      setBackup(await secureKeys.getBackupStatus());
+      toast({ title: 'Keys restored', description: `Restored ${count} device key${count === 1 ? '' : 's'}. Older messages can now be read here.` });
+    } catch (error) {
+      console.error('Error restoring keys:', error);
+      toast({ title: 'Restore failed', description: 'Check your passphrase and try again.', variant: 'destructive' });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDeleteBackup = async () => {
+    if (!window.confirm('Delete your key backup? You will not be able to restore message history on new devices until you create a new one.')) return;
+    setWorking(true);
+    try {
+      await secureKeys.deleteBackup();
+      setBackup({ exists: false, deviceIds: [] });
+      toast({ title: 'Backup deleted' });
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to delete backup', variant: 'destructive' });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const thisDeviceBackedUp = !!currentDeviceId && !!backup?.deviceIds.includes(currentDeviceId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Lock className="h-5 w-5" />
+          <span>Encrypted Messaging</span>
+        </CardTitle>
+        <CardDescription>
+          Direct messages are end-to-end encrypted with keys that stay on your devices
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : !secureKeys.isSupported() ? (
+          <p className="text-sm text-muted-foreground">This browser doesn't support end-to-end encryption.</p>
+        ) : (
+          <>
+            <div>
+              <h4 className="font-medium mb-3">Your Devices</h4>
+              <div className="space-y-2">
+                {devices.map(device => (
+                  <div key={device.deviceId} className="flex items-center justify-between gap-3 rounded-md border p-3">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <Laptop className="h-4 w-4 text-muted-foreground shrink-0" />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium flex items-center gap-2">
+                          <span className="truncate">{device.label || 'Unknown device'}</span>
+                          {device.deviceId === currentDeviceId && <Badge variant="secondary">This device</Badge>}
+                          {device.revokedAt && <Badge variant="outline">Removed</Badge>}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Added {device.createdAt ? new Date(device.createdAt).toLocaleDateString() : 'unknown'}
+                          {device.lastSeenAt && ` • Last active ${new Date(device.lastSeenAt).toLocaleDateString()}`}
+                        </p>
+                      </div>
+                    </div>
+                    {!device.revokedAt && device.deviceId !== currentDeviceId && (
+                      <Button variant="outline" size="sm" onClick={() => handleRevoke(device)} disabled={working}>
+                        Remove
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <div>
+                <h4 className="font-medium flex items-center gap-2">
+                  <KeyRound className="h-4 w-4" />
+                  Key Backup
+                </h4>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {backup?.exists
+                    ? `Last updated ${backup.updatedAt ? new Date(backup.updatedAt).toLocaleString() : 'recently'}. ${thisDeviceBackedUp ? 'This device is included.' : "This device isn't included yet."}`
+                    : 'Back up your keys with a passphrase to read your message history on other devices. We never see your passphrase, so it cannot be recovered if you forget it.'}
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="backupPassphrase">Backup Passphrase</Label>
+                <Input
+                  id="backupPassphrase"
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder={backup?.exists ? 'Enter your backup passphrase' : `At least ${MIN_PASSPHRASE_LENGTH} characters`}
+                  autoComplete="off"
+                />
+              </div>
+              {!backup?.exists && (
+                <div>
+                  <Label htmlFor="confirmBackupPassphrase">Confirm Passphrase</Label>
+                  <Input
+                    id="confirmBackupPassphrase"
+                    type="password"
+                    value={confirmPassphrase}
+                    onChange={(e) => setConfirmPassphrase(e.target.value)}
+                    autoComplete="off"
+                  />
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                {backup?.exists && !thisDeviceBackedUp ? (
+                  <Button onClick={handleRestore} disabled={working || !passphrase}>
+                    {working ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+                    Restore from Backup
+                  </Button>
+                ) : (
+                  <Button onClick={handleBackup} disabled={working || !passphrase}>
+                    {working ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CloudUpload className="h-4 w-4 mr-2" />}
+                    {backup?.exists ? 'Update Backup' : 'Back Up Keys'}
+                  </Button>
+                )}
+                {backup?.exists && (
+                  <Button variant="outline" onClick={handleDeleteBackup} disabled={working}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete Backup
+                  </Button>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -40,6 +40,11 @@ import { useAuth } from '@/contexts/AuthContext';
 import { socketService } from '@/services/socketService';
 import api from '@/services/api';
 import EnhancedNotificationSettings from '@/components/notifications/EnhancedNotificationSettings';
+import CalendarFeedSettings from '@/components/CalendarFeedSettings';
+import MessagingKeysSettings from '@/components/MessagingKeysSettings';
+import TwoFactorSettings from '@/components/TwoFactorSettings';
+import ActiveSessionsSettings from '@/components/ActiveSessionsSettings';
+import AlumniVerificationSettings from '@/components/AlumniVerificationSettings';
 import { useTheme } from '@/contexts/ThemeContext';
 import { Monitor, Sun, Moon } from 'lucide-react';
 
@@ -1959,6 +1964,10 @@ export default function Settings() {
               </div>
             </CardContent>
           </Card>
+
+          {user?.type === 'alumni' && <AlumniVerificationSettings />}
+
+          <CalendarFeedSettings />
         </TabsContent>
 
         {/* Notification Settings */}
@@ -2283,7 +2292,7 @@ export default function Settings() {
                       }
                       className="mt-1"
                     />
-                    <p className="text-xs text-muted-foreground mt-1">Time before automatic logout (5-1440 minutes)</p>
+                    <p className="text-xs text-muted-foreground mt-1">Inactive sessions are signed out after this long (5-1440 minutes)</p>
                   </div>
 
                   <div>
@@ -2359,6 +2368,12 @@ export default function Settings() {
               </div>
             </CardContent>
           </Card>
+
+          <TwoFactorSettings />
+
+          <ActiveSessionsSettings />
+
+          <MessagingKeysSettings />
         </TabsContent>
         {/* Appearance Settings */}
         <TabsContent value="appearance" className="space-y-6">
@@ -10,12 +10,16 @@ import {
   MessageSquare,
   Calendar,
   Briefcase,
+  GraduationCap,
   LogOut,
   User,
   Building2,
   Bell,
   Settings,
-  Video
+  Video,
+  Shield,
+  BarChart,
+  BadgeCheck
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { socketService } from "@/services/socketService";
@@ -82,8 +86,17 @@ export default function Sidebar({
     { id: "network", name: "My Network", icon: Users, description: "Connect with alumni" },
     { id: "messages", name: "Messages", icon: MessageSquare, description: "Chat with connections" },
     { id: "notifications", name: "Notifications", icon: Bell, description: "Stay updated" },
+    { id: "events", name: "Events", icon: Calendar, description: "Workshops and meetups" },
     { id: "placements", name: "Placements", icon: Briefcase, description: "Career opportunities" },
-    { id: "meetings", name: "Google Meeting", icon: Video, description: "Google Meet sessions" }
+    { id: "mentorship", name: "Mentorship", icon: GraduationCap, description: "Find or become a mentor" },
+    { id: "meetings", name: "Google Meeting", icon: Video, description: "Google Meet sessions" },
+    ...(user?.type === 'faculty' || user?.role === 'admin'
+      ? [
+          { id: "moderation", name: "Moderation", icon: Shield, description: "Review flagged content" },
+          { id: "analytics", name: "Analytics", icon: BarChart, description: "Platform engagement" },
+          { id: "verification", name: "Alumni Verification", icon: BadgeCheck, description: "Review alumni status" }
+        ]
+      : [])
   ];
 
   // Initial counts from API and real-time updates for unread counts
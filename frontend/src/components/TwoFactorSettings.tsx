@@ -0,0 +1,234 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ShieldCheck, Copy, Check, RefreshCw, Loader2, KeyRound } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import {
+  TwoFactorSetup,
+  TwoFactorStatus,
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes
+} from '@/services/twoFactorApi';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (axios.isAxiosError(error) && error.response?.data?.error) || fallback;
+
+export default function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [copied, setCopied] = useState(false);
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await getTwoFactorStatus());
+    } catch (error) {
+      console.error('Error loading two-factor status:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const handleStartSetup = async () => {
+    setWorking(true);
+    try {
+      setSetup(await setupTwoFactor());
+      setCode('');
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to start two-factor setup'), variant: 'destructive' });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setWorking(true);
+    try {
+      const data = await enableTwoFactor(code);
+      setRecoveryCodes(data.recoveryCodes);
+      setSetup(null);
+      setCode('');
+      await loadStatus();
+      toast({ title: 'Two-factor authentication enabled', description: 'Save your recovery codes somewhere safe.' });
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to enable two-factor authentication'), variant: 'destructive' });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!window.confirm('Turn off two-factor authentication? Your account will only be protected by your password.')) return;
+    setWorking(true);
+    try {
+      await disableTwoFactor(password);
+      setPassword('');
+      setRecoveryCodes([]);
+      await loadStatus();
+      toast({ title: 'Two-factor authentication disabled' });
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to disable two-factor authentication'), variant: 'destructive' });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!window.confirm('Generate new recovery codes? Your old codes will stop working.')) return;
+    setWorking(true);
+    try {
+      const data = await regenerateRecoveryCodes(password);
+      setRecoveryCodes(data.recoveryCodes);
+      setPassword('');
+      await loadStatus();
+      toast({ title: 'New recovery codes generated' });
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to regenerate recovery codes'), variant: 'destructive' });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast({ title: 'Copy failed', description: 'Select the codes and copy them manually', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ShieldCheck className="h-5 w-5" />
+          <span>Two-factor Authentication</span>
+          {status?.enabled && <Badge variant="secondary">On</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app (Google Authenticator, Microsoft Authenticator, Authy) when you sign in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {recoveryCodes.length > 0 && (
+              <div className="space-y-3 rounded-md border border-amber-300 bg-amber-50 p-4">
+                <div>
+                  <h4 className="font-medium">Recovery codes</h4>
+                  <p className="text-xs text-muted-foreground">
+                    Each code signs you in once if you lose your phone. They won&apos;t be shown again.
+                  </p>
+                </div>
+                <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                  {recoveryCodes.map(recoveryCode => (
+                    <span key={recoveryCode}>{recoveryCode}</span>
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" size="sm" onClick={handleCopyCodes}>
+                    {copied ? <Check className="h-4 w-4 mr-2 text-green-600" /> : <Copy className="h-4 w-4 mr-2" />}
+                    Copy codes
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setRecoveryCodes([])}>
+                    I&apos;ve saved them
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {status?.enabled ? (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  {status.enabledAt && `Enabled ${new Date(status.enabledAt).toLocaleDateString()}. `}
+                  {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left.
+                </p>
+                <div className="space-y-2">
+                  <Label htmlFor="twoFactorPassword">Password</Label>
+                  <Input
+                    id="twoFactorPassword"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="Enter your password to make changes"
+                    className="sm:w-72"
+                  />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" size="sm" onClick={handleRegenerate} disabled={working || !password}>
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    New recovery codes
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleDisable} disabled={working || !password} className="text-red-600 hover:text-red-700">
+                    Turn off
+                  </Button>
+                </div>
+              </div>
+            ) : setup ? (
+              <form onSubmit={handleEnable} className="space-y-4">
+                <p className="text-sm">Scan this QR code with your authenticator app, then enter the 6-digit code it shows.</p>
+                <div className="inline-block rounded-md border bg-white p-3">
+                  <QRCodeSVG value={setup.otpauthUrl} size={176} />
+                </div>
+                <div className="space-y-1">
+                  <Label>Can&apos;t scan? Enter this key instead</Label>
+                  <p className="font-mono text-sm break-all">{setup.secret.match(/.{1,4}/g)?.join(' ')}</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="twoFactorCode">Verification code</Label>
+                  <Input
+                    id="twoFactorCode"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    maxLength={6}
+                    value={code}
+                    onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                    placeholder="123456"
+                    className="sm:w-40 font-mono"
+                  />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button type="submit" disabled={working || code.length !== 6}>
+                    {working && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Verify and turn on
+                  </Button>
+                  <Button type="button" variant="ghost" onClick={() => setSetup(null)} disabled={working}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            ) : (
+              <Button onClick={handleStartSetup} disabled={working}>
+                {working ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <KeyRound className="h-4 w-4 mr-2" />}
+                Set up two-factor authentication
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
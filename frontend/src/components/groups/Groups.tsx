@@ -211,23 +211,6 @@ const Groups = () => {
         }
     };
 
-    const handleComment = async (postId: string, content: string) => {
-        try {
-            const response = await postsApi.commentOnPost(postId, { content });
-            setGroupPosts(prev => prev.map(p => {
-                if (p._id === postId) {
-                    return {
-                        ...p,
-                        comments: [...(p.comments || []), response.comment]
-                    };
-                }
-                return p;
-            }));
-        } catch (error) {
-            toast({ title: "Error", description: "Failed to add comment", variant: "destructive" });
-        }
-    };
-
     const handlePollVote = async (postId: string, optionId: string) => {
         try {
             const data = await postsApi.voteOnPollOption(postId, optionId);
@@ -629,12 +612,11 @@ const Groups = () => {
                                                     post={post}
                                                     user={user}
                                                     onLike={handleLike}
-                                                    onComment={handleComment}
                                                     onDelete={handleDeletePost}
                                                     onPollVote={handlePollVote}
                                                     showComments={true}
                                                     onToggleComments={() => { }}
-                                                    commentsCount={post.comments?.length || 0}
+                                                    commentsCount={post.commentCount || 0}
                                                     isLiked={post.likes?.some((l: any) => (l._id || l) === user?._id)}
                                                     showDeleteButton={isUserAdmin(selectedGroup) || post.author?._id === user?._id}
                                                 />
@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { cn } from '../../lib/utils';
+import { LayoutGrid, Shuffle, Send, Timer, X, LogIn } from 'lucide-react';
+
+// Breakout state as broadcast by the backend /meetings namespace
+export interface BreakoutState {
+  open: boolean;
+  recallAt: number | null;
+  assignments: { [userId: string]: string };
+  rooms: { id: string; name: string; participantIds: string[] }[];
+}
+
+interface BreakoutParticipant {
+  id: string;
+  userId: string;
+  username: string;
+  isHost: boolean;
+  isCoHost: boolean;
+}
+
+interface BreakoutRoomsPanelProps {
+  breakout: BreakoutState | null;
+  participants: BreakoutParticipant[];
+  currentBreakoutId: string | null;
+  secondsLeft: number | null;
+  isMobile: boolean;
+  onCreate: (count: number) => void;
+  onAssign: (userId: string, breakoutId: string | null) => void;
+  onAssignRandom: () => void;
+  onOpen: () => void;
+  onJoin: (breakoutId: string | null) => void;
+  onBroadcast: (text: string) => void;
+  onRecall: (seconds: number) => void;
+  onClose: () => void;
+}
+
+const MAIN_ROOM = 'main';
+
+const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+export default function BreakoutRoomsPanel({
+  breakout,
+  participants,
+  currentBreakoutId,
+  secondsLeft,
+  isMobile,
+  onCreate,
+  onAssign,
+  onAssignRandom,
+  onOpen,
+  onJoin,
+  onBroadcast,
+  onRecall,
+  onClose
+}: BreakoutRoomsPanelProps) {
+  const [roomCount, setRoomCount] = useState('2');
+  const [broadcastText, setBroadcastText] = useState('');
+  const [recallSeconds, setRecallSeconds] = useState('60');
+
+  // One row per person; extra sessions of the same user share an assignment
+  const people = participants.filter((p, index, all) =>
+    !p.isHost && all.findIndex(other => other.userId === p.userId) === index);
+
+  const sendBroadcast = () => {
+    if (!broadcastText.trim()) return;
+    onBroadcast(broadcastText.trim());
+    setBroadcastText('');
+  };
+
+  return (
+    <div className={cn(
+      "fixed bg-gray-800 border-gray-600 flex flex-col z-[60] shadow-2xl transition-all duration-300",
+      isMobile
+        ? "inset-0 w-full rounded-none"
+        : "right-6 top-6 bottom-24 w-96 rounded-lg border"
+    )}>
+      <div className="p-4 border-b border-gray-600 flex justify-between items-center bg-gray-700/50">
+        <h3 className="font-semibold text-lg flex items-center gap-2">
+          <LayoutGrid className="w-5 h-5 text-purple-400" />
+          Breakout Rooms
+        </h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onClose}
+          className="h-8 w-8 hover:bg-gray-600 rounded-full"
+        >
+          <X />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {(!breakout || !breakout.open) && (
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              min={1}
+              max={50}
+              value={roomCount}
+              onChange={(e) => setRoomCount(e.target.value)}
+              className="w-20 bg-gray-700 border-gray-600 text-white"
+            />
+            <Button variant="secondary" className="flex-1" onClick={() => onCreate(parseInt(roomCount, 10) || 1)}>
+              {breakout ? 'Recreate rooms' : 'Create rooms'}
+            </Button>
+          </div>
+        )}
+
+        {breakout && (
+          <>
+            <div className="space-y-2">
+              {breakout.rooms.map((room) => (
+                <div key={room.id} className="p-3 rounded-xl bg-gray-700/50 space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">{room.name}</span>
+                    {breakout.open && room.id !== currentBreakoutId && (
+                      <Button variant="ghost" size="sm" className="h-7 text-xs gap-1" onClick={() => onJoin(room.id)}>
+                        <LogIn className="w-3 h-3" /> Join
+                      </Button>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-400">
+                    {breakout.open
+                      ? (room.participantIds
+                        .map(id => participants.find(p => p.id === id)?.username)
+                        .filter(Boolean)
+                        .join(', ') || 'Empty')
+                      : `${Object.values(breakout.assignments).filter(id => id === room.id).length} assigned`}
+                  </div>
+                </div>
+              ))}
+              {breakout.open && currentBreakoutId && (
+                <Button variant="ghost" size="sm" className="w-full text-xs" onClick={() => onJoin(null)}>
+                  Return to main room
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-semibold uppercase text-gray-400">Assignments</span>
+                <Button variant="ghost" size="sm" className="h-7 text-xs gap-1" onClick={onAssignRandom}>
+                  <Shuffle className="w-3 h-3" /> Assign randomly
+                </Button>
+              </div>
+              {people.length === 0 ? (
+                <p className="text-xs text-gray-400">No one to assign yet.</p>
+              ) : (
+                people.map((participant) => (
+                  <div key={participant.userId} className="flex items-center gap-2">
+                    <span className="flex-1 text-sm truncate">{participant.username}</span>
+                    <Select
+                      value={breakout.assignments[participant.userId] || MAIN_ROOM}
+                      onValueChange={(value) => onAssign(participant.userId, value === MAIN_ROOM ? null : value)}
+                    >
+                      <SelectTrigger className="w-36 h-8 bg-gray-700 border-gray-600 text-white text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="z-[70]">
+                        <SelectItem value={MAIN_ROOM}>Main room</SelectItem>
+                        {breakout.rooms.map((room) => (
+                          <SelectItem key={room.id} value={room.id}>{room.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {breakout && (
+        <div className="p-4 border-t border-gray-600 bg-gray-700/30 space-y-3">
+          {!breakout.open ? (
+            <Button onClick={onOpen} className="w-full rounded-xl bg-purple-600 hover:bg-purple-500">
+              Open rooms
+            </Button>
+          ) : (
+            <>
+              <div className="flex gap-2">
+                <Input
+                  value={broadcastText}
+                  onChange={(e) => setBroadcastText(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && sendBroadcast()}
+                  placeholder="Message all rooms..."
+                  className="flex-1 bg-gray-700 border-gray-600 text-white rounded-xl"
+                />
+                <Button onClick={sendBroadcast} size="icon" className="w-10 h-10 rounded-xl shrink-0">
+                  <Send className="w-4 h-4" />
+                </Button>
+              </div>
+              {secondsLeft !== null ? (
+                <div className="flex items-center justify-center gap-2 text-sm text-yellow-400">
+                  <Timer className="w-4 h-4" /> Closing in {formatCountdown(secondsLeft)}
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    max={300}
+                    value={recallSeconds}
+                    onChange={(e) => setRecallSeconds(e.target.value)}
+                    className="w-20 bg-gray-700 border-gray-600 text-white"
+                    title="Countdown in seconds"
+                  />
+                  <Button variant="destructive" className="flex-1 gap-2" onClick={() => onRecall(parseInt(recallSeconds, 10) || 0)}>
+                    <Timer className="w-4 h-4" /> Recall everyone
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
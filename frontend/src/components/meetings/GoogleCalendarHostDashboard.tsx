@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { useSearchParams } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Label } from '../ui/label';
@@ -21,11 +21,14 @@ import {
   RefreshCw,
   CheckCircle,
   AlertCircle,
-  LogOut
+  LogOut,
+  CalendarPlus,
+  FileText
 } from 'lucide-react';
 import api from '../../services/api';
 import { cn } from '../../lib/utils';
 import { completeMeeting, downloadAttendancePdf, logJoin, logLeave } from '../../services/attendanceApi';
+import { downloadIcs } from '../../services/calendarFeedApi';
 
 interface Meeting {
   id: string;
@@ -71,6 +74,7 @@ const GoogleCalendarHostDashboard: React.FC = () => {
   const { user, loginWithGoogle, updateUser } = useAuth();
   const { toast } = useToast();
   const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
 
   const [meetings, setMeetings] = useState<Meeting[]>([]);
   const [loading, setLoading] = useState(false);
@@ -896,6 +900,31 @@ const GoogleCalendarHostDashboard: React.FC = () => {
                         </Button>
                       )}
 
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => downloadIcs(`/api/meetings/${meeting.id}/ics`, meeting.title).catch(() => {
+                          toast({ title: 'Error', description: 'Failed to export meeting', variant: 'destructive' });
+                        })}
+                        className="gap-1 flex-1 sm:flex-none text-xs h-8"
+                        title="Download .ics file"
+                      >
+                        <CalendarPlus className="h-3.5 w-3.5" />
+                        .ics
+                      </Button>
+
+                      {getMeetingStatus(meeting) === 'ended' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => navigate(`/meeting/${meeting.id}/summary`)}
+                          className="gap-1 flex-1 sm:flex-none text-xs h-8"
+                        >
+                          <FileText className="h-3.5 w-3.5" />
+                          Summary
+                        </Button>
+                      )}
+
                       {user && (user._id?.toString() === (meeting as any).host_id?.toString() || user._id?.toString() === (meeting as any).createdBy?.toString()) && (
                         <Button
                           variant="ghost"
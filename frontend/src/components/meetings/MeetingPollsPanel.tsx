@@ -0,0 +1,300 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { cn } from '../../lib/utils';
+import { BarChart3, CheckCircle2, Download, Plus, Timer, Trash2, X } from 'lucide-react';
+
+// Poll or quiz as broadcast by the backend /meetings namespace
+export interface MeetingPoll {
+  id: string;
+  type: 'poll' | 'quiz';
+  question: string;
+  createdByName: string;
+  options: { id: string; text: string; count: number }[];
+  totalAnswers: number;
+  endsAt: number | null;
+  closed: boolean;
+  correctOptionId: string | null;
+}
+
+export interface NewMeetingPoll {
+  type: 'poll' | 'quiz';
+  question: string;
+  options: string[];
+  correctOption?: number;
+  durationSeconds?: number;
+}
+
+interface MeetingPollsPanelProps {
+  polls: MeetingPoll[];
+  myAnswers: { [pollId: string]: string };
+  canModerate: boolean;
+  isMobile: boolean;
+  onCreate: (poll: NewMeetingPoll) => void;
+  onAnswer: (pollId: string, optionId: string) => void;
+  onClosePoll: (pollId: string) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const MAX_OPTIONS = 10;
+
+export default function MeetingPollsPanel({
+  polls,
+  myAnswers,
+  canModerate,
+  isMobile,
+  onCreate,
+  onAnswer,
+  onClosePoll,
+  onExport,
+  onClose
+}: MeetingPollsPanelProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [type, setType] = useState<'poll' | 'quiz'>('poll');
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState(['', '']);
+  const [correctOption, setCorrectOption] = useState(0);
+  const [duration, setDuration] = useState('60');
+  const [now, setNow] = useState(Date.now());
+
+  // Tick quiz countdowns while any quiz is running
+  const hasRunningQuiz = polls.some(poll => !poll.closed && poll.endsAt);
+  useEffect(() => {
+    if (!hasRunningQuiz) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasRunningQuiz]);
+
+  const filledOptions = options.map(option => option.trim()).filter(Boolean);
+  const canLaunch = question.trim() && filledOptions.length >= 2 && (type === 'poll' || options[correctOption]?.trim());
+
+  const resetForm = () => {
+    setIsCreating(false);
+    setType('poll');
+    setQuestion('');
+    setOptions(['', '']);
+    setCorrectOption(0);
+    setDuration('60');
+  };
+
+  const launch = () => {
+    if (!canLaunch) return;
+    onCreate({
+      type,
+      question: question.trim(),
+      options: filledOptions,
+      // Index among the non-empty options, which is what the server receives
+      correctOption: type === 'quiz' ? options.slice(0, correctOption).filter(option => option.trim()).length : undefined,
+      durationSeconds: type === 'quiz' ? parseInt(duration, 10) || 60 : undefined
+    });
+    resetForm();
+  };
+
+  const removeOption = (index: number) => {
+    setOptions(options.filter((_, i) => i !== index));
+    if (correctOption >= index && correctOption > 0) setCorrectOption(correctOption - 1);
+  };
+
+  // Newest first
+  const orderedPolls = [...polls].reverse();
+
+  return (
+    <div className={cn(
+      "fixed bg-gray-800 border-gray-600 flex flex-col z-[60] shadow-2xl transition-all duration-300",
+      isMobile
+        ? "inset-0 w-full rounded-none"
+        : "right-6 top-6 bottom-24 w-96 rounded-lg border"
+    )}>
+      <div className="p-4 border-b border-gray-600 flex justify-between items-center bg-gray-700/50">
+        <h3 className="font-semibold text-lg flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-green-400" />
+          Polls & Quizzes
+        </h3>
+        <div className="flex items-center gap-1">
+          {canModerate && polls.length > 0 && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onExport}
+              className="h-8 w-8 hover:bg-gray-600 rounded-full"
+              title="Download results (Excel)"
+            >
+              <Download className="w-4 h-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onClose}
+            className="h-8 w-8 hover:bg-gray-600 rounded-full"
+          >
+            <X />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {canModerate && (isCreating ? (
+          <div className="p-3 rounded-xl bg-gray-700/50 space-y-3">
+            <div className="flex gap-2">
+              {(['poll', 'quiz'] as const).map((value) => (
+                <Button
+                  key={value}
+                  variant={type === value ? "default" : "secondary"}
+                  size="sm"
+                  className="flex-1 capitalize"
+                  onClick={() => setType(value)}
+                >
+                  {value}
+                </Button>
+              ))}
+            </div>
+            <Input
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              placeholder="Ask a question..."
+              maxLength={300}
+              className="bg-gray-700 border-gray-600 text-white"
+            />
+            {options.map((option, index) => (
+              <div key={index} className="flex items-center gap-2">
+                {type === 'quiz' && (
+                  <input
+                    type="radio"
+                    name="correct-option"
+                    checked={correctOption === index}
+                    onChange={() => setCorrectOption(index)}
+                    title="Correct answer"
+                    className="accent-green-500"
+                  />
+                )}
+                <Input
+                  value={option}
+                  onChange={(e) => setOptions(options.map((o, i) => (i === index ? e.target.value : o)))}
+                  placeholder={`Option ${index + 1}`}
+                  maxLength={300}
+                  className="flex-1 h-8 bg-gray-700 border-gray-600 text-white text-sm"
+                />
+                {options.length > 2 && (
+                  <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => removeOption(index)}>
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {options.length < MAX_OPTIONS && (
+              <Button variant="ghost" size="sm" className="w-full text-xs gap-1" onClick={() => setOptions([...options, ''])}>
+                <Plus className="w-3 h-3" /> Add option
+              </Button>
+            )}
+            {type === 'quiz' && (
+              <div className="flex items-center gap-2 text-sm text-gray-300">
+                <Timer className="w-4 h-4" />
+                <Input
+                  type="number"
+                  min={10}
+                  max={600}
+                  value={duration}
+                  onChange={(e) => setDuration(e.target.value)}
+                  className="w-20 h-8 bg-gray-700 border-gray-600 text-white"
+                />
+                seconds to answer
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button variant="secondary" className="flex-1" onClick={resetForm}>
+                Cancel
+              </Button>
+              <Button className="flex-1 bg-green-600 hover:bg-green-500" disabled={!canLaunch} onClick={launch}>
+                Launch
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="secondary" className="w-full gap-2" onClick={() => setIsCreating(true)}>
+            <Plus className="w-4 h-4" /> New poll or quiz
+          </Button>
+        ))}
+
+        {orderedPolls.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center">No polls yet.</p>
+        ) : (
+          orderedPolls.map((poll) => {
+            const myAnswer = myAnswers[poll.id];
+            const secondsLeft = poll.endsAt && !poll.closed ? Math.max(0, Math.ceil((poll.endsAt - now) / 1000)) : null;
+            const isOpen = !poll.closed && secondsLeft !== 0;
+            // Quiz results stay hidden until the quiz closes, so answers can't be copied
+            const showResults = poll.type === 'poll' || poll.closed || canModerate;
+
+            return (
+              <div key={poll.id} className="p-3 rounded-xl bg-gray-700/50 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <span className={cn(
+                      "text-[10px] font-semibold uppercase",
+                      poll.type === 'quiz' ? "text-purple-400" : "text-green-400"
+                    )}>
+                      {poll.type}
+                    </span>
+                    <p className="text-sm font-medium">{poll.question}</p>
+                  </div>
+                  {secondsLeft !== null && isOpen && (
+                    <span className="flex items-center gap-1 text-xs text-yellow-400 shrink-0">
+                      <Timer className="w-3 h-3" /> {secondsLeft}s
+                    </span>
+                  )}
+                </div>
+
+                {poll.options.map((option) => {
+                  const percent = poll.totalAnswers ? Math.round((option.count / poll.totalAnswers) * 100) : 0;
+                  const isCorrect = poll.correctOptionId === option.id;
+
+                  return (
+                    <button
+                      key={option.id}
+                      disabled={!isOpen || !!myAnswer}
+                      onClick={() => onAnswer(poll.id, option.id)}
+                      className={cn(
+                        "relative w-full text-left text-sm rounded-lg border px-3 py-2 overflow-hidden transition-colors",
+                        myAnswer === option.id ? "border-blue-400" : "border-gray-600",
+                        isCorrect && "border-green-500",
+                        isOpen && !myAnswer && "hover:bg-gray-600"
+                      )}
+                    >
+                      {showResults && (
+                        <div
+                          className={cn("absolute inset-y-0 left-0", isCorrect ? "bg-green-600/30" : "bg-blue-600/20")}
+                          style={{ width: `${percent}%` }}
+                        />
+                      )}
+                      <span className="relative flex items-center justify-between gap-2">
+                        <span className="flex items-center gap-1">
+                          {isCorrect && <CheckCircle2 className="w-3 h-3 text-green-400" />}
+                          {option.text}
+                        </span>
+                        {showResults && <span className="text-xs text-gray-300">{percent}%</span>}
+                      </span>
+                    </button>
+                  );
+                })}
+
+                <div className="flex items-center justify-between text-xs text-gray-400">
+                  <span>
+                    {poll.totalAnswers} {poll.totalAnswers === 1 ? 'answer' : 'answers'}
+                    {poll.closed ? ' · Closed' : ''}
+                  </span>
+                  {canModerate && !poll.closed && (
+                    <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => onClosePoll(poll.id)}>
+                      End {poll.type}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import TagInput from '@/components/ui/TagInput';
+import { Loader2, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { MentorAvailability, updateMentorAvailability } from '@/services/mentorshipApi';
+
+interface MentorAvailabilityCardProps {
+  availability: MentorAvailability;
+  onSaved: (availability: MentorAvailability) => void;
+}
+
+const MentorAvailabilityCard: React.FC<MentorAvailabilityCardProps> = ({ availability, onSaved }) => {
+  const { toast } = useToast();
+  const [offering, setOffering] = useState(availability.offering);
+  const [areas, setAreas] = useState<string[]>(availability.areas);
+  const [capacity, setCapacity] = useState(String(availability.capacity));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setOffering(availability.offering);
+    setAreas(availability.areas);
+    setCapacity(String(availability.capacity));
+  }, [availability]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saved = await updateMentorAvailability({ offering, areas, capacity: parseInt(capacity) || availability.capacity });
+      onSaved(saved);
+      toast({ title: 'Mentoring preferences saved' });
+    } catch (error) {
+      const { response } = error as { response?: { data?: { error?: string } } };
+      toast({ title: 'Error', description: response?.data?.error || 'Failed to save preferences', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <CardTitle className="text-lg">Mentoring</CardTitle>
+            <CardDescription>
+              {availability.activeMentees} of {availability.capacity} mentee slots in use. Students can find you by the areas below.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="mentorship-offering" checked={offering} onCheckedChange={setOffering} />
+            <Label htmlFor="mentorship-offering" className="text-sm">Accepting mentees</Label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-[1fr_10rem]">
+          <div className="space-y-2">
+            <Label htmlFor="mentorship-areas">Areas you can help with</Label>
+            <TagInput
+              id="mentorship-areas"
+              values={areas}
+              onChange={setAreas}
+              placeholder="e.g. Interview prep, Data Science, Higher studies"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mentorship-capacity">Max mentees</Label>
+            <Input
+              id="mentorship-capacity"
+              type="number"
+              min={1}
+              max={20}
+              value={capacity}
+              onChange={(e) => setCapacity(e.target.value)}
+            />
+          </div>
+        </div>
+        <Button onClick={handleSave} disabled={saving} size="sm">
+          {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          Save
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MentorAvailabilityCard;
@@ -0,0 +1,108 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Send } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Mentor, Mentorship, requestMentorship } from '@/services/mentorshipApi';
+
+interface MentorRequestDialogProps {
+  open: boolean;
+  onClose: () => void;
+  mentor: Mentor;
+  onRequested: (mentorship: Mentorship) => void;
+}
+
+const ANY_AREA = '__any';
+
+const MentorRequestDialog: React.FC<MentorRequestDialogProps> = ({ open, onClose, mentor, onRequested }) => {
+  const { toast } = useToast();
+  const [area, setArea] = useState(ANY_AREA);
+  const [message, setMessage] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const areas = mentor.alumniInfo?.mentorshipAreas || [];
+
+  useEffect(() => {
+    if (open) {
+      setArea(ANY_AREA);
+      setMessage('');
+    }
+  }, [open]);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const mentorship = await requestMentorship(mentor._id, message.trim(), area === ANY_AREA ? undefined : area);
+      toast({ title: 'Request sent', description: `${mentor.name} will be notified of your request.` });
+      onRequested(mentorship);
+      onClose();
+    } catch (error) {
+      const { response } = error as { response?: { data?: { error?: string } } };
+      toast({
+        title: 'Could not send request',
+        description: response?.data?.error || 'Please try again later.',
+        variant: 'destructive'
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen && !submitting) onClose(); }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Ask {mentor.name} to mentor you</DialogTitle>
+          <DialogDescription>
+            {[mentor.alumniInfo?.jobTitle, mentor.alumniInfo?.currentCompany].filter(Boolean).join(' at ') || 'Alumni mentor'}
+            {` • ${mentor.openSlots} open slot${mentor.openSlots === 1 ? '' : 's'}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {areas.length > 0 && (
+            <div className="space-y-2">
+              <Label>Area</Label>
+              <Select value={area} onValueChange={setArea}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_AREA}>General guidance</SelectItem>
+                  {areas.map(a => (
+                    <SelectItem key={a} value={a}>{a}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="mentorship-goals">Your goals</Label>
+            <Textarea
+              id="mentorship-goals"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="What would you like to work on, and what does success look like for you?"
+              rows={5}
+              maxLength={2000}
+            />
+            <p className="text-xs text-muted-foreground text-right">{message.length}/2000</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={submitting}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={submitting || !message.trim()}>
+            {submitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+            Send request
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MentorRequestDialog;
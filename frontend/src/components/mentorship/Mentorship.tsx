@@ -0,0 +1,435 @@
+import { useState, useEffect, useCallback, ReactNode } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Briefcase, Check, ChevronLeft, ChevronRight, Loader2, Search, Sparkles, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import MentorRequestDialog from "./MentorRequestDialog";
+import MentorAvailabilityCard from "./MentorAvailabilityCard";
+import MentorshipWorkspace from "./MentorshipWorkspace";
+import {
+  Mentor,
+  MentorFilters,
+  MentorSuggestion,
+  Mentorship as MentorshipRecord,
+  MyMentorships,
+  cancelMentorshipRequest,
+  getMentors,
+  getMentorshipStatusMeta,
+  getMyMentorships,
+  getSuggestedMentors,
+  respondToMentorship
+} from "@/services/mentorshipApi";
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (error as { response?: { data?: { error?: string } } }).response?.data?.error || fallback;
+
+interface MentorCardProps {
+  mentor: Mentor;
+  reasons?: string[];
+  canRequest: boolean;
+  onRequest: (mentor: Mentor) => void;
+}
+
+function MentorCard({ mentor, reasons, canRequest, onRequest }: MentorCardProps) {
+  const role = [mentor.alumniInfo?.jobTitle, mentor.alumniInfo?.currentCompany].filter(Boolean).join(" at ");
+  return (
+    <Card className="flex flex-col">
+      <CardContent className="p-4 flex-1 flex flex-col gap-3">
+        <div className="flex items-start gap-3">
+          <Avatar className="h-12 w-12">
+            <AvatarImage src={mentor.avatar} />
+            <AvatarFallback>{mentor.name.charAt(0)}</AvatarFallback>
+          </Avatar>
+          <div className="min-w-0">
+            <p className="font-semibold truncate">{mentor.name}</p>
+            {role && <p className="text-sm text-muted-foreground truncate">{role}</p>}
+            <p className="text-xs text-muted-foreground">
+              {[mentor.alumniInfo?.originalDepartment || mentor.department, mentor.batch && `Batch ${mentor.batch}`].filter(Boolean).join(" • ")}
+            </p>
+          </div>
+        </div>
+        {(mentor.alumniInfo?.mentorshipAreas || []).length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {mentor.alumniInfo?.mentorshipAreas?.map(area => (
+              <Badge key={area} variant="secondary" className="text-xs">{area}</Badge>
+            ))}
+          </div>
+        )}
+        {reasons && reasons.length > 0 && (
+          <ul className="text-xs text-muted-foreground space-y-1">
+            {reasons.map(reason => (
+              <li key={reason} className="flex items-start gap-1">
+                <Sparkles className="h-3 w-3 mt-0.5 text-primary shrink-0" />
+                {reason}
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="mt-auto flex items-center justify-between gap-2 pt-2">
+          <span className="text-xs text-muted-foreground">
+            {mentor.openSlots > 0 ? `${mentor.openSlots} of ${mentor.capacity} slots open` : "Fully booked"}
+          </span>
+          {canRequest && (
+            <Button size="sm" onClick={() => onRequest(mentor)} disabled={mentor.openSlots === 0}>
+              Request
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface MentorshipRowProps {
+  mentorship: MentorshipRecord;
+  other: MentorshipRecord["mentor"];
+  children?: ReactNode;
+  onOpen?: () => void;
+}
+
+function MentorshipRow({ mentorship, other, children, onOpen }: MentorshipRowProps) {
+  const statusMeta = getMentorshipStatusMeta(mentorship.status);
+  const upcoming = mentorship.sessions
+    .filter(s => s.status === "scheduled" && new Date(s.scheduledAt) > new Date())
+    .sort((a, b) => new Date(a.scheduledAt).getTime() - new Date(b.scheduledAt).getTime())[0];
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <button type="button" className="flex items-center gap-3 text-left disabled:cursor-default" onClick={onOpen} disabled={!onOpen}>
+            <Avatar className="h-10 w-10">
+              <AvatarImage src={other.avatar} />
+              <AvatarFallback>{other.name.charAt(0)}</AvatarFallback>
+            </Avatar>
+            <div>
+              <p className="font-medium flex items-center gap-2">
+                {other.name}
+                <Badge className={statusMeta.className}>{statusMeta.label}</Badge>
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {mentorship.area || "General guidance"}
+                {upcoming && ` • Next session ${new Date(upcoming.scheduledAt).toLocaleString([], { dateStyle: "medium", timeStyle: "short" })}`}
+                {!upcoming && ` • Requested ${new Date(mentorship.createdAt).toLocaleDateString()}`}
+              </p>
+            </div>
+          </button>
+          <div className="flex gap-2">{children}</div>
+        </div>
+        {mentorship.status === "pending" && (
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap line-clamp-4">{mentorship.requestMessage}</p>
+        )}
+        {mentorship.status === "declined" && mentorship.responseNote && (
+          <p className="text-sm text-muted-foreground">"{mentorship.responseNote}"</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Mentorship() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isAlumni = user?.type === "alumni";
+  const isStudent = user?.type === "student";
+
+  const [mine, setMine] = useState<MyMentorships>({ asMentor: [], asMentee: [], availability: null });
+  const [loading, setLoading] = useState(true);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const [suggestions, setSuggestions] = useState<MentorSuggestion[]>([]);
+  const [mentors, setMentors] = useState<Mentor[]>([]);
+  const [filters, setFilters] = useState<MentorFilters>({ page: 1 });
+  const [totalPages, setTotalPages] = useState(1);
+  const [searching, setSearching] = useState(false);
+  const [requestTarget, setRequestTarget] = useState<Mentor | null>(null);
+
+  const [declining, setDeclining] = useState<string | null>(null);
+  const [declineNote, setDeclineNote] = useState("");
+  const [working, setWorking] = useState<string | null>(null);
+
+  const loadMine = useCallback(async () => {
+    try {
+      setMine(await getMyMentorships());
+    } catch (error) {
+      toast({ title: "Error", description: errorMessage(error, "Failed to load mentorships"), variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  const loadMentors = useCallback(async (next: MentorFilters) => {
+    setSearching(true);
+    try {
+      const result = await getMentors(next);
+      setMentors(result.mentors);
+      setTotalPages(Math.max(1, result.totalPages));
+    } catch (error) {
+      toast({ title: "Error", description: errorMessage(error, "Failed to load mentors"), variant: "destructive" });
+    } finally {
+      setSearching(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadMine();
+    if (!isAlumni) {
+      loadMentors({ page: 1 });
+      if (isStudent) {
+        getSuggestedMentors().then(setSuggestions).catch(() => setSuggestions([]));
+      }
+    }
+  }, [isAlumni, isStudent, loadMine, loadMentors]);
+
+  const applyFilters = (page = 1) => {
+    const next = { ...filters, page };
+    setFilters(next);
+    loadMentors(next);
+  };
+
+  const handleRequested = () => {
+    setSuggestions(prev => prev.filter(s => s.mentor._id !== requestTarget?._id));
+    // The request endpoint returns ids only; reload to get the populated record
+    loadMine();
+  };
+
+  const handleCancel = async (id: string) => {
+    setWorking(id);
+    try {
+      await cancelMentorshipRequest(id);
+      await loadMine();
+      toast({ title: "Request withdrawn" });
+    } catch (error) {
+      toast({ title: "Error", description: errorMessage(error, "Failed to withdraw request"), variant: "destructive" });
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleRespond = async (id: string, accept: boolean) => {
+    setWorking(id);
+    try {
+      await respondToMentorship(id, accept, accept ? undefined : declineNote.trim() || undefined);
+      await loadMine();
+      setDeclining(null);
+      setDeclineNote("");
+      toast({ title: accept ? "Mentorship accepted" : "Request declined" });
+    } catch (error) {
+      toast({ title: "Error", description: errorMessage(error, "Failed to respond to request"), variant: "destructive" });
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleChanged = (updated: MentorshipRecord) => {
+    const replace = (list: MentorshipRecord[]) => list.map(m => (m._id === updated._id ? { ...m, ...updated } : m));
+    setMine(prev => ({ ...prev, asMentor: replace(prev.asMentor), asMentee: replace(prev.asMentee) }));
+  };
+
+  const closeWorkspace = useCallback(() => {
+    setOpenId(null);
+    loadMine();
+  }, [loadMine]);
+
+  if (openId) {
+    return (
+      <div className="container mx-auto px-2 sm:px-4 py-4 sm:py-8">
+        <MentorshipWorkspace mentorshipId={openId} onBack={closeWorkspace} onChanged={handleChanged} />
+      </div>
+    );
+  }
+
+  const pendingRequests = mine.asMentor.filter(m => m.status === "pending");
+  const mentees = mine.asMentor.filter(m => m.status !== "pending");
+
+  const emptyState = (text: string) => (
+    <Card>
+      <CardContent className="py-10 text-center text-sm text-muted-foreground">{text}</CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="container mx-auto px-2 sm:px-4 py-4 sm:py-8 space-y-6">
+      <div className="flex flex-col space-y-2">
+        <h1 className="text-2xl sm:text-4xl font-bold tracking-tight bg-gradient-to-r from-primary to-primary/60 bg-clip-text text-transparent">
+          Mentorship
+        </h1>
+        <p className="text-base sm:text-lg text-muted-foreground">
+          {isAlumni ? "Guide students from your department and field" : "Get one-on-one guidance from alumni"}
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : isAlumni ? (
+        <>
+          {mine.availability && (
+            <MentorAvailabilityCard
+              availability={mine.availability}
+              onSaved={(availability) => setMine(prev => ({ ...prev, availability }))}
+            />
+          )}
+          <Tabs defaultValue="requests">
+            <TabsList>
+              <TabsTrigger value="requests">
+                Requests{pendingRequests.length > 0 && <Badge className="ml-2">{pendingRequests.length}</Badge>}
+              </TabsTrigger>
+              <TabsTrigger value="mentees">Mentees</TabsTrigger>
+            </TabsList>
+            <TabsContent value="requests" className="space-y-3">
+              {pendingRequests.length === 0 && emptyState("No pending requests.")}
+              {pendingRequests.map(m => (
+                <div key={m._id} className="space-y-2">
+                  <MentorshipRow mentorship={m} other={m.mentee}>
+                    <Button size="sm" onClick={() => handleRespond(m._id, true)} disabled={working === m._id}>
+                      <Check className="h-4 w-4 mr-1" /> Accept
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => { setDeclining(m._id); setDeclineNote(""); }} disabled={working === m._id}>
+                      <X className="h-4 w-4 mr-1" /> Decline
+                    </Button>
+                  </MentorshipRow>
+                  {declining === m._id && (
+                    <Card>
+                      <CardContent className="p-4 space-y-2">
+                        <Textarea
+                          rows={2}
+                          placeholder="Optional note to the student"
+                          value={declineNote}
+                          maxLength={500}
+                          onChange={(e) => setDeclineNote(e.target.value)}
+                        />
+                        <div className="flex gap-2">
+                          <Button size="sm" variant="destructive" onClick={() => handleRespond(m._id, false)} disabled={working === m._id}>
+                            Decline request
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setDeclining(null)}>Cancel</Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  )}
+                </div>
+              ))}
+            </TabsContent>
+            <TabsContent value="mentees" className="space-y-3">
+              {mentees.length === 0 && emptyState("You haven't mentored anyone yet.")}
+              {mentees.map(m => (
+                <MentorshipRow
+                  key={m._id}
+                  mentorship={m}
+                  other={m.mentee}
+                  onOpen={m.status === "active" || m.status === "closed" ? () => setOpenId(m._id) : undefined}
+                />
+              ))}
+            </TabsContent>
+          </Tabs>
+        </>
+      ) : (
+        <Tabs defaultValue="find">
+          <TabsList>
+            <TabsTrigger value="find">Find a mentor</TabsTrigger>
+            <TabsTrigger value="mine">My mentorships</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="find" className="space-y-6">
+            {suggestions.length > 0 && (
+              <div className="space-y-3">
+                <h2 className="text-lg font-semibold flex items-center gap-2">
+                  <Sparkles className="h-5 w-5 text-primary" />
+                  Suggested for you
+                </h2>
+                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                  {suggestions.map(s => (
+                    <MentorCard key={s.mentor._id} mentor={s.mentor} reasons={s.reasons} canRequest={isStudent} onRequest={setRequestTarget} />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <Search className="h-5 w-5" />
+                  Browse mentors
+                </CardTitle>
+                {!isStudent && <CardDescription>Only students can send mentorship requests.</CardDescription>}
+              </CardHeader>
+              <CardContent>
+                <form
+                  className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5"
+                  onSubmit={(e) => { e.preventDefault(); applyFilters(1); }}
+                >
+                  <Input placeholder="Name" value={filters.search || ""} onChange={(e) => setFilters({ ...filters, search: e.target.value })} />
+                  <Input placeholder="Area" value={filters.area || ""} onChange={(e) => setFilters({ ...filters, area: e.target.value })} />
+                  <Input placeholder="Company" value={filters.company || ""} onChange={(e) => setFilters({ ...filters, company: e.target.value })} />
+                  <Input placeholder="Department" value={filters.department || ""} onChange={(e) => setFilters({ ...filters, department: e.target.value })} />
+                  <Button type="submit" disabled={searching}>
+                    {searching ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+                    Search
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            {!searching && mentors.length === 0 && emptyState("No mentors match these filters.")}
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {mentors.map(mentor => (
+                <MentorCard key={mentor._id} mentor={mentor} canRequest={isStudent} onRequest={setRequestTarget} />
+              ))}
+            </div>
+            {totalPages > 1 && (
+              <div className="flex items-center justify-center gap-3">
+                <Button variant="outline" size="icon" disabled={searching || (filters.page || 1) <= 1} onClick={() => applyFilters((filters.page || 1) - 1)}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="text-sm text-muted-foreground">Page {filters.page || 1} of {totalPages}</span>
+                <Button variant="outline" size="icon" disabled={searching || (filters.page || 1) >= totalPages} onClick={() => applyFilters((filters.page || 1) + 1)}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="mine" className="space-y-3">
+            {mine.asMentee.length === 0 && emptyState("You haven't requested a mentor yet.")}
+            {mine.asMentee.map(m => (
+              <MentorshipRow
+                key={m._id}
+                mentorship={m}
+                other={m.mentor}
+                onOpen={m.status === "active" || m.status === "closed" ? () => setOpenId(m._id) : undefined}
+              >
+                {m.status === "pending" && (
+                  <Button size="sm" variant="outline" onClick={() => handleCancel(m._id)} disabled={working === m._id}>
+                    Withdraw
+                  </Button>
+                )}
+                {(m.status === "active" || m.status === "closed") && (
+                  <Button size="sm" variant="outline" onClick={() => setOpenId(m._id)}>
+                    <Briefcase className="h-4 w-4 mr-1" /> Open
+                  </Button>
+                )}
+              </MentorshipRow>
+            ))}
+          </TabsContent>
+        </Tabs>
+      )}
+
+      {requestTarget && (
+        <MentorRequestDialog
+          open={!!requestTarget}
+          mentor={requestTarget}
+          onClose={() => setRequestTarget(null)}
+          onRequested={handleRequested}
+        />
+      )}
+    </div>
+  );
+}
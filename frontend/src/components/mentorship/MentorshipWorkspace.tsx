@@ -0,0 +1,419 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowLeft, CalendarPlus, Check, Flag, Loader2, Plus, Star, Video, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  Mentorship,
+  MentorshipSession,
+  addMentorshipGoal,
+  addMentorshipNote,
+  closeMentorship,
+  getMentorship,
+  getMentorshipStatusMeta,
+  scheduleMentorshipSession,
+  updateMentorshipGoal,
+  updateMentorshipSession
+} from '@/services/mentorshipApi';
+
+interface MentorshipWorkspaceProps {
+  mentorshipId: string;
+  onBack: () => void;
+  onChanged: (mentorship: Mentorship) => void;
+}
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (error as { response?: { data?: { error?: string } } }).response?.data?.error || fallback;
+
+const MentorshipWorkspace: React.FC<MentorshipWorkspaceProps> = ({ mentorshipId, onBack, onChanged }) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [mentorship, setMentorship] = useState<Mentorship | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [goalText, setGoalText] = useState('');
+  const [noteText, setNoteText] = useState('');
+  const [sessionForm, setSessionForm] = useState({ scheduledAt: '', durationMinutes: '30', topic: '', meetingLink: '' });
+  const [showSessionForm, setShowSessionForm] = useState(false);
+  const [sessionNotes, setSessionNotes] = useState<Record<string, string>>({});
+  const [closeOpen, setCloseOpen] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [feedback, setFeedback] = useState('');
+  const [working, setWorking] = useState(false);
+
+  const loadMentorship = useCallback(async () => {
+    try {
+      setMentorship(await getMentorship(mentorshipId));
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to load mentorship'), variant: 'destructive' });
+      onBack();
+    } finally {
+      setLoading(false);
+    }
+  }, [mentorshipId, onBack, toast]);
+
+  useEffect(() => {
+    loadMentorship();
+  }, [loadMentorship]);
+
+  if (loading || !mentorship) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const isMentor = mentorship.mentor._id === user?._id;
+  const other = isMentor ? mentorship.mentee : mentorship.mentor;
+  const isActive = mentorship.status === 'active';
+  const statusMeta = getMentorshipStatusMeta(mentorship.status);
+  const myFeedback = mentorship.feedback.find(entry => entry.author === user?._id);
+  const sessions = [...mentorship.sessions].sort((a, b) => new Date(a.scheduledAt).getTime() - new Date(b.scheduledAt).getTime());
+
+  const update = (next: Mentorship) => {
+    setMentorship(next);
+    onChanged(next);
+  };
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setWorking(true);
+    try {
+      await action();
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, fallback), variant: 'destructive' });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleAddGoal = () => run(async () => {
+    const goal = await addMentorshipGoal(mentorship._id, goalText.trim());
+    update({ ...mentorship, goals: [...mentorship.goals, goal] });
+    setGoalText('');
+  }, 'Failed to add goal');
+
+  const handleToggleGoal = (goalId: string, done: boolean) => run(async () => {
+    const goal = await updateMentorshipGoal(mentorship._id, goalId, { done });
+    update({ ...mentorship, goals: mentorship.goals.map(g => (g._id === goalId ? goal : g)) });
+  }, 'Failed to update goal');
+
+  const handleAddNote = () => run(async () => {
+    const note = await addMentorshipNote(mentorship._id, noteText.trim());
+    update({ ...mentorship, notes: [...(mentorship.notes || []), note] });
+    setNoteText('');
+  }, 'Failed to add note');
+
+  const handleSchedule = () => run(async () => {
+    const session = await scheduleMentorshipSession(mentorship._id, {
+      scheduledAt: new Date(sessionForm.scheduledAt).toISOString(),
+      durationMinutes: parseInt(sessionForm.durationMinutes) || 30,
+      topic: sessionForm.topic.trim() || undefined,
+      meetingLink: sessionForm.meetingLink.trim() || undefined
+    });
+    update({ ...mentorship, sessions: [...mentorship.sessions, session] });
+    setSessionForm({ scheduledAt: '', durationMinutes: '30', topic: '', meetingLink: '' });
+    setShowSessionForm(false);
+    toast({ title: 'Session scheduled', description: `${other.name} has been notified.` });
+  }, 'Failed to schedule session');
+
+  const handleUpdateSession = (sessionId: string, data: Partial<MentorshipSession>) => run(async () => {
+    const session = await updateMentorshipSession(mentorship._id, sessionId, data);
+    update({ ...mentorship, sessions: mentorship.sessions.map(s => (s._id === sessionId ? session : s)) });
+  }, 'Failed to update session');
+
+  const handleClose = () => run(async () => {
+    const closed = await closeMentorship(mentorship._id, { rating: rating || undefined, comment: feedback.trim() || undefined });
+    // The close endpoint doesn't populate participants or notes; keep the ones already loaded
+    update({ ...mentorship, ...closed, mentor: mentorship.mentor, mentee: mentorship.mentee, notes: mentorship.notes });
+    setCloseOpen(false);
+    toast({ title: isActive ? 'Mentorship closed' : 'Feedback saved' });
+  }, 'Failed to close mentorship');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={onBack}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <Avatar className="h-10 w-10">
+            <AvatarImage src={other.avatar} />
+            <AvatarFallback>{other.name.charAt(0)}</AvatarFallback>
+          </Avatar>
+          <div>
+            <h2 className="text-xl font-semibold flex items-center gap-2">
+              {other.name}
+              <Badge className={statusMeta.className}>{statusMeta.label}</Badge>
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              {isMentor ? 'Your mentee' : 'Your mentor'}
+              {mentorship.area && ` • ${mentorship.area}`}
+              {mentorship.respondedAt && ` • Since ${new Date(mentorship.respondedAt).toLocaleDateString()}`}
+            </p>
+          </div>
+        </div>
+        {(isActive || (mentorship.status === 'closed' && !myFeedback)) && (
+          <Button variant="outline" onClick={() => setCloseOpen(true)}>
+            <Flag className="h-4 w-4 mr-2" />
+            {isActive ? 'Close mentorship' : 'Leave feedback'}
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Original request</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm whitespace-pre-wrap">{mentorship.requestMessage}</p>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Sessions */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-base">Sessions</CardTitle>
+                <CardDescription>{sessions.filter(s => s.status === 'completed').length} completed</CardDescription>
+              </div>
+              {isActive && (
+                <Button size="sm" variant="outline" onClick={() => setShowSessionForm(!showSessionForm)}>
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  Schedule
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {showSessionForm && (
+              <div className="space-y-3 rounded-md border p-3">
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="session-when">Date and time</Label>
+                    <Input
+                      id="session-when"
+                      type="datetime-local"
+                      value={sessionForm.scheduledAt}
+                      onChange={(e) => setSessionForm({ ...sessionForm, scheduledAt: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="session-duration">Minutes</Label>
+                    <Input
+                      id="session-duration"
+                      type="number"
+                      min={5}
+                      max={480}
+                      value={sessionForm.durationMinutes}
+                      onChange={(e) => setSessionForm({ ...sessionForm, durationMinutes: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <Input
+                  placeholder="Topic (optional)"
+                  value={sessionForm.topic}
+                  onChange={(e) => setSessionForm({ ...sessionForm, topic: e.target.value })}
+                />
+                <Input
+                  placeholder="Meeting link (optional)"
+                  value={sessionForm.meetingLink}
+                  onChange={(e) => setSessionForm({ ...sessionForm, meetingLink: e.target.value })}
+                />
+                <Button size="sm" onClick={handleSchedule} disabled={working || !sessionForm.scheduledAt}>
+                  Save session
+                </Button>
+              </div>
+            )}
+
+            {sessions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No sessions yet.</p>
+            ) : (
+              <ul className="space-y-3">
+                {sessions.map(session => (
+                  <li key={session._id} className="rounded-md border p-3 space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <p className="text-sm font-medium">
+                          {new Date(session.scheduledAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                          <span className="text-muted-foreground font-normal"> • {session.durationMinutes} min</span>
+                        </p>
+                        {session.topic && <p className="text-sm text-muted-foreground">{session.topic}</p>}
+                      </div>
+                      <Badge variant={session.status === 'completed' ? 'default' : session.status === 'cancelled' ? 'secondary' : 'outline'}>
+                        {session.status}
+                      </Badge>
+                    </div>
+                    {session.meetingLink && session.status === 'scheduled' && (
+                      <a href={session.meetingLink} target="_blank" rel="noopener noreferrer" className="text-sm text-primary hover:underline inline-flex items-center gap-1">
+                        <Video className="h-4 w-4" /> Join
+                      </a>
+                    )}
+                    {isActive && session.status === 'scheduled' && (
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => handleUpdateSession(session._id, { status: 'completed' })} disabled={working}>
+                          <Check className="h-4 w-4 mr-1" /> Done
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => handleUpdateSession(session._id, { status: 'cancelled' })} disabled={working}>
+                          <X className="h-4 w-4 mr-1" /> Cancel
+                        </Button>
+                      </div>
+                    )}
+                    {session.status === 'completed' && (
+                      isActive ? (
+                        <div className="space-y-2">
+                          <Textarea
+                            rows={2}
+                            placeholder="What did you cover? Any follow-ups?"
+                            value={sessionNotes[session._id] ?? session.notes ?? ''}
+                            onChange={(e) => setSessionNotes({ ...sessionNotes, [session._id]: e.target.value })}
+                          />
+                          {sessionNotes[session._id] !== undefined && sessionNotes[session._id] !== (session.notes ?? '') && (
+                            <Button size="sm" variant="outline" onClick={() => handleUpdateSession(session._id, { notes: sessionNotes[session._id] })} disabled={working}>
+                              Save notes
+                            </Button>
+                          )}
+                        </div>
+                      ) : (
+                        session.notes && <p className="text-sm whitespace-pre-wrap">{session.notes}</p>
+                      )
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Goals */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Goals</CardTitle>
+            <CardDescription>
+              {mentorship.goals.filter(g => g.done).length} of {mentorship.goals.length} done
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {mentorship.goals.length === 0 && <p className="text-sm text-muted-foreground">No goals yet.</p>}
+            {mentorship.goals.map(goal => (
+              <label key={goal._id} className="flex items-start gap-2 text-sm">
+                <Checkbox
+                  checked={goal.done}
+                  disabled={!isActive || working}
+                  onCheckedChange={(checked) => handleToggleGoal(goal._id, checked === true)}
+                  className="mt-0.5"
+                />
+                <span className={goal.done ? 'line-through text-muted-foreground' : ''}>{goal.text}</span>
+              </label>
+            ))}
+            {isActive && (
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Add a goal"
+                  value={goalText}
+                  maxLength={300}
+                  onChange={(e) => setGoalText(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter' && goalText.trim()) handleAddGoal(); }}
+                />
+                <Button size="icon" variant="outline" onClick={handleAddGoal} disabled={working || !goalText.trim()}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Shared notes */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Shared notes</CardTitle>
+          <CardDescription>Visible to both of you</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {(mentorship.notes || []).length === 0 && <p className="text-sm text-muted-foreground">No notes yet.</p>}
+          {(mentorship.notes || []).map(note => (
+            <div key={note._id} className="text-sm">
+              <div className="text-xs text-muted-foreground">
+                <span className="font-medium text-foreground">{note.author?.name}</span> • {new Date(note.createdAt).toLocaleString()}
+              </div>
+              <p className="whitespace-pre-wrap">{note.text}</p>
+            </div>
+          ))}
+          {isActive && (
+            <div className="space-y-2">
+              <Textarea rows={3} placeholder="Write a note" value={noteText} maxLength={2000} onChange={(e) => setNoteText(e.target.value)} />
+              <Button size="sm" onClick={handleAddNote} disabled={working || !noteText.trim()}>Add note</Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {mentorship.status === 'closed' && mentorship.feedback.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Feedback</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {mentorship.feedback.map(entry => (
+              <div key={entry.author} className="text-sm">
+                <div className="font-medium">
+                  {entry.author === mentorship.mentor._id ? mentorship.mentor.name : mentorship.mentee.name}
+                  {entry.rating && <span className="ml-2 text-amber-500">{'★'.repeat(entry.rating)}{'☆'.repeat(5 - entry.rating)}</span>}
+                </div>
+                {entry.comment && <p className="text-muted-foreground whitespace-pre-wrap">{entry.comment}</p>}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={closeOpen} onOpenChange={(open) => { if (!working) setCloseOpen(open); }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{isActive ? 'Close mentorship' : 'Leave feedback'}</DialogTitle>
+            <DialogDescription>
+              {isActive
+                ? `This ends the mentorship with ${other.name} and cancels upcoming sessions. Your feedback is shared with them.`
+                : `Your feedback is shared with ${other.name}.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="flex gap-1">
+              {[1, 2, 3, 4, 5].map(value => (
+                <button key={value} type="button" onClick={() => setRating(value)} aria-label={`${value} star${value === 1 ? '' : 's'}`}>
+                  <Star className={`h-6 w-6 ${value <= rating ? 'fill-amber-400 text-amber-400' : 'text-muted-foreground'}`} />
+                </button>
+              ))}
+            </div>
+            <Textarea
+              rows={4}
+              placeholder="How did it go? (optional)"
+              value={feedback}
+              maxLength={1000}
+              onChange={(e) => setFeedback(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCloseOpen(false)} disabled={working}>Cancel</Button>
+            <Button onClick={handleClose} disabled={working || (!isActive && !rating && !feedback.trim())}>
+              {working && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {isActive ? 'Close mentorship' : 'Save feedback'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default MentorshipWorkspace;
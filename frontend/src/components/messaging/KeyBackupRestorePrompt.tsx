@@ -0,0 +1,108 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import SecureKeyService from '@/services/secureKeyService';
+
+const DISMISSED_KEY = 'inspiranet_key_restore_dismissed';
+const secureKeys = SecureKeyService.getInstance();
+
+/**
+ * Offered after sign-in on a browser that isn't part of the user's key backup
+ * yet, so message history from their other devices can be decrypted here.
+ */
+const KeyBackupRestorePrompt: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!user || !secureKeys.isSupported() || sessionStorage.getItem(DISMISSED_KEY) === user._id) return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const [deviceId, backup] = await Promise.all([
+          secureKeys.getCurrentDeviceId(user._id),
+          secureKeys.getBackupStatus()
+        ]);
+        if (!cancelled && backup.exists && !backup.deviceIds.includes(deviceId)) {
+          setOpen(true);
+        }
+      } catch (error) {
+        console.error('Error checking key backup:', error);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [user]);
+
+  const handleDismiss = () => {
+    if (user) sessionStorage.setItem(DISMISSED_KEY, user._id);
+    setOpen(false);
+    setPassphrase('');
+  };
+
+  const handleRestore = async () => {
+    if (!user || !passphrase) return;
+    setRestoring(true);
+    try {
+      const count = await secureKeys.restoreKeys(user._id, passphrase);
+      toast({ title: 'Message history restored', description: `Restored ${count} device key${count === 1 ? '' : 's'}.` });
+      setOpen(false);
+      setPassphrase('');
+    } catch (error) {
+      console.error('Error restoring keys:', error);
+      toast({ title: 'Restore failed', description: 'Check your passphrase and try again.', variant: 'destructive' });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen && !restoring) handleDismiss(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5 text-primary" />
+            Restore your messages
+          </DialogTitle>
+          <DialogDescription>
+            You have an encrypted key backup. Enter your backup passphrase to read messages sent to your other devices on this one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="restore-passphrase">Backup passphrase</Label>
+          <Input
+            id="restore-passphrase"
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleRestore(); }}
+            autoComplete="off"
+            autoFocus
+          />
+          <p className="text-xs text-muted-foreground">
+            You can also do this later from Settings → Security.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleDismiss} disabled={restoring}>Not now</Button>
+          <Button onClick={handleRestore} disabled={restoring || !passphrase}>
+            {restoring && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Restore
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default KeyBackupRestorePrompt;
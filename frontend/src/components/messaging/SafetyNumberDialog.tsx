@@ -0,0 +1,65 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import SecureKeyService from '@/services/secureKeyService';
+
+interface SafetyNumberDialogProps {
+  open: boolean;
+  onClose: () => void;
+  userId: string;
+  otherUser: { _id: string; name: string };
+}
+
+const secureKeys = SecureKeyService.getInstance();
+
+const SafetyNumberDialog: React.FC<SafetyNumberDialogProps> = ({ open, onClose, userId, otherUser }) => {
+  const [safetyNumber, setSafetyNumber] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setSafetyNumber(null);
+    setError(null);
+
+    let cancelled = false;
+    secureKeys.getSafetyNumber(userId, otherUser._id)
+      .then(number => { if (!cancelled) setSafetyNumber(number); })
+      .catch((err: Error) => { if (!cancelled) setError(err.message || 'Failed to compute safety number'); });
+    return () => { cancelled = true; };
+  }, [open, userId, otherUser._id]);
+
+  const groups = safetyNumber?.match(/.{5}/g) || [];
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            Verify safety number
+          </DialogTitle>
+          <DialogDescription>
+            Compare these numbers with {otherUser.name} in person or over a call. If they match on both screens,
+            your messages can only be read by the two of you. The number changes when either of you adds or removes a device.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-destructive text-center py-6">{error}</p>
+        ) : !safetyNumber ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-4 gap-3 rounded-lg bg-muted p-4 font-mono text-lg text-center tracking-wider">
+            {groups.map((group, index) => (
+              <span key={index}>{group}</span>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SafetyNumberDialog;
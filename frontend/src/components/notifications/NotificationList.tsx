@@ -12,6 +12,7 @@ import {
   Heart,
   MessageSquare,
   Share2,
+  AtSign,
   Clock,
   CheckCircle,
   XCircle,
@@ -190,6 +191,8 @@ export function NotificationList({ onNotificationClick, onMarkAllRead }: Notific
         return <MessageSquare className="h-5 w-5 text-blue-500" />;
       case 'post_share':
         return <Share2 className="h-5 w-5 text-purple-500" />;
+      case 'post_mention':
+        return <AtSign className="h-5 w-5 text-blue-500" />;
       case 'message':
         return <MessageSquare className="h-5 w-5 text-green-500" />;
       default:
@@ -211,6 +214,8 @@ export function NotificationList({ onNotificationClick, onMarkAllRead }: Notific
         return 'border-l-blue-500';
       case 'post_share':
         return 'border-l-purple-500';
+      case 'post_mention':
+        return 'border-l-blue-500';
       case 'message':
         return 'border-l-green-500';
       default:
@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, Search, ShieldCheck, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import api from '@/services/api';
+import {
+  EligibilityOverride,
+  getEligibilityOverrides,
+  grantEligibilityOverride,
+  revokeEligibilityOverride
+} from '@/services/jobsApi';
+
+interface EligibilityOverridesDialogProps {
+  jobId: string;
+  jobTitle: string;
+  open: boolean;
+  onClose: () => void;
+}
+
+interface UserResult {
+  _id: string;
+  name: string;
+  avatar?: string;
+  type?: string;
+  department?: string;
+  batch?: string;
+}
+
+const EligibilityOverridesDialog: React.FC<EligibilityOverridesDialogProps> = ({ jobId, jobTitle, open, onClose }) => {
+  const { toast } = useToast();
+  const [overrides, setOverrides] = useState<EligibilityOverride[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<UserResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [note, setNote] = useState('');
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const loadOverrides = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await getEligibilityOverrides(jobId);
+      setOverrides(data.overrides);
+    } catch (error) {
+      console.error('Error loading eligibility overrides:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    if (open) {
+      loadOverrides();
+      setQuery('');
+      setResults([]);
+      setNote('');
+    }
+  }, [open, loadOverrides]);
+
+  // Debounced user search
+  useEffect(() => {
+    if (query.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const response = await api.get('/api/users/search', { params: { q: query.trim(), limit: 8 } });
+        setResults(response.data.users || []);
+      } catch (error) {
+        console.error('Error searching users:', error);
+      } finally {
+        setSearching(false);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const handleGrant = async (user: UserResult) => {
+    setSavingId(user._id);
+    try {
+      const data = await grantEligibilityOverride(jobId, user._id, note.trim() || undefined);
+      setOverrides(data.overrides);
+      setQuery('');
+      setNote('');
+      toast({ title: 'Override granted', description: `${user.name} can now apply for this job.` });
+    } catch (error) {
+      const { response } = error as { response?: { data?: { error?: string } } };
+      toast({ title: 'Error', description: response?.data?.error || 'Failed to grant override', variant: 'destructive' });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleRevoke = async (override: EligibilityOverride) => {
+    setSavingId(override.userId._id);
+    try {
+      await revokeEligibilityOverride(jobId, override.userId._id);
+      setOverrides(prev => prev.filter(o => o.userId._id !== override.userId._id));
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to remove override', variant: 'destructive' });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) onClose(); }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            Eligibility overrides
+          </DialogTitle>
+          <DialogDescription>
+            Allow individual students to apply for {jobTitle} even if they don't meet the CGPA, branch or experience criteria.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="override-search">Add a student</Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                id="override-search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search by name or department"
+                className="pl-9"
+              />
+            </div>
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Reason (optional)"
+              maxLength={500}
+            />
+            {searching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            {results.length > 0 && (
+              <div className="max-h-48 overflow-y-auto rounded-md border divide-y">
+                {results.map(result => (
+                  <div key={result._id} className="flex items-center justify-between gap-2 p-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Avatar className="h-7 w-7">
+                        <AvatarImage src={result.avatar} />
+                        <AvatarFallback>{result.name?.charAt(0)}</AvatarFallback>
+                      </Avatar>
+                      <div className="min-w-0">
+                        <p className="text-sm truncate">{result.name}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {[result.type, result.department, result.batch].filter(Boolean).join(' • ')}
+                        </p>
+                      </div>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleGrant(result)}
+                      disabled={savingId === result._id || overrides.some(o => o.userId?._id === result._id)}
+                    >
+                      {overrides.some(o => o.userId?._id === result._id) ? 'Granted' : 'Grant'}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Current overrides</Label>
+            {loading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : overrides.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No overrides for this job.</p>
+            ) : (
+              <div className="space-y-2">
+                {overrides.filter(o => o.userId).map(override => (
+                  <div key={override._id} className="flex items-start justify-between gap-2 rounded-md border p-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{override.userId.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        By {override.grantedBy?.name || 'a coordinator'} on {new Date(override.at).toLocaleDateString()}
+                      </p>
+                      {override.note && <p className="text-xs mt-1">{override.note}</p>}
+                    </div>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7 shrink-0"
+                      onClick={() => handleRevoke(override)}
+                      disabled={savingId === override.userId._id}
+                      title="Remove override"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EligibilityOverridesDialog;
@@ -0,0 +1,168 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Briefcase, Building, Calendar, KanbanSquare, Loader2, MapPin, Undo2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import JobPipelineBoard from './JobPipelineBoard';
+import {
+  JobApplication,
+  JobPostingSummary,
+  getMyApplications,
+  getMyPostedJobs,
+  getStatusMeta,
+  withdrawApplication
+} from '@/services/jobsApi';
+
+export default function JobApplicationsPanel() {
+  const { toast } = useToast();
+  const [applications, setApplications] = useState<JobApplication[]>([]);
+  const [postedJobs, setPostedJobs] = useState<JobPostingSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [withdrawingId, setWithdrawingId] = useState<string | null>(null);
+  const [pipelineJobId, setPipelineJobId] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [mine, posted] = await Promise.all([getMyApplications(), getMyPostedJobs()]);
+      setApplications(mine.applications);
+      setPostedJobs(posted.jobs);
+    } catch (error) {
+      console.error('Error loading job applications:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleWithdraw = async (application: JobApplication) => {
+    if (!window.confirm('Withdraw this application? The recruiter will be notified.')) return;
+    setWithdrawingId(application._id);
+    try {
+      const { application: updated } = await withdrawApplication(application._id);
+      setApplications(prev => prev.map(app => (app._id === updated._id ? { ...app, ...updated, job: app.job } : app)));
+      toast({ title: 'Application withdrawn' });
+    } catch (error) {
+      const { response } = error as { response?: { data?: { error?: string } } };
+      toast({ title: 'Error', description: response?.data?.error || 'Failed to withdraw application', variant: 'destructive' });
+    } finally {
+      setWithdrawingId(null);
+    }
+  };
+
+  const renderApplication = (application: JobApplication) => {
+    const job = application.job as JobPostingSummary | null;
+    const meta = getStatusMeta(application.status);
+    const canWithdraw = !['withdrawn', 'rejected'].includes(application.status);
+
+    return (
+      <div key={application._id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border p-3">
+        <div className="min-w-0 space-y-1">
+          <p className="font-medium truncate">{job?.title || 'Job no longer available'}</p>
+          {job && (
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1"><Building className="h-3 w-3" />{job.companyName}</span>
+              <span className="flex items-center gap-1"><MapPin className="h-3 w-3" />{job.location}</span>
+              <span className="flex items-center gap-1">
+                <Calendar className="h-3 w-3" />
+                Applied {new Date(application.createdAt).toLocaleDateString()}
+              </span>
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Badge className={meta.className}>{meta.label}</Badge>
+          {canWithdraw && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => handleWithdraw(application)}
+              disabled={withdrawingId === application._id}
+            >
+              <Undo2 className="h-4 w-4 mr-1" />
+              Withdraw
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderPostedJob = (job: JobPostingSummary) => (
+    <div key={job._id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border p-3">
+      <div className="min-w-0 space-y-1">
+        <p className="font-medium truncate">{job.title}</p>
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1"><Building className="h-3 w-3" />{job.companyName}</span>
+          {job.deadline && (
+            <span className="flex items-center gap-1">
+              <Calendar className="h-3 w-3" />
+              Deadline {new Date(job.deadline).toLocaleDateString()}
+            </span>
+          )}
+          {!job.isActive && <Badge variant="secondary" className="text-[10px]">Closed</Badge>}
+        </div>
+      </div>
+      <Button size="sm" variant="outline" onClick={() => setPipelineJobId(job._id)}>
+        <KanbanSquare className="h-4 w-4 mr-2" />
+        {job.applicationCount || 0} applicant{job.applicationCount === 1 ? '' : 's'}
+      </Button>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Briefcase className="h-5 w-5" />
+          Job Applications
+        </CardTitle>
+        <CardDescription>Track jobs you've applied to and manage applicants for jobs you've posted</CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Tabs defaultValue={applications.length === 0 && postedJobs.length > 0 ? 'posted' : 'mine'}>
+            <TabsList>
+              <TabsTrigger value="mine">My applications ({applications.length})</TabsTrigger>
+              <TabsTrigger value="posted">Jobs I posted ({postedJobs.length})</TabsTrigger>
+            </TabsList>
+            <TabsContent value="mine" className="space-y-2 mt-4">
+              {applications.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  You haven't applied to any jobs yet. Job posts in the feed can be applied to with your profile resume.
+                </p>
+              ) : (
+                applications.map(renderApplication)
+              )}
+            </TabsContent>
+            <TabsContent value="posted" className="space-y-2 mt-4">
+              {postedJobs.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">You haven't posted any jobs yet.</p>
+              ) : (
+                postedJobs.map(renderPostedJob)
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+
+      <JobPipelineBoard
+        jobId={pipelineJobId}
+        open={!!pipelineJobId}
+        onClose={() => {
+          setPipelineJobId(null);
+          loadData();
+        }}
+      />
+    </Card>
+  );
+}
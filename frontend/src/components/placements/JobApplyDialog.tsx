@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertCircle, FileText, Loader2, Send } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { JobApplication, JobPostingSummary, applyToJob } from '@/services/jobsApi';
+
+interface JobApplyDialogProps {
+  open: boolean;
+  onClose: () => void;
+  job: JobPostingSummary;
+  onApplied: (application: JobApplication) => void;
+}
+
+const JobApplyDialog: React.FC<JobApplyDialogProps> = ({ open, onClose, job, onApplied }) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [coverLetter, setCoverLetter] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) setCoverLetter('');
+  }, [open]);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const { application } = await applyToJob(job._id, coverLetter.trim() || undefined);
+      toast({ title: 'Application submitted', description: `Your application for ${job.title} has been sent.` });
+      onApplied(application);
+      onClose();
+    } catch (error) {
+      const { response } = error as { response?: { data?: { error?: string; reasons?: string[] } } };
+      toast({
+        title: 'Could not apply',
+        description: response?.data?.reasons?.join('. ') || response?.data?.error || 'Please try again later.',
+        variant: 'destructive'
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen && !submitting) onClose(); }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Apply for {job.title}</DialogTitle>
+          <DialogDescription>
+            {job.companyName} • {job.location}
+            {job.deadline && ` • Apply by ${new Date(job.deadline).toLocaleDateString()}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {user?.resume ? (
+            <a
+              href={user.resume}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 rounded-md border p-3 text-sm hover:bg-muted"
+            >
+              <FileText className="h-4 w-4 text-primary" />
+              Your profile resume will be attached
+            </a>
+          ) : (
+            <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 dark:border-amber-800 dark:bg-amber-900/20 dark:text-amber-300">
+              <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+              You haven't added a resume to your profile yet. You can still apply, but adding one from your profile helps recruiters.
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="cover-letter">Cover letter (optional)</Label>
+            <Textarea
+              id="cover-letter"
+              value={coverLetter}
+              onChange={(e) => setCoverLetter(e.target.value)}
+              placeholder="Tell the recruiter why you're a good fit"
+              rows={5}
+              maxLength={2000}
+            />
+            <p className="text-xs text-muted-foreground text-right">{coverLetter.length}/2000</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={submitting}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={submitting}>
+            {submitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+            Submit application
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default JobApplyDialog;
@@ -0,0 +1,245 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { FileText, Loader2, Mail, KanbanSquare } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  APPLICATION_STATUSES,
+  ApplicationApplicant,
+  ApplicationStatus,
+  JobApplication,
+  JobPipeline,
+  JobPostingSummary,
+  getJobPipeline,
+  updateApplicationStatus
+} from '@/services/jobsApi';
+
+interface JobPipelineBoardProps {
+  jobId: string | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+// Withdrawn applications can't be moved, so they only appear as a read-only column
+const MOVABLE_STATUSES = APPLICATION_STATUSES.filter(s => s.value !== 'withdrawn');
+
+const JobPipelineBoard: React.FC<JobPipelineBoardProps> = ({ jobId, open, onClose }) => {
+  const { toast } = useToast();
+  const [job, setJob] = useState<JobPostingSummary | null>(null);
+  const [pipeline, setPipeline] = useState<JobPipeline | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [notesFor, setNotesFor] = useState<string | null>(null);
+  const [notesDraft, setNotesDraft] = useState('');
+
+  const loadPipeline = useCallback(async () => {
+    if (!jobId) return;
+    setLoading(true);
+    try {
+      const data = await getJobPipeline(jobId);
+      setJob(data.job);
+      setPipeline(data.pipeline);
+    } catch (error) {
+      console.error('Error loading applications:', error);
+      toast({ title: 'Error', description: 'Failed to load applications', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId, toast]);
+
+  useEffect(() => {
+    if (open) loadPipeline();
+  }, [open, loadPipeline]);
+
+  const replaceApplication = (updated: JobApplication) => {
+    setPipeline(prev => {
+      if (!prev) return prev;
+      const next = { ...prev } as JobPipeline;
+      (Object.keys(next) as ApplicationStatus[]).forEach(status => {
+        next[status] = next[status].filter(app => app._id !== updated._id);
+      });
+      next[updated.status] = [...next[updated.status], updated];
+      return next;
+    });
+  };
+
+  const handleMove = async (application: JobApplication, status: ApplicationStatus) => {
+    setUpdatingId(application._id);
+    try {
+      const { application: updated } = await updateApplicationStatus(application._id, { status });
+      replaceApplication(updated);
+    } catch (error) {
+      const { response } = error as { response?: { data?: { error?: string } } };
+      toast({ title: 'Error', description: response?.data?.error || 'Failed to update application', variant: 'destructive' });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleSaveNotes = async (application: JobApplication) => {
+    setUpdatingId(application._id);
+    try {
+      const { application: updated } = await updateApplicationStatus(application._id, { posterNotes: notesDraft.trim() });
+      replaceApplication(updated);
+      setNotesFor(null);
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to save notes', variant: 'destructive' });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const renderCard = (application: JobApplication) => {
+    const applicant = application.applicant as ApplicationApplicant;
+    const email = applicant.email?.professional || applicant.email?.college;
+    const resume = application.resume || applicant.resume;
+    const withdrawn = application.status === 'withdrawn';
+
+    return (
+      <div key={application._id} className="rounded-lg border bg-card p-3 space-y-2 shadow-sm">
+        <div className="flex items-center gap-2">
+          <Avatar className="h-8 w-8">
+            <AvatarImage src={applicant.avatar} />
+            <AvatarFallback>{applicant.name?.charAt(0)}</AvatarFallback>
+          </Avatar>
+          <div className="min-w-0">
+            <p className="text-sm font-medium truncate">{applicant.name}</p>
+            <p className="text-xs text-muted-foreground truncate">
+              {[applicant.department, applicant.batch].filter(Boolean).join(' • ') || applicant.type}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-1">
+          <p className="text-xs text-muted-foreground">Applied {new Date(application.createdAt).toLocaleDateString()}</p>
+          {application.eligibilityOverridden && (
+            <Badge variant="outline" className="text-[10px]" title="Applied through a placement coordinator override">
+              Override
+            </Badge>
+          )}
+        </div>
+
+        {application.coverLetter && (
+          <p className="text-xs whitespace-pre-wrap line-clamp-3">{application.coverLetter}</p>
+        )}
+
+        <div className="flex flex-wrap gap-1">
+          {resume ? (
+            <Button asChild size="sm" variant="outline" className="h-7 text-xs">
+              <a href={resume} target="_blank" rel="noopener noreferrer">
+                <FileText className="h-3 w-3 mr-1" />
+                Resume
+              </a>
+            </Button>
+          ) : (
+            <Badge variant="secondary" className="text-[10px]">No resume</Badge>
+          )}
+          {email && (
+            <Button asChild size="sm" variant="ghost" className="h-7 text-xs">
+              <a href={`mailto:${email}`}>
+                <Mail className="h-3 w-3 mr-1" />
+                Email
+              </a>
+            </Button>
+          )}
+        </div>
+
+        {notesFor === application._id ? (
+          <div className="space-y-1">
+            <Textarea
+              value={notesDraft}
+              onChange={(e) => setNotesDraft(e.target.value)}
+              placeholder="Private notes"
+              rows={3}
+              maxLength={1000}
+              className="text-xs"
+            />
+            <div className="flex justify-end gap-1">
+              <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setNotesFor(null)}>Cancel</Button>
+              <Button size="sm" className="h-7 text-xs" onClick={() => handleSaveNotes(application)} disabled={updatingId === application._id}>
+                Save
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <button
+            type="button"
+            className="block w-full text-left text-xs text-muted-foreground hover:text-foreground"
+            onClick={() => {
+              setNotesFor(application._id);
+              setNotesDraft(application.posterNotes || '');
+            }}
+          >
+            {application.posterNotes ? `Notes: ${application.posterNotes}` : '+ Add private notes'}
+          </button>
+        )}
+
+        {!withdrawn && (
+          <Select
+            value={application.status}
+            onValueChange={(value) => handleMove(application, value as ApplicationStatus)}
+            disabled={updatingId === application._id}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MOVABLE_STATUSES.map(status => (
+                <SelectItem key={status.value} value={status.value}>Move to {status.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) onClose(); }}>
+      <DialogContent className="max-w-6xl w-[95vw]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KanbanSquare className="h-5 w-5" />
+            {job ? `${job.title} at ${job.companyName}` : 'Applications'}
+          </DialogTitle>
+          <DialogDescription>
+            Move candidates through your hiring pipeline. Applicants are notified when their status changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !pipeline ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <ScrollArea className="w-full">
+            <div className="flex gap-3 pb-3">
+              {APPLICATION_STATUSES.map(status => (
+                <div key={status.value} className="w-64 shrink-0 rounded-lg bg-muted/40 p-2">
+                  <div className="flex items-center justify-between px-1 pb-2">
+                    <Badge className={status.className}>{status.label}</Badge>
+                    <span className="text-xs text-muted-foreground">{pipeline[status.value]?.length || 0}</span>
+                  </div>
+                  <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+                    {(pipeline[status.value] || []).map(renderCard)}
+                    {(pipeline[status.value] || []).length === 0 && (
+                      <p className="text-xs text-muted-foreground text-center py-6">No applications</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <ScrollBar orientation="horizontal" />
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default JobPipelineBoard;
@@ -14,6 +14,8 @@ import ShareModal from "@/components/ui/ShareModal";
 import { uploadResumeToCloudinary } from "@/services/cloudinary";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import api from "@/services/api";
+import JobApplicationsPanel from "./JobApplicationsPanel";
+import RecommendedJobsRail from "./RecommendedJobsRail";
 
 interface PlacementExperience {
   _id?: string;
@@ -436,6 +438,10 @@ export default function PlacementPortal() {
         </p>
       </div>
 
+      {user && <RecommendedJobsRail />}
+
+      {user && <JobApplicationsPanel />}
+
       {/* Enhanced Search and Filter Section */}
       <Card>
         <CardHeader>
@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { Building, Calendar, Loader2, MapPin, Send, Sparkles, Check } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import JobApplyDialog from './JobApplyDialog';
+import {
+  JobRecommendation,
+  getJobDigestPreference,
+  getRecommendedJobs,
+  setJobDigestPreference
+} from '@/services/jobsApi';
+
+export default function RecommendedJobsRail() {
+  const { toast } = useToast();
+  const [recommendations, setRecommendations] = useState<JobRecommendation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [digestEnabled, setDigestEnabled] = useState(false);
+  const [applyTo, setApplyTo] = useState<JobRecommendation['job'] | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [recommended, digest] = await Promise.all([getRecommendedJobs(12), getJobDigestPreference()]);
+        setRecommendations(recommended.recommendations);
+        setDigestEnabled(digest.enabled);
+      } catch (error) {
+        console.error('Error loading job recommendations:', error);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  const handleDigestToggle = async (enabled: boolean) => {
+    setDigestEnabled(enabled);
+    try {
+      await setJobDigestPreference(enabled);
+      toast({
+        title: enabled ? 'Weekly digest on' : 'Weekly digest off',
+        description: enabled ? "We'll email you new recommended jobs every Monday." : undefined
+      });
+    } catch (error) {
+      setDigestEnabled(!enabled);
+      toast({ title: 'Error', description: 'Failed to update digest preference', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Sparkles className="h-5 w-5 text-primary" />
+              Recommended for you
+            </CardTitle>
+            <CardDescription>Based on your skills, department, location and past applications</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="job-digest" checked={digestEnabled} onCheckedChange={handleDigestToggle} />
+            <Label htmlFor="job-digest" className="text-sm">Weekly email digest</Label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : recommendations.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No recommendations yet. Add skills and your location to your profile to get better matches.
+          </p>
+        ) : (
+          <ScrollArea className="w-full">
+            <div className="flex gap-3 pb-3">
+              {recommendations.map(({ job, reasons }) => (
+                <div key={job._id} className="w-72 shrink-0 rounded-lg border p-4 flex flex-col gap-3">
+                  <div className="space-y-1">
+                    <p className="font-semibold leading-tight line-clamp-2">{job.title}</p>
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1"><Building className="h-3 w-3" />{job.companyName}</span>
+                      <span className="flex items-center gap-1"><MapPin className="h-3 w-3" />{job.location}</span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="secondary" className="text-[10px] capitalize">{job.jobType}</Badge>
+                      {job.deadline && (
+                        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <Calendar className="h-3 w-3" />
+                          Apply by {new Date(job.deadline).toLocaleDateString()}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+
+                  <ul className="space-y-1 text-xs flex-1">
+                    {reasons.map(reason => (
+                      <li key={reason} className="flex items-start gap-1.5">
+                        <Check className="h-3 w-3 mt-0.5 text-green-600 shrink-0" />
+                        <span>{reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+
+                  <Button size="sm" onClick={() => setApplyTo(job)}>
+                    <Send className="h-4 w-4 mr-2" />
+                    Apply
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <ScrollBar orientation="horizontal" />
+          </ScrollArea>
+        )}
+      </CardContent>
+
+      {applyTo && (
+        <JobApplyDialog
+          open={!!applyTo}
+          onClose={() => setApplyTo(null)}
+          job={applyTo}
+          onApplied={() => setRecommendations(prev => prev.filter(r => r.job._id !== applyTo._id))}
+        />
+      )}
+    </Card>
+  );
+}
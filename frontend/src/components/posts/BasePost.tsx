@@ -3,73 +3,12 @@ import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Heart, MessageCircle, Edit, Trash2, MoreVertical, X, Share2, Send } from 'lucide-react';
-import { Post } from '@/services/postsApi';
+import { Heart, MessageCircle, Edit, Trash2, MoreVertical, X, Share2, Flag, Lock } from 'lucide-react';
+import { Post, PostAudience } from '@/services/postsApi';
 import { useAuth } from '@/contexts/AuthContext';
-import { Input } from '@/components/ui/input';
-import Linkify from '@/components/ui/Linkify';
-
-// Comment Menu Component
-const CommentMenu = ({ commentId, onDelete }: { commentId: string; onDelete: (commentId: string) => void }) => {
-  const [showMenu, setShowMenu] = useState(false);
-  const menuRef = useRef<HTMLDivElement>(null);
-
-  // Close menu when clicking outside
-  useEffect(() => {
-    const handleClickOutside = (event: MouseEvent) => {
-      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
-        setShowMenu(false);
-      }
-    };
-
-    if (showMenu) {
-      document.addEventListener('mousedown', handleClickOutside);
-    }
-
-    return () => {
-      document.removeEventListener('mousedown', handleClickOutside);
-    };
-  }, [showMenu]);
-
-  return (
-    <div className="relative ml-auto" ref={menuRef}>
-      <Button
-        variant="ghost"
-        size="icon"
-        className="h-6 w-6 p-0 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300"
-        onClick={() => setShowMenu(!showMenu)}
-      >
-        <MoreVertical className="h-3 w-3" />
-      </Button>
-
-      {showMenu && (
-        <div className="absolute right-0 top-6 w-40 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 shadow-lg z-20">
-          <div className="p-1">
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => {
-                onDelete(commentId);
-                setShowMenu(false);
-              }}
-              className="w-full justify-start text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/20"
-            >
-              <Trash2 className="h-3 w-3 mr-2" /> Delete comment
-            </Button>
-            <Button
-              variant="ghost"
-              size="sm"
-              className="w-full justify-start hover:bg-gray-50 dark:hover:bg-gray-800"
-              onClick={() => setShowMenu(false)}
-            >
-              <X className="h-3 w-3 mr-2" /> Close
-            </Button>
-          </div>
-        </div>
-      )}
-    </div>
-  );
-};
+import ReportDialog from '@/components/ui/ReportDialog';
+import VerifiedBadge from '@/components/ui/VerifiedBadge';
+import CommentThread from './CommentThread';
 
 type User = {
   _id: string;
@@ -80,14 +19,21 @@ type User = {
   batch?: string;
 };
 
+// Shown next to the timestamp on posts with a restricted audience
+const AUDIENCE_LABELS: Record<Exclude<PostAudience, 'everyone'>, string> = {
+  followers: 'Followers',
+  mutuals: 'Mutual connections',
+  department: 'Department',
+  batch: 'Batch',
+  group: 'Group'
+};
+
 interface BasePostProps {
   post: Post;
   user: User | null;
   onLike: (postId: string) => void;
-  onComment: (postId: string, commentContent: string) => void;
   onEdit?: (postId: string) => void;
   onDelete: (postId: string) => void;
-  onDeleteComment?: (postId: string, commentId: string) => void;
   onShare?: (postId: string) => void;
   showComments: boolean;
   onToggleComments: () => void;
@@ -105,10 +51,8 @@ export default function BasePost({
   post,
   user,
   onLike,
-  onComment,
   onEdit,
   onDelete,
-  onDeleteComment,
   onShare,
   showComments,
   onToggleComments,
@@ -121,9 +65,9 @@ export default function BasePost({
   footerRight,
   children
 }: BasePostProps) {
-  const [commentText, setCommentText] = useState('');
-  const [showAllComments, setShowAllComments] = useState(false);
+  const [commentCount, setCommentCount] = useState(commentsCount);
   const [showPostMenu, setShowPostMenu] = useState(false);
+  const [reportTarget, setReportTarget] = useState<{ type: 'post' | 'comment'; id: string } | null>(null);
   const menuRef = useRef<HTMLDivElement>(null);
 
   // Local like state management - rely on server state
@@ -147,6 +91,11 @@ export default function BasePost({
     };
   }, [showPostMenu]);
 
+  // Realtime comment events update the count in the parent feed
+  useEffect(() => {
+    setCommentCount(commentsCount);
+  }, [commentsCount]);
+
   // Update local state when props change (server state)
   useEffect(() => {
     console.log('🔄 BasePost like state update:', {
@@ -183,23 +132,6 @@ export default function BasePost({
     }
   };
 
-  const handleDeleteComment = async (commentId: string) => {
-    if (!onDeleteComment) return;
-
-    // Find the comment to check if user is the author
-    const comment = post.comments?.find(c => c._id === commentId);
-    if (!comment || comment.author?._id?.toString() !== user?._id?.toString()) {
-      console.warn('User is not the author of this comment, deletion not allowed');
-      return;
-    }
-
-    try {
-      await onDeleteComment(post._id, commentId);
-    } catch (error) {
-      console.error('Error deleting comment:', error);
-    }
-  };
-
   const formatTimeAgo = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -212,21 +144,6 @@ export default function BasePost({
     return date.toLocaleDateString();
   };
 
-  // Function to deduplicate comments based on comment ID
-  const getUniqueComments = (comments: any[]) => {
-    if (!comments || !Array.isArray(comments)) return [];
-
-    const seen = new Set();
-    return comments.filter(comment => {
-      if (seen.has(comment._id)) {
-        console.warn(`Duplicate comment detected: ${comment._id}`);
-        return false;
-      }
-      seen.add(comment._id);
-      return true;
-    });
-  };
-
   return (
     <Card
       className="post-card relative border border-gray-200 dark:border-gray-700 shadow-sm mx-auto max-w-[680px] w-full transition-all duration-500 overflow-visible"
@@ -249,6 +166,7 @@ export default function BasePost({
                 <p className="font-semibold text-[13px] text-gray-900 dark:text-gray-100 truncate">
                   {post.author?.name || 'Unknown User'}
                 </p>
+                <VerifiedBadge user={post.author} />
                 {post.author?.type && (
                   <Badge variant="secondary" className="text-[10px] px-1 py-0">
                     {post.author.type}
@@ -285,6 +203,17 @@ export default function BasePost({
                 )}
                 <span>•</span>
                 <span>{formatTimeAgo(post.createdAt)}</span>
+                {post.audience && post.audience !== 'everyone' && (
+                  <>
+                    <span>•</span>
+                    <span className="flex items-center gap-0.5" title="Only this audience can see the post">
+                      <Lock className="h-3 w-3" />
+                      {post.audience === 'batch' && post.audienceBatch
+                        ? `Batch ${post.audienceBatch}`
+                        : AUDIENCE_LABELS[post.audience]}
+                    </span>
+                  </>
+                )}
               </div>
             </div>
           </div>
@@ -330,6 +259,19 @@ export default function BasePost({
                         <Trash2 className="h-4 w-4 mr-2" /> Delete
                       </Button>
                     )}
+                    {user && post.author?._id?.toString() !== user._id?.toString() && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setReportTarget({ type: 'post', id: post._id });
+                          setShowPostMenu(false);
+                        }}
+                        className="w-full justify-start text-orange-600 hover:text-orange-700 dark:text-orange-400 dark:hover:text-orange-300"
+                      >
+                        <Flag className="h-4 w-4 mr-2" /> Report
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
@@ -393,7 +335,7 @@ export default function BasePost({
               className="flex items-center space-x-1.5 h-7 px-2 text-gray-600 dark:text-gray-400"
             >
               <MessageCircle className="h-3.5 w-3.5" />
-              <span className="font-medium text-[13px]">{commentsCount || 0}</span>
+              <span className="font-medium text-[13px]">{commentCount || 0}</span>
             </Button>
           </div>
           {footerRight && (
@@ -406,100 +348,25 @@ export default function BasePost({
         {/* Comments Section */}
         {showComments && (
           <div className="mt-2 pt-2 border-t border-gray-100 dark:border-gray-800">
-            <div className="space-y-1.5">
-              {(() => {
-                const uniqueComments = getUniqueComments(post.comments);
-                const commentsToShow = showAllComments ? uniqueComments : uniqueComments.slice(0, 3);
-
-                return commentsToShow.map((comment, index) => {
-                  // Ensure unique key by combining comment ID with index
-                  const uniqueKey = `${comment._id}-${index}`;
-                  return (
-                    <div key={uniqueKey} className="flex space-x-2">
-                      <Avatar className="h-5 w-5">
-                        <AvatarImage src={comment.author?.avatar} />
-                        <AvatarFallback className="bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 text-[10px] font-medium">
-                          {comment.author?.name?.charAt(0).toUpperCase() || 'U'}
-                        </AvatarFallback>
-                      </Avatar>
-                      <div className="flex-1 min-w-0">
-                        <div className="bg-gray-50 dark:bg-gray-800 rounded-lg px-2.5 py-1.5">
-                          <div className="flex items-center justify-between">
-                            <p className="text-[12px] leading-snug">
-                              <span className="font-semibold text-gray-900 dark:text-gray-100">
-                                {comment.author?.name || 'Unknown User'}
-                              </span>
-                              <span className="text-gray-700 dark:text-gray-300 ml-1.5 whitespace-pre-wrap">
-                                <Linkify text={comment.content} />
-                              </span>
-                            </p>
-                            {comment.author?._id?.toString() === user?._id?.toString() && (
-                              <CommentMenu commentId={comment._id} onDelete={handleDeleteComment} />
-                            )}
-                          </div>
-                        </div>
-                      </div>
-                    </div>
-                  );
-                });
-              })()}
-
-              {getUniqueComments(post.comments).length > 3 && (
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => setShowAllComments(!showAllComments)}
-                  className="text-blue-600 dark:text-blue-400 text-sm"
-                >
-                  {showAllComments
-                    ? `Hide comments`
-                    : `View all ${getUniqueComments(post.comments).length} comments`
-                  }
-                </Button>
-              )}
-
-              {/* Add Comment */}
-              <div className="flex space-x-2">
-                <Avatar className="h-6 w-6">
-                  <AvatarImage src={user?.avatar} />
-                  <AvatarFallback className="bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 text-xs font-medium">
-                    {user?.name?.charAt(0).toUpperCase() || 'U'}
-                  </AvatarFallback>
-                </Avatar>
-                <div className="flex-1 flex items-center space-x-2">
-                  <Input
-                    placeholder="Add a comment..."
-                    value={commentText}
-                    onChange={(e) => setCommentText(e.target.value)}
-                    onKeyPress={(e) => {
-                      if (e.key === 'Enter' && !e.shiftKey && commentText.trim()) {
-                        e.preventDefault();
-                        onComment?.(post._id, commentText.trim());
-                        setCommentText('');
-                      }
-                    }}
-                    className="text-sm"
-                  />
-                  <Button
-                    size="sm"
-                    onClick={() => {
-                      if (commentText.trim()) {
-                        onComment?.(post._id, commentText.trim());
-                        setCommentText('');
-                      }
-                    }}
-                    disabled={!commentText.trim()}
-                    className="shrink-0"
-                    title="Send comment"
-                  >
-                    <Send className="h-4 w-4" />
-                  </Button>
-                </div>
-              </div>
-            </div>
+            <CommentThread
+              postId={post._id}
+              user={user}
+              onCountChange={(delta) => setCommentCount(count => Math.max(0, count + delta))}
+              onReport={(commentId) => setReportTarget({ type: 'comment', id: commentId })}
+            />
           </div>
         )}
       </div>
+
+      {reportTarget && (
+        <ReportDialog
+          open={!!reportTarget}
+          onClose={() => setReportTarget(null)}
+          contentType={reportTarget.type}
+          contentId={reportTarget.id}
+          parentId={reportTarget.type === 'comment' ? post._id : undefined}
+        />
+      )}
     </Card>
   );
 }
\ No newline at end of file
@@ -0,0 +1,548 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import Linkify from '@/components/ui/Linkify';
+import { Edit, Flag, Heart, Loader2, MoreVertical, Send, Trash2, X } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import postsApi, { PostComment } from '@/services/postsApi';
+import { Mention, parseMentions, toEditableText, toMentionMarkup } from '@/utils/mentions';
+import MentionInput from './MentionInput';
+
+const PAGE_SIZE = 10;
+// Matches Comment.MAX_DEPTH on the backend; replies to the deepest level join its thread
+const MAX_DEPTH = 2;
+
+type User = {
+  _id: string;
+  name: string;
+  avatar?: string;
+};
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (error instanceof Error && error.message) || fallback;
+
+const formatTimeAgo = (dateString: string) => {
+  const diffInSeconds = Math.floor((Date.now() - new Date(dateString).getTime()) / 1000);
+
+  if (diffInSeconds < 60) return 'Just now';
+  if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)}m`;
+  if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)}h`;
+  if (diffInSeconds < 2592000) return `${Math.floor(diffInSeconds / 86400)}d`;
+  return new Date(dateString).toLocaleDateString();
+};
+
+const CommentContent = ({ content }: { content: string }) => (
+  <>
+    {parseMentions(content).map((segment, index) => segment.type === 'mention' ? (
+      <Link
+        key={index}
+        to={`/profile/${segment.id}`}
+        className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+        onClick={(e) => e.stopPropagation()}
+      >
+        @{segment.name}
+      </Link>
+    ) : (
+      <Linkify key={index} text={segment.text} />
+    ))}
+  </>
+);
+
+// Comment Menu Component
+const CommentMenu = ({ onEdit, onDelete, onReport }: {
+  onEdit?: () => void;
+  onDelete?: () => void;
+  onReport?: () => void;
+}) => {
+  const [showMenu, setShowMenu] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setShowMenu(false);
+      }
+    };
+
+    if (showMenu) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [showMenu]);
+
+  const item = (label: string, icon: React.ReactNode, onClick: () => void, className: string) => (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => {
+        onClick();
+        setShowMenu(false);
+      }}
+      className={`w-full justify-start ${className}`}
+    >
+      {icon} {label}
+    </Button>
+  );
+
+  return (
+    <div className="relative ml-auto" ref={menuRef}>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 p-0 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300"
+        onClick={() => setShowMenu(!showMenu)}
+      >
+        <MoreVertical className="h-3 w-3" />
+      </Button>
+
+      {showMenu && (
+        <div className="absolute right-0 top-6 w-40 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 shadow-lg z-20">
+          <div className="p-1">
+            {onEdit && item('Edit comment', <Edit className="h-3 w-3 mr-2" />, onEdit, 'hover:bg-gray-50 dark:hover:bg-gray-800')}
+            {onDelete && item(
+              'Delete comment',
+              <Trash2 className="h-3 w-3 mr-2" />,
+              onDelete,
+              'text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/20'
+            )}
+            {onReport && item(
+              'Report comment',
+              <Flag className="h-3 w-3 mr-2" />,
+              onReport,
+              'text-orange-600 hover:text-orange-700 dark:text-orange-400 dark:hover:text-orange-300'
+            )}
+            {item('Close', <X className="h-3 w-3 mr-2" />, () => undefined, 'hover:bg-gray-50 dark:hover:bg-gray-800')}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Text box with the mention picker; content is handed back with mention markup applied
+const CommentComposer = ({ user, placeholder, initial, submitLabel, autoFocus, onSubmit, onCancel }: {
+  user: User | null;
+  placeholder: string;
+  initial?: { text: string; mentions: Mention[] };
+  submitLabel: string;
+  autoFocus?: boolean;
+  onSubmit: (content: string) => Promise<boolean>;
+  onCancel?: () => void;
+}) => {
+  const [text, setText] = useState(initial?.text || '');
+  const [mentions, setMentions] = useState<Mention[]>(initial?.mentions || []);
+  const [submitting, setSubmitting] = useState(false);
+
+  const submit = async () => {
+    if (!text.trim() || submitting) return;
+    setSubmitting(true);
+    const saved = await onSubmit(toMentionMarkup(text.trim(), mentions));
+    setSubmitting(false);
+    if (saved) {
+      setText('');
+      setMentions([]);
+    }
+  };
+
+  return (
+    <div className="flex space-x-2">
+      <Avatar className="h-6 w-6">
+        <AvatarImage src={user?.avatar} />
+        <AvatarFallback className="bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 text-xs font-medium">
+          {user?.name?.charAt(0).toUpperCase() || 'U'}
+        </AvatarFallback>
+      </Avatar>
+      <div className="flex-1 flex items-center space-x-2">
+        <MentionInput
+          value={text}
+          onChange={setText}
+          mentions={mentions}
+          onMentionsChange={setMentions}
+          onSubmit={submit}
+          placeholder={placeholder}
+          autoFocus={autoFocus}
+          disabled={submitting}
+        />
+        {onCancel && (
+          <Button size="sm" variant="ghost" onClick={onCancel} disabled={submitting} className="shrink-0">
+            Cancel
+          </Button>
+        )}
+        <Button size="sm" onClick={submit} disabled={!text.trim() || submitting} className="shrink-0" title={submitLabel}>
+          {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+interface CommentItemProps {
+  postId: string;
+  comment: PostComment;
+  user: User | null;
+  onChanged: (comment: PostComment) => void;
+  onRemoved: (comment: PostComment) => void;
+  onCountChange: (delta: number) => void;
+  onReport: (commentId: string) => void;
+  // Set for the deepest level, whose replies go to the parent's thread
+  onReplyInParent?: (mention: Mention) => void;
+}
+
+const CommentItem = ({ postId, comment, user, onChanged, onRemoved, onCountChange, onReport, onReplyInParent }: CommentItemProps) => {
+  const [editing, setEditing] = useState(false);
+  const [replyDraft, setReplyDraft] = useState<{ text: string; mentions: Mention[] } | null>(null);
+  const [replies, setReplies] = useState<PostComment[]>([]);
+  const [repliesOpen, setRepliesOpen] = useState(false);
+  const [repliesPage, setRepliesPage] = useState(0);
+  const [repliesHaveMore, setRepliesHaveMore] = useState(false);
+  const [loadingReplies, setLoadingReplies] = useState(false);
+  const [liking, setLiking] = useState(false);
+
+  const isDeleted = !!comment.deletedAt;
+  const isOwn = !!user && comment.author?._id === user._id;
+  const isLiked = !!user && comment.likes.includes(user._id);
+
+  const loadReplies = async (page: number) => {
+    setLoadingReplies(true);
+    try {
+      const data = await postsApi.getComments(postId, { parentId: comment._id, page, limit: PAGE_SIZE });
+      setReplies(prev => {
+        const seen = new Set(prev.map(reply => reply._id));
+        return [...prev, ...data.comments.filter(reply => !seen.has(reply._id))];
+      });
+      setRepliesPage(page);
+      setRepliesHaveMore(data.hasMore);
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to load replies'), variant: 'destructive' });
+    } finally {
+      setLoadingReplies(false);
+    }
+  };
+
+  const toggleReplies = () => {
+    if (!repliesOpen && repliesPage === 0) {
+      loadReplies(1);
+    }
+    setRepliesOpen(!repliesOpen);
+  };
+
+  const startReply = (mention?: Mention) => {
+    setReplyDraft(mention ? { text: `@${mention.name} `, mentions: [mention] } : { text: '', mentions: [] });
+  };
+
+  const handleReply = () => {
+    if (!comment.author) return;
+    const mention = { id: comment.author._id, name: comment.author.name };
+    if (onReplyInParent) {
+      onReplyInParent(mention);
+    } else {
+      startReply(comment.author._id === user?._id ? undefined : mention);
+    }
+  };
+
+  const submitReply = async (content: string) => {
+    try {
+      const reply = await postsApi.commentOnPost(postId, { content, parentId: comment._id });
+      setReplies(prev => [...prev, reply]);
+      setRepliesOpen(true);
+      setReplyDraft(null);
+      if (reply.moderationStatus === 'approved') {
+        onChanged({ ...comment, replyCount: comment.replyCount + 1 });
+        onCountChange(1);
+      } else {
+        toast({ title: 'Reply held for review', description: 'It will appear to others once a moderator approves it.' });
+      }
+      return true;
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to post reply'), variant: 'destructive' });
+      return false;
+    }
+  };
+
+  const submitEdit = async (content: string) => {
+    try {
+      const updated = await postsApi.editComment(postId, comment._id, content);
+      if (comment.moderationStatus === 'approved' && updated.moderationStatus !== 'approved') {
+        onCountChange(-1);
+        toast({ title: 'Comment held for review', description: 'Your edit will be visible once a moderator approves it.' });
+      }
+      onChanged({ ...updated, replyCount: comment.replyCount });
+      setEditing(false);
+      return true;
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to edit comment'), variant: 'destructive' });
+      return false;
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      const { placeholder } = await postsApi.deleteComment(postId, comment._id);
+      if (comment.moderationStatus === 'approved') {
+        onCountChange(-1);
+      }
+      if (placeholder) {
+        onChanged({ ...comment, content: '', author: null, mentions: [], likes: [], deletedAt: new Date().toISOString() });
+      } else {
+        onRemoved(comment);
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to delete comment'), variant: 'destructive' });
+    }
+  };
+
+  const handleLike = async () => {
+    if (liking) return;
+    setLiking(true);
+    try {
+      const { likes } = await postsApi.likeComment(postId, comment._id);
+      onChanged({ ...comment, likes });
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to like comment'), variant: 'destructive' });
+    } finally {
+      setLiking(false);
+    }
+  };
+
+  const replyChanged = (updated: PostComment) =>
+    setReplies(prev => prev.map(reply => reply._id === updated._id ? updated : reply));
+
+  const replyRemoved = (removed: PostComment) => {
+    setReplies(prev => prev.filter(reply => reply._id !== removed._id));
+    if (removed.moderationStatus === 'approved') {
+      onChanged({ ...comment, replyCount: Math.max(0, comment.replyCount - 1) });
+    }
+  };
+
+  const canNest = comment.depth < MAX_DEPTH;
+  const hiddenReplies = repliesOpen ? 0 : comment.replyCount;
+
+  return (
+    <div className="flex space-x-2">
+      <Avatar className="h-5 w-5">
+        <AvatarImage src={comment.author?.avatar} />
+        <AvatarFallback className="bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 text-[10px] font-medium">
+          {comment.author?.name?.charAt(0).toUpperCase() || '?'}
+        </AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0 space-y-1.5">
+        {editing ? (
+          <CommentComposer
+            user={user}
+            placeholder="Edit your comment..."
+            initial={toEditableText(comment.content)}
+            submitLabel="Save comment"
+            autoFocus
+            onSubmit={submitEdit}
+            onCancel={() => setEditing(false)}
+          />
+        ) : (
+          <div>
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg px-2.5 py-1.5">
+              <div className="flex items-center justify-between">
+                {isDeleted ? (
+                  <p className="text-[12px] leading-snug italic text-gray-500 dark:text-gray-400">
+                    This comment was deleted
+                  </p>
+                ) : (
+                  <p className="text-[12px] leading-snug">
+                    <Link
+                      to={`/profile/${comment.author?._id}`}
+                      className="font-semibold text-gray-900 dark:text-gray-100 hover:underline"
+                    >
+                      {comment.author?.name || 'Unknown User'}
+                    </Link>
+                    <span className="text-gray-700 dark:text-gray-300 ml-1.5 whitespace-pre-wrap">
+                      <CommentContent content={comment.content} />
+                    </span>
+                  </p>
+                )}
+                {user && !isDeleted && (isOwn ? (
+                  <CommentMenu onEdit={() => setEditing(true)} onDelete={handleDelete} />
+                ) : (
+                  <CommentMenu onReport={() => onReport(comment._id)} />
+                ))}
+              </div>
+            </div>
+            {!isDeleted && (
+              <div className="flex items-center gap-3 px-2.5 pt-0.5 text-[11px] text-gray-500 dark:text-gray-400">
+                <span>{formatTimeAgo(comment.createdAt)}</span>
+                {comment.editedAt && <span title={new Date(comment.editedAt).toLocaleString()}>(edited)</span>}
+                {comment.moderationStatus === 'pending' && (
+                  <span className="text-amber-600 dark:text-amber-400">Awaiting review</span>
+                )}
+                <button
+                  type="button"
+                  onClick={handleLike}
+                  disabled={!user || liking}
+                  className={`inline-flex items-center gap-1 font-medium hover:underline ${isLiked ? 'text-red-600' : ''}`}
+                >
+                  <Heart className={`h-3 w-3 ${isLiked ? 'fill-current' : ''}`} />
+                  {comment.likes.length > 0 && comment.likes.length}
+                </button>
+                {user && comment.moderationStatus === 'approved' && (
+                  <button type="button" onClick={handleReply} className="font-medium hover:underline">
+                    Reply
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {canNest && comment.replyCount > 0 && (
+          <button
+            type="button"
+            onClick={toggleReplies}
+            className="px-2.5 text-[11px] font-medium text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            {repliesOpen
+              ? 'Hide replies'
+              : `View ${hiddenReplies} ${hiddenReplies === 1 ? 'reply' : 'replies'}`}
+          </button>
+        )}
+
+        {canNest && repliesOpen && (
+          <div className="space-y-1.5 border-l border-gray-200 dark:border-gray-700 pl-2">
+            {replies.map(reply => (
+              <CommentItem
+                key={reply._id}
+                postId={postId}
+                comment={reply}
+                user={user}
+                onChanged={replyChanged}
+                onRemoved={replyRemoved}
+                onCountChange={onCountChange}
+                onReport={onReport}
+                onReplyInParent={reply.depth >= MAX_DEPTH ? startReply : undefined}
+              />
+            ))}
+            {loadingReplies && <Loader2 className="h-3 w-3 animate-spin text-gray-400" />}
+            {repliesHaveMore && !loadingReplies && (
+              <button
+                type="button"
+                onClick={() => loadReplies(repliesPage + 1)}
+                className="text-[11px] font-medium text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                View more replies
+              </button>
+            )}
+          </div>
+        )}
+
+        {replyDraft && (
+          <CommentComposer
+            key={replyDraft.text}
+            user={user}
+            placeholder={`Reply to ${comment.author?.name || 'this thread'}...`}
+            initial={replyDraft}
+            submitLabel="Send reply"
+            autoFocus
+            onSubmit={submitReply}
+            onCancel={() => setReplyDraft(null)}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface CommentThreadProps {
+  postId: string;
+  user: User | null;
+  onCountChange: (delta: number) => void;
+  onReport: (commentId: string) => void;
+}
+
+export default function CommentThread({ postId, user, onCountChange, onReport }: CommentThreadProps) {
+  const [comments, setComments] = useState<PostComment[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const loadPage = useCallback(async (nextPage: number) => {
+    setLoading(true);
+    try {
+      const data = await postsApi.getComments(postId, { page: nextPage, limit: PAGE_SIZE });
+      setComments(prev => {
+        const existing = nextPage === 1 ? [] : prev;
+        const seen = new Set(existing.map(comment => comment._id));
+        return [...existing, ...data.comments.filter(comment => !seen.has(comment._id))];
+      });
+      setPage(nextPage);
+      setHasMore(data.hasMore);
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to load comments'), variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [postId]);
+
+  useEffect(() => {
+    loadPage(1);
+  }, [loadPage]);
+
+  const submitComment = async (content: string) => {
+    try {
+      const comment = await postsApi.commentOnPost(postId, { content });
+      setComments(prev => [comment, ...prev]);
+      if (comment.moderationStatus === 'approved') {
+        onCountChange(1);
+      } else {
+        toast({ title: 'Comment held for review', description: 'It will appear to others once a moderator approves it.' });
+      }
+      return true;
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to add comment'), variant: 'destructive' });
+      return false;
+    }
+  };
+
+  const commentChanged = (updated: PostComment) =>
+    setComments(prev => prev.map(comment => comment._id === updated._id ? updated : comment));
+
+  const commentRemoved = (removed: PostComment) =>
+    setComments(prev => prev.filter(comment => comment._id !== removed._id));
+
+  return (
+    <div className="space-y-1.5">
+      {comments.map(comment => (
+        <CommentItem
+          key={comment._id}
+          postId={postId}
+          comment={comment}
+          user={user}
+          onChanged={commentChanged}
+          onRemoved={commentRemoved}
+          onCountChange={onCountChange}
+          onReport={onReport}
+        />
+      ))}
+
+      {loading && (
+        <div className="flex justify-center py-1">
+          <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+        </div>
+      )}
+
+      {hasMore && !loading && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => loadPage(page + 1)}
+          className="text-blue-600 dark:text-blue-400 text-sm"
+        >
+          View more comments
+        </Button>
+      )}
+
+      {/* Add Comment */}
+      <CommentComposer user={user} placeholder="Add a comment..." submitLabel="Send comment" onSubmit={submitComment} />
+    </div>
+  );
+}
@@ -1,21 +1,21 @@
 import React, { useState } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Calendar, Clock, MapPin, Users, Link, Repeat, Globe, Users2, CalendarDays, ImageIcon, Play, File } from 'lucide-react';
+import { Calendar, Clock, MapPin, Users, Link, Repeat, Globe, Users2, CalendarDays, ImageIcon, Play, File, CalendarPlus } from 'lucide-react';
 import { Post } from '@/services/postsApi';
 import { User } from '@/contexts/AuthContext';
 import BasePost from './BasePost';
 import MediaLightbox from './MediaLightbox';
 import Linkify from '@/components/ui/Linkify';
+import { downloadIcs } from '@/services/calendarFeedApi';
+import { toast } from '@/hooks/use-toast';
 
 interface EventPostProps {
   post: Post;
   user: User | null;
   onLike: (postId: string) => void;
-  onComment: (postId: string, commentContent: string) => void;
   onEdit?: (postId: string) => void;
   onDelete: (postId: string) => void;
-  onDeleteComment?: (postId: string, commentId: string) => void;
   onShare?: (postId: string) => void;
   showComments: boolean;
   onToggleComments: () => void;
@@ -31,10 +31,8 @@ export default function EventPost({
   post,
   user,
   onLike,
-  onComment,
   onEdit,
   onDelete,
-  onDeleteComment,
   onShare,
   showComments,
   onToggleComments,
@@ -46,6 +44,15 @@ export default function EventPost({
 }: EventPostProps) {
   const [lightboxUrl, setLightboxUrl] = useState<string | null>(null);
 
+  const handleAddToCalendar = async () => {
+    try {
+      await downloadIcs(`/api/posts/${post._id}/ics`, post.title || 'event');
+    } catch (error) {
+      console.error('Error exporting event:', error);
+      toast({ title: 'Error', description: 'Failed to export event', variant: 'destructive' });
+    }
+  };
+
   // Image logic standardized to 4:5 aspect ratio for single, square for grid
   const renderMedia = (mediaItem: any, isGrid: boolean = false) => {
     // Handle both string (legacy) and object (new) media formats
@@ -140,10 +147,8 @@ export default function EventPost({
         post={post}
         user={user}
         onLike={onLike}
-        onComment={onComment}
         onEdit={onEdit}
         onDelete={onDelete}
-        onDeleteComment={onDeleteComment}
         onShare={onShare}
         showComments={showComments}
         onToggleComments={onToggleComments}
@@ -292,6 +297,18 @@ export default function EventPost({
                   </Button>
                 </div>
               )}
+
+              {post.eventDetails.date && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleAddToCalendar}
+                  className="w-full flex items-center justify-center space-x-2"
+                >
+                  <CalendarPlus className="h-4 w-4" />
+                  <span>Add to Calendar</span>
+                </Button>
+              )}
             </div>
           </div>
         )}
@@ -11,10 +11,8 @@ interface GeneralPostProps {
   post: Post;
   user: User | null;
   onLike: (postId: string) => void;
-  onComment: (postId: string, commentContent: string) => void;
   onEdit?: (postId: string) => void;
   onDelete: (postId: string) => void;
-  onDeleteComment?: (postId: string, commentId: string) => void;
   onShare?: (postId: string) => void;
   showComments: boolean;
   onToggleComments: () => void;
@@ -29,10 +27,8 @@ export default function GeneralPost({
   post,
   user,
   onLike,
-  onComment,
   onEdit,
   onDelete,
-  onDeleteComment,
   onShare,
   showComments,
   onToggleComments,
@@ -113,10 +109,8 @@ export default function GeneralPost({
         post={post}
         user={user}
         onLike={onLike}
-        onComment={onComment}
         onEdit={onEdit}
         onDelete={onDelete}
-        onDeleteComment={onDeleteComment}
         onShare={onShare}
         showComments={showComments}
         onToggleComments={onToggleComments}
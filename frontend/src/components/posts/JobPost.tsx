@@ -1,21 +1,23 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Briefcase, Building, MapPin, DollarSign, Users, Calendar, Link, ImageIcon, Play, File } from 'lucide-react';
+import { Briefcase, Building, MapPin, DollarSign, Users, Calendar, Link, ImageIcon, Play, File, Send, KanbanSquare, Lock, CheckCircle2, XCircle, ShieldCheck } from 'lucide-react';
 import { Post } from '@/services/postsApi';
 import { User } from '@/contexts/AuthContext';
 import BasePost from './BasePost';
 import MediaLightbox from './MediaLightbox';
 import Linkify from '@/components/ui/Linkify';
+import JobApplyDialog from '@/components/placements/JobApplyDialog';
+import JobPipelineBoard from '@/components/placements/JobPipelineBoard';
+import EligibilityOverridesDialog from '@/components/placements/EligibilityOverridesDialog';
+import { JobApplication, JobForPost, getJobForPost, getStatusMeta } from '@/services/jobsApi';
 
 interface JobPostProps {
   post: Post;
   user: User | null;
   onLike: (postId: string) => void;
-  onComment: (postId: string, commentContent: string) => void;
   onEdit?: (postId: string) => void;
   onDelete: (postId: string) => void;
-  onDeleteComment?: (postId: string, commentId: string) => void;
   onShare?: (postId: string) => void;
   showComments: boolean;
   onToggleComments: () => void;
@@ -30,10 +32,8 @@ export default function JobPost({
   post,
   user,
   onLike,
-  onComment,
   onEdit,
   onDelete,
-  onDeleteComment,
   onShare,
   showComments,
   onToggleComments,
@@ -44,6 +44,95 @@ export default function JobPost({
   showShareButton = true
 }: JobPostProps) {
   const [lightboxUrl, setLightboxUrl] = useState<string | null>(null);
+  const [jobInfo, setJobInfo] = useState<JobForPost | null>(null);
+  const [showApply, setShowApply] = useState(false);
+  const [showPipeline, setShowPipeline] = useState(false);
+  const [showOverrides, setShowOverrides] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    getJobForPost(post._id)
+      .then(data => { if (!cancelled) setJobInfo(data); })
+      .catch(error => console.error('Error loading job application status:', error));
+    return () => { cancelled = true; };
+  }, [post._id, user]);
+
+  const handleApplied = (application: JobApplication) => {
+    setJobInfo(prev => (prev ? { ...prev, myApplication: application } : prev));
+  };
+
+  const renderEligibility = () => {
+    const eligibility = jobInfo?.eligibility;
+    if (!eligibility) return null;
+
+    if (eligibility.eligible) {
+      return (
+        <div className="flex items-center gap-1.5 text-xs text-green-700 dark:text-green-400">
+          <CheckCircle2 className="h-3.5 w-3.5" />
+          <span>{eligibility.overridden ? 'Eligible (approved by placement coordinator)' : 'Eligible'}</span>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex items-start gap-1.5 text-xs text-red-700 dark:text-red-400">
+        <XCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+        <span>Not eligible because: {eligibility.reasons.join('; ')}</span>
+      </div>
+    );
+  };
+
+  const renderApplicationAction = () => {
+    if (!jobInfo) return null;
+
+    if (jobInfo.isPoster) {
+      return (
+        <Button variant="outline" className="w-full" onClick={() => setShowPipeline(true)}>
+          <KanbanSquare className="h-4 w-4 mr-2" />
+          View applicants ({jobInfo.applicationCount || 0})
+        </Button>
+      );
+    }
+
+    const application = jobInfo.myApplication;
+    if (application && application.status !== 'withdrawn') {
+      const meta = getStatusMeta(application.status);
+      return (
+        <div className="flex items-center justify-between rounded-md border bg-background p-2 text-sm">
+          <span className="text-muted-foreground">
+            Applied {new Date(application.createdAt).toLocaleDateString()}
+          </span>
+          <Badge className={meta.className}>{meta.label}</Badge>
+        </div>
+      );
+    }
+
+    if (jobInfo.eligibility && !jobInfo.eligibility.eligible) {
+      return (
+        <Button variant="outline" className="w-full" disabled>
+          <Lock className="h-4 w-4 mr-2" />
+          Not eligible to apply
+        </Button>
+      );
+    }
+
+    if (jobInfo.deadlinePassed || !jobInfo.job.isActive) {
+      return (
+        <Button variant="outline" className="w-full" disabled>
+          <Lock className="h-4 w-4 mr-2" />
+          Applications closed
+        </Button>
+      );
+    }
+
+    return (
+      <Button className="w-full bg-green-600 hover:bg-green-700 text-white" onClick={() => setShowApply(true)}>
+        <Send className="h-4 w-4 mr-2" />
+        {application ? 'Apply again' : 'Apply with your profile'}
+      </Button>
+    );
+  };
 
   const formatDeadline = (dateString: string) => {
     if (!dateString) return 'Not specified';
@@ -163,10 +252,8 @@ export default function JobPost({
         post={post}
         user={user}
         onLike={onLike}
-        onComment={onComment}
         onEdit={onEdit}
         onDelete={onDelete}
-        onDeleteComment={onDeleteComment}
         onShare={onShare}
         showComments={showComments}
         onToggleComments={onToggleComments}
@@ -311,6 +398,19 @@ export default function JobPost({
                   </Button>
                 </div>
               )}
+
+              {jobInfo && (
+                <div className="mt-3 space-y-2">
+                  {renderEligibility()}
+                  {renderApplicationAction()}
+                  {jobInfo.canOverrideEligibility && (
+                    <Button variant="ghost" size="sm" className="w-full text-xs" onClick={() => setShowOverrides(true)}>
+                      <ShieldCheck className="h-3.5 w-3.5 mr-1.5" />
+                      Manage eligibility overrides
+                    </Button>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -325,6 +425,32 @@ export default function JobPost({
         )}
       </BasePost>
 
+      {jobInfo && !jobInfo.isPoster && (
+        <JobApplyDialog
+          open={showApply}
+          onClose={() => setShowApply(false)}
+          job={jobInfo.job}
+          onApplied={handleApplied}
+        />
+      )}
+
+      {jobInfo?.canOverrideEligibility && (
+        <EligibilityOverridesDialog
+          jobId={jobInfo.job._id}
+          jobTitle={jobInfo.job.title}
+          open={showOverrides}
+          onClose={() => setShowOverrides(false)}
+        />
+      )}
+
+      {jobInfo?.isPoster && (
+        <JobPipelineBoard
+          jobId={jobInfo.job._id}
+          open={showPipeline}
+          onClose={() => setShowPipeline(false)}
+        />
+      )}
+
       {lightboxUrl && (
         <MediaLightbox
           url={lightboxUrl}
@@ -0,0 +1,150 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Input } from '@/components/ui/input';
+import api from '@/services/api';
+import { Mention } from '@/utils/mentions';
+
+type MentionCandidate = {
+  _id: string;
+  name: string;
+  avatar?: string;
+  type?: string;
+  department?: string;
+};
+
+interface MentionInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  mentions: Mention[];
+  onMentionsChange: (mentions: Mention[]) => void;
+  onSubmit: () => void;
+  placeholder?: string;
+  autoFocus?: boolean;
+  disabled?: boolean;
+}
+
+// The "@query" being typed right before the cursor, if any
+const MENTION_QUERY = /(^|\s)@([^\s@]{1,30})$/;
+
+export default function MentionInput({
+  value,
+  onChange,
+  mentions,
+  onMentionsChange,
+  onSubmit,
+  placeholder,
+  autoFocus,
+  disabled
+}: MentionInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [candidates, setCandidates] = useState<MentionCandidate[]>([]);
+  const [highlighted, setHighlighted] = useState(0);
+
+  // Debounced user search for the picker
+  useEffect(() => {
+    if (!query) {
+      setCandidates([]);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        const response = await api.get('/api/users/search', { params: { q: query, limit: 6 } });
+        setCandidates(response.data.users || []);
+        setHighlighted(0);
+      } catch (error) {
+        console.error('Error searching users to mention:', error);
+      }
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const updateQuery = (text: string, cursor: number) => {
+    const match = text.slice(0, cursor).match(MENTION_QUERY);
+    setQuery(match ? match[2] : null);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange(e.target.value);
+    updateQuery(e.target.value, e.target.selectionStart ?? e.target.value.length);
+  };
+
+  const pick = (candidate: MentionCandidate) => {
+    const cursor = inputRef.current?.selectionStart ?? value.length;
+    const before = value.slice(0, cursor).replace(MENTION_QUERY, `$1@${candidate.name} `);
+    onChange(before + value.slice(cursor));
+    if (!mentions.some(mention => mention.id === candidate._id)) {
+      onMentionsChange([...mentions, { id: candidate._id, name: candidate.name }]);
+    }
+    setQuery(null);
+
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const pickerOpen = query !== null && candidates.length > 0;
+
+    if (pickerOpen && e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % candidates.length);
+    } else if (pickerOpen && e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + candidates.length) % candidates.length);
+    } else if (pickerOpen && (e.key === 'Enter' || e.key === 'Tab')) {
+      e.preventDefault();
+      pick(candidates[highlighted]);
+    } else if (e.key === 'Escape') {
+      setQuery(null);
+    } else if (e.key === 'Enter' && !e.shiftKey && value.trim()) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      <Input
+        ref={inputRef}
+        placeholder={placeholder}
+        value={value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setTimeout(() => setQuery(null), 150)}
+        autoFocus={autoFocus}
+        disabled={disabled}
+        maxLength={2000}
+        className="text-sm"
+      />
+
+      {query !== null && candidates.length > 0 && (
+        <div className="absolute left-0 right-0 top-full mt-1 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 shadow-lg z-30 p-1">
+          {candidates.map((candidate, index) => (
+            <button
+              key={candidate._id}
+              type="button"
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(candidate);
+              }}
+              className={`w-full flex items-center gap-2 rounded px-2 py-1.5 text-left text-sm ${index === highlighted ? 'bg-gray-100 dark:bg-gray-800' : 'hover:bg-gray-50 dark:hover:bg-gray-800'}`}
+            >
+              <Avatar className="h-5 w-5">
+                <AvatarImage src={candidate.avatar} />
+                <AvatarFallback className="text-[10px]">{candidate.name.charAt(0).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <span className="font-medium truncate">{candidate.name}</span>
+              {(candidate.type || candidate.department) && (
+                <span className="text-xs text-muted-foreground truncate">
+                  {[candidate.type, candidate.department].filter(Boolean).join(' • ')}
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -18,10 +18,8 @@ interface PollPostProps {
   post: Post;
   user: User | null;
   onLike: (postId: string) => void;
-  onComment: (postId: string, comment: string) => void;
   onEdit?: (postId: string) => void;
   onDelete: (postId: string) => void;
-  onDeleteComment?: (postId: string, commentId: string) => void;
   onShare?: (postId: string) => void;
   showComments: boolean;
   onToggleComments: () => void;
@@ -37,10 +35,8 @@ const PollPost: React.FC<PollPostProps> = ({
   post,
   user,
   onLike,
-  onComment,
   onEdit,
   onDelete,
-  onDeleteComment,
   onShare,
   showComments,
   onToggleComments,
@@ -356,10 +352,8 @@ const PollPost: React.FC<PollPostProps> = ({
         post={currentPost}
         user={user}
         onLike={onLike}
-        onComment={onComment}
         onEdit={onEdit}
         onDelete={onDelete}
-        onDeleteComment={onDeleteComment}
         onShare={onShare}
         showComments={showComments}
         onToggleComments={onToggleComments}
@@ -3,11 +3,12 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from '@/hooks/use-toast';
 import postsApi from '@/services/postsApi';
-import { Post } from '@/services/postsApi';
+import { FeedType, Post } from '@/services/postsApi';
 import PostRenderer from './PostRenderer';
 import { Button } from '@/components/ui/button';
 import { Plus, Loader2, AlertCircle, RefreshCw } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { socketService } from '@/services/socketService';
 import ShareModal from '@/components/ui/ShareModal';
 
@@ -18,7 +19,8 @@ const PostFeed: React.FC<{ showDeleteButton?: boolean }> = ({ showDeleteButton =
   const [originalPosts, setOriginalPosts] = useState<Post[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [currentPage, setCurrentPage] = useState(1);
+  const [feed, setFeed] = useState<FeedType>('for_you');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [showComments, setShowComments] = useState<Record<string, boolean>>({});
@@ -30,7 +32,7 @@ const PostFeed: React.FC<{ showDeleteButton?: boolean }> = ({ showDeleteButton =
   const lastPostRef = useRef<HTMLDivElement>(null);
 
   // Load posts when user is authenticated
-  const loadPosts = useCallback(async (page = 1, append = false) => {
+  const loadPosts = useCallback(async (cursor: string | null = null, append = false) => {
     if (!user || !user._id) {
       console.log('PostFeed: No authenticated user, skipping post loading');
       return;
@@ -40,8 +42,8 @@ const PostFeed: React.FC<{ showDeleteButton?: boolean }> = ({ showDeleteButton =
       setIsLoading(true);
       setError(null);
 
-      console.log('PostFeed: Loading posts for page:', page);
-      const response = await postsApi.getPosts(page);
+      console.log('PostFeed: Loading feed:', feed, 'cursor:', cursor);
+      const response = await postsApi.getFeed(feed, cursor);
 
       if (response && response.posts) {
         // Temporarily use the posts directly to fix the type issue
@@ -57,8 +59,8 @@ const PostFeed: React.FC<{ showDeleteButton?: boolean }> = ({ showDeleteButton =
           setOriginalPosts(response.posts);
         }
 
-        setCurrentPage(page);
-        setHasMore(page < response.totalPages);
+        setNextCursor(response.nextCursor);
+        setHasMore(response.hasMore);
         console.log('PostFeed: Successfully loaded posts:', response.posts.length);
       } else {
         console.warn('PostFeed: Invalid response format:', response);
@@ -88,13 +90,13 @@ const PostFeed: React.FC<{ showDeleteButton?: boolean }> = ({ showDeleteButton =
     } finally {
       setIsLoading(false);
     }
-  }, [user]);
+  }, [user, feed]);
 
   // Initial load
   useEffect(() => {
     if (user && user._id) {
       console.log('PostFeed useEffect - loadPosts called with authenticated user:', user._id);
-      loadPosts(1, false);
+      loadPosts(null, false);
     } else {
       console.log('PostFeed useEffect - User not authenticated yet:', user);
     }
@@ -143,7 +145,7 @@ const PostFeed: React.FC<{ showDeleteButton?: boolean }> = ({ showDeleteButton =
       if (user && user._id) {
         setRefreshing(true);
         try {
-          await loadPosts(1, false);
+          await loadPosts(null, false);
           toast({
             title: "Posts Refreshed",
             description: "Latest posts have been loaded.",
@@ -222,14 +224,14 @@ const PostFeed: React.FC<{ showDeleteButton?: boolean }> = ({ showDeleteButton =
 
     console.log('PostFeed: Setting up socket listeners for user:', user._id);
 
-    // Listen for new comments
+    // Listen for new comments; the thread itself loads on demand, so only the count is kept live
     const handlePostCommentAdded = (data: any) => {
       console.log('PostFeed: Received new comment:', data);
       setPosts(prev => prev.map(post => {
         if (post._id === data.postId) {
           return {
             ...post,
-            comments: [...post.comments, data.comment]
+            commentCount: data.commentCount
           };
         }
         return post;
@@ -293,7 +295,7 @@ const PostFeed: React.FC<{ showDeleteButton?: boolean }> = ({ showDeleteButton =
     const currentObserver = new IntersectionObserver(
       (entries) => {
         if (entries[0].isIntersecting && hasMore && !isLoading) {
-          loadPosts(currentPage + 1, true);
+          loadPosts(nextCursor, true);
         }
       },
       { threshold: 0.1 }
@@ -310,7 +312,7 @@ const PostFeed: React.FC<{ showDeleteButton?: boolean }> = ({ showDeleteButton =
         currentObserver.disconnect();
       }
     };
-  }, [isLoading, hasMore, currentPage, loadPosts]);
+  }, [isLoading, hasMore, nextCursor, loadPosts]);
 
   // Refresh posts
   const handleRefresh = useCallback(async () => {
@@ -318,7 +320,7 @@ const PostFeed: React.FC<{ showDeleteButton?: boolean }> = ({ showDeleteButton =
 
     setRefreshing(true);
     try {
-      await loadPosts(1, false);
+      await loadPosts(null, false);
       toast({
         title: "Posts Refreshed",
         description: "Latest posts have been loaded.",
@@ -330,62 +332,6 @@ const PostFeed: React.FC<{ showDeleteButton?: boolean }> = ({ showDeleteButton =
     }
   }, [user, loadPosts]);
 
-  // Handle comment deletion (guard against non-authors)
-  const handleDeleteComment = async (postId: string, commentId: string) => {
-    try {
-      // Authorship guard: ensure current user owns the comment before API call
-      const targetPost = posts.find(p => p._id === postId);
-      const targetComment: any | undefined = targetPost?.comments?.find((c: any) => c._id === commentId);
-      const currentUserId = user?._id?.toString();
-
-      if (!targetComment || targetComment?.author?._id?.toString() !== currentUserId) {
-        toast({
-          title: "Not allowed",
-          description: "You can only delete your own comments.",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      await postsApi.deleteComment(postId, commentId);
-
-      // Update the posts state to remove the deleted comment
-      setPosts(prevPosts =>
-        prevPosts.map(post =>
-          post._id === postId
-            ? {
-              ...post,
-              comments: post.comments?.filter(comment => comment._id !== commentId) || []
-            }
-            : post
-        )
-      );
-
-      setOriginalPosts(prevPosts =>
-        prevPosts.map(post =>
-          post._id === postId
-            ? {
-              ...post,
-              comments: post.comments?.filter(comment => comment._id !== commentId) || []
-            }
-            : post
-        )
-      );
-
-      toast({
-        title: "Comment deleted",
-        description: "Your comment has been deleted successfully.",
-      });
-    } catch (error) {
-      console.error('Error deleting comment:', error);
-      toast({
-        title: "Error",
-        description: "Failed to delete comment. Please try again.",
-        variant: "destructive",
-      });
-    }
-  };
-
   // Handle post deletion
   const handlePostDeleted = useCallback(async (postId: string) => {
     try {
@@ -495,62 +441,6 @@ const PostFeed: React.FC<{ showDeleteButton?: boolean }> = ({ showDeleteButton =
     }
   }, [user, toast, posts]);
 
-  // Handle comment addition
-  const handleCommentAdded = useCallback(async (postId: string, commentContent: string) => {
-    if (!user || !user._id) {
-      toast({
-        title: "Authentication Required",
-        description: "Please log in to comment.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    try {
-      console.log('Adding comment to post:', postId, 'Content:', commentContent);
-      const response = await postsApi.commentOnPost(postId, { content: commentContent });
-      console.log('Comment response:', response);
-
-      // Handle both success and direct response formats
-      if (response) {
-        const comment = response.success ? response.comment : response;
-        if (comment) {
-          setPosts(prev => prev.map(post =>
-            post._id === postId
-              ? { ...post, comments: [...post.comments, comment] }
-              : post
-          ));
-          toast({
-            title: "Comment Added",
-            description: "Your comment has been posted successfully!",
-          });
-          console.log('Comment added successfully');
-        } else {
-          console.error('No comment in response:', response);
-          toast({
-            title: "Error",
-            description: "No comment data received from server.",
-            variant: "destructive",
-          });
-        }
-      } else {
-        console.error('Invalid comment response:', response);
-        toast({
-          title: "Error",
-          description: "Invalid response from server.",
-          variant: "destructive",
-        });
-      }
-    } catch (error) {
-      console.error('Error adding comment:', error);
-      toast({
-        title: "Error",
-        description: "Failed to add comment. Please try again.",
-        variant: "destructive",
-      });
-    }
-  }, [user]);
-
   // Handle poll voting
   const handlePollVote = useCallback(async (postId: string, optionId: string) => {
     // If optionId is empty, this is just a state update notification from PollPost
@@ -667,13 +557,35 @@ const PostFeed: React.FC<{ showDeleteButton?: boolean }> = ({ showDeleteButton =
     }));
   }, []);
 
+  // Switching feeds starts again from the top
+  const handleFeedChange = (value: string) => {
+    if (value === feed) return;
+    setPosts([]);
+    setOriginalPosts([]);
+    setNextCursor(null);
+    setHasMore(true);
+    setFeed(value as FeedType);
+  };
+
+  const feedTabs = (
+    <Tabs value={feed} onValueChange={handleFeedChange} className="mx-auto max-w-[680px] w-full">
+      <TabsList className="grid w-full grid-cols-2">
+        <TabsTrigger value="for_you">For you</TabsTrigger>
+        <TabsTrigger value="latest">Latest</TabsTrigger>
+      </TabsList>
+    </Tabs>
+  );
+
   // Render loading state
   if (isLoading && posts.length === 0) {
     return (
-      <div className="flex items-center justify-center min-h-[400px]">
-        <div className="text-center">
-          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-blue-500" />
-          <p className="text-gray-600 dark:text-gray-400">Loading posts...</p>
+      <div className="space-y-4">
+        {feedTabs}
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-blue-500" />
+            <p className="text-gray-600 dark:text-gray-400">Loading posts...</p>
+          </div>
         </div>
       </div>
     );
@@ -714,31 +626,34 @@ const PostFeed: React.FC<{ showDeleteButton?: boolean }> = ({ showDeleteButton =
   // Render empty state
   if (!isLoading && (!posts || posts.length === 0)) {
     return (
-      <div className="text-center py-12">
-        <div className="max-w-md mx-auto">
-          <div className="text-6xl mb-4">📝</div>
-          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">
-            No posts yet
-          </h3>
-          <p className="text-gray-600 dark:text-gray-400 mb-6">
-            Be the first to share something with your alumni network!
-          </p>
-          <div className="flex flex-col sm:flex-row gap-3">
-            <Button
-              onClick={() => navigate('/create-post')}
-              className="flex-1 bg-blue-600 hover:bg-blue-700 text-white"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Create Your First Post
-            </Button>
-            <Button
-              onClick={handleRefresh}
-              variant="outline"
-              className="flex-1"
-            >
-              <RefreshCw className="h-4 w-4 mr-2" />
-              Refresh Posts
-            </Button>
+      <div className="space-y-4">
+        {feedTabs}
+        <div className="text-center py-12">
+          <div className="max-w-md mx-auto">
+            <div className="text-6xl mb-4">📝</div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">
+              No posts yet
+            </h3>
+            <p className="text-gray-600 dark:text-gray-400 mb-6">
+              Be the first to share something with your alumni network!
+            </p>
+            <div className="flex flex-col sm:flex-row gap-3">
+              <Button
+                onClick={() => navigate('/create-post')}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 text-white"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Create Your First Post
+              </Button>
+              <Button
+                onClick={handleRefresh}
+                variant="outline"
+                className="flex-1"
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh Posts
+              </Button>
+            </div>
           </div>
         </div>
       </div>
@@ -747,6 +662,8 @@ const PostFeed: React.FC<{ showDeleteButton?: boolean }> = ({ showDeleteButton =
 
   return (
     <div className="space-y-4 min-h-full">
+      {feedTabs}
+
       {/* Posts List */}
       <div className="space-y-3">
         {posts.map((post, index) => {
@@ -776,8 +693,6 @@ const PostFeed: React.FC<{ showDeleteButton?: boolean }> = ({ showDeleteButton =
             likesArray = [];
           }
 
-          const commentsArray = Array.isArray(post.comments) ? post.comments : [];
-
           // Additional safety check for user ID - ensure exact match
           const userId = user?._id?.toString() || '';
           const isLiked = likesArray.some(likeId => likeId === userId);
@@ -791,7 +706,7 @@ const PostFeed: React.FC<{ showDeleteButton?: boolean }> = ({ showDeleteButton =
             exactMatch: likesArray.includes(userId)
           });
 
-          const commentsCount = commentsArray.length;
+          const commentsCount = post.commentCount || 0;
           const showCommentsForPost = showComments[post._id] || false;
           return (
             <div
@@ -804,10 +719,8 @@ const PostFeed: React.FC<{ showDeleteButton?: boolean }> = ({ showDeleteButton =
                 post={post}
                 user={user}
                 onLike={handlePostLike}
-                onComment={handleCommentAdded}
                 onEdit={undefined}
                 onDelete={handlePostDeleted}
-                onDeleteComment={handleDeleteComment}
                 onShare={handlePostShare}
                 showComments={showCommentsForPost}
                 onToggleComments={() => handleToggleComments(post._id)}
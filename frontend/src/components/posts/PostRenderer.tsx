@@ -10,10 +10,8 @@ interface PostRendererProps {
   post: Post;
   user: User | null;
   onLike: (postId: string) => void;
-  onComment: (postId: string, commentContent: string) => void;
   onEdit?: (postId: string) => void;
   onDelete: (postId: string) => void;
-  onDeleteComment?: (postId: string, commentId: string) => void;
   onShare?: (postId: string) => void;
   showComments: boolean;
   onToggleComments: () => void;
@@ -28,10 +26,8 @@ export default function PostRenderer({
   post,
   user,
   onLike,
-  onComment,
   onEdit,
   onDelete,
-  onDeleteComment,
   onShare,
   showComments,
   onToggleComments,
@@ -49,10 +45,8 @@ export default function PostRenderer({
           post={post}
           user={user}
           onLike={onLike}
-          onComment={onComment}
           onEdit={onEdit}
           onDelete={onDelete}
-          onDeleteComment={onDeleteComment}
           onShare={onShare}
           showComments={showComments}
           onToggleComments={onToggleComments}
@@ -69,10 +63,8 @@ export default function PostRenderer({
           post={post}
           user={user}
           onLike={onLike}
-          onComment={onComment}
           onEdit={onEdit}
           onDelete={onDelete}
-          onDeleteComment={onDeleteComment}
           onShare={onShare}
           showComments={showComments}
           onToggleComments={onToggleComments}
@@ -89,10 +81,8 @@ export default function PostRenderer({
           post={post}
           user={user}
           onLike={onLike}
-          onComment={onComment}
           onEdit={onEdit}
           onDelete={onDelete}
-          onDeleteComment={onDeleteComment}
           onShare={onShare}
           showComments={showComments}
           onToggleComments={onToggleComments}
@@ -111,10 +101,8 @@ export default function PostRenderer({
           post={post}
           user={user}
           onLike={onLike}
-          onComment={onComment}
           onEdit={onEdit}
           onDelete={onDelete}
-          onDeleteComment={onDeleteComment}
           onShare={onShare}
           showComments={showComments}
           onToggleComments={onToggleComments}
@@ -120,51 +120,6 @@ const UserPostsFeed: React.FC<UserPostsFeedProps> = ({ userId, showDeleteButton
     };
   }, [isLoading, hasMore, currentPage, loadUserPosts]);
 
-  // Handle comment deletion (guard against non-authors)
-  const handleDeleteComment = async (postId: string, commentId: string) => {
-    try {
-      // Authorship guard: ensure current user owns the comment before API call
-      const targetPost = posts.find(p => p._id === postId);
-      const targetComment: any | undefined = targetPost?.comments?.find((c: any) => c._id === commentId);
-      const currentUserId = user?._id?.toString();
-
-      if (!targetComment || targetComment?.author?._id?.toString() !== currentUserId) {
-        toast({
-          title: "Not allowed",
-          description: "You can only delete your own comments.",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      await postsApi.deleteComment(postId, commentId);
-      
-      // Update the posts state to remove the deleted comment
-      setPosts(prevPosts => 
-        prevPosts.map(post => 
-          post._id === postId 
-            ? {
-                ...post,
-                comments: post.comments?.filter(comment => comment._id !== commentId) || []
-              }
-            : post
-        )
-      );
-      
-      toast({
-        title: "Comment deleted",
-        description: "Your comment has been deleted successfully.",
-      });
-    } catch (error) {
-      console.error('Error deleting comment:', error);
-      toast({
-        title: "Error",
-        description: "Failed to delete comment. Please try again.",
-        variant: "destructive",
-      });
-    }
-  };
-
   // Handle post deletion
   const handlePostDeleted = useCallback(async (postId: string) => {
     try {
@@ -263,62 +218,6 @@ const UserPostsFeed: React.FC<UserPostsFeedProps> = ({ userId, showDeleteButton
     }
   }, [user, toast, posts]);
 
-  // Handle comment addition
-  const handleCommentAdded = useCallback(async (postId: string, commentContent: string) => {
-    if (!user || !user._id) {
-      toast({
-        title: "Authentication Required",
-        description: "Please log in to comment.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    try {
-      console.log('Adding comment to post:', postId, 'Content:', commentContent);
-      const response = await postsApi.commentOnPost(postId, { content: commentContent });
-      console.log('Comment response:', response);
-      
-      // Handle both success and direct response formats
-      if (response) {
-        const comment = response.success ? response.comment : response;
-        if (comment) {
-          setPosts(prev => prev.map(post => 
-            post._id === postId 
-              ? { ...post, comments: [...post.comments, comment] }
-              : post
-          ));
-          toast({
-            title: "Comment Added",
-            description: "Your comment has been posted successfully!",
-          });
-          console.log('Comment added successfully');
-        } else {
-          console.error('No comment in response:', response);
-          toast({
-            title: "Error",
-            description: "No comment data received from server.",
-            variant: "destructive",
-          });
-        }
-      } else {
-        console.error('Invalid comment response:', response);
-        toast({
-          title: "Error",
-          description: "Invalid response from server.",
-          variant: "destructive",
-        });
-      }
-    } catch (error) {
-      console.error('Error adding comment:', error);
-      toast({
-        title: "Error",
-        description: "Failed to add comment. Please try again.",
-        variant: "destructive",
-      });
-    }
-  }, [user]);
-
   // Handle poll voting
   const handlePollVote = useCallback(async (postId: string, optionId: string) => {
     if (!user || !user._id) {
@@ -463,8 +362,6 @@ const UserPostsFeed: React.FC<UserPostsFeedProps> = ({ userId, showDeleteButton
           likesArray = [];
         }
         
-        const commentsArray = Array.isArray(post.comments) ? post.comments : [];
-        
         // Additional safety check for user ID - ensure exact match
         const currentUserId = user?._id?.toString() || '';
         const isLiked = likesArray.some(likeId => likeId === currentUserId);
@@ -478,7 +375,7 @@ const UserPostsFeed: React.FC<UserPostsFeedProps> = ({ userId, showDeleteButton
           exactMatch: likesArray.includes(currentUserId)
         });
         
-        const commentsCount = commentsArray.length;
+        const commentsCount = post.commentCount || 0;
         const showCommentsForPost = showComments[post._id] || false;
                 
         return (
@@ -487,10 +384,8 @@ const UserPostsFeed: React.FC<UserPostsFeedProps> = ({ userId, showDeleteButton
               post={post}
               user={user}
               onLike={handlePostLike}
-              onComment={handleCommentAdded}
               onEdit={undefined}
               onDelete={handlePostDeleted}
-              onDeleteComment={handleDeleteComment}
               onShare={handlePostShare}
               showComments={showCommentsForPost}
               onToggleComments={() => handleToggleComments(post._id)}
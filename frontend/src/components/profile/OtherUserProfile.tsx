@@ -35,9 +35,11 @@ import {
   ExternalLink,
   FileText,
   Code2,
-  Link as LinkIcon
+  Link as LinkIcon,
+  Flag
 } from 'lucide-react';
 import UserPostsFeed from '@/components/posts/UserPostsFeed';
+import ReportDialog from '@/components/ui/ReportDialog';
 import { getUserStats } from '@/services/api';
 import { socketService } from '@/services/socketService';
 import api from '@/services/api';
@@ -133,6 +135,7 @@ export default function OtherUserProfile() {
 
   });
   const [loading, setLoading] = useState(true);
+  const [showReportDialog, setShowReportDialog] = useState(false);
   const [followStatus, setFollowStatus] = useState<'none' | 'following' | 'followers' | 'mutual' | 'requested' | 'not-following'>('none');
   const [connections, setConnections] = useState<any[]>([]);
   const [currentUserFollowing, setCurrentUserFollowing] = useState<string[]>([]);
@@ -451,6 +454,18 @@ export default function OtherUserProfile() {
                   Mutual
                 </Badge>
               )}
+
+              {currentUser?._id && userId && currentUser._id !== userId && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setShowReportDialog(true)}
+                  title="Report profile"
+                  className="text-orange-600 hover:text-orange-700"
+                >
+                  <Flag className="h-4 w-4" />
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -914,6 +929,15 @@ export default function OtherUserProfile() {
           </div>
         </div>
       </div>
+
+      {userId && (
+        <ReportDialog
+          open={showReportDialog}
+          onClose={() => setShowReportDialog(false)}
+          contentType="profile"
+          contentId={userId}
+        />
+      )}
     </div>
   );
 }
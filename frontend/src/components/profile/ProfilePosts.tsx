@@ -53,7 +53,6 @@ export default function ProfilePosts({ userId }: ProfilePostsProps) {
   }, [userId, load]);
 
   const onLike = async () => {};
-  const onComment = async () => {};
   const onDelete = async () => {};
   const onToggle = () => {};
   const onEdit = () => {};
@@ -80,12 +79,11 @@ export default function ProfilePosts({ userId }: ProfilePostsProps) {
           post={post}
           user={user}
           onLike={onLike}
-          onComment={onComment as any}
           onEdit={onEdit}
           onDelete={onDelete as any}
           showComments={false}
           onToggleComments={onToggle}
-          commentsCount={post.comments?.length || 0}
+          commentsCount={post.commentCount || 0}
           isLiked={!!post.likes?.includes(user?._id || '')}
           onPollVote={onPollVote}
           showDeleteButton={post.author?._id === user?._id}
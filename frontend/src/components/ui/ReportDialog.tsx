@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { Flag, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { REPORT_REASONS, ReportContentType, ReportReason, submitReport } from '@/services/reportsApi';
+
+interface ReportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  contentType: ReportContentType;
+  contentId: string;
+  parentId?: string;
+}
+
+const CONTENT_LABELS: Record<ReportContentType, string> = {
+  post: 'post',
+  comment: 'comment',
+  message: 'message',
+  profile: 'profile'
+};
+
+const ReportDialog: React.FC<ReportDialogProps> = ({ open, onClose, contentType, contentId, parentId }) => {
+  const { toast } = useToast();
+  const [reason, setReason] = useState<ReportReason | ''>('');
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Start from a clean form every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setReason('');
+      setDetails('');
+    }
+  }, [open]);
+
+  const handleSubmit = async () => {
+    if (!reason) return;
+    setSubmitting(true);
+    try {
+      const data = await submitReport({ contentType, contentId, parentId, reason, details: details.trim() || undefined });
+      toast({
+        title: 'Report submitted',
+        description: data.message || 'Our moderators will review this report.'
+      });
+      onClose();
+    } catch (error) {
+      const { response } = error as { response?: { status?: number; data?: { error?: string } } };
+      const status = response?.status;
+      toast({
+        title: status === 409 ? 'Already reported' : 'Could not submit report',
+        description: response?.data?.error || 'Please try again later.',
+        variant: status === 409 ? 'default' : 'destructive'
+      });
+      if (status === 409) onClose();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen && !submitting) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5 text-red-500" />
+            Report {CONTENT_LABELS[contentType]}
+          </DialogTitle>
+          <DialogDescription>
+            Why are you reporting this {CONTENT_LABELS[contentType]}? Your report is anonymous to the author.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReportReason)} className="space-y-1">
+          {REPORT_REASONS.map((option) => (
+            <Label
+              key={option.value}
+              htmlFor={`report-reason-${option.value}`}
+              className="flex items-start gap-3 rounded-md border p-3 cursor-pointer hover:bg-muted/50"
+            >
+              <RadioGroupItem value={option.value} id={`report-reason-${option.value}`} className="mt-0.5" />
+              <div>
+                <div className="font-medium">{option.label}</div>
+                <div className="text-xs text-muted-foreground font-normal">{option.description}</div>
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        <div className="space-y-2">
+          <Label htmlFor="report-details">Additional details (optional)</Label>
+          <Textarea
+            id="report-details"
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder="Tell us more about the problem"
+            maxLength={1000}
+            rows={3}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={!reason || submitting}>
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Submit report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportDialog;
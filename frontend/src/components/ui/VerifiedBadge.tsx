@@ -0,0 +1,19 @@
+import { BadgeCheck } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface VerifiedBadgeProps {
+  user?: { type?: string; alumniInfo?: { verificationStatus?: string } } | null;
+  className?: string;
+}
+
+// Shown next to an alumnus's name once faculty have verified their alumni status
+export default function VerifiedBadge({ user, className }: VerifiedBadgeProps) {
+  if (user?.type !== 'alumni' || user.alumniInfo?.verificationStatus !== 'verified') {
+    return null;
+  }
+  return (
+    <span title="Verified alumni" className={cn('inline-flex shrink-0 text-sky-500', className)}>
+      <BadgeCheck className="h-4 w-4" aria-label="Verified alumni" />
+    </span>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { useNavigate } from 'react-router-dom';
+import axios from 'axios';
 import { toast } from '@/hooks/use-toast';
 import api from '@/services/api';
 
@@ -107,6 +108,10 @@ interface AuthContextType {
   isLoading: boolean;
   isAuthenticated: boolean;
   login: (email: string, password: string) => Promise<boolean>;
+  // Set when the password was accepted but the account still needs its second factor
+  twoFactorPending: boolean;
+  verifyTwoFactor: (code: string, options?: { recovery?: boolean }) => Promise<boolean>;
+  cancelTwoFactor: () => void;
   loginWithGoogle: () => void;
   register: (userData: any) => Promise<any>;
   logout: () => void;
@@ -143,6 +148,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [twoFactorToken, setTwoFactorToken] = useState<string | null>(null);
   const navigate = useNavigate();
 
   // Check if user is authenticated on mount
@@ -206,20 +212,14 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
       const response = await api.post('/api/auth/login', { email, password });
 
-      if (response.data && response.data.token) {
-        // Store token (you can add a rememberMe checkbox to your login form)
-        setAuthToken(response.data.token, true);
-
-        // Set user data
-        setUser(response.data.user);
-        setIsAuthenticated(true);
-
-        toast({
-          title: "Login Successful",
-          description: `Welcome back, ${response.data.user.name}!`,
-        });
+      if (response.data?.twoFactorRequired) {
+        // SignInPage switches to the code step and finishes with verifyTwoFactor
+        setTwoFactorToken(response.data.twoFactorToken);
+        return false;
+      }
 
-        navigate('/dashboard');
+      if (response.data && response.data.token) {
+        completeLogin(response.data);
         return true;
       }
     } catch (error: any) {
@@ -280,12 +280,59 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  const completeLogin = (data: { token: string; refreshToken?: string; user: User }) => {
+    // Store token (you can add a rememberMe checkbox to your login form)
+    setAuthToken(data.token, true);
+    if (data.refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, data.refreshToken);
+
+    // Set user data
+    setUser(data.user);
+    setIsAuthenticated(true);
+    setTwoFactorToken(null);
+
+    toast({
+      title: "Login Successful",
+      description: `Welcome back, ${data.user.name}!`,
+    });
+
+    navigate('/dashboard');
+  };
+
+  const verifyTwoFactor = async (code: string, options?: { recovery?: boolean }): Promise<boolean> => {
+    if (!twoFactorToken) return false;
+    try {
+      setIsLoading(true);
+      const response = await api.post('/api/auth/login/2fa', {
+        twoFactorToken,
+        ...(options?.recovery ? { recoveryCode: code } : { code })
+      });
+      completeLogin(response.data);
+      return true;
+    } catch (error) {
+      console.error('Two-factor verification error:', error);
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      // The sign-in ticket only lasts a few minutes; once it's gone, start over from the password
+      if (message?.includes('expired')) setTwoFactorToken(null);
+      toast({
+        title: "Verification Failed",
+        description: message || "Unable to verify the code. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cancelTwoFactor = () => setTwoFactorToken(null);
+
   const register = async (userData: any) => {
     try {
       setIsLoading(true);
       const response = await api.post('/api/auth/register', userData);
       if (response.data && response.data.token) {
         setAuthToken(response.data.token, true);
+        if (response.data.refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, response.data.refreshToken);
         setUser(response.data.user);
         setIsAuthenticated(true);
         toast({
@@ -317,6 +364,13 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   const logout = () => {
+    // End this device's server-side session; plain axios so a stale token can't trigger the 401 redirect
+    const token = getAuthToken();
+    if (token) {
+      axios.post(`${api.defaults.baseURL}/api/auth/logout`, {}, { headers: { Authorization: `Bearer ${token}` } })
+        .catch(() => undefined);
+    }
+
     setUser(null);
     setIsAuthenticated(false);
     removeAuthToken();
@@ -331,13 +385,15 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   const refreshToken = async (): Promise<boolean> => {
     try {
-      const token = getAuthToken();
-      if (!token) return false;
+      const storedRefreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+      if (!getAuthToken() || !storedRefreshToken) return false;
 
-      const response = await api.post('/api/auth/refresh');
+      const response = await api.post('/api/auth/refresh', { refreshToken: storedRefreshToken });
 
       if (response.data && response.data.token) {
         setAuthToken(response.data.token, true);
+        // Refresh tokens rotate: the one just used is no longer valid
+        localStorage.setItem(REFRESH_TOKEN_KEY, response.data.refreshToken);
         return true;
       } else {
         removeAuthToken();
@@ -390,6 +446,9 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     isLoading,
     isAuthenticated,
     login,
+    twoFactorPending: !!twoFactorToken,
+    verifyTwoFactor,
+    cancelTwoFactor,
     loginWithGoogle,
     register,
     logout,
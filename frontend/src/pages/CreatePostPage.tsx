@@ -2,7 +2,8 @@ import React, { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from '@/hooks/use-toast';
-import postsApi, { CreatePostData } from '@/services/postsApi';
+import postsApi, { CreatePostData, PostAudience } from '@/services/postsApi';
+import { getGroups } from '@/services/api';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -31,7 +32,8 @@ import {
   Zap,
   Target,
   TrendingUp,
-  ArrowUp
+  ArrowUp,
+  Globe
 } from 'lucide-react';
 import { gsap } from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
@@ -65,6 +67,13 @@ const CreatePostPage: React.FC = () => {
   const [tags, setTags] = useState<string[]>([]);
   const [newTag, setNewTag] = useState('');
   const [showScrollTop, setShowScrollTop] = useState(false);
+
+  // Audience
+  const [audience, setAudience] = useState<PostAudience>('everyone');
+  const [audienceBatch, setAudienceBatch] = useState(user?.batch || user?.studentInfo?.batch || '');
+  const [groupId, setGroupId] = useState('');
+  const [myGroups, setMyGroups] = useState<Array<{ _id: string; name: string }>>([]);
+  const userDepartment = user?.department || user?.studentInfo?.department;
   
   // Event-specific fields
   const [eventDetails, setEventDetails] = useState({
@@ -115,6 +124,14 @@ const CreatePostPage: React.FC = () => {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, []);
 
+  // Groups the author can post into, loaded the first time "A group" is picked
+  useEffect(() => {
+    if (audience !== 'group' || myGroups.length > 0) return;
+    getGroups({ member: true, limit: 50 })
+      .then(data => setMyGroups(data.groups || []))
+      .catch(error => console.error('Error fetching your groups:', error));
+  }, [audience, myGroups.length]);
+
   // Scroll to top functionality
   useEffect(() => {
     const handleScroll = () => {
@@ -440,6 +457,24 @@ const CreatePostPage: React.FC = () => {
       return false;
     }
 
+    if (audience === 'batch' && !audienceBatch.trim()) {
+      toast({
+        title: "Batch required",
+        description: "Enter the batch this post is for.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    if (audience === 'group' && !groupId) {
+      toast({
+        title: "Group required",
+        description: "Choose the group this post is for.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
     // Content length validation
     if (getCurrentContent().length > 2000) {
       toast({
@@ -572,7 +607,10 @@ const CreatePostPage: React.FC = () => {
         content: getCurrentContent().trim(),
         postType,
         media: media.length > 0 ? media : undefined,
-        tags: tags.length > 0 ? tags : undefined
+        tags: tags.length > 0 ? tags : undefined,
+        audience,
+        audienceBatch: audience === 'batch' ? audienceBatch.trim() : undefined,
+        groupId: audience === 'group' ? groupId : undefined
       };
 
       if (postType === 'event') {
@@ -631,7 +669,7 @@ const CreatePostPage: React.FC = () => {
       console.error('Error creating post:', error);
       toast({
         title: "Error creating post",
-        description: "Please try again later.",
+        description: error instanceof Error && error.message ? error.message : "Please try again later.",
         variant: "destructive"
       });
     } finally {
@@ -1254,6 +1292,58 @@ const CreatePostPage: React.FC = () => {
                   )}
                 </div>
 
+                {/* Audience */}
+                <div className="form-element space-y-3">
+                  <Label className="text-lg font-semibold flex items-center gap-2">
+                    <Globe className="h-5 w-5" />
+                    Who can see this?
+                  </Label>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <Select value={audience} onValueChange={(value) => setAudience(value as PostAudience)}>
+                      <SelectTrigger className="border-2 border-slate-200 dark:border-slate-700 focus:border-blue-500">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="everyone">Everyone</SelectItem>
+                        <SelectItem value="followers">My followers</SelectItem>
+                        <SelectItem value="mutuals">Mutual connections</SelectItem>
+                        {userDepartment && (
+                          <SelectItem value="department">My department ({userDepartment})</SelectItem>
+                        )}
+                        <SelectItem value="batch">A batch</SelectItem>
+                        <SelectItem value="group">A group</SelectItem>
+                      </SelectContent>
+                    </Select>
+
+                    {audience === 'batch' && (
+                      <Input
+                        placeholder="Batch, e.g. 2024"
+                        value={audienceBatch}
+                        onChange={(e) => setAudienceBatch(e.target.value)}
+                        className="border-2 border-slate-200 dark:border-slate-700 focus:border-blue-500"
+                      />
+                    )}
+
+                    {audience === 'group' && (
+                      <Select value={groupId} onValueChange={setGroupId}>
+                        <SelectTrigger className="border-2 border-slate-200 dark:border-slate-700 focus:border-blue-500">
+                          <SelectValue placeholder={myGroups.length > 0 ? 'Choose a group' : 'You are not in any groups'} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {myGroups.map(group => (
+                            <SelectItem key={group._id} value={group._id}>{group.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                  {audience !== 'everyone' && (
+                    <p className="text-sm text-slate-600 dark:text-slate-400">
+                      Only the people you picked will see this post in feeds, search and your profile.
+                    </p>
+                  )}
+                </div>
+
                 {/* Submit Button */}
                 <div className="flex flex-col sm:flex-row gap-4 pt-6">
                                      <Button
@@ -9,6 +9,11 @@ import NotificationsPage from '@/pages/NotificationsPage';
 const PlacementPortal = React.lazy(() => import('@/components/placements/PlacementPortal'));
 const Groups = React.lazy(() => import('@/components/groups/Groups'));
 const ProfileView = React.lazy(() => import('@/components/profile/ProfileView'));
+const ContentModeration = React.lazy(() => import('@/components/ContentModeration'));
+const AnalyticsDashboard = React.lazy(() => import('@/components/AnalyticsDashboard'));
+const AlumniVerificationQueue = React.lazy(() => import('@/components/AlumniVerificationQueue'));
+const Events = React.lazy(() => import('@/components/Events'));
+const Mentorship = React.lazy(() => import('@/components/mentorship/Mentorship'));
 import Settings from '@/components/Settings';
 import GoogleCalendarHostDashboard from '@/components/meetings/GoogleCalendarHostDashboard';
 import ErrorBoundary from '@/components/ErrorBoundary';
@@ -44,7 +49,7 @@ const DashboardPage = () => {
   useEffect(() => {
     const searchParams = new URLSearchParams(location.search);
     const section = searchParams.get('section');
-    if (section && ['home', 'network', 'messages', 'notifications', 'meetings', 'placements', 'profile', 'settings', 'groups'].includes(section)) {
+    if (section && ['home', 'network', 'messages', 'notifications', 'meetings', 'placements', 'mentorship', 'profile', 'settings', 'groups', 'events', 'moderation', 'analytics', 'verification'].includes(section)) {
       setCurrentSection(section);
     } else if (!section && location.pathname === '/dashboard') {
       // Default to home if no section specified
@@ -128,12 +133,22 @@ const DashboardPage = () => {
         return <GoogleCalendarHostDashboard />;
       case "placements":
         return <PlacementPortal />;
+      case "mentorship":
+        return <Mentorship />;
       case "groups":
         return <Groups />;
+      case "events":
+        return <Events />;
       case "profile":
         return <ProfileView />;
       case "settings":
         return <Settings />;
+      case "moderation":
+        return user?.type === 'faculty' || user?.role === 'admin' ? <ContentModeration /> : <PostFeed />;
+      case "analytics":
+        return user?.type === 'faculty' || user?.role === 'admin' ? <AnalyticsDashboard /> : <PostFeed />;
+      case "verification":
+        return user?.type === 'faculty' || user?.role === 'admin' ? <AlumniVerificationQueue /> : <PostFeed />;
       default:
         return <PostFeed />;
     }
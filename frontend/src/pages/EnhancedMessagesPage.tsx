@@ -44,15 +44,20 @@ import {
   MessageCircle,
   UserX,
   Filter,
-  ArrowLeft
+  ArrowLeft,
+  Flag,
+  ShieldCheck
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { socketService } from '@/services/socketService';
 import api from '@/services/api';
-import { encryptMessage, decryptMessage } from '@/utils/messageEncryption';
+import SecureKeyService from '@/services/secureKeyService';
+import { EncryptedEnvelope, READABLE_E2EE_VERSIONS } from '@/utils/messageEncryption';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import Linkify from '@/components/ui/Linkify';
+import ReportDialog from '@/components/ui/ReportDialog';
+import SafetyNumberDialog from '@/components/messaging/SafetyNumberDialog';
 
 interface User {
   _id: string;
@@ -85,6 +90,8 @@ interface Message {
   isRead: boolean;
   readBy?: Array<{ userId: string; readAt: string }>;
   isEncrypted?: boolean;
+  encryptedContent?: EncryptedEnvelope;
+  legacyEncryption?: boolean;
   status?: 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
   isOwn?: boolean;
   tempId?: string;
@@ -100,6 +107,33 @@ interface Message {
   }>;
 }
 
+const secureKeys = SecureKeyService.getInstance();
+
+// Text to display for a message that may be end-to-end encrypted
+const readMessageContent = async (
+  msg: Pick<Message, 'senderId' | 'content' | 'createdAt' | 'isEncrypted' | 'encryptedContent' | 'legacyEncryption'>,
+  conversationId: string,
+  userId: string
+): Promise<string> => {
+  if (!msg.isEncrypted) return msg.content;
+
+  if (msg.encryptedContent && READABLE_E2EE_VERSIONS.includes(msg.encryptedContent.version)) {
+    // senderId arrives populated from some endpoints
+    const sender = msg.senderId as string | { _id: string };
+    const senderId = String(typeof sender === 'object' && sender !== null ? sender._id : sender);
+    try {
+      return await secureKeys.decryptForConversation(msg.encryptedContent, conversationId, userId, senderId, msg.createdAt);
+    } catch (error) {
+      console.error('Failed to decrypt message:', error);
+      return "[This message can't be decrypted on this device]";
+    }
+  }
+
+  if (msg.legacyEncryption) return '[Encrypted with a retired scheme and can no longer be read]';
+  // Flagged before end-to-end encryption existed; the old client stored these as plain text
+  return msg.content;
+};
+
 interface Conversation {
   _id: string;
   participants: User[];
@@ -134,9 +168,13 @@ const EnhancedMessagesPage: React.FC = () => {
   const [typingUsers, setTypingUsers] = useState<Set<string>>(new Set());
   const [isTyping, setIsTyping] = useState(false);
   const [encryptionEnabled, setEncryptionEnabled] = useState(false);
+  // Sending waits for the key check so an early message can't go out in plain text
+  const [checkingEncryption, setCheckingEncryption] = useState(false);
+  const [showSafetyNumber, setShowSafetyNumber] = useState(false);
   const [showPrivateInfo, setShowPrivateInfo] = useState(false);
   const [selectedMessages, setSelectedMessages] = useState<string[]>([]);
   const [isSelectMode, setIsSelectMode] = useState(false);
+  const [reportMessageId, setReportMessageId] = useState<string | null>(null);
   const [showGroupModal, setShowGroupModal] = useState(false);
   const [groupName, setGroupName] = useState('');
   const [groupDescription, setGroupDescription] = useState('');
@@ -332,6 +370,10 @@ const EnhancedMessagesPage: React.FC = () => {
     if (user) {
       loadConversations();
       setupSocketListeners();
+      // Publish this device's key early so contacts can encrypt to it before we open a chat
+      if (secureKeys.isSupported()) {
+        secureKeys.getDeviceIdentity(user._id).catch(error => console.error('Failed to set up encryption keys:', error));
+      }
     }
   }, [user]);
 
@@ -425,6 +467,22 @@ const EnhancedMessagesPage: React.FC = () => {
     }
   }, [selectedConversation, user]);
 
+  // Encrypt chats end to end when every participant has published a device key
+  const selectedConversationId = selectedConversation?._id;
+  const viewerId = user?._id;
+  useEffect(() => {
+    setEncryptionEnabled(false);
+    setCheckingEncryption(!!selectedConversationId && !!viewerId);
+    if (!selectedConversationId || !viewerId) return;
+
+    let cancelled = false;
+    secureKeys.canEncrypt(selectedConversationId, viewerId)
+      .then(enabled => { if (!cancelled) setEncryptionEnabled(enabled); })
+      .catch(error => console.error('Failed to check encryption keys:', error))
+      .finally(() => { if (!cancelled) setCheckingEncryption(false); });
+    return () => { cancelled = true; };
+  }, [selectedConversationId, viewerId]);
+
   // Auto-scroll to last message when conversation changes or messages load
   useEffect(() => {
     if (selectedConversation && messages.length > 0) {
@@ -491,6 +549,8 @@ const EnhancedMessagesPage: React.FC = () => {
         createdAt: incoming.createdAt || new Date().toISOString(),
         isRead: false,
         isEncrypted: incoming.isEncrypted || false,
+        encryptedContent: incoming.encryptedContent,
+        legacyEncryption: incoming.legacyEncryption,
         status: isOwnMessage ? 'delivered' : undefined,
         isOwn: isOwnMessage,
         replyTo: incoming.replyTo,
@@ -502,16 +562,8 @@ const EnhancedMessagesPage: React.FC = () => {
         // Reuse the normalizedMessage from outer scope
 
         // Decrypt if needed
-        if (normalizedMessage.isEncrypted && normalizedMessage.content && user) {
-          try {
-            const participants = conversationsRef.current.find(c => c._id === convId)
-              ?.participants.map(p => p._id) || [processedSenderId, userRef.current?._id].filter(Boolean) as string[];
-
-            const decrypted = await decryptMessage(normalizedMessage.content, participants);
-            if (decrypted) normalizedMessage.content = decrypted;
-          } catch (err) {
-            console.error('Failed to decrypt in socket listener:', err);
-          }
+        if (normalizedMessage.isEncrypted && userRef.current) {
+          normalizedMessage.content = await readMessageContent(normalizedMessage, String(convId), String(userRef.current._id));
         }
 
         // Update current conversation view
@@ -916,15 +968,7 @@ const EnhancedMessagesPage: React.FC = () => {
             : msg.senderId?.toString();
           const isOwnMsg = senderId === currentUserId;
 
-          let content = msg.content;
-          if (msg.isEncrypted && content && !content.startsWith('[') && msg.messageType === 'text') {
-            try {
-              const participants = selectedConversation.participants.map(p => p._id);
-              content = await decryptMessage(content, participants);
-            } catch (err) {
-              console.error('Decryption failed for message:', msg._id, err);
-            }
-          }
+          const content = user ? await readMessageContent(msg, conversationId, user._id) : msg.content;
 
           let status = msg.status;
           if (isOwnMsg) {
@@ -1001,6 +1045,7 @@ const EnhancedMessagesPage: React.FC = () => {
   };
 
   const handleSendMessage = async () => {
+    if (checkingEncryption) return;
     const messageContent = (newMessage || '').trim();
     setNewMessage('');
     if (inputRef.current) {
@@ -1056,18 +1101,14 @@ const EnhancedMessagesPage: React.FC = () => {
         }
       }
 
-      let finalContent = messageContent;
       let isEncrypted = false;
+      let encryptedContent: EncryptedEnvelope | undefined;
 
-      // Encrypt text messages if target conversation supports it (or by default for privacy)
+      // Text goes end-to-end encrypted whenever every participant has a device key.
+      // If sealing fails we don't fall back to plain text; the send fails instead.
       if (messageType === 'text' && messageContent && encryptionEnabled) {
-        try {
-          const participants = selectedConversation.participants.map(p => p._id);
-          finalContent = await encryptMessage(messageContent, participants);
-          isEncrypted = true;
-        } catch (err) {
-          console.error('Encryption failed, sending as plain text:', err);
-        }
+        encryptedContent = await secureKeys.encryptForConversation(selectedConversation._id, user._id, messageContent.trim());
+        isEncrypted = true;
       }
 
       tempMessage = {
@@ -1108,18 +1149,22 @@ const EnhancedMessagesPage: React.FC = () => {
 
       // Send message
       const response = await api.post(`/api/conversations/${selectedConversation._id}/messages`, {
-        content: finalContent,
+        content: isEncrypted ? undefined : messageContent,
         mediaUrl,
         fileName,
         fileSize,
         messageType,
         isEncrypted,
+        encryptedContent,
         replyTo: tempMessage.replyTo,
         tempId: tempMessage._id // We use the message's _id as tempId
       });
 
       if (response.data.success) {
-        const serverMessage = response.data.message;
+        // The server only has the placeholder for encrypted messages; keep our plaintext
+        const serverMessage = isEncrypted
+          ? { ...response.data.message, content: tempMessage.content }
+          : response.data.message;
 
         setMessages(prev => {
           // Check if socket already added/updated it
@@ -2220,6 +2265,18 @@ const EnhancedMessagesPage: React.FC = () => {
                       <span>Reply</span>
                     </div>
                   </button>
+                  {!isOwn && (
+                    <button
+                      className="h-9 px-3 flex items-center justify-center text-xs font-bold text-orange-600 hover:bg-orange-50/10 rounded-r-full transition-colors"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setReportMessageId(message._id);
+                      }}
+                      title="Report message"
+                    >
+                      <Flag className="h-3.5 w-3.5" />
+                    </button>
+                  )}
                 </div>
               )}
 
@@ -2766,11 +2823,27 @@ const EnhancedMessagesPage: React.FC = () => {
                             {selectedConversation.isGroupChat
                               ? `${selectedConversation.participants.length} members`
                               : (selectedConversation.participants.find(p => p._id !== user._id)?.isOnline ? 'Online now' : 'Recently active')}
+                            {encryptionEnabled && (
+                              <span className="inline-flex items-center gap-1 ml-2 text-xs text-green-600" title="Messages are end-to-end encrypted">
+                                <Lock className="h-3 w-3" />
+                                Encrypted
+                              </span>
+                            )}
                           </p>
                         </div>
                       </div>
 
                       <div className="flex items-center gap-2">
+                        {encryptionEnabled && !selectedConversation.isGroupChat && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setShowSafetyNumber(true)}
+                            title="Verify safety number"
+                          >
+                            <ShieldCheck className="h-4 w-4" />
+                          </Button>
+                        )}
                         {isSearchingMessages ? (
                           <div className="flex items-center gap-1 bg-slate-100 rounded-full px-3 py-1.5">
                             <Search className="h-4 w-4 text-slate-500 shrink-0" />
@@ -3040,7 +3113,7 @@ const EnhancedMessagesPage: React.FC = () => {
 
                     <Button
                       onClick={handleSendMessage}
-                      disabled={!(newMessage || '').trim() && !selectedFile}
+                      disabled={checkingEncryption || (!(newMessage || '').trim() && !selectedFile)}
                       className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       <Send className="h-4 w-4" />
@@ -4124,6 +4197,29 @@ const EnhancedMessagesPage: React.FC = () => {
             </div>
           </DialogContent>
         </Dialog>
+
+        {/* Report Message Dialog */}
+        {reportMessageId && (
+          <ReportDialog
+            open={!!reportMessageId}
+            onClose={() => setReportMessageId(null)}
+            contentType="message"
+            contentId={reportMessageId}
+          />
+        )}
+
+        {/* Safety number verification for direct chats */}
+        {user && selectedConversation && !selectedConversation.isGroupChat && (() => {
+          const otherUser = selectedConversation.participants.find(p => p._id !== user._id);
+          return otherUser ? (
+            <SafetyNumberDialog
+              open={showSafetyNumber}
+              onClose={() => setShowSafetyNumber(false)}
+              userId={user._id}
+              otherUser={otherUser}
+            />
+          ) : null;
+        })()}
       </div>
     </TooltipProvider>
   );
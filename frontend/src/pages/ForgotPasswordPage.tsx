@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import axios from 'axios';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Mail, ArrowLeft, CheckCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import api from '@/services/api';
+
+const ForgotPasswordPage = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [email, setEmail] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      await api.post('/api/auth/forgot-password', { email: email.trim() });
+      setIsSent(true);
+    } catch (error) {
+      console.error('Forgot password error:', error);
+      toast({
+        title: "Request Failed",
+        description: (axios.isAxiosError(error) && error.response?.data?.error) || "Could not send the reset link. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="min-h-[100dvh] flex items-center justify-center px-4 bg-[#0a0a0b] bg-cover bg-center"
+      style={{ backgroundImage: "url('/signin_signup.png')" }}
+    >
+      <div className="absolute inset-0 bg-black/60"></div>
+
+      <div className="relative z-10 w-full max-w-md bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 p-6 shadow-2xl">
+        <div className="flex items-center justify-center gap-2 mb-4">
+          <img src="/logo.png" alt="KEC Alumni Network Logo" className="h-10 w-10" />
+          <h2 className="text-2xl font-bold text-white">KEC Alumni Network</h2>
+        </div>
+
+        {isSent ? (
+          <div className="text-center space-y-3">
+            <CheckCircle className="h-10 w-10 text-cyan-400 mx-auto" />
+            <h3 className="text-lg font-semibold text-white">Check your email</h3>
+            <p className="text-white/80 text-sm">
+              If an account exists for <span className="font-medium">{email}</span>, we&apos;ve sent a link to reset your password.
+              The link expires in 30 minutes.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="text-center mb-4">
+              <h3 className="text-lg font-semibold text-white mb-0.5">Forgot your password?</h3>
+              <p className="text-white/80 text-xs">Enter the email you sign in with and we&apos;ll send you a reset link</p>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="email" className="text-white text-sm font-medium">Email</Label>
+                <div className="relative mt-1.5">
+                  <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-white/70" />
+                  <Input
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="Enter your email address"
+                    required
+                    className="pl-10 bg-white/20 border-white/30 text-white placeholder-white/60 focus:border-cyan-400 focus:ring-cyan-400"
+                  />
+                </div>
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full bg-gradient-to-r from-cyan-500 to-blue-500 hover:from-cyan-600 hover:to-blue-600 text-white py-2.5 font-medium shadow-lg"
+                disabled={isSubmitting}
+              >
+                {isSubmitting ? "Sending..." : "Send Reset Link"}
+              </Button>
+            </form>
+          </>
+        )}
+
+        <button
+          onClick={() => navigate('/signin')}
+          className="mt-4 w-full flex items-center justify-center gap-1 text-sm text-white/80 hover:text-white"
+        >
+          <ArrowLeft className="h-4 w-4" /> Back to sign in
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPasswordPage;
@@ -8,22 +8,92 @@ import { Input } from '../components/ui/input';
 import { Card, CardContent } from '../components/ui/card';
 import { Badge } from '../components/ui/badge';
 import { Separator } from '../components/ui/separator';
+import { Switch } from '../components/ui/switch';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '../components/ui/dropdown-menu';
 import { cn } from '../lib/utils';
 import { useIsMobile } from '../hooks/use-mobile';
+import { getMeetingUrl } from '../utils/urlConfig';
+import { MeetingSfuClient, RemoteTrack } from '../services/meetingSfuClient';
+import BreakoutRoomsPanel, { BreakoutState } from '../components/meetings/BreakoutRoomsPanel';
+import MeetingPollsPanel, { MeetingPoll, NewMeetingPoll } from '../components/meetings/MeetingPollsPanel';
+import api from '../services/api';
 import {
   Mic, MicOff, Video, VideoOff, Monitor,
   Phone, Hand, Users, MessageCircle, MoreHorizontal,
-  Send, X, Crown, User
+  Send, X, Crown, User, Lock, Shield, UserCheck, UserX, Ban, LayoutGrid, BarChart3
 } from 'lucide-react';
 interface Participant {
   id: string;
+  userId: string;
   username: string;
   isHost: boolean;
+  isCoHost: boolean;
   isMuted: boolean;
   isVideoOff: boolean;
   isHandRaised: boolean;
 }
 
+// Participant as broadcast by the backend /meetings namespace
+interface RoomParticipant {
+  id: string;
+  userId: string;
+  username: string;
+  isHost: boolean;
+  isCoHost: boolean;
+  micEnabled: boolean;
+  cameraEnabled: boolean;
+  screenSharing: boolean;
+  handRaised: boolean;
+  breakoutId: string | null;
+}
+
+const toParticipant = (p: RoomParticipant): Participant => ({
+  id: p.id,
+  userId: p.userId,
+  username: p.username,
+  isHost: p.isHost,
+  isCoHost: p.isCoHost,
+  isMuted: !p.micEnabled,
+  isVideoOff: !p.cameraEnabled,
+  isHandRaised: p.handRaised
+});
+
+type MeetingMode = 'mesh' | 'sfu';
+
+// Guest knocking in the waiting room, as sent to the host and co-hosts
+interface LobbyEntry {
+  id: string;
+  userId: string;
+  username: string;
+  email: string;
+  requestedAt: string;
+}
+
+interface RoomInfo {
+  hostId: string | null;
+  locked: boolean;
+  waitingRoomEnabled: boolean;
+  participants: RoomParticipant[];
+}
+
+const RemoteVideo: React.FC<{ stream: MediaStream }> = ({ stream }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  return <video ref={videoRef} autoPlay playsInline className="w-full h-full object-cover" />;
+};
+
 interface Message {
   id: string;
   user: string;
@@ -52,6 +122,19 @@ export default function MeetingRoom() {
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [isParticipantsOpen, setIsParticipantsOpen] = useState(false);
   const [isHost, setIsHost] = useState(false);
+  const [isCoHost, setIsCoHost] = useState(false);
+  const [isInLobby, setIsInLobby] = useState(false);
+  const [lobby, setLobby] = useState<LobbyEntry[]>([]);
+  const [isLocked, setIsLocked] = useState(false);
+  const [waitingRoomEnabled, setWaitingRoomEnabled] = useState(false);
+  const [breakout, setBreakout] = useState<BreakoutState | null>(null);
+  const [currentBreakoutId, setCurrentBreakoutId] = useState<string | null>(null);
+  const [isBreakoutPanelOpen, setIsBreakoutPanelOpen] = useState(false);
+  const [meetingId, setMeetingId] = useState<string | null>(null);
+  const [polls, setPolls] = useState<MeetingPoll[]>([]);
+  const [pollAnswers, setPollAnswers] = useState<{ [pollId: string]: string }>({});
+  const [isPollsPanelOpen, setIsPollsPanelOpen] = useState(false);
+  const [now, setNow] = useState(Date.now());
   const [wasMutedByHost, setWasMutedByHost] = useState(false);
   const [unreadMessageCount, setUnreadMessageCount] = useState(0);
   const [isReactionNotificationShowing, setIsReactionNotificationShowing] = useState(false);
@@ -62,6 +145,15 @@ export default function MeetingRoom() {
   const screenStreamRef = useRef<MediaStream | null>(null);
   const peerConnectionsRef = useRef<{ [key: string]: RTCPeerConnection }>({});
   const peerUsernamesRef = useRef<{ [key: string]: string }>({});
+  const meetingModeRef = useRef<MeetingMode>('mesh');
+  const sfuRef = useRef<MeetingSfuClient | null>(null);
+  const sfuTracksRef = useRef<{ [consumerId: string]: RemoteTrack }>({});
+  const lobbyRef = useRef<LobbyEntry[]>([]);
+
+  // Remote media, keyed by participant (socket) id
+  const [remoteStreams, setRemoteStreams] = useState<{ [participantId: string]: MediaStream }>({});
+  const [activeSpeakerId, setActiveSpeakerId] = useState<string | null>(null);
+  const [sfuTrackVersion, setSfuTrackVersion] = useState(0);
 
   // Socket
   const [meetingSocket, setMeetingSocket] = useState<Socket | null>(null);
@@ -101,7 +193,9 @@ export default function MeetingRoom() {
 
   // Initialize socket connection
   useEffect(() => {
-    const socket = io({
+    const token = localStorage.getItem('authToken') || sessionStorage.getItem('authToken');
+    const socket = io(`${getMeetingUrl()}/meetings`, {
+      auth: { token },
       transports: ["websocket", "polling"],
       reconnection: true,
       reconnectionAttempts: 8,
@@ -150,7 +244,18 @@ export default function MeetingRoom() {
     socket.on('meeting_joined', (data: any) => {
       console.log('Successfully joined meeting:', data);
       setIsInMeeting(true);
+      setIsInLobby(false);
+      setIsJoining(false);
       setRoomId(data.roomId);
+      setMessages(data.messages || []);
+      setBreakout(data.breakout || null);
+      setCurrentBreakoutId(data.breakoutId || null);
+      setMeetingId(data.meetingId);
+      setPolls(data.polls || []);
+      setPollAnswers(data.pollAnswers || {});
+      if (data.mode === 'sfu') {
+        startSfu(socket);
+      }
       toast({
         title: "Success",
         description: `Joined room: ${data.roomId}`,
@@ -166,12 +271,147 @@ export default function MeetingRoom() {
         variant: "destructive"
       });
       setIsJoining(false);
+      setIsInMeeting(false);
+    });
+
+    // Not on the invite list: wait in the lobby until the host admits us
+    socket.on('lobby-waiting', () => {
+      setIsInLobby(true);
+      setIsJoining(false);
+    });
+
+    socket.on('lobby-denied', () => {
+      setIsInLobby(false);
+      localStreamRef.current?.getTracks().forEach((track) => track.stop());
+      localStreamRef.current = null;
+      toast({
+        title: "Entry Denied",
+        description: "The host did not let you into this meeting",
+        variant: "destructive"
+      });
+    });
+
+    socket.on('removed-from-meeting', ({ blocked }: { blocked: boolean }) => {
+      toast({
+        title: "Removed from Meeting",
+        description: blocked
+          ? "The host removed you and you can't rejoin this meeting"
+          : "The host removed you from the meeting",
+        variant: "destructive"
+      });
+      endCall();
+    });
+
+    socket.on('lobby-update', ({ waiting }: { waiting: LobbyEntry[] }) => {
+      const known = new Set(lobbyRef.current.map(entry => entry.id));
+      const arrived = waiting.filter(entry => !known.has(entry.id));
+      if (arrived.length > 0) {
+        toast({
+          title: "Waiting to Join",
+          description: arrived.length === 1
+            ? `${arrived[0].username} is in the waiting room`
+            : `${arrived.length} people are in the waiting room`,
+        });
+      }
+      lobbyRef.current = waiting;
+      setLobby(waiting);
+    });
+
+    socket.on('breakout-state', (state: BreakoutState | null) => {
+      setBreakout(state);
+    });
+
+    // Moved between the main room and a breakout room: start over with the new group
+    socket.on('breakout-changed', ({ breakoutId, name, messages: groupMessages }: { breakoutId: string | null; name: string | null; messages: Message[] }) => {
+      if (meetingModeRef.current === 'mesh') {
+        Object.values(peerConnectionsRef.current).forEach((connection) => connection.close());
+        peerConnectionsRef.current = {};
+        setRemoteStreams({});
+      }
+      setCurrentBreakoutId(breakoutId);
+      setMessages(groupMessages);
+      setTypingUsers([]);
+      setIsHandRaised(false);
+
+      toast({
+        title: breakoutId ? "Breakout Room" : "Main Room",
+        description: breakoutId ? `You joined ${name}` : "You're back in the main room",
+      });
+    });
+
+    // A peer moved to another breakout room
+    socket.on('user-left-group', (userId: string) => {
+      if (peerConnectionsRef.current[userId]) {
+        peerConnectionsRef.current[userId].close();
+        delete peerConnectionsRef.current[userId];
+      }
+      setRemoteStreams(prev => {
+        const { [userId]: _removed, ...rest } = prev;
+        return rest;
+      });
+    });
+
+    socket.on('breakout-broadcast', ({ text, from }: { text: string; from: string }) => {
+      toast({
+        title: `Message from ${from}`,
+        description: text,
+        duration: 10000,
+      });
+    });
+
+    const upsertPoll = (poll: MeetingPoll) => {
+      setPolls(prev => prev.some(p => p.id === poll.id)
+        ? prev.map(p => (p.id === poll.id ? poll : p))
+        : [...prev, poll]);
+    };
+
+    socket.on('poll-started', (poll: MeetingPoll) => {
+      upsertPoll(poll);
+      toast({
+        title: poll.type === 'quiz' ? "Quiz Started" : "New Poll",
+        description: poll.question,
+      });
+    });
+
+    socket.on('poll-results', upsertPoll);
+    socket.on('poll-closed', upsertPoll);
+
+    socket.on('poll-answered', ({ pollId, optionId }: { pollId: string; optionId: string }) => {
+      setPollAnswers(prev => ({ ...prev, [pollId]: optionId }));
+    });
+
+    socket.on('poll-error', ({ message }: { message: string }) => {
+      toast({
+        title: "Poll Not Started",
+        description: message,
+        variant: "destructive"
+      });
+    });
+
+    // The server moved the room onto the SFU: drop the mesh and reconnect through it
+    socket.on('meeting-mode', ({ mode }: { mode: MeetingMode }) => {
+      if (mode !== 'sfu' || meetingModeRef.current === 'sfu') return;
+
+      Object.values(peerConnectionsRef.current).forEach((connection) => connection.close());
+      peerConnectionsRef.current = {};
+      setRemoteStreams({});
+      startSfu(socket);
+
+      toast({
+        title: "Large meeting mode",
+        description: "Switched to server-routed video for better performance",
+      });
+    });
+
+    socket.on('active-speaker', ({ participantId }: { participantId: string }) => {
+      setActiveSpeakerId(participantId);
     });
 
     // Listen for user connections
     socket.on('user-connected', async (userId: string, userName: string) => {
       console.log(`User connected: ${userId} (${userName})`);
       peerUsernamesRef.current[userId] = userName;
+      if (meetingModeRef.current === 'sfu') return;
 
       try {
         const peerConnection = createPeerConnection(userId);
@@ -180,8 +420,6 @@ export default function MeetingRoom() {
 
         console.log(`Sending offer to ${userId}`);
         socket.emit('offer', offer, userId);
-
-        updateParticipantsList();
       } catch (error) {
         console.error('Error in user-connected handler:', error);
       }
@@ -194,12 +432,11 @@ export default function MeetingRoom() {
       users.forEach((user) => {
         peerUsernamesRef.current[user.id] = user.username;
       });
+      if (meetingModeRef.current === 'sfu') return;
 
       users.forEach((user) => {
         createPeerConnection(user.id);
       });
-
-      updateParticipantsList();
     });
 
     // Listen for offers
@@ -261,7 +498,10 @@ export default function MeetingRoom() {
       }
 
       delete peerUsernamesRef.current[userId];
-      updateParticipantsList();
+      setRemoteStreams(prev => {
+        const { [userId]: _removed, ...rest } = prev;
+        return rest;
+      });
 
       toast({
         title: "Participant Left",
@@ -347,23 +587,49 @@ export default function MeetingRoom() {
     });
 
     // Listen for room info
-    socket.on('room-info', (info: any) => {
+    socket.on('room-info', (info: RoomInfo) => {
       console.log('Received room-info:', info);
       const hostId = info && info.hostId ? info.hostId : null;
-      setIsHost(hostId === socket.id);
-
-      if (hostId === socket.id) {
-        toast({
-          title: "Host Status",
-          description: "You are now the host",
-        });
+      setParticipants((info?.participants || []).map(toParticipant));
+      setIsLocked(!!info?.locked);
+      setWaitingRoomEnabled(!!info?.waitingRoomEnabled);
+
+      const self = (info?.participants || []).find(p => p.id === socket.id);
+      setIsCoHost(!!self?.isCoHost);
+      if (hostId !== socket.id && !self?.isCoHost) {
+        lobbyRef.current = [];
+        setLobby([]);
       }
+
+      // room-info is re-sent on every join/leave; only announce the change
+      setIsHost(prev => {
+        if (!prev && hostId === socket.id) {
+          toast({
+            title: "Host Status",
+            description: "You are the host of this meeting",
+          });
+        }
+        return hostId === socket.id;
+      });
     });
 
     return () => {
       socket.off('media-state-update');
       socket.off('meeting_joined');
       socket.off('meeting_join_error');
+      socket.off('lobby-waiting');
+      socket.off('lobby-denied');
+      socket.off('removed-from-meeting');
+      socket.off('lobby-update');
+      socket.off('breakout-state');
+      socket.off('breakout-changed');
+      socket.off('user-left-group');
+      socket.off('breakout-broadcast');
+      socket.off('poll-started');
+      socket.off('poll-results');
+      socket.off('poll-closed');
+      socket.off('poll-answered');
+      socket.off('poll-error');
       socket.off('user-connected');
       socket.off('room-users');
       socket.off('offer');
@@ -377,6 +643,8 @@ export default function MeetingRoom() {
       socket.off('user-typing');
       socket.off('host-mute-all');
       socket.off('room-info');
+      socket.off('meeting-mode');
+      socket.off('active-speaker');
     };
   }, [meetingSocket, isChatOpen, toast]);
 
@@ -412,7 +680,10 @@ export default function MeetingRoom() {
 
     peerConnection.ontrack = (event) => {
       console.log(`Received track from ${userId}`);
-      // Handle remote video stream here
+      const [stream] = event.streams;
+      if (stream) {
+        setRemoteStreams(prev => ({ ...prev, [userId]: stream }));
+      }
     };
 
     peerConnectionsRef.current[userId] = peerConnection;
@@ -503,24 +774,8 @@ export default function MeetingRoom() {
         setRoomId(targetRoomId);
       }
 
+      // The server confirms with meeting_joined and sends the participant list via room-info
       meetingSocket?.emit('join-room', targetRoomId, username);
-
-      // Add current user to participants as host
-      setParticipants([{
-        id: meetingSocket?.id || 'local',
-        username,
-        isHost: true,
-        isMuted: false,
-        isVideoOff: false,
-        isHandRaised: false
-      }]);
-
-      setIsInMeeting(true);
-
-      toast({
-        title: "Meeting Created!",
-        description: `Welcome to room: ${targetRoomId}`,
-      });
     } catch (error) {
       console.error('Error creating meeting:', error);
       setIsJoining(false);
@@ -564,13 +819,9 @@ export default function MeetingRoom() {
       const newVideoOffState = !videoTrack.enabled;
       setIsVideoOff(newVideoOffState);
 
-      meetingSocket?.emit('participant_media_update', {
-        roomId,
-        isMuted,
-        isVideoOff: newVideoOffState
-      });
+      meetingSocket?.emit('update-media-state', { cameraEnabled: videoTrack.enabled });
     }
-  }, [meetingSocket, roomId, isMuted]);
+  }, [meetingSocket]);
 
   // Toggle screen sharing
   const toggleScreenShare = useCallback(async () => {
@@ -590,8 +841,10 @@ export default function MeetingRoom() {
             sender.replaceTrack(videoTrack);
           }
         });
+        sfuRef.current?.replaceTrack('video', videoTrack);
 
         setIsScreenSharing(true);
+        meetingSocket?.emit('update-media-state', { screenSharing: true });
 
         videoTrack.onended = () => {
           stopScreenSharing();
@@ -615,7 +868,7 @@ export default function MeetingRoom() {
         });
       }
     }
-  }, [isScreenSharing, toast]);
+  }, [isScreenSharing, meetingSocket, toast]);
 
   // Stop screen sharing
   const stopScreenSharing = useCallback(() => {
@@ -632,6 +885,7 @@ export default function MeetingRoom() {
           sender.replaceTrack(videoTrack);
         }
       });
+      sfuRef.current?.replaceTrack('video', videoTrack);
     }
 
     setIsScreenSharing(false);
@@ -656,9 +910,11 @@ export default function MeetingRoom() {
     });
   }, [meetingSocket, toast]);
 
+  const canModerate = isHost || isCoHost;
+
   // Host mute all
   const hostMuteAll = useCallback(() => {
-    if (isHost) {
+    if (canModerate) {
       meetingSocket?.emit('host-mute-all');
 
       toast({
@@ -666,7 +922,108 @@ export default function MeetingRoom() {
         description: "All participants have been muted",
       });
     }
-  }, [isHost, meetingSocket, toast]);
+  }, [canModerate, meetingSocket, toast]);
+
+  // Host and co-host room controls
+  const admitParticipant = useCallback((participantId: string) => {
+    meetingSocket?.emit('admit-participant', participantId);
+  }, [meetingSocket]);
+
+  const denyParticipant = useCallback((participantId: string) => {
+    meetingSocket?.emit('deny-participant', participantId);
+  }, [meetingSocket]);
+
+  const admitAll = useCallback(() => {
+    meetingSocket?.emit('admit-all');
+  }, [meetingSocket]);
+
+  const setCoHost = useCallback((participantId: string, promote: boolean) => {
+    meetingSocket?.emit(promote ? 'promote-cohost' : 'demote-cohost', participantId);
+  }, [meetingSocket]);
+
+  const removeParticipant = useCallback((participant: Participant, block: boolean) => {
+    meetingSocket?.emit('remove-participant', participant.id, { block });
+    toast({
+      title: block ? "Participant Blocked" : "Participant Removed",
+      description: block
+        ? `${participant.username} was removed and can't rejoin`
+        : `${participant.username} was removed from the meeting`,
+    });
+  }, [meetingSocket, toast]);
+
+  const toggleLock = useCallback((locked: boolean) => {
+    meetingSocket?.emit('lock-meeting', locked);
+  }, [meetingSocket]);
+
+  const toggleWaitingRoom = useCallback((enabled: boolean) => {
+    meetingSocket?.emit('set-waiting-room', enabled);
+  }, [meetingSocket]);
+
+  // Breakout rooms (host and co-hosts)
+  const emitBreakout = useCallback((event: string, ...args: unknown[]) => {
+    meetingSocket?.emit(event, ...args);
+  }, [meetingSocket]);
+
+  // Tick the recall countdown while one is running
+  useEffect(() => {
+    if (!breakout?.recallAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [breakout?.recallAt]);
+
+  const recallSecondsLeft = breakout?.open && breakout.recallAt
+    ? Math.max(0, Math.ceil((breakout.recallAt - now) / 1000))
+    : null;
+  const currentBreakoutName = breakout?.rooms.find(room => room.id === currentBreakoutId)?.name;
+
+  // Polls and quizzes
+  const createPoll = useCallback((poll: NewMeetingPoll) => {
+    meetingSocket?.emit('poll-create', poll);
+  }, [meetingSocket]);
+
+  const answerPoll = useCallback((pollId: string, optionId: string) => {
+    meetingSocket?.emit('poll-answer', { pollId, optionId });
+  }, [meetingSocket]);
+
+  const closePoll = useCallback((pollId: string) => {
+    meetingSocket?.emit('poll-close', pollId);
+  }, [meetingSocket]);
+
+  const downloadPollResults = useCallback(async () => {
+    if (!meetingId) return;
+    try {
+      const response = await api.get(`/api/meetings/${meetingId}/polls/excel`, {
+        responseType: 'blob'
+      });
+
+      const blob = new Blob([response.data], {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      });
+
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `meeting-polls-${meetingId}.xlsx`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+
+      toast({
+        title: "Download Started",
+        description: "Poll results are being downloaded.",
+      });
+    } catch (error) {
+      console.error('Error downloading meeting poll results:', error);
+      toast({
+        title: "Download Failed",
+        description: "Failed to download poll results.",
+        variant: "destructive",
+      });
+    }
+  }, [meetingId, toast]);
+
+  const unansweredPollCount = polls.filter(poll => !poll.closed && !pollAnswers[poll.id]).length;
 
   // Send message
   const sendMessage = useCallback(() => {
@@ -681,37 +1038,72 @@ export default function MeetingRoom() {
     meetingSocket?.emit('typing', isTyping);
   }, [meetingSocket]);
 
-  // Update participants list
-  const updateParticipantsList = useCallback(() => {
-    const currentParticipants: Participant[] = [
-      {
-        id: meetingSocket?.id || 'local',
-        username,
-        isHost,
-        isMuted,
-        isVideoOff,
-        isHandRaised
-      }
-    ];
-
-    Object.keys(peerUsernamesRef.current).forEach(userId => {
-      currentParticipants.push({
-        id: userId,
-        username: peerUsernamesRef.current[userId],
-        isHost: false,
-        isMuted: false,
-        isVideoOff: false,
-        isHandRaised: false
+  // Rebuild one MediaStream per participant from their SFU consumers
+  const rebuildSfuStreams = useCallback(() => {
+    const tracksByParticipant: { [participantId: string]: MediaStreamTrack[] } = {};
+    Object.values(sfuTracksRef.current).forEach(({ participantId, track }) => {
+      (tracksByParticipant[participantId] ||= []).push(track);
+    });
+
+    setRemoteStreams(prev => {
+      const next: { [participantId: string]: MediaStream } = {};
+      Object.entries(tracksByParticipant).forEach(([participantId, tracks]) => {
+        const existing = prev[participantId];
+        const unchanged = existing && existing.getTracks().length === tracks.length &&
+          tracks.every(track => existing.getTracks().includes(track));
+        next[participantId] = unchanged ? existing : new MediaStream(tracks);
       });
+      return next;
     });
+    setSfuTrackVersion(version => version + 1);
+  }, []);
+
+  const startSfu = useCallback(async (socket: Socket) => {
+    if (meetingModeRef.current === 'sfu') return;
+    meetingModeRef.current = 'sfu';
+
+    const client = new MeetingSfuClient(
+      socket,
+      (remoteTrack) => {
+        sfuTracksRef.current[remoteTrack.consumerId] = remoteTrack;
+        rebuildSfuStreams();
+      },
+      (consumerId) => {
+        delete sfuTracksRef.current[consumerId];
+        rebuildSfuStreams();
+      }
+    );
+    sfuRef.current = client;
 
-    setParticipants(currentParticipants);
-  }, [meetingSocket, username, isHost, isMuted, isVideoOff, isHandRaised]);
+    try {
+      await client.join(localStreamRef.current);
+    } catch (error) {
+      console.error('Error joining SFU:', error);
+      toast({
+        title: "Connection Error",
+        description: "Could not connect to the meeting media server",
+        variant: "destructive"
+      });
+    }
+  }, [rebuildSfuStreams, toast]);
+
+  // Simulcast layer selection: the active speaker gets full resolution,
+  // everyone else a layer that fits a grid tile
+  useEffect(() => {
+    const client = sfuRef.current;
+    if (!client) return;
+
+    const videoTracks = Object.values(sfuTracksRef.current).filter(t => t.kind === 'video' && t.simulcast);
+    const gridLayer = videoTracks.length <= 4 ? 1 : 0;
+    videoTracks.forEach(({ consumerId, participantId }) => {
+      const layer = participantId === activeSpeakerId ? 2 : gridLayer;
+      client.setPreferredLayer(consumerId, layer).catch(error => console.error('Error setting video layer:', error));
+    });
+  }, [activeSpeakerId, sfuTrackVersion]);
 
   // Handle participant update
-  const handleParticipantUpdate = useCallback((data: any) => {
-    console.log('Participant update received:', data);
-    // Update participant state based on received data
+  const handleParticipantUpdate = useCallback((data: RoomParticipant) => {
+    setParticipants(prev => prev.map(p => p.id === data.id ? toParticipant(data) : p));
   }, []);
 
   // End call
@@ -723,6 +1115,7 @@ export default function MeetingRoom() {
     Object.values(peerConnectionsRef.current).forEach((connection) => {
       connection.close();
     });
+    sfuRef.current?.close();
 
     if (localStreamRef.current) {
       localStreamRef.current.getTracks().forEach((track) => track.stop());
@@ -743,9 +1136,28 @@ export default function MeetingRoom() {
       Object.values(peerConnectionsRef.current).forEach((connection) => {
         connection.close();
       });
+      sfuRef.current?.close();
     };
   }, []);
 
+  if (isInLobby) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white p-6">
+        <div className="max-w-2xl mx-auto">
+          <Card className="bg-gray-800 border-gray-700">
+            <CardContent className="p-6 text-center space-y-4">
+              <h1 className="text-2xl font-bold">Waiting Room</h1>
+              <p className="text-gray-300">The host will let you in soon.</p>
+              <Button variant="secondary" onClick={endCall}>
+                Leave
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
   if (!isInMeeting) {
     return (
       <div className="min-h-screen bg-gray-900 text-white p-6">
@@ -792,6 +1204,15 @@ export default function MeetingRoom() {
 
   return (
     <div className="flex flex-col h-screen bg-gray-900 text-white overflow-hidden relative">
+      {(currentBreakoutName || recallSecondsLeft !== null) && (
+        <div className="flex items-center justify-center gap-3 px-4 py-2 bg-purple-900/60 border-b border-purple-700 text-sm">
+          <LayoutGrid className="w-4 h-4" />
+          <span>{currentBreakoutName ? `You're in ${currentBreakoutName}` : 'Breakout rooms are open'}</span>
+          {recallSecondsLeft !== null && (
+            <span className="text-yellow-300">Returning to the main room in {recallSecondsLeft}s</span>
+          )}
+        </div>
+      )}
       <div className="flex-1 flex flex-col md:flex-row min-h-0 relative">
         <div className="flex-1 p-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 overflow-y-auto">
           {/* Main User Video */}
@@ -819,8 +1240,23 @@ export default function MeetingRoom() {
             )}
           </div>
 
-          {/* Remote videos would be rendered here in a real implementation */}
-          {/* For demonstration of grid layout */}
+          {Object.entries(remoteStreams).map(([participantId, stream]) => (
+            <div
+              key={participantId}
+              className={cn(
+                "relative rounded-lg overflow-hidden bg-gray-800 border aspect-video md:aspect-auto",
+                participantId === activeSpeakerId ? "border-green-500 ring-2 ring-green-500" : "border-gray-700"
+              )}
+            >
+              <RemoteVideo stream={stream} />
+              <div className="absolute bottom-2 left-2 bg-black bg-opacity-50 px-2 py-1 rounded text-sm">
+                {participants.find(p => p.id === participantId)?.username || peerUsernamesRef.current[participantId] || 'Participant'}
+              </div>
+              {participants.find(p => p.id === participantId)?.isHandRaised && (
+                <div className="absolute top-2 right-2 bg-blue-500 px-2 py-1 rounded text-sm">✋</div>
+              )}
+            </div>
+          ))}
         </div>
       </div>
 
@@ -875,6 +1311,8 @@ export default function MeetingRoom() {
           onClick={() => {
             setIsChatOpen(!isChatOpen);
             setIsParticipantsOpen(false);
+            setIsBreakoutPanelOpen(false);
+            setIsPollsPanelOpen(false);
             setUnreadMessageCount(0);
           }}
           variant={isChatOpen ? "default" : "secondary"}
@@ -894,16 +1332,60 @@ export default function MeetingRoom() {
           onClick={() => {
             setIsParticipantsOpen(!isParticipantsOpen);
             setIsChatOpen(false);
+            setIsBreakoutPanelOpen(false);
+            setIsPollsPanelOpen(false);
           }}
           variant={isParticipantsOpen ? "default" : "secondary"}
           size="icon"
-          className={cn("rounded-full", isMobile ? "w-10 h-10" : "w-12 h-12")}
+          className={cn("rounded-full relative", isMobile ? "w-10 h-10" : "w-12 h-12")}
           title="Participants"
         >
           <Users className={isMobile ? "w-4 h-4" : ""} />
+          {lobby.length > 0 && (
+            <Badge className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 p-0 text-xs flex items-center justify-center bg-yellow-500">
+              {lobby.length}
+            </Badge>
+          )}
+        </Button>
+
+        <Button
+          onClick={() => {
+            setIsPollsPanelOpen(!isPollsPanelOpen);
+            setIsChatOpen(false);
+            setIsParticipantsOpen(false);
+            setIsBreakoutPanelOpen(false);
+          }}
+          variant={isPollsPanelOpen ? "default" : "secondary"}
+          size="icon"
+          className={cn("rounded-full relative", isMobile ? "w-10 h-10" : "w-12 h-12")}
+          title="Polls & Quizzes"
+        >
+          <BarChart3 className={isMobile ? "w-4 h-4" : ""} />
+          {unansweredPollCount > 0 && (
+            <Badge className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 p-0 text-xs flex items-center justify-center bg-green-500">
+              {unansweredPollCount}
+            </Badge>
+          )}
         </Button>
 
-        {isHost && (
+        {canModerate && (
+          <Button
+            onClick={() => {
+              setIsBreakoutPanelOpen(!isBreakoutPanelOpen);
+              setIsChatOpen(false);
+              setIsParticipantsOpen(false);
+              setIsPollsPanelOpen(false);
+            }}
+            variant={isBreakoutPanelOpen ? "default" : "secondary"}
+            size="icon"
+            className={cn("rounded-full", isMobile ? "w-10 h-10" : "w-12 h-12")}
+            title="Breakout Rooms"
+          >
+            <LayoutGrid className={isMobile ? "w-4 h-4" : ""} />
+          </Button>
+        )}
+
+        {canModerate && (
           <Button
             onClick={hostMuteAll}
             variant="destructive"
@@ -1028,6 +1510,7 @@ export default function MeetingRoom() {
             <h3 className="font-semibold text-lg flex items-center gap-2">
               <Users className="w-5 h-5 text-green-400" />
               Participants ({participants.length})
+              {isLocked && <Lock className="w-4 h-4 text-yellow-500" />}
             </h3>
             <Button
               variant="ghost"
@@ -1040,6 +1523,43 @@ export default function MeetingRoom() {
           </div>
 
           <div className="flex-1 overflow-y-auto p-4 space-y-3">
+            {canModerate && lobby.length > 0 && (
+              <div className="space-y-2 pb-3 border-b border-gray-600">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-semibold uppercase text-yellow-400">Waiting ({lobby.length})</span>
+                  <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={admitAll}>
+                    Admit all
+                  </Button>
+                </div>
+                {lobby.map((entry) => (
+                  <div key={entry.id} className="flex items-center gap-2 p-2 rounded-lg bg-gray-700/50">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium truncate">{entry.username}</div>
+                      {entry.email && <div className="text-xs text-gray-400 truncate">{entry.email}</div>}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-green-400 hover:text-green-300"
+                      title="Admit"
+                      onClick={() => admitParticipant(entry.id)}
+                    >
+                      <UserCheck className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-red-400 hover:text-red-300"
+                      title="Deny"
+                      onClick={() => denyParticipant(entry.id)}
+                    >
+                      <UserX className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {participants.length === 0 ? (
               <div className="flex flex-col items-center justify-center h-full text-gray-400 space-y-2">
                 <Users className="w-12 h-12 opacity-20" />
@@ -1058,6 +1578,7 @@ export default function MeetingRoom() {
                     <div className="flex items-center gap-2 truncate">
                       <span className="text-sm font-medium truncate">{participant.username}</span>
                       {participant.isHost && <Crown className="w-3.5 h-3.5 text-yellow-500" />}
+                      {participant.isCoHost && <Shield className="w-3.5 h-3.5 text-blue-400" />}
                       {participant.id === meetingSocket?.id && (
                         <Badge variant="secondary" className="text-[9px] h-4 px-1 leading-none bg-blue-500/20 text-blue-400 border-none">You</Badge>
                       )}
@@ -1068,23 +1589,50 @@ export default function MeetingRoom() {
                       {participant.isHandRaised && <Hand className="w-3 h-3 text-blue-400 animate-bounce" />}
                     </div>
                   </div>
-                  {isHost && participant.id !== meetingSocket?.id && (
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-8 w-8 text-gray-400 hover:text-white"
-                      onClick={() => {/* Mock mute logic */ }}
-                    >
-                      <MicOff className="w-4 h-4" />
-                    </Button>
+                  {canModerate && participant.id !== meetingSocket?.id && !participant.isHost &&
+                    (isHost || !participant.isCoHost) && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8 text-gray-400 hover:text-white">
+                          <MoreHorizontal className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" className="z-[70]">
+                        {isHost && (
+                          <>
+                            <DropdownMenuItem onClick={() => setCoHost(participant.id, !participant.isCoHost)}>
+                              <Shield className="w-4 h-4 mr-2" />
+                              {participant.isCoHost ? 'Remove co-host' : 'Make co-host'}
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                          </>
+                        )}
+                        <DropdownMenuItem onClick={() => removeParticipant(participant, false)}>
+                          <UserX className="w-4 h-4 mr-2" />
+                          Remove
+                        </DropdownMenuItem>
+                        <DropdownMenuItem className="text-red-600" onClick={() => removeParticipant(participant, true)}>
+                          <Ban className="w-4 h-4 mr-2" />
+                          Remove and block
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   )}
                 </div>
               ))
             )}
           </div>
 
-          {isHost && (
-            <div className="p-4 border-t border-gray-600 bg-gray-700/30">
+          {canModerate && (
+            <div className="p-4 border-t border-gray-600 bg-gray-700/30 space-y-3">
+              <label className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2"><Lock className="w-4 h-4" /> Lock meeting</span>
+                <Switch checked={isLocked} onCheckedChange={toggleLock} />
+              </label>
+              <label className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2"><Users className="w-4 h-4" /> Waiting room</span>
+                <Switch checked={waitingRoomEnabled} onCheckedChange={toggleWaitingRoom} />
+              </label>
               <Button onClick={hostMuteAll} variant="destructive" className="w-full gap-2 rounded-xl">
                 <MicOff className="w-4 h-4" /> Mute All
               </Button>
@@ -1093,6 +1641,38 @@ export default function MeetingRoom() {
         </div>
       )}
 
+      {canModerate && isBreakoutPanelOpen && (
+        <BreakoutRoomsPanel
+          breakout={breakout}
+          participants={participants}
+          currentBreakoutId={currentBreakoutId}
+          secondsLeft={recallSecondsLeft}
+          isMobile={isMobile}
+          onCreate={(count) => emitBreakout('breakout-create', count)}
+          onAssign={(userId, breakoutId) => emitBreakout('breakout-assign', { userId, breakoutId })}
+          onAssignRandom={() => emitBreakout('breakout-assign-random')}
+          onOpen={() => emitBreakout('breakout-open')}
+          onJoin={(breakoutId) => emitBreakout('breakout-join', breakoutId)}
+          onBroadcast={(text) => emitBreakout('breakout-broadcast', text)}
+          onRecall={(seconds) => emitBreakout('breakout-recall', seconds)}
+          onClose={() => setIsBreakoutPanelOpen(false)}
+        />
+      )}
+
+      {isPollsPanelOpen && (
+        <MeetingPollsPanel
+          polls={polls}
+          myAnswers={pollAnswers}
+          canModerate={canModerate}
+          isMobile={isMobile}
+          onCreate={createPoll}
+          onAnswer={answerPoll}
+          onClosePoll={closePoll}
+          onExport={downloadPollResults}
+          onClose={() => setIsPollsPanelOpen(false)}
+        />
+      )}
+
       {/* Reactions Menu - Made responsive */}
       <div className={cn(
         "fixed left-1/2 transform -translate-x-1/2 flex items-center transition-all z-40 bg-gray-800/90 backdrop-blur-sm border border-gray-600 shadow-xl overflow-x-auto scrollbar-none",
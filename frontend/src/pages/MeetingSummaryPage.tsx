@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import axios from 'axios';
+import { Button } from '../components/ui/button';
+import { Badge } from '../components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { getAttendance, getMeetingSummary, AttendanceRecord, MeetingSummary, SharedLink } from '../services/attendanceApi';
+import { ArrowLeft, Clock, Users, MessageCircle, FileText, Link as LinkIcon, Loader2, AlertCircle } from 'lucide-react';
+
+const formatDateTime = (dateTime: string | null | undefined) =>
+  dateTime ? new Date(dateTime).toLocaleString() : '-';
+
+const formatTime = (dateTime: string) =>
+  new Date(dateTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const statusVariant = (status?: string) => {
+  if (status === 'Present') return 'default';
+  if (status === 'Partial') return 'secondary';
+  return 'destructive';
+};
+
+const MeetingSummaryPage: React.FC = () => {
+  const { meetingId } = useParams<{ meetingId: string }>();
+  const navigate = useNavigate();
+  const [summary, setSummary] = useState<MeetingSummary | null>(null);
+  const [attendance, setAttendance] = useState<AttendanceRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!meetingId) return;
+
+    const loadSummary = async () => {
+      try {
+        const data = await getMeetingSummary(meetingId);
+        setSummary(data);
+        // The attendance table is host-only
+        if (data.isHost) {
+          const attendanceData = await getAttendance(meetingId);
+          setAttendance(attendanceData.attendance || []);
+        }
+      } catch (err) {
+        console.error('Error loading meeting summary:', err);
+        setError((axios.isAxiosError(err) && err.response?.data?.error) || 'Failed to load meeting summary');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSummary();
+  }, [meetingId]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (error || !summary) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center gap-4 px-4 text-center">
+        <AlertCircle className="h-10 w-10 text-red-500" />
+        <p className="text-gray-700">{error || 'Meeting summary not found'}</p>
+        <Button variant="outline" onClick={() => navigate(-1)}>Go back</Button>
+      </div>
+    );
+  }
+
+  const { meeting, stats } = summary;
+  const statCards = [
+    { label: 'Scheduled', value: `${stats.scheduledMinutes} min` },
+    { label: 'Actual length', value: `${stats.actualMinutes} min` },
+    { label: 'Participants', value: stats.participantCount },
+    { label: 'Average time', value: `${stats.averageMinutes} min` },
+    { label: 'Messages', value: stats.messageCount },
+    { label: 'Polls', value: stats.pollCount }
+  ];
+
+  const renderLinks = (links: SharedLink[], emptyText: string) => (
+    links.length === 0 ? (
+      <p className="text-sm text-gray-500">{emptyText}</p>
+    ) : (
+      <ul className="space-y-2">
+        {links.map((link, index) => (
+          <li key={`${link.url}-${index}`} className="text-sm">
+            <a href={link.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline break-all">
+              {link.url}
+            </a>
+            <div className="text-xs text-gray-500">{link.sharedBy} · {formatTime(link.sharedAt)}</div>
+          </li>
+        ))}
+      </ul>
+    )
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto py-8 px-4 space-y-6">
+        {/* Header */}
+        <div className="flex items-start gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">{meeting.title}</h1>
+            <p className="text-sm text-gray-500 flex items-center gap-1 mt-1">
+              <Clock className="h-3.5 w-3.5" />
+              {formatDateTime(meeting.start_time)} - {formatDateTime(meeting.end_time)}
+            </p>
+          </div>
+        </div>
+
+        {/* Duration stats */}
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+          {statCards.map((stat) => (
+            <Card key={stat.label}>
+              <CardContent className="p-4">
+                <div className="text-xs text-gray-500">{stat.label}</div>
+                <div className="text-xl font-semibold">{stat.value}</div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+        {stats.actualStart && (
+          <p className="text-xs text-gray-500">
+            First join {formatDateTime(stats.actualStart)} · Last activity {formatDateTime(stats.actualEnd)}
+            {summary.reactions.length > 0 && (
+              <> · Reactions {summary.reactions.map(r => `${r.emoji} ${r.count}`).join('  ')}</>
+            )}
+          </p>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Chat transcript */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <MessageCircle className="h-5 w-5" /> Chat Transcript
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {summary.transcript.length === 0 ? (
+                <p className="text-sm text-gray-500">No messages were sent in this meeting.</p>
+              ) : (
+                <div className="space-y-3 max-h-[32rem] overflow-y-auto pr-2">
+                  {summary.transcript.map((message) => (
+                    <div key={message.id} className="text-sm">
+                      <div className="flex items-center gap-2 text-xs text-gray-500">
+                        <span className="font-semibold text-gray-800">{message.name}</span>
+                        <span>{formatTime(message.sentAt)}</span>
+                        {message.breakoutName && <Badge variant="outline" className="text-[10px]">{message.breakoutName}</Badge>}
+                        {message.likes > 0 && <span>❤️ {message.likes}</span>}
+                      </div>
+                      <p className="whitespace-pre-wrap break-words">{message.text}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <FileText className="h-5 w-5" /> Shared Files
+                </CardTitle>
+              </CardHeader>
+              <CardContent>{renderLinks(summary.sharedFiles, 'No files were shared.')}</CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <LinkIcon className="h-5 w-5" /> Shared Links
+                </CardTitle>
+              </CardHeader>
+              <CardContent>{renderLinks(summary.sharedLinks, 'No links were shared.')}</CardContent>
+            </Card>
+          </div>
+        </div>
+
+        {/* Attendance (host only) */}
+        {summary.isHost && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Users className="h-5 w-5" /> Attendance
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {attendance.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  Attendance hasn&apos;t been processed yet. Use Process Attendance on the meetings dashboard.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Joined</TableHead>
+                      <TableHead>Left</TableHead>
+                      <TableHead>Duration</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {attendance.map((record) => (
+                      <TableRow key={record.email}>
+                        <TableCell>{record.name || '-'}</TableCell>
+                        <TableCell>{record.email}</TableCell>
+                        <TableCell>{formatDateTime(record.joinTime)}</TableCell>
+                        <TableCell>{formatDateTime(record.leaveTime)}</TableCell>
+                        <TableCell>{record.duration ?? 0} min</TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariant(record.attendanceStatus)}>
+                            {record.attendanceStatus || 'Absent'}
+                            {record.attendancePercentage !== undefined && ` (${record.attendancePercentage}%)`}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MeetingSummaryPage;
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import axios from 'axios';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Lock, Eye, EyeOff, ArrowLeft, AlertCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import api from '@/services/api';
+
+const ResetPasswordPage = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (password.length < 6) {
+      setError('Password must be at least 6 characters long');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await api.post('/api/auth/reset-password', { token, password });
+      toast({
+        title: "✅ Password Reset",
+        description: "Your password has been changed. Please sign in with your new password.",
+      });
+      navigate('/signin');
+    } catch (err) {
+      console.error('Reset password error:', err);
+      setError((axios.isAxiosError(err) && err.response?.data?.error) || 'Failed to reset password. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="min-h-[100dvh] flex items-center justify-center px-4 bg-[#0a0a0b] bg-cover bg-center"
+      style={{ backgroundImage: "url('/signin_signup.png')" }}
+    >
+      <div className="absolute inset-0 bg-black/60"></div>
+
+      <div className="relative z-10 w-full max-w-md bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 p-6 shadow-2xl">
+        <div className="flex items-center justify-center gap-2 mb-4">
+          <img src="/logo.png" alt="KEC Alumni Network Logo" className="h-10 w-10" />
+          <h2 className="text-2xl font-bold text-white">KEC Alumni Network</h2>
+        </div>
+
+        {!token ? (
+          <div className="text-center space-y-3">
+            <AlertCircle className="h-10 w-10 text-red-400 mx-auto" />
+            <p className="text-white/80 text-sm">This reset link is invalid. Please request a new one.</p>
+            <Button variant="secondary" onClick={() => navigate('/forgot-password')}>
+              Request a new link
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="text-center mb-4">
+              <h3 className="text-lg font-semibold text-white mb-0.5">Choose a new password</h3>
+              <p className="text-white/80 text-xs">You&apos;ll be signed out of all other devices</p>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {[
+                { id: 'password', label: 'New Password', value: password, onChange: setPassword },
+                { id: 'confirmPassword', label: 'Confirm Password', value: confirmPassword, onChange: setConfirmPassword }
+              ].map((field) => (
+                <div key={field.id}>
+                  <Label htmlFor={field.id} className="text-white text-sm font-medium">{field.label}</Label>
+                  <div className="relative mt-1.5">
+                    <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-white/70" />
+                    <Input
+                      id={field.id}
+                      type={showPassword ? "text" : "password"}
+                      value={field.value}
+                      onChange={(e) => field.onChange(e.target.value)}
+                      required
+                      className="pl-10 pr-10 bg-white/20 border-white/30 text-white placeholder-white/60 focus:border-cyan-400 focus:ring-cyan-400"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent text-white/70 hover:text-white"
+                      onClick={() => setShowPassword(!showPassword)}
+                    >
+                      {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+
+              {error && <p className="text-sm text-red-300">{error}</p>}
+
+              <Button
+                type="submit"
+                className="w-full bg-gradient-to-r from-cyan-500 to-blue-500 hover:from-cyan-600 hover:to-blue-600 text-white py-2.5 font-medium shadow-lg"
+                disabled={isSubmitting}
+              >
+                {isSubmitting ? "Resetting..." : "Reset Password"}
+              </Button>
+            </form>
+          </>
+        )}
+
+        <button
+          onClick={() => navigate('/signin')}
+          className="mt-4 w-full flex items-center justify-center gap-1 text-sm text-white/80 hover:text-white"
+        >
+          <ArrowLeft className="h-4 w-4" /> Back to sign in
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPasswordPage;
@@ -4,7 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Mail, Lock, Eye, EyeOff } from 'lucide-react';
+import { Mail, Lock, Eye, EyeOff, ShieldCheck } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { gsap } from 'gsap';
@@ -14,7 +14,7 @@ gsap.registerPlugin(ScrollTrigger);
 
 const SignInPage = () => {
   const navigate = useNavigate();
-  const { login } = useAuth();
+  const { login, twoFactorPending, verifyTwoFactor, cancelTwoFactor } = useAuth();
   const { toast } = useToast();
 
   // Refs for GSAP animations
@@ -31,6 +31,8 @@ const SignInPage = () => {
 
   const [isLoadingAuth, setIsLoadingAuth] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
   // GSAP Animations
   useEffect(() => {
@@ -120,6 +122,24 @@ const SignInPage = () => {
     }
   };
 
+  // Second step for accounts with two-factor authentication; AuthContext navigates on success
+  const handleTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoadingAuth(true);
+    try {
+      const success = await verifyTwoFactor(twoFactorCode, { recovery: useRecoveryCode });
+      if (!success) setTwoFactorCode('');
+    } finally {
+      setIsLoadingAuth(false);
+    }
+  };
+
+  const handleCancelTwoFactor = () => {
+    cancelTwoFactor();
+    setTwoFactorCode('');
+    setUseRecoveryCode(false);
+  };
+
   return (
     <div className="min-h-[100dvh] relative overflow-x-hidden bg-[#0a0a0b]">
       {/* Full Background Image */}
@@ -190,8 +210,57 @@ const SignInPage = () => {
                 <p className="text-white text-xs italic">"Success is not final, failure is not fatal."</p>
               </div>
 
+              {/* Two-factor step */}
+              {twoFactorPending && (
+                <form onSubmit={handleTwoFactor} className="space-y-4">
+                  <div>
+                    <Label htmlFor="twoFactorCode" className="text-white text-sm font-medium">
+                      {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+                    </Label>
+                    <div className="relative mt-1.5">
+                      <ShieldCheck className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-white/70" />
+                      <Input
+                        id="twoFactorCode"
+                        value={twoFactorCode}
+                        onChange={(e) => setTwoFactorCode(e.target.value)}
+                        placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : 'Enter the 6-digit code from your app'}
+                        inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                        autoComplete="one-time-code"
+                        autoFocus
+                        required
+                        className="pl-10 bg-white/20 border-white/30 text-white placeholder-white/60 focus:border-cyan-400 focus:ring-cyan-400 font-mono"
+                      />
+                    </div>
+                    <div className="flex justify-between mt-1.5">
+                      <button
+                        type="button"
+                        onClick={handleCancelTwoFactor}
+                        className="text-xs text-white/70 hover:text-white hover:underline"
+                      >
+                        Back
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => { setUseRecoveryCode(!useRecoveryCode); setTwoFactorCode(''); }}
+                        className="text-xs text-cyan-300 hover:text-cyan-200 hover:underline"
+                      >
+                        {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+                      </button>
+                    </div>
+                  </div>
+
+                  <Button
+                    type="submit"
+                    className="w-full bg-gradient-to-r from-cyan-500 to-blue-500 hover:from-cyan-600 hover:to-blue-600 text-white py-2.5 font-medium shadow-lg"
+                    disabled={isLoadingAuth}
+                  >
+                    {isLoadingAuth ? "Verifying..." : "Verify"}
+                  </Button>
+                </form>
+              )}
+
               {/* Form */}
-              <form ref={formElementsRef} onSubmit={handleAuth} className="space-y-4">
+              <form ref={formElementsRef} onSubmit={handleAuth} className={twoFactorPending ? 'hidden' : 'space-y-4'}>
                 {/* Email */}
                 <div>
                   <Label htmlFor="email" className="text-white text-sm font-medium">Email</Label>
@@ -233,6 +302,15 @@ const SignInPage = () => {
                       {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                     </Button>
                   </div>
+                  <div className="flex justify-end mt-1.5">
+                    <button
+                      type="button"
+                      onClick={() => navigate('/forgot-password')}
+                      className="text-xs text-cyan-300 hover:text-cyan-200 hover:underline"
+                    >
+                      Forgot password?
+                    </button>
+                  </div>
                 </div>
 
                 <Button
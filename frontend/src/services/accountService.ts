@@ -8,6 +8,7 @@ export interface SecurityInfo {
   twoFactorEnabled: boolean;
   sessionTimeout: number;
   requirePasswordChange: boolean;
+  activeSessions: number;
 }
 
 export interface PasswordChangeData {
@@ -0,0 +1,70 @@
+import api from './api';
+
+export type VerificationStatus = 'pending' | 'verified' | 'rejected';
+
+export interface ProofDocument {
+  url: string;
+  fileName?: string;
+  uploadedAt?: string;
+}
+
+export interface AlumniVerification {
+  status: VerificationStatus;
+  proofDocument: ProofDocument | null;
+  submittedAt: string | null;
+  reviewedAt: string | null;
+  rejectionReason: string | null;
+}
+
+export interface VerificationQueueItem {
+  _id: string;
+  name: string;
+  avatar?: string;
+  email?: { personal?: string; college?: string };
+  department?: string;
+  batch?: string;
+  studentInfo?: { rollNumber?: string; batch?: string; department?: string; joinYear?: number };
+  alumniInfo?: {
+    currentCompany?: string;
+    jobTitle?: string;
+    graduationYear?: number;
+    originalDepartment?: string;
+    conversionDate?: string;
+  };
+  createdAt: string;
+  verification: AlumniVerification & { reviewedBy: { _id: string; name: string } | null };
+}
+
+export interface VerificationQueue {
+  alumni: VerificationQueueItem[];
+  counts: Record<VerificationStatus, number>;
+  currentPage: number;
+  totalPages: number;
+  total: number;
+}
+
+export const getMyVerification = async (): Promise<AlumniVerification> => {
+  const response = await api.get('/api/alumni-verification/me');
+  return response.data.verification;
+};
+
+export const submitVerificationProof = async (url: string, fileName?: string): Promise<AlumniVerification> => {
+  const response = await api.put('/api/alumni-verification/me/proof', { url, fileName });
+  return response.data.verification;
+};
+
+export const getVerificationQueue = async (
+  params: { status?: VerificationStatus; search?: string; page?: number } = {}
+): Promise<VerificationQueue> => {
+  const response = await api.get('/api/alumni-verification/queue', { params });
+  return response.data;
+};
+
+export const reviewAlumnus = async (
+  userId: string,
+  decision: Exclude<VerificationStatus, 'pending'>,
+  reason?: string
+): Promise<VerificationStatus> => {
+  const response = await api.put(`/api/alumni-verification/${userId}/review`, { decision, reason });
+  return response.data.status;
+};
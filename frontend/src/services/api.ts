@@ -44,6 +44,28 @@ api.interceptors.request.use(
   }
 );
 
+// Refresh tokens are single-use (rotated server-side), so concurrent 401s share one refresh
+let refreshInFlight: Promise<string | null> | null = null;
+
+const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      const refreshToken = localStorage.getItem('refreshToken');
+      if (!refreshToken) return null;
+      const refreshResponse = await axios.post(`${API_BASE_URL}/api/auth/refresh`, { refreshToken });
+      if (!refreshResponse.data.token) return null;
+      localStorage.setItem('authToken', refreshResponse.data.token);
+      if (refreshResponse.data.refreshToken) {
+        localStorage.setItem('refreshToken', refreshResponse.data.refreshToken);
+      }
+      return refreshResponse.data.token as string;
+    })().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+};
+
 // Response interceptor to handle auth errors and token refresh
 api.interceptors.response.use(
   (response: AxiosResponse) => {
@@ -72,25 +94,12 @@ api.interceptors.response.use(
       // Try to refresh token
       try {
         originalRequest._retry = true;
-        const token = getAuthToken();
-
-        if (token) {
-          const refreshResponse = await axios.post(
-            `${API_BASE_URL}/api/auth/refresh`,
-            {},
-            {
-              headers: {
-                Authorization: `Bearer ${token}`,
-              },
-            }
-          );
-
-          if (refreshResponse.data.token) {
-            // Store new token
-            localStorage.setItem('authToken', refreshResponse.data.token);
 
+        if (getAuthToken()) {
+          const newToken = await refreshAccessToken();
+          if (newToken) {
             // Retry original request with new token
-            originalRequest.headers.Authorization = `Bearer ${refreshResponse.data.token}`;
+            originalRequest.headers.Authorization = `Bearer ${newToken}`;
             return api(originalRequest);
           }
         }
@@ -597,6 +606,7 @@ export const getGroups = async (params: {
   limit?: number;
   search?: string;
   tag?: string;
+  member?: boolean;
 }): Promise<any> => {
   try {
     const response = await api.get('/api/groups', { params });
@@ -10,6 +10,64 @@ export const getAttendance = async (meetingId: string) => {
   return response.data;
 };
 
+export interface AttendanceRecord {
+  email: string;
+  name?: string;
+  joinTime?: string;
+  leaveTime?: string;
+  duration?: number;
+  attendancePercentage?: number;
+  attendanceStatus?: 'Present' | 'Partial' | 'Absent';
+}
+
+export interface SharedLink {
+  url: string;
+  sharedBy: string;
+  sharedAt: string;
+}
+
+export interface MeetingSummary {
+  success: boolean;
+  meeting: {
+    id: string;
+    title: string;
+    description?: string;
+    start_time: string;
+    end_time: string;
+    status: string;
+  };
+  isHost: boolean;
+  stats: {
+    scheduledMinutes: number;
+    actualStart: string | null;
+    actualEnd: string | null;
+    actualMinutes: number;
+    participantCount: number;
+    averageMinutes: number;
+    longestMinutes: number;
+    messageCount: number;
+    reactionCount: number;
+    pollCount: number;
+  };
+  transcript: Array<{
+    id: string;
+    name: string;
+    breakoutName: string | null;
+    text: string;
+    likes: number;
+    sentAt: string;
+  }>;
+  sharedFiles: SharedLink[];
+  sharedLinks: SharedLink[];
+  reactions: Array<{ emoji: string; count: number }>;
+}
+
+// Host and attendees only
+export const getMeetingSummary = async (meetingId: string): Promise<MeetingSummary> => {
+  const response = await api.get(`/api/meetings/${meetingId}/summary`);
+  return response.data;
+};
+
 export const downloadAttendancePdf = async (meetingId: string): Promise<Blob> => {
   try {
     const response = await api.get(`/api/meetings/${meetingId}/attendance/pdf`, { 
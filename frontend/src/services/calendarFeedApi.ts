@@ -0,0 +1,43 @@
+import api from './api';
+
+export interface CalendarFeedStatus {
+  success: boolean;
+  active: boolean;
+  url: string | null;
+  createdAt: string | null;
+  timezone?: string;
+}
+
+export const getCalendarFeed = async (): Promise<CalendarFeedStatus> => {
+  const response = await api.get('/api/calendar/feed');
+  return response.data;
+};
+
+// Creates the feed, or replaces the link so old subscriptions stop syncing
+export const createCalendarFeed = async (): Promise<CalendarFeedStatus> => {
+  const response = await api.post('/api/calendar/feed');
+  return response.data;
+};
+
+export const revokeCalendarFeed = async () => {
+  const response = await api.delete('/api/calendar/feed');
+  return response.data;
+};
+
+export const updateCalendarTimezone = async (timezone: string) => {
+  const response = await api.put('/api/calendar/timezone', { timezone });
+  return response.data;
+};
+
+// Download an .ics file from one of the per-item export endpoints
+export const downloadIcs = async (path: string, filename: string) => {
+  const response = await api.get(path, { responseType: 'blob' });
+  const url = window.URL.createObjectURL(new Blob([response.data], { type: 'text/calendar' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', `${filename.replace(/[^\w.-]+/g, '_')}.ics`);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.URL.revokeObjectURL(url);
+};
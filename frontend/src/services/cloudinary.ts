@@ -102,16 +102,17 @@ export const uploadVideoToCloudinary = async (file: File): Promise<string> => {
 };
 
 // Upload resume to Cloudinary (PDF or image)
-export const uploadResumeToCloudinary = async (file: File): Promise<string> => {
+// PDFs and images, uploaded with resource type "auto"; `label` is only used in messages
+const uploadDocumentToCloudinary = async (file: File, folder: string, label: string): Promise<string> => {
   try {
-    console.log('Uploading resume to Cloudinary:', {
+    console.log(`Uploading ${label} to Cloudinary:`, {
       fileName: file.name,
       fileSize: file.size,
       fileType: file.type
     });
 
-    // Validate file type for resume
-    const allowedResumeTypes = [
+    // Validate file type for documents
+    const allowedDocumentTypes = [
       'application/pdf',
       'image/jpeg',
       'image/jpg',
@@ -120,20 +121,20 @@ export const uploadResumeToCloudinary = async (file: File): Promise<string> => {
       'image/webp'
     ];
 
-    if (!allowedResumeTypes.includes(file.type)) {
-      throw new Error('Invalid file type. Only PDF and image files are allowed for resumes.');
+    if (!allowedDocumentTypes.includes(file.type)) {
+      throw new Error(`Invalid file type. Only PDF and image files are allowed for ${label}s.`);
     }
 
-    // Check file size (max 10MB for resumes)
+    // Check file size (max 10MB for documents)
     if (file.size > 10 * 1024 * 1024) {
-      throw new Error('File size too large. Maximum size is 10MB for resumes.');
+      throw new Error(`File size too large. Maximum size is 10MB for ${label}s.`);
     }
 
     const formData = new FormData();
     formData.append('file', file);
     formData.append('upload_preset', CLOUDINARY_UPLOAD_PRESET);
     formData.append('cloud_name', CLOUDINARY_CLOUD_NAME);
-    formData.append('folder', 'infranet/resumes');
+    formData.append('folder', folder);
 
     const response = await fetch(
       `https://api.cloudinary.com/v1_1/${CLOUDINARY_CLOUD_NAME}/auto/upload`,
@@ -143,23 +144,29 @@ export const uploadResumeToCloudinary = async (file: File): Promise<string> => {
       }
     );
 
-    console.log('Cloudinary resume response status:', response.status);
+    console.log(`Cloudinary ${label} response status:`, response.status);
 
     if (!response.ok) {
       const errorData = await response.text();
-      console.error('Cloudinary resume upload failed:', errorData);
-      throw new Error(`Failed to upload resume: ${response.status} ${response.statusText}`);
+      console.error(`Cloudinary ${label} upload failed:`, errorData);
+      throw new Error(`Failed to upload ${label}: ${response.status} ${response.statusText}`);
     }
 
     const data: CloudinaryResponse = await response.json();
-    console.log('Cloudinary resume upload successful:', data.secure_url);
+    console.log(`Cloudinary ${label} upload successful:`, data.secure_url);
     return data.secure_url;
   } catch (error) {
-    console.error('Error uploading resume to Cloudinary:', error);
-    throw new Error(`Failed to upload resume: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    console.error(`Error uploading ${label} to Cloudinary:`, error);
+    throw new Error(`Failed to upload ${label}: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 };
 
+export const uploadResumeToCloudinary = (file: File): Promise<string> =>
+  uploadDocumentToCloudinary(file, 'infranet/resumes', 'resume');
+
+export const uploadVerificationProofToCloudinary = (file: File): Promise<string> =>
+  uploadDocumentToCloudinary(file, 'infranet/alumni-verification', 'proof document');
+
 // Validate file type and size
 export const validateFile = (file: File, maxSize: number = 10 * 1024 * 1024): boolean => {
   // Check file size (default 10MB)
@@ -1,7 +1,215 @@
+import { makeAuthenticatedRequest } from './api';
 
+export const EVENT_TYPES = [
+  { value: 'workshop', label: 'Workshop' },
+  { value: 'seminar', label: 'Seminar' },
+  { value: 'webinar', label: 'Webinar' },
+  { value: 'networking', label: 'Networking' },
+  { value: 'reunion', label: 'Reunion' },
+  { value: 'career', label: 'Career Fair' },
+  { value: 'cultural', label: 'Cultural' },
+  { value: 'sports', label: 'Sports' },
+  { value: 'other', label: 'Other' }
+];
 
+export interface CampusEvent {
+  _id: string;
+  title: string;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm
+  location: string;
+  type: string;
+  description: string;
+  meetLink?: string | null;
+  poster?: string | null;
+  attendees: string[];
+  attendeeCount: number;
+  capacity?: number | null;
+  waitlist?: string[];
+  status: 'upcoming' | 'ongoing' | 'completed' | 'cancelled';
+  createdBy: string;
+  createdById?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  // Only present on RSVP responses
+  rsvpStatus?: 'going' | 'waitlisted' | 'none';
+  waitlistPosition?: number | null;
+}
 
+export interface EventAttendee {
+  _id: string;
+  name: string;
+  avatar?: string;
+  type?: string;
+  department?: string;
+  studentInfo?: { batch?: string };
+  alumniInfo?: { currentCompany?: string };
+  checkedInAt?: string | null; // organizers only
+}
 
+export interface EventAttendeesResponse {
+  attendees: EventAttendee[];
+  attendeeCount: number;
+  capacity?: number | null;
+  waitlist?: EventAttendee[]; // organizers only
+  waitlistCount: number;
+  checkedInCount?: number; // organizers only
+}
 
+export interface EventTicket {
+  eventId: string;
+  code: string;
+  qrValue: string;
+  issuedAt: string;
+  checkedInAt?: string | null;
+}
 
+export interface CheckInResult {
+  success: boolean;
+  attendee: EventAttendee;
+  checkedInAt: string;
+  checkedInCount: number;
+}
 
+export interface EventFormData {
+  title: string;
+  date: string;
+  time: string;
+  location: string;
+  type: string;
+  description: string;
+  meetLink?: string;
+  poster?: string;
+  capacity?: number | null;
+  status?: CampusEvent['status'];
+}
+
+export interface EventFilters {
+  type?: string;
+  search?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
+class EventsApiService {
+  async getEvents(filters: EventFilters = {}): Promise<{ events: CampusEvent[]; totalPages: number; currentPage: number; totalEvents: number }> {
+    try {
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') params.append(key, String(value));
+      });
+      return await makeAuthenticatedRequest({
+        method: 'GET',
+        url: `/api/events?${params.toString()}`,
+      });
+    } catch (error) {
+      console.error('Error fetching events:', error);
+      throw error;
+    }
+  }
+
+  async getEvent(eventId: string): Promise<CampusEvent> {
+    try {
+      return await makeAuthenticatedRequest<CampusEvent>({
+        method: 'GET',
+        url: `/api/events/${eventId}`,
+      });
+    } catch (error) {
+      console.error('Error fetching event:', error);
+      throw error;
+    }
+  }
+
+  async createEvent(data: EventFormData): Promise<CampusEvent> {
+    try {
+      return await makeAuthenticatedRequest<CampusEvent>({
+        method: 'POST',
+        url: '/api/events',
+        data,
+      });
+    } catch (error) {
+      console.error('Error creating event:', error);
+      throw error;
+    }
+  }
+
+  async updateEvent(eventId: string, data: Partial<EventFormData>): Promise<CampusEvent> {
+    try {
+      return await makeAuthenticatedRequest<CampusEvent>({
+        method: 'PUT',
+        url: `/api/events/${eventId}`,
+        data,
+      });
+    } catch (error) {
+      console.error('Error updating event:', error);
+      throw error;
+    }
+  }
+
+  async deleteEvent(eventId: string): Promise<void> {
+    try {
+      await makeAuthenticatedRequest({
+        method: 'DELETE',
+        url: `/api/events/${eventId}`,
+      });
+    } catch (error) {
+      console.error('Error deleting event:', error);
+      throw error;
+    }
+  }
+
+  async toggleRsvp(eventId: string, action?: 'join' | 'leave'): Promise<CampusEvent> {
+    try {
+      return await makeAuthenticatedRequest<CampusEvent>({
+        method: 'POST',
+        url: `/api/events/${eventId}/rsvp`,
+        data: action ? { action } : {},
+      });
+    } catch (error) {
+      console.error('Error updating RSVP:', error);
+      throw error;
+    }
+  }
+
+  async getAttendees(eventId: string): Promise<EventAttendeesResponse> {
+    try {
+      return await makeAuthenticatedRequest<EventAttendeesResponse>({
+        method: 'GET',
+        url: `/api/events/${eventId}/attendees`,
+      });
+    } catch (error) {
+      console.error('Error fetching event attendees:', error);
+      throw error;
+    }
+  }
+
+  async getTicket(eventId: string): Promise<EventTicket> {
+    try {
+      return await makeAuthenticatedRequest<EventTicket>({
+        method: 'GET',
+        url: `/api/events/${eventId}/ticket`,
+      });
+    } catch (error) {
+      console.error('Error fetching event ticket:', error);
+      throw error;
+    }
+  }
+
+  async checkIn(eventId: string, code: string): Promise<CheckInResult> {
+    try {
+      return await makeAuthenticatedRequest<CheckInResult>({
+        method: 'POST',
+        url: `/api/events/${eventId}/check-in`,
+        data: { code },
+      });
+    } catch (error) {
+      console.error('Error checking in attendee:', error);
+      throw error;
+    }
+  }
+}
+
+export const eventsApi = new EventsApiService();
+export default eventsApi;
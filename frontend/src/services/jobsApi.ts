@@ -0,0 +1,154 @@
+import api from './api';
+
+export type ApplicationStatus = 'applied' | 'shortlisted' | 'interviewing' | 'offered' | 'rejected' | 'withdrawn';
+
+export const APPLICATION_STATUSES: { value: ApplicationStatus; label: string; className: string }[] = [
+  { value: 'applied', label: 'Applied', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' },
+  { value: 'shortlisted', label: 'Shortlisted', className: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-300' },
+  { value: 'interviewing', label: 'Interviewing', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300' },
+  { value: 'offered', label: 'Offered', className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' },
+  { value: 'rejected', label: 'Not selected', className: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300' },
+  { value: 'withdrawn', label: 'Withdrawn', className: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300' }
+];
+
+export const getStatusMeta = (status: ApplicationStatus) =>
+  APPLICATION_STATUSES.find(s => s.value === status) || APPLICATION_STATUSES[0];
+
+export interface JobPostingSummary {
+  _id: string;
+  title: string;
+  companyName: string;
+  companyLogo?: string;
+  location: string;
+  jobType: string;
+  deadline?: string | null;
+  isActive: boolean;
+  sourcePost?: string | null;
+  postedBy: string;
+  applicationCount?: number;
+}
+
+export interface ApplicationApplicant {
+  _id: string;
+  name: string;
+  avatar?: string;
+  type?: string;
+  department?: string;
+  batch?: string;
+  email?: { college?: string; professional?: string };
+  resume?: string | null;
+}
+
+export interface JobApplication {
+  _id: string;
+  job: string | JobPostingSummary;
+  applicant: string | ApplicationApplicant;
+  resume?: string | null;
+  coverLetter?: string;
+  eligibilityOverridden?: boolean;
+  status: ApplicationStatus;
+  history: { status: ApplicationStatus; changedBy?: string; note?: string; at: string }[];
+  posterNotes?: string; // poster only
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobEligibility {
+  eligible: boolean;
+  reasons: string[];
+  overridden: boolean; // eligible only because a coordinator granted an override
+}
+
+export interface EligibilityOverride {
+  _id: string;
+  userId: { _id: string; name: string; avatar?: string; type?: string; department?: string; batch?: string };
+  grantedBy: { _id: string; name: string };
+  note?: string;
+  at: string;
+}
+
+export interface JobForPost {
+  job: JobPostingSummary;
+  myApplication: JobApplication | null;
+  applicationCount: number | null; // poster only
+  isPoster: boolean;
+  deadlinePassed: boolean;
+  eligibility: JobEligibility | null; // null for the poster
+  canOverrideEligibility: boolean;
+}
+
+export type JobPipeline = Record<ApplicationStatus, JobApplication[]>;
+
+export const getJobForPost = async (postId: string): Promise<JobForPost> => {
+  const response = await api.get(`/api/jobs/post/${postId}`);
+  return response.data;
+};
+
+export const applyToJob = async (jobId: string, coverLetter?: string): Promise<{ application: JobApplication }> => {
+  const response = await api.post(`/api/jobs/${jobId}/apply`, { coverLetter });
+  return response.data;
+};
+
+export const getMyApplications = async (status?: ApplicationStatus): Promise<{ applications: JobApplication[] }> => {
+  const response = await api.get('/api/jobs/applications/mine', { params: status ? { status } : {} });
+  return response.data;
+};
+
+export const withdrawApplication = async (applicationId: string): Promise<{ application: JobApplication }> => {
+  const response = await api.post(`/api/jobs/applications/${applicationId}/withdraw`);
+  return response.data;
+};
+
+export const getMyPostedJobs = async (): Promise<{ jobs: JobPostingSummary[] }> => {
+  const response = await api.get('/api/jobs/posted/mine');
+  return response.data;
+};
+
+export const getJobPipeline = async (jobId: string): Promise<{ job: JobPostingSummary; pipeline: JobPipeline; total: number }> => {
+  const response = await api.get(`/api/jobs/${jobId}/applications`);
+  return response.data;
+};
+
+export const updateApplicationStatus = async (
+  applicationId: string,
+  data: { status?: ApplicationStatus; note?: string; posterNotes?: string }
+): Promise<{ application: JobApplication }> => {
+  const response = await api.put(`/api/jobs/applications/${applicationId}/status`, data);
+  return response.data;
+};
+
+export const getEligibilityOverrides = async (jobId: string): Promise<{ overrides: EligibilityOverride[] }> => {
+  const response = await api.get(`/api/jobs/${jobId}/eligibility-overrides`);
+  return response.data;
+};
+
+export const grantEligibilityOverride = async (jobId: string, userId: string, note?: string): Promise<{ overrides: EligibilityOverride[] }> => {
+  const response = await api.post(`/api/jobs/${jobId}/eligibility-overrides`, { userId, note });
+  return response.data;
+};
+
+export const revokeEligibilityOverride = async (jobId: string, userId: string) => {
+  const response = await api.delete(`/api/jobs/${jobId}/eligibility-overrides/${userId}`);
+  return response.data;
+};
+
+export interface JobRecommendation {
+  job: JobPostingSummary & { skillsRequired?: string[]; salaryRange?: string };
+  score: number;
+  reasons: string[];
+}
+
+export const getRecommendedJobs = async (limit = 10): Promise<{ recommendations: JobRecommendation[] }> => {
+  const response = await api.get('/api/jobs/recommended', { params: { limit } });
+  return response.data;
+};
+
+export const getJobDigestPreference = async (): Promise<{ enabled: boolean; lastSentAt: string | null }> => {
+  const response = await api.get('/api/jobs/recommendations/digest');
+  return response.data;
+};
+
+export const setJobDigestPreference = async (enabled: boolean): Promise<{ enabled: boolean; lastSentAt: string | null }> => {
+  const response = await api.put('/api/jobs/recommendations/digest', { enabled });
+  return response.data;
+};
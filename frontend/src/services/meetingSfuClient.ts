@@ -0,0 +1,200 @@
+import { Device, types } from 'mediasoup-client';
+import type { Socket } from 'socket.io-client';
+
+// Simulcast layers for camera video: low (r0) to full resolution (r2)
+const CAMERA_ENCODINGS: types.RtpEncodingParameters[] = [
+  { rid: 'r0', maxBitrate: 100000, scaleResolutionDownBy: 4 },
+  { rid: 'r1', maxBitrate: 300000, scaleResolutionDownBy: 2 },
+  { rid: 'r2', maxBitrate: 900000, scaleResolutionDownBy: 1 }
+];
+
+export interface RemoteProducer {
+  producerId: string;
+  participantId: string;
+  kind: 'audio' | 'video';
+}
+
+export interface RemoteTrack {
+  consumerId: string;
+  participantId: string;
+  kind: 'audio' | 'video';
+  track: MediaStreamTrack;
+  simulcast: boolean;
+}
+
+interface SfuResponse {
+  success: boolean;
+  error?: string;
+}
+
+interface SfuJoinResponse extends SfuResponse {
+  routerRtpCapabilities: types.RtpCapabilities;
+  iceServers: RTCIceServer[];
+  producers: RemoteProducer[];
+}
+
+type TransportResponse = SfuResponse & types.TransportOptions;
+
+interface ConsumeResponse extends SfuResponse {
+  id: string;
+  producerId: string;
+  participantId: string;
+  kind: 'audio' | 'video';
+  rtpParameters: types.RtpParameters;
+  type: string;
+}
+
+/**
+ * Client side of the backend SFU (see services/meetingService.js). Sends the
+ * local tracks through one send transport and receives everyone else's through
+ * one receive transport, instead of a peer connection per participant.
+ */
+export class MeetingSfuClient {
+  private device = new Device();
+  private sendTransport: types.Transport | null = null;
+  private recvTransport: types.Transport | null = null;
+  private producers = new Map<string, types.Producer>();
+  private consumers = new Map<string, types.Consumer>();
+  private preferredLayers = new Map<string, number>();
+  private closed = false;
+
+  constructor(
+    private socket: Socket,
+    private onTrack: (track: RemoteTrack) => void,
+    private onTrackEnded: (consumerId: string) => void
+  ) {
+    this.socket.on('sfu:new-producer', this.handleNewProducer);
+    this.socket.on('sfu:consumer-closed', this.handleConsumerClosed);
+  }
+
+  private async request<T extends SfuResponse>(event: string, data: object = {}): Promise<T> {
+    const response: T = await this.socket.timeout(10000).emitWithAck(event, data);
+    if (!response.success) {
+      throw new Error(response.error || `${event} failed`);
+    }
+    return response;
+  }
+
+  async join(localStream: MediaStream | null) {
+    const { routerRtpCapabilities, iceServers, producers } = await this.request<SfuJoinResponse>('sfu:join');
+    await this.device.load({ routerRtpCapabilities });
+
+    this.sendTransport = await this.createTransport('send', iceServers);
+    this.recvTransport = await this.createTransport('recv', iceServers);
+
+    if (localStream) {
+      for (const track of localStream.getTracks()) {
+        await this.produce(track);
+      }
+    }
+
+    for (const producer of producers) {
+      await this.consume(producer);
+    }
+  }
+
+  private async createTransport(direction: 'send' | 'recv', iceServers: RTCIceServer[]) {
+    const params = await this.request<TransportResponse>('sfu:create-transport', { direction });
+    const options = { id: params.id, iceParameters: params.iceParameters, iceCandidates: params.iceCandidates, dtlsParameters: params.dtlsParameters, iceServers };
+    const transport = direction === 'send'
+      ? this.device.createSendTransport(options)
+      : this.device.createRecvTransport(options);
+
+    transport.on('connect', ({ dtlsParameters }, callback, errback) => {
+      this.request('sfu:connect-transport', { transportId: transport.id, dtlsParameters })
+        .then(() => callback())
+        .catch(errback);
+    });
+
+    if (direction === 'send') {
+      transport.on('produce', ({ kind, rtpParameters }, callback, errback) => {
+        this.request<SfuResponse & { id: string }>('sfu:produce', { transportId: transport.id, kind, rtpParameters })
+          .then(({ id }) => callback({ id }))
+          .catch(errback);
+      });
+    }
+
+    return transport;
+  }
+
+  async produce(track: MediaStreamTrack) {
+    const kind = track.kind as 'audio' | 'video';
+    if (!this.sendTransport || !this.device.canProduce(kind)) return;
+
+    // Video is simulcast so each receiver can get the layer that fits its tile
+    const producer = await this.sendTransport.produce({
+      track,
+      encodings: kind === 'video' ? CAMERA_ENCODINGS : undefined,
+      codecOptions: kind === 'video' ? { videoGoogleStartBitrate: 1000 } : undefined
+    });
+    this.producers.set(kind, producer);
+  }
+
+  // Swap the track behind a producer, e.g. camera <-> screen share
+  async replaceTrack(kind: 'audio' | 'video', track: MediaStreamTrack | null) {
+    const producer = this.producers.get(kind);
+    if (producer) {
+      await producer.replaceTrack({ track });
+    }
+  }
+
+  private async consume(producer: RemoteProducer) {
+    if (this.closed || !this.recvTransport) return;
+
+    const response = await this.request<ConsumeResponse>('sfu:consume', {
+      producerId: producer.producerId,
+      rtpCapabilities: this.device.rtpCapabilities
+    });
+
+    const consumer = await this.recvTransport.consume({
+      id: response.id,
+      producerId: response.producerId,
+      kind: response.kind,
+      rtpParameters: response.rtpParameters
+    });
+    this.consumers.set(consumer.id, consumer);
+
+    this.onTrack({
+      consumerId: consumer.id,
+      participantId: response.participantId,
+      kind: response.kind,
+      track: consumer.track,
+      simulcast: response.type === 'simulcast'
+    });
+    await this.request('sfu:resume-consumer', { consumerId: consumer.id });
+  }
+
+  /**
+   * Ask the SFU to forward a given simulcast layer (0 = lowest) for a
+   * consumer. Repeated requests for the same layer are skipped.
+   */
+  async setPreferredLayer(consumerId: string, spatialLayer: number) {
+    if (!this.consumers.has(consumerId) || this.preferredLayers.get(consumerId) === spatialLayer) return;
+    this.preferredLayers.set(consumerId, spatialLayer);
+    await this.request('sfu:set-preferred-layers', { consumerId, spatialLayer, temporalLayer: 2 });
+  }
+
+  private handleNewProducer = (producer: RemoteProducer) => {
+    this.consume(producer).catch(error => console.error('Error consuming producer:', error));
+  };
+
+  private handleConsumerClosed = ({ consumerId }: { consumerId: string }) => {
+    const consumer = this.consumers.get(consumerId);
+    if (!consumer) return;
+
+    consumer.close();
+    this.consumers.delete(consumerId);
+    this.preferredLayers.delete(consumerId);
+    this.onTrackEnded(consumerId);
+  };
+
+  close() {
+    this.closed = true;
+    this.socket.off('sfu:new-producer', this.handleNewProducer);
+    this.socket.off('sfu:consumer-closed', this.handleConsumerClosed);
+    this.sendTransport?.close();
+    this.recvTransport?.close();
+    this.producers.clear();
+    this.consumers.clear();
+  }
+}
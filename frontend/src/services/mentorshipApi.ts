@@ -0,0 +1,194 @@
+import api from './api';
+
+export type MentorshipStatus = 'pending' | 'active' | 'declined' | 'cancelled' | 'closed';
+export type MentorshipSessionStatus = 'scheduled' | 'completed' | 'cancelled';
+
+export const MENTORSHIP_STATUSES: { value: MentorshipStatus; label: string; className: string }[] = [
+  { value: 'pending', label: 'Pending', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300' },
+  { value: 'active', label: 'Active', className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' },
+  { value: 'declined', label: 'Declined', className: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300' },
+  { value: 'cancelled', label: 'Cancelled', className: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300' },
+  { value: 'closed', label: 'Closed', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' }
+];
+
+export const getMentorshipStatusMeta = (status: MentorshipStatus) =>
+  MENTORSHIP_STATUSES.find(s => s.value === status) || MENTORSHIP_STATUSES[0];
+
+export interface Mentor {
+  _id: string;
+  name: string;
+  avatar?: string;
+  department?: string;
+  batch?: string;
+  skills?: string[];
+  alumniInfo?: {
+    currentCompany?: string;
+    jobTitle?: string;
+    experience?: string;
+    originalDepartment?: string;
+    mentorshipAreas?: string[];
+  };
+  activeMentees: number;
+  capacity: number;
+  openSlots: number;
+}
+
+export interface MentorSuggestion {
+  mentor: Mentor;
+  score: number;
+  reasons: string[];
+}
+
+export interface MentorshipParticipant {
+  _id: string;
+  name: string;
+  avatar?: string;
+  type?: string;
+  department?: string;
+  batch?: string;
+  alumniInfo?: { currentCompany?: string; jobTitle?: string };
+  studentInfo?: { department?: string; currentYear?: number };
+}
+
+export interface MentorshipSession {
+  _id: string;
+  scheduledAt: string;
+  durationMinutes: number;
+  topic?: string;
+  meetingLink?: string;
+  notes?: string;
+  status: MentorshipSessionStatus;
+  createdBy?: string;
+}
+
+export interface MentorshipNote {
+  _id: string;
+  author: { _id: string; name: string; avatar?: string };
+  text: string;
+  createdAt: string;
+}
+
+export interface MentorshipGoal {
+  _id: string;
+  text: string;
+  done: boolean;
+  completedAt?: string;
+}
+
+export interface Mentorship {
+  _id: string;
+  mentor: MentorshipParticipant;
+  mentee: MentorshipParticipant;
+  area?: string;
+  requestMessage: string;
+  status: MentorshipStatus;
+  respondedAt?: string;
+  responseNote?: string;
+  sessions: MentorshipSession[];
+  notes?: MentorshipNote[]; // only on the single-mentorship endpoint
+  goals: MentorshipGoal[];
+  closedAt?: string;
+  closedBy?: string;
+  feedback: { author: string; rating?: number; comment?: string; at: string }[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MentorAvailability {
+  offering: boolean;
+  areas: string[];
+  capacity: number;
+  activeMentees: number;
+}
+
+export interface MyMentorships {
+  asMentor: Mentorship[];
+  asMentee: Mentorship[];
+  availability: MentorAvailability | null; // alumni only
+}
+
+export interface MentorFilters {
+  area?: string;
+  company?: string;
+  department?: string;
+  search?: string;
+  page?: number;
+}
+
+export const getMentors = async (filters: MentorFilters = {}): Promise<{ mentors: Mentor[]; currentPage: number; totalPages: number; total: number }> => {
+  const response = await api.get('/api/mentorship/mentors', { params: filters });
+  return response.data;
+};
+
+export const getSuggestedMentors = async (limit = 6): Promise<MentorSuggestion[]> => {
+  const response = await api.get('/api/mentorship/mentors/suggested', { params: { limit } });
+  return response.data.suggestions;
+};
+
+export const getMyMentorships = async (): Promise<MyMentorships> => {
+  const response = await api.get('/api/mentorship');
+  return response.data;
+};
+
+export const updateMentorAvailability = async (data: Partial<Omit<MentorAvailability, 'activeMentees'>>): Promise<MentorAvailability> => {
+  const response = await api.put('/api/mentorship/availability', data);
+  return response.data;
+};
+
+export const requestMentorship = async (mentorId: string, message: string, area?: string): Promise<Mentorship> => {
+  const response = await api.post('/api/mentorship/requests', { mentorId, message, area });
+  return response.data.mentorship;
+};
+
+export const respondToMentorship = async (id: string, accept: boolean, note?: string): Promise<Mentorship> => {
+  const response = await api.put(`/api/mentorship/${id}/respond`, { accept, note });
+  return response.data.mentorship;
+};
+
+export const cancelMentorshipRequest = async (id: string): Promise<Mentorship> => {
+  const response = await api.post(`/api/mentorship/${id}/cancel`);
+  return response.data.mentorship;
+};
+
+export const getMentorship = async (id: string): Promise<Mentorship> => {
+  const response = await api.get(`/api/mentorship/${id}`);
+  return response.data.mentorship;
+};
+
+export const scheduleMentorshipSession = async (
+  id: string,
+  data: { scheduledAt: string; durationMinutes?: number; topic?: string; meetingLink?: string }
+): Promise<MentorshipSession> => {
+  const response = await api.post(`/api/mentorship/${id}/sessions`, data);
+  return response.data.session;
+};
+
+export const updateMentorshipSession = async (
+  id: string,
+  sessionId: string,
+  data: Partial<Omit<MentorshipSession, '_id' | 'createdBy'>>
+): Promise<MentorshipSession> => {
+  const response = await api.put(`/api/mentorship/${id}/sessions/${sessionId}`, data);
+  return response.data.session;
+};
+
+export const addMentorshipNote = async (id: string, text: string): Promise<MentorshipNote> => {
+  const response = await api.post(`/api/mentorship/${id}/notes`, { text });
+  return response.data.note;
+};
+
+export const addMentorshipGoal = async (id: string, text: string): Promise<MentorshipGoal> => {
+  const response = await api.post(`/api/mentorship/${id}/goals`, { text });
+  return response.data.goal;
+};
+
+export const updateMentorshipGoal = async (id: string, goalId: string, data: { done?: boolean; text?: string }): Promise<MentorshipGoal> => {
+  const response = await api.put(`/api/mentorship/${id}/goals/${goalId}`, data);
+  return response.data.goal;
+};
+
+// Closes an active mentorship, or adds feedback after the other side closed it
+export const closeMentorship = async (id: string, feedback: { rating?: number; comment?: string }): Promise<Mentorship> => {
+  const response = await api.post(`/api/mentorship/${id}/close`, feedback);
+  return response.data.mentorship;
+};
@@ -1,5 +1,8 @@
 import api, { makeAuthenticatedRequest } from './api';
 
+// Who can read a post; the backend enforces it on every read path
+export type PostAudience = 'everyone' | 'followers' | 'mutuals' | 'department' | 'batch' | 'group';
+
 export interface Post {
   _id: string;
   author: {
@@ -9,6 +12,7 @@ export interface Post {
     type: string;
     department?: string;
     batch?: string;
+    alumniInfo?: { verificationStatus?: string };
   };
   title?: string;
   content: string;
@@ -23,17 +27,10 @@ export interface Post {
   tags?: string[];
   likes: string[];
   likeIds?: string[]; // Array of user IDs who liked the post (for easier checking)
-  comments: Array<{
-    _id: string;
-    author: {
-      _id: string;
-      name: string;
-      avatar?: string;
-    };
-    content: string;
-    createdAt: string;
-    likes: string[];
-  }>;
+  commentCount: number;
+  audience?: PostAudience;
+  audienceBatch?: string;
+  groupId?: string | null;
   createdAt: string;
   updatedAt: string;
   // Event-specific fields
@@ -78,6 +75,9 @@ export interface CreatePostData {
   postType: 'general' | 'event' | 'job' | 'poll';
   media?: File[];
   tags?: string[];
+  audience?: PostAudience;
+  audienceBatch?: string; // defaults to the author's batch
+  groupId?: string; // required when audience is 'group'
   eventDetails?: {
     title: string;
     date: string;
@@ -114,8 +114,48 @@ export interface UpdatePostData {
   pollDetails?: Partial<CreatePostData['pollDetails']>;
 }
 
+// Mentions are embedded in content as @[Name](userId)
+export interface PostComment {
+  _id: string;
+  post: string;
+  parent: string | null;
+  depth: number;
+  author: {
+    _id: string;
+    name: string;
+    avatar?: string;
+  } | null; // null once the comment is deleted but kept for its replies
+  content: string;
+  mentions: string[];
+  likes: string[];
+  replyCount: number;
+  moderationStatus: 'approved' | 'pending' | 'removed';
+  editedAt: string | null;
+  deletedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CommentPage {
+  comments: PostComment[];
+  currentPage: number;
+  totalPages: number;
+  total: number;
+  hasMore: boolean;
+}
+
 export interface CommentData {
   content: string;
+  parentId?: string;
+}
+
+export type FeedType = 'for_you' | 'latest';
+
+export interface FeedPage {
+  feed: FeedType;
+  posts: Post[];
+  hasMore: boolean;
+  nextCursor: string | null;
 }
 
 export interface PollVoteData {
@@ -136,6 +176,21 @@ class PostsApiService {
     }
   }
 
+  // Cursor-paginated home feed; pass back nextCursor to get the following page
+  async getFeed(feed: FeedType, cursor?: string | null, limit = 10): Promise<FeedPage> {
+    try {
+      const response = await makeAuthenticatedRequest<FeedPage>({
+        method: 'GET',
+        url: '/api/posts',
+        params: { feed, cursor: cursor || undefined, limit },
+      });
+      return response;
+    } catch (error) {
+      console.error('Error fetching feed:', error);
+      throw error;
+    }
+  }
+
   async getPost(postId: string): Promise<Post> {
     try {
       const response = await makeAuthenticatedRequest<Post>({
@@ -177,6 +232,12 @@ class PostsApiService {
         formData.append('tags', JSON.stringify(postData.tags));
       }
 
+      if (postData.audience) {
+        formData.append('audience', postData.audience);
+        if (postData.audienceBatch) formData.append('audienceBatch', postData.audienceBatch);
+        if (postData.groupId) formData.append('groupId', postData.groupId);
+      }
+
       const response = await makeAuthenticatedRequest<Post>({
         method: 'POST',
         url: '/api/posts',
@@ -232,9 +293,23 @@ class PostsApiService {
     }
   }
 
-  async commentOnPost(postId: string, commentData: CommentData): Promise<{ success: boolean; comment: any }> {
+  async getComments(postId: string, { parentId, page = 1, limit = 10 }: { parentId?: string; page?: number; limit?: number } = {}): Promise<CommentPage> {
+    try {
+      const response = await makeAuthenticatedRequest<CommentPage>({
+        method: 'GET',
+        url: `/api/posts/${postId}/comments`,
+        params: { parentId, page, limit },
+      });
+      return response;
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+      throw error;
+    }
+  }
+
+  async commentOnPost(postId: string, commentData: CommentData): Promise<PostComment> {
     try {
-      const response = await makeAuthenticatedRequest<{ success: boolean; comment: any }>({
+      const response = await makeAuthenticatedRequest<PostComment>({
         method: 'POST',
         url: `/api/posts/${postId}/comments`,
         data: commentData,
@@ -246,9 +321,23 @@ class PostsApiService {
     }
   }
 
-  async likeComment(postId: string, commentId: string): Promise<{ success: boolean; likes: string[] }> {
+  async editComment(postId: string, commentId: string, content: string): Promise<PostComment> {
     try {
-      const response = await makeAuthenticatedRequest<{ success: boolean; likes: string[] }>({
+      const response = await makeAuthenticatedRequest<PostComment>({
+        method: 'PUT',
+        url: `/api/posts/${postId}/comments/${commentId}`,
+        data: { content },
+      });
+      return response;
+    } catch (error) {
+      console.error('Error editing comment:', error);
+      throw error;
+    }
+  }
+
+  async likeComment(postId: string, commentId: string): Promise<{ liked: boolean; likeCount: number; likes: string[] }> {
+    try {
+      const response = await makeAuthenticatedRequest<{ liked: boolean; likeCount: number; likes: string[] }>({
         method: 'POST',
         url: `/api/posts/${postId}/comments/${commentId}/like`,
       });
@@ -259,9 +348,9 @@ class PostsApiService {
     }
   }
 
-  async deleteComment(postId: string, commentId: string): Promise<{ message: string }> {
+  async deleteComment(postId: string, commentId: string): Promise<{ message: string; placeholder: boolean }> {
     try {
-      const response = await makeAuthenticatedRequest<{ message: string }>({
+      const response = await makeAuthenticatedRequest<{ message: string; placeholder: boolean }>({
         method: 'DELETE',
         url: `/api/posts/${postId}/comments/${commentId}`,
       });
@@ -0,0 +1,40 @@
+import api from './api';
+
+export type ReportContentType = 'post' | 'comment' | 'message' | 'profile';
+
+export type ReportReason =
+  | 'spam'
+  | 'harassment'
+  | 'hate_speech'
+  | 'inappropriate'
+  | 'misinformation'
+  | 'impersonation'
+  | 'other';
+
+export const REPORT_REASONS: { value: ReportReason; label: string; description: string }[] = [
+  { value: 'spam', label: 'Spam', description: 'Unwanted promotion, scams or repetitive content' },
+  { value: 'harassment', label: 'Harassment or bullying', description: 'Targeting, threatening or insulting someone' },
+  { value: 'hate_speech', label: 'Hate speech', description: 'Attacks on people based on who they are' },
+  { value: 'inappropriate', label: 'Inappropriate content', description: 'Explicit, violent or offensive material' },
+  { value: 'misinformation', label: 'Misinformation', description: 'False or misleading information' },
+  { value: 'impersonation', label: 'Impersonation', description: 'Pretending to be someone else' },
+  { value: 'other', label: 'Other', description: 'Something else that breaks the community guidelines' }
+];
+
+export interface ReportPayload {
+  contentType: ReportContentType;
+  contentId: string;
+  parentId?: string; // post id when reporting a comment
+  reason: ReportReason;
+  details?: string;
+}
+
+export const submitReport = async (payload: ReportPayload) => {
+  const response = await api.post('/api/reports', payload);
+  return response.data;
+};
+
+export const getMyReports = async () => {
+  const response = await api.get('/api/reports/mine');
+  return response.data;
+};
@@ -1,13 +1,110 @@
-import { AdvancedMessageEncryption, UserKeyPair, SharedSecret } from '@/utils/messageEncryption';
+import api from '@/services/api';
+import {
+  AdvancedMessageEncryption,
+  BackedUpKey,
+  DeviceIdentity,
+  EncryptedEnvelope,
+  EncryptedKeyBackup,
+  RecipientDevice
+} from '@/utils/messageEncryption';
+
+export interface PublishedDeviceKey {
+  deviceId: string;
+  publicKey: string;
+  label?: string;
+  createdAt?: string;
+  revokedAt?: string;
+}
+
+export interface RegisteredDevice extends PublishedDeviceKey {
+  lastSeenAt?: string;
+}
+
+export interface KeyBackupStatus {
+  exists: boolean;
+  updatedAt?: string;
+  deviceIds: string[];
+}
+
+type ConversationKeys = Record<string, PublishedDeviceKey[]>;
+
+const isActive = (device: PublishedDeviceKey) => !device.revokedAt;
+
+interface StoredDevice {
+  userId: string;
+  deviceId: string;
+  publicKey: string;
+  privateKey: CryptoKey;
+  createdAt: number;
+  publishedAt?: number;
+  // Keys of the user's other (or earlier) devices, restored from a backup to read older messages
+  archivedKeys?: DeviceIdentity[];
+}
+
+interface StoredBackup extends EncryptedKeyBackup {
+  deviceIds: string[];
+  updatedAt: string;
+}
+
+const DB_NAME = 'inspiranet-e2ee';
+const DB_VERSION = 1;
+const DEVICE_STORE = 'devices';
+const KEY_CACHE_TTL = 60 * 1000;
+
+// Left behind by the old shared-secret scheme, which kept its master key in localStorage
+const LEGACY_STORAGE_KEYS = ['inspiranet_user_keys', 'inspiranet_shared_secrets', 'inspiranet_master_key'];
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(DEVICE_STORE, { keyPath: 'userId' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(DEVICE_STORE, mode).objectStore(DEVICE_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Short human-readable name shown in the device list, e.g. "Chrome on Windows"
+const describeDevice = (): string => {
+  const ua = navigator.userAgent;
+  const browser = /Edg\//.test(ua) ? 'Edge'
+    : /Firefox\//.test(ua) ? 'Firefox'
+      : /Chrome\//.test(ua) ? 'Chrome'
+        : /Safari\//.test(ua) ? 'Safari'
+          : 'Browser';
+  const os = /Android/.test(ua) ? 'Android'
+    : /iPhone|iPad/.test(ua) ? 'iOS'
+      : /Windows/.test(ua) ? 'Windows'
+        : /Mac OS X/.test(ua) ? 'macOS'
+          : /Linux/.test(ua) ? 'Linux'
+            : 'unknown OS';
+  return `${browser} on ${os}`;
+};
 
 export class SecureKeyService {
   private static instance: SecureKeyService;
-  private userKeys: Map<string, UserKeyPair> = new Map();
-  private sharedSecrets: Map<string, SharedSecret> = new Map();
-  private masterKey: string | null = null;
+  private devices: Map<string, Promise<StoredDevice>> = new Map();
+  private conversationKeys: Map<string, { keys: ConversationKeys; fetchedAt: number }> = new Map();
+  private userKeys: Map<string, { keys: PublishedDeviceKey[]; fetchedAt: number }> = new Map();
 
   private constructor() {
-    this.initializeFromStorage();
+    this.purgeLegacyStorage();
   }
 
   static getInstance(): SecureKeyService {
@@ -17,186 +114,253 @@ export class SecureKeyService {
     return SecureKeyService.instance;
   }
 
-  // Initialize keys from secure storage
-  private initializeFromStorage(): void {
-    try {
-      // Load user keys from localStorage (in production, use more secure storage)
-      const storedKeys = localStorage.getItem('inspiranet_user_keys');
-      if (storedKeys) {
-        const keys = JSON.parse(storedKeys);
-        this.userKeys = new Map(Object.entries(keys));
-      }
-
-      // Load shared secrets
-      const storedSecrets = localStorage.getItem('inspiranet_shared_secrets');
-      if (storedSecrets) {
-        const secrets = JSON.parse(storedSecrets);
-        this.sharedSecrets = new Map(Object.entries(secrets));
-      }
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined' && !!window.crypto?.subtle;
+  }
 
-      // Load master key
-      this.masterKey = localStorage.getItem('inspiranet_master_key');
+  private purgeLegacyStorage(): void {
+    try {
+      LEGACY_STORAGE_KEYS.forEach(key => localStorage.removeItem(key));
     } catch (error) {
-      console.warn('Failed to load keys from storage:', error);
-      this.generateNewMasterKey();
+      console.warn('Failed to clear legacy encryption keys:', error);
     }
   }
 
-  // Generate a new master key
-  private generateNewMasterKey(): void {
-    this.masterKey = AdvancedMessageEncryption.generateSecureRandomString(64);
-    localStorage.setItem('inspiranet_master_key', this.masterKey);
+  // This browser's identity for the given user, created and published on first use
+  async getDeviceIdentity(userId: string): Promise<DeviceIdentity> {
+    const { deviceId, publicKey, privateKey } = await this.getStoredDevice(userId);
+    return { deviceId, publicKey, privateKey };
   }
 
-  // Get or create user key pair
-  async getUserKeyPair(userId: string): Promise<UserKeyPair> {
-    if (this.userKeys.has(userId)) {
-      return this.userKeys.get(userId)!;
-    }
-
-    // Generate new key pair
-    const keyPair = await AdvancedMessageEncryption.generateUserKeyPair(userId);
-    this.userKeys.set(userId, keyPair);
-    this.saveUserKeys();
-    
-    return keyPair;
-  }
-
-  // Get or create shared secret for a conversation
-  async getSharedSecret(participants: string[], conversationId: string): Promise<string> {
-    if (this.sharedSecrets.has(conversationId)) {
-      const secret = this.sharedSecrets.get(conversationId)!;
-      
-      // Check if participants match
-      if (this.arraysEqual(secret.participants.sort(), participants.sort())) {
-        // Update last used timestamp
-        secret.lastUsed = Date.now();
-        this.saveSharedSecrets();
-        return secret.secret;
-      }
+  private getStoredDevice(userId: string): Promise<StoredDevice> {
+    let device = this.devices.get(userId);
+    if (!device) {
+      device = this.loadOrCreateDevice(userId);
+      device.catch(() => this.devices.delete(userId));
+      this.devices.set(userId, device);
     }
+    return device;
+  }
 
-    // Generate new shared secret
-    const secret = await this.generateSharedSecret(participants, conversationId);
-    this.sharedSecrets.set(conversationId, secret);
-    this.saveSharedSecrets();
-    
-    return secret.secret;
-  }
-
-  // Generate a new shared secret for participants
-  private async generateSharedSecret(participants: string[], conversationId: string): Promise<SharedSecret> {
-    // Use master key and participant IDs to generate a unique secret
-    const masterKey = this.masterKey || this.generateNewMasterKey();
-    const secret = await AdvancedMessageEncryption.deriveConversationSecret(
-      participants,
-      conversationId,
-      masterKey!
-    );
+  private async loadOrCreateDevice(userId: string): Promise<StoredDevice> {
+    const device = await runTransaction<StoredDevice | undefined>('readonly', store => store.get(userId));
+    // Publish once per session even if already registered: it refreshes lastSeenAt
+    // and is how a device learns it was revoked from another one
+    return this.publishDevice(device || await this.createDevice(userId));
+  }
 
-    return {
-      conversationId,
-      secret,
-      participants: [...participants],
-      createdAt: Date.now(),
-      lastUsed: Date.now()
-    };
+  private async saveDevice(device: StoredDevice): Promise<StoredDevice> {
+    await runTransaction('readwrite', store => store.put(device));
+    this.devices.set(device.userId, Promise.resolve(device));
+    return device;
   }
 
-  // Get shared secret for a post (for comments)
-  async getPostSharedSecret(postId: string, postAuthorId: string, currentUserId: string): Promise<string> {
-    const conversationId = `post_${postId}`;
-    const participants = [postAuthorId, currentUserId];
-    
-    return await this.getSharedSecret(participants, conversationId);
+  private async createDevice(userId: string): Promise<StoredDevice> {
+    const keyPair = await AdvancedMessageEncryption.generateDeviceKeyPair();
+    const device: StoredDevice = {
+      userId,
+      deviceId: crypto.randomUUID(),
+      publicKey: await AdvancedMessageEncryption.exportPublicKey(keyPair.publicKey),
+      privateKey: keyPair.privateKey,
+      createdAt: Date.now()
+    };
+    await runTransaction('readwrite', store => store.put(device));
+    return device;
   }
 
-  // Save user keys to storage
-  private saveUserKeys(): void {
+  private async publishDevice(device: StoredDevice): Promise<StoredDevice> {
     try {
-      const keysObject = Object.fromEntries(this.userKeys);
-      localStorage.setItem('inspiranet_user_keys', JSON.stringify(keysObject));
+      await api.put(`/api/encryption/devices/${device.deviceId}`, {
+        publicKey: device.publicKey,
+        label: describeDevice()
+      });
     } catch (error) {
-      console.error('Failed to save user keys:', error);
+      const { response } = error as { response?: { status?: number } };
+      // The server no longer accepts this device (revoked, or its id was taken); start over with a new one
+      if (response?.status === 403 || response?.status === 409) {
+        return this.publishDevice(await this.createDevice(device.userId));
+      }
+      throw error;
     }
+
+    return this.saveDevice({ ...device, publishedAt: Date.now() });
   }
 
-  // Save shared secrets to storage
-  private saveSharedSecrets(): void {
-    try {
-      const secretsObject = Object.fromEntries(this.sharedSecrets);
-      localStorage.setItem('inspiranet_shared_secrets', JSON.stringify(secretsObject));
-    } catch (error) {
-      console.error('Failed to save shared secrets:', error);
+  async getConversationKeys(conversationId: string, refresh = false): Promise<ConversationKeys> {
+    const cached = this.conversationKeys.get(conversationId);
+    if (!refresh && cached && Date.now() - cached.fetchedAt < KEY_CACHE_TTL) {
+      return cached.keys;
     }
+
+    const response = await api.get(`/api/encryption/conversations/${conversationId}/keys`);
+    const keys: ConversationKeys = response.data.keys || {};
+    this.conversationKeys.set(conversationId, { keys, fetchedAt: Date.now() });
+    return keys;
+  }
+
+  // Every device a user has published, revoked ones included
+  private async getUserKeys(userId: string): Promise<PublishedDeviceKey[]> {
+    const cached = this.userKeys.get(userId);
+    if (cached && Date.now() - cached.fetchedAt < KEY_CACHE_TTL) {
+      return cached.keys;
+    }
+
+    const response = await api.get(`/api/encryption/users/${userId}/keys`, { params: { includeRevoked: true } });
+    const keys: PublishedDeviceKey[] = response.data.devices || [];
+    this.userKeys.set(userId, { keys, fetchedAt: Date.now() });
+    return keys;
   }
 
-  // Clear all keys (for logout)
-  clearAllKeys(): void {
-    this.userKeys.clear();
-    this.sharedSecrets.clear();
-    this.masterKey = null;
-    
-    localStorage.removeItem('inspiranet_user_keys');
-    localStorage.removeItem('inspiranet_shared_secrets');
-    localStorage.removeItem('inspiranet_master_key');
+  // Encryption is only used when every participant has at least one device to receive it
+  async canEncrypt(conversationId: string, userId: string): Promise<boolean> {
+    if (!this.isSupported()) return false;
+    await this.getDeviceIdentity(userId);
+    const keys = await this.getConversationKeys(conversationId, true);
+    const participants = Object.keys(keys);
+    return participants.length > 0 && participants.every(id => id === userId || keys[id].some(isActive));
   }
 
-  // Check if arrays are equal
-  private arraysEqual(a: string[], b: string[]): boolean {
-    if (a.length !== b.length) return false;
-    for (let i = 0; i < a.length; i++) {
-      if (a[i] !== b[i]) return false;
+  async encryptForConversation(conversationId: string, userId: string, message: string): Promise<EncryptedEnvelope> {
+    const device = await this.getDeviceIdentity(userId);
+    const keys = await this.getConversationKeys(conversationId);
+
+    const recipients: RecipientDevice[] = Object.entries(keys).flatMap(([participantId, devices]) =>
+      devices.filter(isActive).map(({ deviceId, publicKey }) => ({ userId: participantId, deviceId, publicKey }))
+    );
+    // The key list may predate this device's publication; always keep our own copy readable
+    if (!recipients.some(recipient => recipient.deviceId === device.deviceId)) {
+      recipients.push({ userId, deviceId: device.deviceId, publicKey: device.publicKey });
     }
-    return true;
+
+    return AdvancedMessageEncryption.encryptMessage(message, conversationId, device, recipients);
   }
 
-  // Get conversation ID for two users
-  getConversationId(user1Id: string, user2Id: string): string {
-    return AdvancedMessageEncryption.generateConversationId(user1Id, user2Id);
+  // The envelope names its sender device; it must be one the sender had published and not yet revoked when sending
+  private async isSenderDevice(
+    envelope: EncryptedEnvelope,
+    conversationId: string,
+    senderId: string,
+    sentAt: string
+  ): Promise<boolean> {
+    const sentTime = new Date(sentAt).getTime();
+    const matches = (devices: PublishedDeviceKey[] = []) => devices.some(key =>
+      key.deviceId === envelope.senderDeviceId &&
+      key.publicKey === envelope.senderPublicKey &&
+      (!key.revokedAt || sentTime < new Date(key.revokedAt).getTime())
+    );
+    if (matches((await this.getConversationKeys(conversationId))[senderId])) return true;
+    // The cached list may predate a device the sender just published
+    const keys = await this.getConversationKeys(conversationId, true);
+    if (senderId in keys) return matches(keys[senderId]);
+    // Participants who left the conversation are no longer in its key list
+    return matches(await this.getUserKeys(senderId));
   }
 
-  // Validate key integrity
-  validateKeyIntegrity(): boolean {
-    try {
-      // Check if master key exists
-      if (!this.masterKey) return false;
-
-      // Check if user keys are valid
-      for (const [userId, keyPair] of this.userKeys) {
-        if (!keyPair.publicKey || !keyPair.privateKey || !keyPair.userId) {
-          return false;
-        }
-      }
+  async decryptForConversation(
+    envelope: EncryptedEnvelope,
+    conversationId: string,
+    userId: string,
+    senderId: string,
+    sentAt: string
+  ): Promise<string> {
+    if (!(await this.isSenderDevice(envelope, conversationId, senderId, sentAt))) {
+      throw new Error("Message was not sent from one of the sender's registered devices");
+    }
 
-      // Check if shared secrets are valid
-      for (const [conversationId, secret] of this.sharedSecrets) {
-        if (!secret.secret || !secret.participants || secret.participants.length === 0) {
-          return false;
-        }
-      }
+    const device = await this.getStoredDevice(userId);
+    // Prefer this device's key, then any restored key the message was addressed to
+    const candidates = [device, ...(device.archivedKeys || [])];
+    const identity = candidates.find(candidate =>
+      envelope.keys.some(key => key.userId === userId && key.deviceId === candidate.deviceId)
+    ) || device;
+    return AdvancedMessageEncryption.decryptMessage(envelope, conversationId, userId, identity);
+  }
 
-      return true;
-    } catch (error) {
-      return false;
+  async getCurrentDeviceId(userId: string): Promise<string> {
+    return (await this.getStoredDevice(userId)).deviceId;
+  }
+
+  async listDevices(): Promise<RegisteredDevice[]> {
+    const response = await api.get('/api/encryption/devices');
+    return response.data.devices || [];
+  }
+
+  async revokeDevice(deviceId: string): Promise<void> {
+    await api.delete(`/api/encryption/devices/${deviceId}`);
+    this.conversationKeys.clear();
+  }
+
+  async getBackupStatus(): Promise<KeyBackupStatus> {
+    const backup = await this.fetchBackup();
+    return { exists: !!backup, updatedAt: backup?.updatedAt, deviceIds: backup?.deviceIds || [] };
+  }
+
+  private async fetchBackup(): Promise<StoredBackup | null> {
+    const response = await api.get('/api/encryption/backup');
+    return response.data.backup || null;
+  }
+
+  /**
+   * Back up this device's key plus every restored key under the passphrase. An
+   * existing backup is merged rather than replaced, so it has to open with the
+   * same passphrase; delete it first to start over with a new one.
+   */
+  async backUpKeys(userId: string, passphrase: string): Promise<KeyBackupStatus> {
+    const device = await this.getStoredDevice(userId);
+    const existing = await this.fetchBackup();
+    const previous = existing ? await AdvancedMessageEncryption.decryptKeyBackup(existing, passphrase) : [];
+
+    const keys = new Map<string, BackedUpKey>(previous.map(key => [key.deviceId, key]));
+    for (const identity of [device, ...(device.archivedKeys || [])]) {
+      keys.set(identity.deviceId, {
+        deviceId: identity.deviceId,
+        publicKey: identity.publicKey,
+        privateKey: await AdvancedMessageEncryption.exportPrivateKey(identity.privateKey)
+      });
     }
+
+    const encrypted = await AdvancedMessageEncryption.encryptKeyBackup([...keys.values()], passphrase);
+    const response = await api.put('/api/encryption/backup', { ...encrypted, deviceIds: [...keys.keys()] });
+    return { exists: true, ...response.data.backup };
   }
 
-  // Rotate keys (for security)
-  async rotateKeys(): Promise<void> {
-    try {
-      // Generate new master key
-      this.generateNewMasterKey();
-      
-      // Clear existing shared secrets (they'll be regenerated when needed)
-      this.sharedSecrets.clear();
-      this.saveSharedSecrets();
-      
-      console.log('Keys rotated successfully');
-    } catch (error) {
-      console.error('Failed to rotate keys:', error);
-      throw error;
+  // Import keys from the backup so messages sent to the user's other devices can be read here
+  async restoreKeys(userId: string, passphrase: string): Promise<number> {
+    const backup = await this.fetchBackup();
+    if (!backup) throw new Error('No key backup found');
+
+    const device = await this.getStoredDevice(userId);
+    const backedUp = await AdvancedMessageEncryption.decryptKeyBackup(backup, passphrase);
+    const archivedKeys = new Map((device.archivedKeys || []).map(key => [key.deviceId, key]));
+    for (const key of backedUp) {
+      if (key.deviceId === device.deviceId) continue;
+      archivedKeys.set(key.deviceId, {
+        deviceId: key.deviceId,
+        publicKey: key.publicKey,
+        privateKey: await AdvancedMessageEncryption.importPrivateKey(key.privateKey)
+      });
     }
+    await this.saveDevice({ ...device, archivedKeys: [...archivedKeys.values()] });
+
+    // Add this device to the backup so the next restore includes it
+    await this.backUpKeys(userId, passphrase);
+    return backedUp.length;
+  }
+
+  async deleteBackup(): Promise<void> {
+    await api.delete('/api/encryption/backup');
+  }
+
+  // Safety number for a conversation between the current user and another user
+  async getSafetyNumber(userId: string, otherUserId: string): Promise<string> {
+    const [mine, theirs] = await Promise.all([userId, otherUserId].map(async (id) => {
+      const response = await api.get(`/api/encryption/users/${id}/keys`);
+      const devices: PublishedDeviceKey[] = response.data.devices || [];
+      return { userId: id, publicKeys: devices.map(device => device.publicKey) };
+    }));
+
+    if (theirs.publicKeys.length === 0) throw new Error('This user has no encryption keys yet');
+    return AdvancedMessageEncryption.computeSafetyNumber(mine, theirs);
   }
 }
 
@@ -0,0 +1,27 @@
+import api from './api';
+
+export interface ActiveSession {
+  id: string;
+  device: string;
+  userAgent: string;
+  ip: string;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
+export const getSessions = async (): Promise<ActiveSession[]> => {
+  const response = await api.get('/api/auth/sessions');
+  return response.data.sessions;
+};
+
+export const revokeSession = async (sessionId: string) => {
+  const response = await api.delete(`/api/auth/sessions/${sessionId}`);
+  return response.data;
+};
+
+// Signs out every device, this one included
+export const revokeAllSessions = async () => {
+  const response = await api.delete('/api/auth/sessions');
+  return response.data;
+};
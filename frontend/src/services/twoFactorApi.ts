@@ -0,0 +1,38 @@
+import api from './api';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export const getTwoFactorStatus = async (): Promise<TwoFactorStatus> => {
+  const response = await api.get('/api/auth/2fa/status');
+  return response.data;
+};
+
+// Starts enrollment; nothing changes until enableTwoFactor confirms a code
+export const setupTwoFactor = async (): Promise<TwoFactorSetup> => {
+  const response = await api.post('/api/auth/2fa/setup');
+  return response.data;
+};
+
+export const enableTwoFactor = async (code: string): Promise<{ recoveryCodes: string[] }> => {
+  const response = await api.post('/api/auth/2fa/enable', { code });
+  return response.data;
+};
+
+export const disableTwoFactor = async (password: string) => {
+  const response = await api.post('/api/auth/2fa/disable', { password });
+  return response.data;
+};
+
+export const regenerateRecoveryCodes = async (password: string): Promise<{ recoveryCodes: string[] }> => {
+  const response = await api.post('/api/auth/2fa/recovery-codes', { password });
+  return response.data;
+};
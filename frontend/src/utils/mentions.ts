@@ -0,0 +1,53 @@
+// Comment mentions travel as @[Display Name](userId); the backend resolves
+// and re-validates them (see backend/services/commentService.js)
+const MENTION_PATTERN = /@\[([^\]\n]{1,100})\]\(([a-f0-9]{24})\)/g;
+
+export interface Mention {
+  id: string;
+  name: string;
+}
+
+export type MentionSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; id: string; name: string };
+
+// Split stored content into plain text and mention segments for rendering
+export const parseMentions = (content: string): MentionSegment[] => {
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ type: 'text', text: content.slice(lastIndex, index) });
+    }
+    segments.push({ type: 'mention', name: match[1], id: match[2] });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < content.length) {
+    segments.push({ type: 'text', text: content.slice(lastIndex) });
+  }
+  return segments;
+};
+
+// Turn stored content into what the comment box shows, e.g. for editing
+export const toEditableText = (content: string): { text: string; mentions: Mention[] } => {
+  const mentions: Mention[] = [];
+  const text = content.replace(MENTION_PATTERN, (match, name: string, id: string) => {
+    mentions.push({ id, name });
+    return `@${name}`;
+  });
+  return { text, mentions };
+};
+
+// Re-encode the @Name references the user picked; mentions typed over or deleted are dropped
+export const toMentionMarkup = (text: string, mentions: Mention[]): string => {
+  const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  // Longest names first so "@Ann Lee" is not claimed by "@Ann"
+  return [...mentions]
+    .sort((a, b) => b.name.length - a.name.length)
+    .reduce((result, mention) => result.replace(
+      new RegExp(`(^|[^\\]\\w])@${escape(mention.name)}(?![\\w\\]])`, 'g'),
+      `$1@[${mention.name}](${mention.id})`
+    ), text);
+};
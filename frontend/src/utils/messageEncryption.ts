@@ -1,273 +1,319 @@
-// Advanced message encryption utility for privacy and security
-export interface EncryptedMessage {
-  encryptedData: string;
+// End-to-end encryption for direct messages, built on WebCrypto.
+//
+// Every device owns an ECDH P-256 key pair. A message body is sealed once with a
+// random AES-GCM message key, and that key is wrapped for each participant device
+// with a key derived from ECDH + HKDF (salted with the conversation id). The
+// server only ever stores the resulting ciphertext.
+
+// Version 3 binds the sender device id into the ciphertext; version 2 envelopes stay readable
+export const E2EE_VERSION = 3;
+export const READABLE_E2EE_VERSIONS = [2, E2EE_VERSION];
+
+export interface WrappedMessageKey {
+  userId: string;
+  deviceId: string;
+  wrappedKey: string;
   iv: string;
-  authTag: string;
-  senderId: string;
-  recipientId?: string;
-  timestamp: number;
-  messageType: 'message' | 'comment';
-  conversationId?: string;
-  postId?: string;
 }
 
-export interface UserKeyPair {
+export interface EncryptedEnvelope {
+  version: number;
+  ciphertext: string;
+  iv: string;
+  senderDeviceId: string;
+  senderPublicKey: string;
+  keys: WrappedMessageKey[];
+}
+
+export interface DeviceIdentity {
+  deviceId: string;
+  publicKey: string; // base64 SPKI
+  privateKey: CryptoKey;
+}
+
+export interface RecipientDevice {
   userId: string;
+  deviceId: string;
   publicKey: string;
-  privateKey: string;
-  createdAt: number;
 }
 
-export interface SharedSecret {
-  conversationId: string;
-  secret: string;
-  participants: string[];
-  createdAt: number;
-  lastUsed: number;
+export interface BackedUpKey {
+  deviceId: string;
+  publicKey: string;
+  privateKey: string; // base64 PKCS#8
 }
 
-export class AdvancedMessageEncryption {
-  private static readonly ALGORITHM = 'AES-GCM';
-  private static readonly KEY_LENGTH = 256;
-  private static readonly IV_LENGTH = 12;
-  private static readonly SALT_LENGTH = 16;
-  private static readonly AUTH_TAG_LENGTH = 128;
-
-  // Generate a secure random string
-  static generateSecureRandomString(length: number): string {
-    const array = new Uint8Array(length / 2);
-    crypto.getRandomValues(array);
-    return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
+export interface EncryptedKeyBackup {
+  ciphertext: string;
+  iv: string;
+  salt: string;
+  iterations: number;
+}
+
+export const toBase64 = (data: ArrayBuffer | Uint8Array): string => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
   }
+  return btoa(binary);
+};
 
-  // Generate a key pair for a user
-  static async generateUserKeyPair(userId: string): Promise<UserKeyPair> {
-    const publicKey = this.generateSecureRandomString(32);
-    const privateKey = this.generateSecureRandomString(64);
+export const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
 
-    return {
-      userId,
-      publicKey,
-      privateKey,
-      createdAt: Date.now()
-    };
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Authenticated data for the message body, so a ciphertext can't be replayed under another sender device
+const messageAdditionalData = (version: number, conversationId: string, senderDeviceId: string): Uint8Array =>
+  encoder.encode(version >= 3 ? `${conversationId}:${senderDeviceId}` : conversationId);
+
+export class AdvancedMessageEncryption {
+  private static readonly CURVE: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' };
+  private static readonly IV_LENGTH = 12;
+  private static readonly MESSAGE_KEY_LENGTH = 32;
+  private static readonly HKDF_INFO = 'inspiranet-dm-v2';
+  private static readonly BACKUP_ITERATIONS = 600000;
+  private static readonly SAFETY_NUMBER_ITERATIONS = 5200;
+
+  // Derived wrapping keys, cached per private key so repeated messages skip ECDH
+  private static derivedKeys = new WeakMap<CryptoKey, Map<string, Promise<CryptoKey>>>();
+
+  // Generate a new device key pair. The private key stays exportable only so it
+  // can be persisted in IndexedDB and backed up by the owner.
+  static async generateDeviceKeyPair(): Promise<CryptoKeyPair> {
+    return crypto.subtle.generateKey(this.CURVE, true, ['deriveBits']);
   }
 
-  // Generate conversation ID for two users
-  static generateConversationId(user1Id: string, user2Id: string): string {
-    const sortedIds = [user1Id, user2Id].sort();
-    return `conv_${sortedIds[0]}_${sortedIds[1]}`;
+  static async exportPublicKey(publicKey: CryptoKey): Promise<string> {
+    return toBase64(await crypto.subtle.exportKey('spki', publicKey));
   }
 
-  // Derive a conversation secret
-  static async deriveConversationSecret(
-    participants: string[],
-    conversationId: string,
-    masterKey: string
-  ): Promise<string> {
-    const encoder = new TextEncoder();
-    const sortedParticipants = [...participants].sort().join(':');
-    const data = `${conversationId}:${sortedParticipants}:${masterKey}`;
-    const dataBuffer = encoder.encode(data);
-
-    const hashBuffer = await crypto.subtle.digest('SHA-256', dataBuffer);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+  static async importPublicKey(publicKey: string): Promise<CryptoKey> {
+    return crypto.subtle.importKey('spki', fromBase64(publicKey), this.CURVE, false, []);
   }
 
-  // Get key from password/secret
-  private static async getKeyFromSecret(secret: string, salt: Uint8Array): Promise<CryptoKey> {
-    const encoder = new TextEncoder();
-    const secretBuffer = encoder.encode(secret);
+  static async exportPrivateKey(privateKey: CryptoKey): Promise<string> {
+    return toBase64(await crypto.subtle.exportKey('pkcs8', privateKey));
+  }
 
-    const baseKey = await crypto.subtle.importKey(
-      'raw',
-      secretBuffer,
-      'PBKDF2',
-      false,
-      ['deriveBits', 'deriveKey']
-    );
+  static async importPrivateKey(privateKey: string): Promise<CryptoKey> {
+    return crypto.subtle.importKey('pkcs8', fromBase64(privateKey), this.CURVE, true, ['deriveBits']);
+  }
 
-    return await crypto.subtle.deriveKey(
-      {
-        name: 'PBKDF2',
-        salt: salt as any,
-        iterations: 100000,
-        hash: 'SHA-256'
-      } as any,
+  private static async deriveBackupKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
       baseKey,
-      {
-        name: this.ALGORITHM,
-        length: this.KEY_LENGTH
-      },
+      { name: 'AES-GCM', length: 256 },
       false,
       ['encrypt', 'decrypt']
     );
   }
 
-  // Encrypt a message
-  static async encryptMessage(
-    message: string,
-    senderId: string,
-    recipientId: string,
-    conversationId: string,
-    sharedSecret: string
-  ): Promise<EncryptedMessage> {
-    const salt = crypto.getRandomValues(new Uint8Array(this.SALT_LENGTH));
-    const key = await this.getKeyFromSecret(sharedSecret, salt);
-
+  // Seal device private keys under a passphrase so they can be stored server-side
+  static async encryptKeyBackup(keys: BackedUpKey[], passphrase: string): Promise<EncryptedKeyBackup> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
     const iv = crypto.getRandomValues(new Uint8Array(this.IV_LENGTH));
-    const encoder = new TextEncoder();
-    const data = encoder.encode(message);
+    const backupKey = await this.deriveBackupKey(passphrase, salt, this.BACKUP_ITERATIONS);
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, backupKey, encoder.encode(JSON.stringify(keys)));
 
-    const encryptedContent = await crypto.subtle.encrypt(
-      {
-        name: this.ALGORITHM,
-        iv: iv,
-        tagLength: this.AUTH_TAG_LENGTH
-      },
-      key,
-      data
+    return {
+      ciphertext: toBase64(ciphertext),
+      iv: toBase64(iv),
+      salt: toBase64(salt),
+      iterations: this.BACKUP_ITERATIONS
+    };
+  }
+
+  // Throws when the passphrase is wrong (AES-GCM authentication fails)
+  static async decryptKeyBackup(backup: EncryptedKeyBackup, passphrase: string): Promise<BackedUpKey[]> {
+    const backupKey = await this.deriveBackupKey(passphrase, fromBase64(backup.salt), backup.iterations);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(backup.iv) },
+      backupKey,
+      fromBase64(backup.ciphertext)
     );
+    return JSON.parse(decoder.decode(plaintext));
+  }
 
-    const encryptedArray = new Uint8Array(encryptedContent);
-    const authTag = encryptedArray.slice(-this.AUTH_TAG_LENGTH / 8);
-    const encryptedData = encryptedArray.slice(0, -this.AUTH_TAG_LENGTH / 8);
+  // 30-digit fingerprint of one user's device keys (iterated SHA-512, as in Signal's safety numbers)
+  private static async fingerprint(userId: string, publicKeys: string[]): Promise<string> {
+    const keyBytes = [...publicKeys].sort().map(fromBase64);
+    const total = keyBytes.reduce((sum, bytes) => sum + bytes.length, 0);
+    const keys = new Uint8Array(total);
+    keyBytes.reduce((offset, bytes) => {
+      keys.set(bytes, offset);
+      return offset + bytes.length;
+    }, 0);
+
+    let hash = new Uint8Array(await crypto.subtle.digest('SHA-512', new Uint8Array([...encoder.encode(userId), ...keys])));
+    for (let i = 1; i < this.SAFETY_NUMBER_ITERATIONS; i++) {
+      hash = new Uint8Array(await crypto.subtle.digest('SHA-512', new Uint8Array([...hash, ...keys])));
+    }
 
-    return {
-      encryptedData: btoa(String.fromCharCode(...encryptedData)),
-      iv: btoa(String.fromCharCode(...iv)),
-      authTag: btoa(String.fromCharCode(...authTag)),
-      senderId,
-      recipientId,
-      timestamp: Date.now(),
-      messageType: 'message',
-      conversationId
-    };
+    let digits = '';
+    for (let chunk = 0; chunk < 6; chunk++) {
+      let value = 0;
+      for (let i = 0; i < 5; i++) {
+        value = value * 256 + hash[chunk * 5 + i];
+      }
+      digits += String(value % 100000).padStart(5, '0');
+    }
+    return digits;
   }
 
-  // Decrypt a message
-  static async decryptMessage(
-    message: EncryptedMessage,
-    sharedSecret: string,
-    conversationId: string
+  // 60-digit number that's identical on both sides only if neither user's keys were swapped
+  static async computeSafetyNumber(
+    first: { userId: string; publicKeys: string[] },
+    second: { userId: string; publicKeys: string[] }
   ): Promise<string> {
-    try {
-      const salt = new Uint8Array(this.SALT_LENGTH); // In a real production app, we'd store salt too
-      const key = await this.getKeyFromSecret(sharedSecret, salt);
-
-      const iv = new Uint8Array(atob(message.iv).split('').map(c => c.charCodeAt(0)));
-      const encryptedData = new Uint8Array(atob(message.encryptedData).split('').map(c => c.charCodeAt(0)));
-      const authTag = new Uint8Array(atob(message.authTag).split('').map(c => c.charCodeAt(0)));
-
-      const combinedData = new Uint8Array(encryptedData.length + authTag.length);
-      combinedData.set(encryptedData);
-      combinedData.set(authTag, encryptedData.length);
-
-      const decryptedBuffer = await crypto.subtle.decrypt(
-        {
-          name: this.ALGORITHM,
-          iv: iv,
-          tagLength: this.AUTH_TAG_LENGTH
-        },
-        key,
-        combinedData
-      );
+    const [a, b] = [first, second].sort((x, y) => x.userId.localeCompare(y.userId));
+    return (await this.fingerprint(a.userId, a.publicKeys)) + (await this.fingerprint(b.userId, b.publicKeys));
+  }
 
-      const decoder = new TextDecoder();
-      return decoder.decode(decryptedBuffer);
-    } catch (error) {
-      console.error('Decryption failed:', error);
-      return '[Message decryption failed]';
+  // Key used to wrap message keys between two devices in one conversation
+  static deriveConversationKey(
+    privateKey: CryptoKey,
+    peerPublicKey: string,
+    conversationId: string,
+    senderDeviceId: string,
+    recipientDeviceId: string
+  ): Promise<CryptoKey> {
+    const cacheKey = [peerPublicKey, conversationId, senderDeviceId, recipientDeviceId].join('|');
+    let cache = this.derivedKeys.get(privateKey);
+    if (!cache) {
+      cache = new Map();
+      this.derivedKeys.set(privateKey, cache);
     }
+
+    let derived = cache.get(cacheKey);
+    if (!derived) {
+      derived = (async () => {
+        const peer = await this.importPublicKey(peerPublicKey);
+        const sharedBits = await crypto.subtle.deriveBits({ name: 'ECDH', public: peer }, privateKey, 256);
+        const hkdfKey = await crypto.subtle.importKey('raw', sharedBits, 'HKDF', false, ['deriveKey']);
+
+        return crypto.subtle.deriveKey(
+          {
+            name: 'HKDF',
+            hash: 'SHA-256',
+            salt: encoder.encode(conversationId),
+            info: encoder.encode(`${this.HKDF_INFO}:${senderDeviceId}:${recipientDeviceId}`)
+          },
+          hkdfKey,
+          { name: 'AES-GCM', length: 256 },
+          false,
+          ['encrypt', 'decrypt']
+        );
+      })();
+      // Don't keep failed derivations around (e.g. a malformed peer key)
+      derived.catch(() => cache!.delete(cacheKey));
+      cache.set(cacheKey, derived);
+    }
+    return derived;
   }
 
-  // Encrypt a comment
-  static async encryptComment(
-    content: string,
-    senderId: string,
-    postId: string,
-    postAuthorId: string,
-    sharedSecret: string
-  ): Promise<EncryptedMessage> {
-    const salt = crypto.getRandomValues(new Uint8Array(this.SALT_LENGTH));
-    const key = await this.getKeyFromSecret(sharedSecret, salt);
+  // Encrypt a message for every given device (include the sender's own devices to keep history readable)
+  static async encryptMessage(
+    message: string,
+    conversationId: string,
+    sender: DeviceIdentity,
+    recipients: RecipientDevice[]
+  ): Promise<EncryptedEnvelope> {
+    if (recipients.length === 0) {
+      throw new Error('No recipient devices to encrypt for');
+    }
 
+    const rawMessageKey = crypto.getRandomValues(new Uint8Array(this.MESSAGE_KEY_LENGTH));
+    const messageKey = await crypto.subtle.importKey('raw', rawMessageKey, 'AES-GCM', false, ['encrypt']);
     const iv = crypto.getRandomValues(new Uint8Array(this.IV_LENGTH));
-    const encoder = new TextEncoder();
-    const data = encoder.encode(content);
 
-    const encryptedContent = await crypto.subtle.encrypt(
-      {
-        name: this.ALGORITHM,
-        iv: iv,
-        tagLength: this.AUTH_TAG_LENGTH
-      },
-      key,
-      data
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: messageAdditionalData(E2EE_VERSION, conversationId, sender.deviceId) },
+      messageKey,
+      encoder.encode(message)
     );
 
-    const encryptedArray = new Uint8Array(encryptedContent);
-    const authTag = encryptedArray.slice(-this.AUTH_TAG_LENGTH / 8);
-    const encryptedData = encryptedArray.slice(0, -this.AUTH_TAG_LENGTH / 8);
+    const keys = await Promise.all(recipients.map(async (recipient) => {
+      const wrappingKey = await this.deriveConversationKey(
+        sender.privateKey,
+        recipient.publicKey,
+        conversationId,
+        sender.deviceId,
+        recipient.deviceId
+      );
+      const wrapIv = crypto.getRandomValues(new Uint8Array(this.IV_LENGTH));
+      const wrappedKey = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: wrapIv }, wrappingKey, rawMessageKey);
+
+      return {
+        userId: recipient.userId,
+        deviceId: recipient.deviceId,
+        wrappedKey: toBase64(wrappedKey),
+        iv: toBase64(wrapIv)
+      };
+    }));
 
     return {
-      encryptedData: btoa(String.fromCharCode(...encryptedData)),
-      iv: btoa(String.fromCharCode(...iv)),
-      authTag: btoa(String.fromCharCode(...authTag)),
-      senderId,
-      postId,
-      timestamp: Date.now(),
-      messageType: 'comment'
+      version: E2EE_VERSION,
+      ciphertext: toBase64(ciphertext),
+      iv: toBase64(iv),
+      senderDeviceId: sender.deviceId,
+      senderPublicKey: sender.publicKey,
+      keys
     };
   }
 
-  // Decrypt a comment
-  static async decryptComment(
-    message: EncryptedMessage,
-    sharedSecret: string,
-    postId: string
+  /**
+   * Decrypt a message addressed to this device. Throws if it wasn't encrypted for us or was tampered with.
+   * The envelope's sender key is taken as given: callers must check it against the sender's published devices.
+   */
+  static async decryptMessage(
+    envelope: EncryptedEnvelope,
+    conversationId: string,
+    userId: string,
+    device: DeviceIdentity
   ): Promise<string> {
-    try {
-      const salt = new Uint8Array(this.SALT_LENGTH);
-      const key = await this.getKeyFromSecret(sharedSecret, salt);
-
-      const iv = new Uint8Array(atob(message.iv).split('').map(c => c.charCodeAt(0)));
-      const encryptedData = new Uint8Array(atob(message.encryptedData).split('').map(c => c.charCodeAt(0)));
-      const authTag = new Uint8Array(atob(message.authTag).split('').map(c => c.charCodeAt(0)));
-
-      const combinedData = new Uint8Array(encryptedData.length + authTag.length);
-      combinedData.set(encryptedData);
-      combinedData.set(authTag, encryptedData.length);
-
-      const decryptedBuffer = await crypto.subtle.decrypt(
-        {
-          name: this.ALGORITHM,
-          iv: iv,
-          tagLength: this.AUTH_TAG_LENGTH
-        },
-        key,
-        combinedData
-      );
+    if (!READABLE_E2EE_VERSIONS.includes(envelope.version)) {
+      throw new Error(`Unsupported envelope version ${envelope.version}`);
+    }
 
-      const decoder = new TextDecoder();
-      return decoder.decode(decryptedBuffer);
-    } catch (error) {
-      console.error('Comment decryption failed:', error);
-      return '[Comment decryption failed]';
+    const entry = envelope.keys.find(key => key.userId === userId && key.deviceId === device.deviceId);
+    if (!entry) {
+      throw new Error('Message was not encrypted for this device');
     }
+
+    const wrappingKey = await this.deriveConversationKey(
+      device.privateKey,
+      envelope.senderPublicKey,
+      conversationId,
+      envelope.senderDeviceId,
+      device.deviceId
+    );
+    const rawMessageKey = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(entry.iv) },
+      wrappingKey,
+      fromBase64(entry.wrappedKey)
+    );
+    const messageKey = await crypto.subtle.importKey('raw', rawMessageKey, 'AES-GCM', false, ['decrypt']);
+
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: fromBase64(envelope.iv),
+        additionalData: messageAdditionalData(envelope.version, conversationId, envelope.senderDeviceId)
+      },
+      messageKey,
+      fromBase64(envelope.ciphertext)
+    );
+    return decoder.decode(plaintext);
   }
 }
-
-// Support legacy exports for backward compatibility
-export const MessageEncryption = AdvancedMessageEncryption;
-export const encryptMessage = async (message: string, participantIds: string[]) => {
-  // Legacy simpler implementation or wrapper
-  return message;
-};
-export const decryptMessage = async (encrypted: string, participantIds: string[]) => {
-  return encrypted;
-};
-export const generateConversationKey = (participantIds: string[]) => {
-  return participantIds.sort().join('|');
-};